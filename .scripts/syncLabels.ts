@@ -0,0 +1,3 @@
+import { syncGitHubLabelsCommand } from "../lib";
+
+syncGitHubLabelsCommand();
@@ -0,0 +1,315 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for
+ * license information.
+ */
+
+import { contains, where } from "./arrays";
+import { getLines, StringMap } from "./common";
+import { readFileContents, writeFileContents } from "./fileSystem2";
+import { ExecutableGit, Git } from "./git";
+import { Version } from "./version";
+
+/**
+ * A commit whose message follows the conventional commits format, such as
+ * "feat(git): Add blame()".
+ */
+export interface ConventionalCommit {
+  /**
+   * The SHA of the commit.
+   */
+  sha: string;
+  /**
+   * The type of the change, such as "feat" or "fix".
+   */
+  type: string;
+  /**
+   * The scope of the change, such as the "git" in "feat(git): Add blame()".
+   */
+  scope?: string;
+  /**
+   * The description of the change that follows the type and scope.
+   */
+  description: string;
+  /**
+   * Whether or not this commit contains a breaking change.
+   */
+  breaking: boolean;
+  /**
+   * The descriptions from the commit's "BREAKING CHANGE:" footers. If the commit was marked as
+   * breaking with a "!" but has no footers, then this will contain the commit's description.
+   */
+  breakingChanges: string[];
+  /**
+   * The commit that this conventional commit was parsed from.
+   */
+  commit: Git.Commit;
+}
+
+/**
+ * The type of version bump that a set of changes requires.
+ */
+export type VersionBump = "major" | "minor" | "patch" | "none";
+
+/**
+ * Options that can be provided when getting the changelog between two refs.
+ */
+export interface GetChangelogOptions extends ExecutableGit.Options {
+  /**
+   * The tag or ref of the previous release. If this isn't provided, then all of the commits that
+   * are reachable from toRef will be included.
+   */
+  fromRef?: string;
+  /**
+   * The tag or ref of the new release. Defaults to "HEAD".
+   */
+  toRef?: string;
+  /**
+   * The paths that the commits must have changed to be included, such as a package's folder.
+   */
+  paths?: string | string[];
+  /**
+   * The version of the previous release. If this is provided, then the next version will be
+   * suggested.
+   */
+  currentVersion?: string | Version;
+}
+
+/**
+ * The conventional commits between two refs and the version bump that they require.
+ */
+export interface Changelog {
+  /**
+   * The conventional commits between the two refs, from oldest to newest. Commits that don't
+   * follow the conventional commits format are not included.
+   */
+  commits: ConventionalCommit[];
+  /**
+   * The version bump that the commits require.
+   */
+  versionBump: VersionBump;
+  /**
+   * The suggested next version. This is only populated when the current version was provided.
+   */
+  nextVersion?: Version;
+}
+
+/**
+ * Options that can be provided when rendering a changelog section.
+ */
+export interface RenderChangelogSectionOptions {
+  /**
+   * The date of the release. If this isn't provided, then no date will be rendered.
+   */
+  date?: Date;
+  /**
+   * The headings for the commit types that will be rendered, in the order that they will be
+   * rendered. Commits with types that don't have a heading are not rendered. Defaults to
+   * defaultChangelogSectionHeadings.
+   */
+  sectionHeadings?: StringMap<string>;
+}
+
+/**
+ * The default headings for the commit types that are rendered in a changelog section.
+ */
+export const defaultChangelogSectionHeadings: StringMap<string> = {
+  feat: "Features",
+  fix: "Bug Fixes",
+  perf: "Performance Improvements",
+  revert: "Reverts",
+};
+
+/**
+ * The regular expression used to parse the header of a conventional commit message.
+ */
+const conventionalCommitHeaderRegExp: RegExp = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+
+/**
+ * The regular expression used to find the breaking change footers in a commit message body.
+ */
+const breakingChangeFooterRegExp: RegExp = /^BREAKING[ -]CHANGE:\s*(.*)$/;
+
+/**
+ * Parse the provided commit as a conventional commit. If the commit's subject doesn't follow the
+ * conventional commits format, then undefined will be returned.
+ * @param commit The commit to parse.
+ */
+export function parseConventionalCommit(commit: Git.Commit): ConventionalCommit | undefined {
+  let result: ConventionalCommit | undefined;
+  const headerMatch: RegExpMatchArray | null = commit.subject.match(conventionalCommitHeaderRegExp);
+  if (headerMatch) {
+    const description: string = headerMatch[4].trim();
+    const breakingChanges: string[] = [];
+    for (const line of getLines(commit.body)) {
+      const footerMatch: RegExpMatchArray | null = line.match(breakingChangeFooterRegExp);
+      if (footerMatch) {
+        breakingChanges.push(footerMatch[1].trim());
+      }
+    }
+    if (headerMatch[3] && breakingChanges.length === 0) {
+      breakingChanges.push(description);
+    }
+    result = {
+      sha: commit.sha,
+      type: headerMatch[1].toLowerCase(),
+      scope: headerMatch[2] || undefined,
+      description,
+      breaking: breakingChanges.length > 0,
+      breakingChanges,
+      commit,
+    };
+  }
+  return result;
+}
+
+/**
+ * Get the version bump that the provided conventional commits require. Breaking changes require a
+ * major bump, features require a minor bump, and fixes and performance improvements require a
+ * patch bump.
+ * @param commits The conventional commits to check.
+ */
+export function getVersionBump(commits: ConventionalCommit[]): VersionBump {
+  let result: VersionBump = "none";
+  for (const commit of commits) {
+    if (commit.breaking) {
+      result = "major";
+      break;
+    } else if (commit.type === "feat") {
+      result = "minor";
+    } else if (result === "none" && contains(["fix", "perf"], commit.type)) {
+      result = "patch";
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the version that follows the provided version after applying the provided version bump. The
+ * provided version is not modified. A prerelease version (such as "2.0.0-beta.1") is followed by
+ * its release version ("2.0.0") if that release already includes the version bump.
+ * @param currentVersion The current version.
+ * @param versionBump The version bump to apply.
+ */
+export function getNextVersion(currentVersion: string | Version, versionBump: VersionBump): Version {
+  const result = new Version(currentVersion.toString());
+  const isPrerelease = !!result.suffix;
+  switch (versionBump) {
+    case "major":
+      if (!isPrerelease || result.minor !== 0 || result.patch !== 0) {
+        result.bumpMajor();
+      }
+      break;
+
+    case "minor":
+      if (!isPrerelease || result.patch !== 0) {
+        result.bumpMinor();
+      }
+      break;
+
+    case "patch":
+      if (!isPrerelease) {
+        result.bumpPatch();
+      }
+      break;
+  }
+  if (versionBump !== "none") {
+    result.suffix = undefined;
+  }
+  return result;
+}
+
+/**
+ * Get the conventional commits between the provided refs and the version bump that they require.
+ * @param git The Git repository to read the commits from.
+ * @param options The options that determine which commits will be read.
+ */
+export async function getChangelog(git: Git, options: GetChangelogOptions = {}): Promise<Changelog> {
+  const toRef: string = options.toRef || "HEAD";
+  const logOptions: Git.LogOptions = {
+    ...options,
+    range: options.fromRef ? `${options.fromRef}..${toRef}` : toRef,
+  };
+  // Git implementations that run commands (such as ExecutableGit) report failures with an exit code.
+  const logResult: Git.LogResult & Partial<ExecutableGit.Result> = await git.log(logOptions);
+  if (logResult.exitCode) {
+    throw new Error(`Failed to read the commits between "${options.fromRef}" and "${toRef}": ${logResult.stderr}`);
+  }
+
+  const commits: ConventionalCommit[] = [];
+  for (const commit of logResult.commits) {
+    const conventionalCommit: ConventionalCommit | undefined = parseConventionalCommit(commit);
+    if (conventionalCommit) {
+      commits.unshift(conventionalCommit);
+    }
+  }
+  const versionBump: VersionBump = getVersionBump(commits);
+  return {
+    commits,
+    versionBump,
+    nextVersion: options.currentVersion ? getNextVersion(options.currentVersion, versionBump) : undefined,
+  };
+}
+
+/**
+ * Render the provided conventional commits as a Markdown changelog section.
+ * @param version The version that the changelog section describes.
+ * @param commits The conventional commits to render.
+ * @param options The options that determine how the section will be rendered.
+ */
+export function renderChangelogSection(version: string | Version, commits: ConventionalCommit[], options: RenderChangelogSectionOptions = {}): string {
+  const sectionHeadings: StringMap<string> = options.sectionHeadings || defaultChangelogSectionHeadings;
+
+  let result = `## ${version}`;
+  if (options.date) {
+    result += ` (${options.date.toISOString().substring(0, 10)})`;
+  }
+  result += "\n";
+
+  const breakingCommits: ConventionalCommit[] = where(commits, (commit: ConventionalCommit) => commit.breaking);
+  if (breakingCommits.length > 0) {
+    result += "\n### BREAKING CHANGES\n\n";
+    for (const commit of breakingCommits) {
+      for (const breakingChange of commit.breakingChanges) {
+        result += renderChangelogEntry(commit, breakingChange);
+      }
+    }
+  }
+
+  for (const type of Object.keys(sectionHeadings)) {
+    const typeCommits: ConventionalCommit[] = where(commits, (commit: ConventionalCommit) => commit.type === type);
+    if (typeCommits.length > 0) {
+      result += `\n### ${sectionHeadings[type]}\n\n`;
+      for (const commit of typeCommits) {
+        result += renderChangelogEntry(commit, commit.description);
+      }
+    }
+  }
+
+  return result;
+}
+
+function renderChangelogEntry(commit: ConventionalCommit, text: string): string {
+  const scope: string = commit.scope ? `**${commit.scope}:** ` : "";
+  return `- ${scope}${text} (${commit.sha.substring(0, 7)})\n`;
+}
+
+/**
+ * Add the provided changelog section to the top of the changelog file at the provided path. If the
+ * file starts with a top-level "# " heading, then the section will be added after that heading. If
+ * the file doesn't exist, then it will be created.
+ * @param changelogFilePath The path to the changelog file.
+ * @param section The changelog section to add.
+ */
+export async function prependChangelogSection(changelogFilePath: string, section: string): Promise<void> {
+  const existingContents: string = (await readFileContents(changelogFilePath)) || "";
+  const trimmedSection: string = section.trim();
+  let newContents: string;
+  const titleMatch: RegExpMatchArray | null = existingContents.match(/^# .*(\r?\n)+/);
+  if (titleMatch) {
+    newContents = `${titleMatch[0]}${trimmedSection}\n\n${existingContents.substring(titleMatch[0].length)}`;
+  } else {
+    newContents = `${trimmedSection}\n\n${existingContents}`;
+  }
+  await writeFileContents(changelogFilePath, `${newContents.trim()}\n`);
+}
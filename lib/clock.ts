@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for
+ * license information.
+ */
+
+import { Duration } from "./duration";
+
+/**
+ * A handle to a callback that was scheduled with a Clock.
+ */
+export type ClockTimeout = unknown;
+
+/**
+ * An object that provides the current time and schedules callbacks.
+ */
+export interface Clock {
+  /**
+   * Get the current time.
+   */
+  now(): Date;
+
+  /**
+   * Run the provided callback after the provided delay.
+   * @param callback The callback to run.
+   * @param delay The amount of time to wait before running the callback.
+   * @returns A handle that can be passed to clearTimeout() to cancel the callback.
+   */
+  setTimeout(callback: () => unknown, delay: Duration): ClockTimeout;
+
+  /**
+   * Cancel the callback with the provided handle if it hasn't run yet.
+   * @param timeout The handle that was returned from setTimeout().
+   */
+  clearTimeout(timeout: ClockTimeout): void;
+}
+
+/**
+ * A Clock that uses the system time and timers.
+ */
+export class RealClock implements Clock {
+  public now(): Date {
+    return new Date();
+  }
+
+  public setTimeout(callback: () => unknown, delay: Duration): ClockTimeout {
+    return setTimeout(callback, delay.toMilliseconds().value);
+  }
+
+  public clearTimeout(timeout: ClockTimeout): void {
+    clearTimeout(timeout as NodeJS.Timer);
+  }
+}
+
+interface FakeClockTimeout {
+  id: number;
+  dueTime: number;
+  callback: () => unknown;
+}
+
+/**
+ * A Clock whose time only moves when advance() is called.
+ */
+export class FakeClock implements Clock {
+  private currentTime: number;
+  private nextTimeoutId = 1;
+  private readonly timeouts: FakeClockTimeout[] = [];
+
+  /**
+   * Create a new FakeClock.
+   * @param startTime The time that the FakeClock will start at. Defaults to the current time.
+   */
+  constructor(startTime: Date = new Date()) {
+    this.currentTime = startTime.valueOf();
+  }
+
+  public now(): Date {
+    return new Date(this.currentTime);
+  }
+
+  public setTimeout(callback: () => unknown, delay: Duration): ClockTimeout {
+    const id: number = this.nextTimeoutId++;
+    this.timeouts.push({ id, dueTime: this.currentTime + delay.toMilliseconds().value, callback });
+    return id;
+  }
+
+  public clearTimeout(timeout: ClockTimeout): void {
+    const index: number = this.timeouts.findIndex((fakeTimeout: FakeClockTimeout) => fakeTimeout.id === timeout);
+    if (index !== -1) {
+      this.timeouts.splice(index, 1);
+    }
+  }
+
+  /**
+   * Get the number of callbacks that are waiting to run.
+   */
+  public get pendingTimeoutCount(): number {
+    return this.timeouts.length;
+  }
+
+  /**
+   * Move this clock's time forward by the provided duration. Each callback that becomes due is run
+   * in order, and the returned Promise resolves after all of them (and the Promises that they
+   * return) have finished.
+   * @param duration The amount of time to move forward.
+   */
+  public async advance(duration: Duration): Promise<void> {
+    const endTime: number = this.currentTime + duration.toMilliseconds().value;
+    let nextTimeout: FakeClockTimeout | undefined = this.getNextTimeout(endTime);
+    while (nextTimeout) {
+      this.timeouts.splice(this.timeouts.indexOf(nextTimeout), 1);
+      this.currentTime = nextTimeout.dueTime;
+      await Promise.resolve(nextTimeout.callback());
+      nextTimeout = this.getNextTimeout(endTime);
+    }
+    this.currentTime = endTime;
+  }
+
+  private getNextTimeout(endTime: number): FakeClockTimeout | undefined {
+    let result: FakeClockTimeout | undefined;
+    for (const timeout of this.timeouts) {
+      if (timeout.dueTime <= endTime && (!result || timeout.dueTime < result.dueTime)) {
+        result = timeout;
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Get a Promise that resolves after the provided duration has passed on the provided clock.
+ * @param duration The amount of time to wait.
+ * @param clock The clock to wait on. Defaults to a RealClock.
+ */
+export function delay(duration: Duration, clock: Clock = new RealClock()): Promise<void> {
+  return new Promise((resolve) => {
+    clock.setTimeout(resolve, duration);
+  });
+}
@@ -4,12 +4,15 @@
  * license information.
  */
 
-import { toArray, where } from "./arrays";
+import { contains, map, toArray, where } from "./arrays";
 import { getLines, replaceAll, StringMap } from "./common";
-import { joinPath } from "./path";
+import { readFileContents } from "./fileSystem2";
+import { isRooted, joinPath, normalizePath, pathRelativeTo } from "./path";
 import { run, RunOptions, RunResult } from "./run";
+import { createHash } from "crypto";
 import { mkdirSync } from "fs";
 import { URLBuilder } from "./url";
+import { Version } from "./version";
 
 /**
  * A set of interfaces and types that relate to the Git interface.
@@ -373,6 +376,100 @@ export namespace Git {
     keepIndex?: boolean;
     all?: boolean;
   }
+
+  /**
+   * Options that can be passed to "git log".
+   */
+  export interface LogOptions {
+    /**
+     * The revision range to get the commits of, such as "v1.0.0..HEAD". Defaults to the history of
+     * HEAD.
+     */
+    range?: string;
+    /**
+     * Only include commits that modified the provided paths.
+     */
+    paths?: string | string[];
+    /**
+     * Only include commits whose author matches the provided pattern.
+     */
+    author?: string;
+    /**
+     * The maximum number of commits to return.
+     */
+    maxCount?: number;
+  }
+
+  /**
+   * A "<token>: <value>" trailer line at the end of a commit message, such as
+   * "Signed-off-by: Jane Doe <jane@example.com>".
+   */
+  export interface CommitTrailer {
+    /**
+     * The token (key) of the trailer.
+     */
+    token: string;
+    /**
+     * The value of the trailer.
+     */
+    value: string;
+  }
+
+  /**
+   * A commit in a repository's history.
+   */
+  export interface Commit {
+    /**
+     * The SHA of the commit.
+     */
+    sha: string;
+    /**
+     * The SHAs of the commit's parents.
+     */
+    parents: string[];
+    /**
+     * The person who authored the changes of the commit.
+     */
+    author: Author;
+    /**
+     * The date when the changes of the commit were authored.
+     */
+    authorDate: Date;
+    /**
+     * The person who created the commit.
+     */
+    committer: Author;
+    /**
+     * The date when the commit was created.
+     */
+    committerDate: Date;
+    /**
+     * The first line of the commit message.
+     */
+    subject: string;
+    /**
+     * The rest of the commit message after the subject, including any trailers.
+     */
+    body: string;
+    /**
+     * The trailers at the end of the commit message.
+     */
+    trailers: CommitTrailer[];
+    /**
+     * The files that were changed by the commit.
+     */
+    filesChanged: string[];
+  }
+
+  /**
+   * The result of a "git log" command.
+   */
+  export interface LogResult {
+    /**
+     * The commits that matched the log options, newest first.
+     */
+    commits: Commit[];
+  }
 }
 
 /**
@@ -538,6 +635,12 @@ export interface Git {
   listRemotes(): Promise<Git.ListRemotesResult>;
 
   stash(options: ExecutableGit.StashOptions): Promise<ExecutableGit.Result>;
+
+  /**
+   * Get the commits in the repository's history.
+   * @param options The options for determining which commits will be returned.
+   */
+  log(options?: Git.LogOptions): Promise<Git.LogResult>;
 }
 
 /**
@@ -615,6 +718,11 @@ export namespace ExecutableGit {
      */
     depth?: number;
 
+    /**
+     * Deepen the history of a shallow repository by the provided number of commits.
+     */
+    deepen?: number;
+
     /**
      * Name of the remote repo to fetch
      */
@@ -656,6 +764,45 @@ export namespace ExecutableGit {
      * Run verbosely. Does not affect the reporting of progress status to the standard error stream.
      */
     verbose?: boolean;
+    /**
+     * Initialize and clone the submodules (and their submodules) after the clone is created.
+     */
+    recurseSubmodules?: boolean;
+    /**
+     * Create a shallow clone with a history after the provided date.
+     */
+    shallowSince?: Date | string;
+    /**
+     * Create a partial clone that omits blobs ("blob:none") or trees and blobs ("tree:0") until
+     * they are needed.
+     */
+    filter?: CloneFilter;
+    /**
+     * Clone only the history that leads to the tip of a single branch (either the branch option or
+     * the remote's HEAD).
+     */
+    singleBranch?: boolean;
+    /**
+     * The cone-mode sparse-checkout folders to check out after the clone is created, such as
+     * "specification/storage". If this is provided, then only the files in the root folder and in
+     * these folders will be checked out.
+     */
+    sparseCheckoutPatterns?: string[];
+  }
+
+  /**
+   * The partial clone filters that can be passed to "git clone".
+   */
+  export type CloneFilter = "blob:none" | "tree:0";
+
+  /**
+   * Options that can be passed to "git sparse-checkout set".
+   */
+  export interface SparseCheckoutSetOptions extends Options {
+    /**
+     * Interpret the patterns as gitignore-style patterns instead of cone-mode folder paths.
+     */
+    noCone?: boolean;
   }
 
   /**
@@ -684,6 +831,12 @@ export namespace ExecutableGit {
      * branch.
      */
     setUpstream?: boolean | string;
+    /**
+     * Whether or not to push all of the local tags along with the branch. If setUpstream isn't
+     * provided, then the branch is pushed to the remote in its branch.<name>.remote configuration
+     * value (or "origin").
+     */
+    tags?: boolean;
   }
 
   /**
@@ -718,6 +871,125 @@ export namespace ExecutableGit {
    * The result of a "git diff" command.
    */
   export interface DiffResult extends Git.DiffResult, Result {
+    /**
+     * The parsed files and hunks of the diff. This is only populated when the full diff (not
+     * nameOnly) was requested.
+     */
+    files?: DiffFile[];
+  }
+
+  /**
+   * The way that a file was changed in a diff.
+   */
+  export type DiffFileStatus = "added" | "deleted" | "modified" | "renamed" | "copied";
+
+  /**
+   * A file in a parsed diff.
+   */
+  export interface DiffFile {
+    /**
+     * The path of the file before the change, relative to the root of the repository. This is
+     * undefined if the file was added.
+     */
+    oldPath?: string;
+    /**
+     * The path of the file after the change, relative to the root of the repository. This is
+     * undefined if the file was deleted.
+     */
+    newPath?: string;
+    /**
+     * The way that the file was changed.
+     */
+    status: DiffFileStatus;
+    /**
+     * The file mode before the change, if the diff reported it.
+     */
+    oldMode?: string;
+    /**
+     * The file mode after the change, if the diff reported it.
+     */
+    newMode?: string;
+    /**
+     * The similarity percentage of a renamed or copied file.
+     */
+    similarity?: number;
+    /**
+     * Whether or not the file is a binary file. Binary files don't have hunks.
+     */
+    binary: boolean;
+    /**
+     * The number of lines that were added to the file.
+     */
+    additions: number;
+    /**
+     * The number of lines that were removed from the file.
+     */
+    deletions: number;
+    /**
+     * The changed regions of the file.
+     */
+    hunks: DiffHunk[];
+  }
+
+  /**
+   * A changed region of a file in a parsed diff.
+   */
+  export interface DiffHunk {
+    /**
+     * The line number in the old file where this hunk starts.
+     */
+    oldStart: number;
+    /**
+     * The number of lines from the old file that this hunk covers.
+     */
+    oldLines: number;
+    /**
+     * The line number in the new file where this hunk starts.
+     */
+    newStart: number;
+    /**
+     * The number of lines from the new file that this hunk covers.
+     */
+    newLines: number;
+    /**
+     * The text after the hunk's range header, which is usually the enclosing function or section.
+     */
+    heading: string;
+    /**
+     * The lines of this hunk.
+     */
+    lines: DiffLine[];
+  }
+
+  /**
+   * The type of a line in a diff hunk.
+   */
+  export type DiffLineType = "added" | "removed" | "context";
+
+  /**
+   * A line in a diff hunk.
+   */
+  export interface DiffLine {
+    /**
+     * Whether this line was added, removed, or is unchanged context.
+     */
+    type: DiffLineType;
+    /**
+     * The text of the line without its leading "+", "-" or " " marker.
+     */
+    content: string;
+    /**
+     * The number of this line in the old file. This is undefined for added lines.
+     */
+    oldLineNumber?: number;
+    /**
+     * The number of this line in the new file. This is undefined for removed lines.
+     */
+    newLineNumber?: number;
+    /**
+     * Whether or not this line is the last line of its file and isn't followed by a newline.
+     */
+    noNewlineAtEndOfFile?: boolean;
   }
 
   /**
@@ -740,6 +1012,34 @@ export namespace ExecutableGit {
    * The result of getting the status of the current branch.
    */
   export interface StatusResult extends Git.StatusResult, Result {
+    /**
+     * The submodules whose checked out commit or contents don't match the commit that is recorded
+     * in the superproject.
+     */
+    driftedSubmodules: DriftedSubmodule[];
+  }
+
+  /**
+   * A submodule whose checked out state has drifted from what the superproject records.
+   */
+  export interface DriftedSubmodule {
+    /**
+     * The absolute path to the submodule's folder.
+     */
+    folderPath: string;
+    /**
+     * Whether or not the submodule has a different commit checked out than the superproject
+     * records.
+     */
+    newCommits: boolean;
+    /**
+     * Whether or not the submodule has modified tracked files.
+     */
+    modifiedContent: boolean;
+    /**
+     * Whether or not the submodule has untracked files.
+     */
+    untrackedContent: boolean;
   }
 
   /**
@@ -762,780 +1062,3052 @@ export namespace ExecutableGit {
 
   export interface StashOptions extends Git.StashOptions, Options {
   }
-}
-
-/**
- * An implementation of Git that uses a Git executable to run commands.
- */
-export class ExecutableGit implements Git {
-  private authenticationStrings: Set<string> = new Set();
 
   /**
-   * Create a new ExecutableGit object.
-   * @param gitFilePath The file path to the git executable to use to run commands. This can be
-   * either a rooted path to the executable, or a relative path that will use the environment's PATH
-   * variable to resolve the executable's location.
-   * @param options The optional arguments that will be applied to each operation.
+   * Options that can be passed to "git log".
    */
-  constructor(private readonly options: ExecutableGit.ConstructorOptions = {}) {
-    if (!options.gitFilePath) {
-      options.gitFilePath = "git";
-    }
+  export interface LogOptions extends Git.LogOptions, Options {
   }
 
-  private maskAuthenticationInLog<T extends ExecutableGit.Options>(options: T): T {
-    const authentication = this.options.authentication;
-    const log: undefined | ((text: string) => any) = options.log;
-    if (authentication && log) {
-      options.log = (text: string) => {
-        for (const authenticationString of this.authenticationStrings.values()) {
-          text = replaceAll(text, authenticationString, "<redacted>")!;
-        }
-        return log(text);
-      };
-    }
-    return options;
+  /**
+   * The result of a "git log" command.
+   */
+  export interface LogResult extends Git.LogResult, Result {
   }
 
-  private async addAuthenticationToURL(url: string, options: ExecutableGit.Options = {}): Promise<string> {
-    let result: string = url;
-    if (this.options.authentication) {
-      const builder: URLBuilder = URLBuilder.parse(url);
-
-      let authenticationToAdd: string | undefined;
-      if (typeof this.options.authentication === "string") {
-        authenticationToAdd = this.options.authentication;
-      } else if (typeof this.options.authentication === "function") {
-        authenticationToAdd = await this.options.authentication(url);
-      } else {
-        let urlPath: string | undefined = builder.getPath();
-        if (urlPath) {
-          urlPath = urlPath.toLowerCase();
-
-          let matchingScope = "";
-          for (let [scope, authentication] of Object.entries(this.options.authentication)) {
-            if (!scope.startsWith("/")) {
-              scope = `/${scope}`;
-            }
-            scope = scope.toLowerCase();
-            if (urlPath.startsWith(scope) && scope.length > matchingScope.length) {
-              matchingScope = scope;
-              authenticationToAdd = authentication;
-            }
-          }
-          if (options.log) {
-            if (matchingScope) {
-              await Promise.resolve(options.log(`Git URL matches authentication scope "${matchingScope}". Inserting auth token "${authenticationToAdd}".`));
-            } else {
-              const scopes: string[] = Object.keys(this.options.authentication);
-              await Promise.resolve(options.log(`Git URL didn't match any of the authentication scopes (${scopes.join(",")}). Not inserting an auth token.`));
-            }
-          }
-        }
-      }
-
-      if (authenticationToAdd !== undefined) {
-        this.authenticationStrings.add(authenticationToAdd);
-      }
-      builder.setAuth(authenticationToAdd);
-      result = builder.toString();
-    }
-    return result;
+  /**
+   * Options that can be passed to "git tag" when creating a tag.
+   */
+  export interface CreateTagOptions extends Options {
+    /**
+     * The commit (or other reference) that the tag will point at. Defaults to HEAD.
+     */
+    target?: string;
+    /**
+     * The messages of an annotated tag. If no messages are provided, then a lightweight tag will be
+     * created.
+     */
+    messages?: string | string[];
+    /**
+     * Replace an existing tag with the same name instead of failing.
+     */
+    force?: boolean;
   }
 
   /**
-   * Create a new ExecutableGit object that combines this ExecutableGit's options with the provieded
-   * options.
-   * @param options The options to combine with this ExecutableGit's options.
+   * The result of creating a tag.
    */
-  public scope(options: ExecutableGit.ConstructorOptions): ExecutableGit {
-    return new ExecutableGit({
-      ...this.options,
-      ...options,
-    });
+  export interface CreateTagResult extends Result {
+    /**
+     * The name of the tag.
+     */
+    tagName: string;
+    /**
+     * Whether or not the tag is an annotated tag.
+     */
+    annotated: boolean;
   }
 
   /**
-   * Run an arbitrary Git command.
-   * @param args The arguments to provide to the Git executable.
+   * Options that can be passed to "git tag --list".
    */
-  public run(args: string[], options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    if (options.usePager === true) {
-      args.unshift("--paginate");
+  export interface ListTagsOptions extends Options {
+    /**
+     * A shell wildcard pattern that the returned tag names must match, such as "v1.*".
+     */
+    pattern?: string;
+    /**
+     * Whether or not to sort the tags by the version at the end of their names (such as the
+     * "1.2.3" in "v1.2.3") from lowest to highest. Tags that don't end with a version are sorted
+     * alphabetically after the tags that do.
+     */
+    sortByVersion?: boolean;
+  }
+
+  /**
+   * The result of listing the tags in the repository.
+   */
+  export interface ListTagsResult extends Result {
+    /**
+     * The names of the tags in the repository.
+     */
+    tags: string[];
+  }
+
+  /**
+   * The result of deleting a tag.
+   */
+  export interface DeleteTagResult extends Result {
+    /**
+     * The abbreviated SHA that the deleted tag pointed at.
+     */
+    deletedTagSha?: string;
+  }
+
+  /**
+   * The result of a "git merge-base" command.
+   */
+  export interface MergeBaseResult extends Result {
+    /**
+     * The SHA of the best common ancestor of the two refs, or undefined if they don't share any
+     * history.
+     */
+    mergeBaseSha?: string;
+  }
+
+  /**
+   * The result of checking whether one ref is an ancestor of another.
+   */
+  export interface IsAncestorResult extends Result {
+    /**
+     * Whether or not the first ref is an ancestor of (or the same commit as) the second ref.
+     */
+    isAncestor: boolean;
+  }
+
+  /**
+   * The result of comparing how far two refs have diverged.
+   */
+  export interface AheadBehindResult extends Result {
+    /**
+     * The number of commits that are reachable from the local ref but not from the remote ref.
+     */
+    ahead: number;
+    /**
+     * The number of commits that are reachable from the remote ref but not from the local ref.
+     */
+    behind: number;
+  }
+
+  /**
+   * The way that a file conflicted during a merge, rebase, cherry-pick or revert.
+   */
+  export type ConflictType = "both-modified" | "both-added" | "both-deleted" | "added-by-us" | "added-by-them" | "deleted-by-us" | "deleted-by-them";
+
+  /**
+   * A region of a conflicted file that is surrounded by conflict markers.
+   */
+  export interface ConflictRegion {
+    /**
+     * The 1-based line number of the "<<<<<<<" marker that starts this region.
+     */
+    startLine: number;
+    /**
+     * The 1-based line number of the ">>>>>>>" marker that ends this region.
+     */
+    endLine: number;
+    /**
+     * The label after the "<<<<<<<" marker, such as "HEAD".
+     */
+    oursLabel: string;
+    /**
+     * The lines from our side of the conflict.
+     */
+    ours: string[];
+    /**
+     * The lines from the common ancestor. This is only available when the conflict was written
+     * with the "diff3" conflict style.
+     */
+    base?: string[];
+    /**
+     * The label after the ">>>>>>>" marker, such as the name of the branch that was merged.
+     */
+    theirsLabel: string;
+    /**
+     * The lines from their side of the conflict.
+     */
+    theirs: string[];
+  }
+
+  /**
+   * A file that has unresolved conflicts.
+   */
+  export interface ConflictedFile {
+    /**
+     * The absolute path to the conflicted file.
+     */
+    filePath: string;
+    /**
+     * The way that the file conflicted.
+     */
+    conflictType: ConflictType;
+    /**
+     * The conflict regions in the working tree version of the file. This will be empty if the file
+     * doesn't exist in the working tree.
+     */
+    regions: ConflictRegion[];
+  }
+
+  /**
+   * The result of getting the unresolved conflicts in the repository.
+   */
+  export interface GetConflictsResult extends Result {
+    /**
+     * The files that have unresolved conflicts.
+     */
+    conflicts: ConflictedFile[];
+  }
+
+  /**
+   * The result of a "git merge" command.
+   */
+  export interface MergeResult extends Result {
+    /**
+     * The files that have unresolved conflicts. This is only populated when the merge stopped
+     * because of conflicts.
+     */
+    conflicts?: ConflictedFile[];
+  }
+
+  /**
+   * The result of a "git rebase" command.
+   */
+  export interface RebaseResult extends Result {
+    /**
+     * The files that have unresolved conflicts. This is only populated when the rebase stopped
+     * because of conflicts.
+     */
+    conflicts?: ConflictedFile[];
+  }
+
+  /**
+   * Options that can be passed to "git cherry-pick".
+   */
+  export interface CherryPickOptions extends Options {
+    /**
+     * Apply the changes to the working tree and the index without creating any commits.
+     */
+    noCommit?: boolean;
+    /**
+     * Append a "(cherry picked from commit ...)" line to each new commit's message.
+     */
+    recordOrigin?: boolean;
+    /**
+     * The parent number (starting from 1) of the mainline when cherry-picking merge commits.
+     */
+    mainline?: number;
+  }
+
+  /**
+   * The result of a "git cherry-pick" command.
+   */
+  export interface CherryPickResult extends Result {
+    /**
+     * The SHAs of the commits that were created, in the order that they were created.
+     */
+    commitShas: string[];
+    /**
+     * The files that have unresolved conflicts. This is only populated when the cherry-pick
+     * stopped because of conflicts.
+     */
+    conflicts?: ConflictedFile[];
+  }
+
+  /**
+   * Options that can be passed to "git revert".
+   */
+  export interface RevertOptions extends Options {
+    /**
+     * Apply the reverted changes to the working tree and the index without creating any commits.
+     */
+    noCommit?: boolean;
+    /**
+     * The parent number (starting from 1) of the mainline when reverting merge commits.
+     */
+    mainline?: number;
+  }
+
+  /**
+   * The result of a "git revert" command.
+   */
+  export interface RevertResult extends Result {
+    /**
+     * The SHAs of the commits that were created, in the order that they were created.
+     */
+    commitShas: string[];
+    /**
+     * The files that have unresolved conflicts. This is only populated when the revert stopped
+     * because of conflicts.
+     */
+    conflicts?: ConflictedFile[];
+  }
+
+  /**
+   * A range of lines in a file.
+   */
+  export interface LineRange {
+    /**
+     * The 1-based number of the first line in the range.
+     */
+    start: number;
+    /**
+     * The 1-based number of the last line in the range. Defaults to the end of the file.
+     */
+    end?: number;
+  }
+
+  /**
+   * Options that can be passed to "git blame".
+   */
+  export interface BlameOptions extends Options {
+    /**
+     * The range of lines to blame. Defaults to the whole file.
+     */
+    range?: LineRange;
+    /**
+     * The revision to blame the file at. Defaults to the working tree.
+     */
+    rev?: string;
+  }
+
+  /**
+   * The commit that last changed a line of a blamed file.
+   */
+  export interface BlameLine {
+    /**
+     * The SHA of the commit that last changed this line.
+     */
+    sha: string;
+    /**
+     * The author of the commit that last changed this line.
+     */
+    author: Git.Author;
+    /**
+     * The time that the commit that last changed this line was authored.
+     */
+    authorTime: Date;
+    /**
+     * The subject line of the commit that last changed this line.
+     */
+    summary: string;
+    /**
+     * The path to the file in the commit that last changed this line, relative to the root of the
+     * repository. This may be different from the blamed file if the file was renamed.
+     */
+    originalFilePath: string;
+    /**
+     * The number of this line in the commit that last changed it.
+     */
+    originalLineNumber: number;
+    /**
+     * The number of this line in the blamed file.
+     */
+    finalLineNumber: number;
+    /**
+     * The text of this line.
+     */
+    content: string;
+  }
+
+  /**
+   * The result of a "git blame" command.
+   */
+  export interface BlameResult extends Result {
+    /**
+     * The blamed lines of the file.
+     */
+    lines: BlameLine[];
+  }
+
+  /**
+   * Options that can be passed to "git worktree add".
+   */
+  export interface AddWorktreeOptions extends Options {
+    /**
+     * The name of a new branch to create and check out in the worktree.
+     */
+    newBranch?: string;
+    /**
+     * The branch or commit to check out in the worktree. Defaults to HEAD.
+     */
+    commitish?: string;
+    /**
+     * Check out a detached HEAD in the worktree instead of a branch.
+     */
+    detach?: boolean;
+    /**
+     * Create the worktree even if the branch is already checked out in another worktree.
+     */
+    force?: boolean;
+  }
+
+  /**
+   * Options that can be passed to "git worktree remove".
+   */
+  export interface RemoveWorktreeOptions extends Options {
+    /**
+     * Remove the worktree even if it has uncommitted changes or untracked files.
+     */
+    force?: boolean;
+  }
+
+  /**
+   * A working tree that is attached to the repository.
+   */
+  export interface Worktree {
+    /**
+     * The absolute path to the worktree's folder.
+     */
+    folderPath: string;
+    /**
+     * The SHA of the commit that is checked out in the worktree.
+     */
+    headSha?: string;
+    /**
+     * The name of the branch that is checked out in the worktree. This is undefined if the
+     * worktree is bare or has a detached HEAD.
+     */
+    branch?: string;
+    /**
+     * Whether or not this is the bare repository.
+     */
+    bare: boolean;
+    /**
+     * Whether or not the worktree has a detached HEAD.
+     */
+    detached: boolean;
+    /**
+     * Whether or not the worktree is locked.
+     */
+    locked: boolean;
+    /**
+     * Whether or not the worktree's folder no longer exists and can be pruned.
+     */
+    prunable: boolean;
+    /**
+     * An ExecutableGit that runs its commands in the worktree's folder.
+     */
+    git: ExecutableGit;
+  }
+
+  /**
+   * The result of adding a worktree.
+   */
+  export interface AddWorktreeResult extends Result {
+    /**
+     * The absolute path to the new worktree's folder.
+     */
+    folderPath: string;
+    /**
+     * An ExecutableGit that runs its commands in the new worktree's folder. This is undefined if
+     * the worktree couldn't be added.
+     */
+    git?: ExecutableGit;
+  }
+
+  /**
+   * The result of listing the worktrees that are attached to the repository.
+   */
+  export interface ListWorktreesResult extends Result {
+    /**
+     * The worktrees that are attached to the repository, starting with the main worktree.
+     */
+    worktrees: Worktree[];
+  }
+
+  /**
+   * Options that can be passed to "git submodule init".
+   */
+  export interface SubmoduleInitOptions extends Options {
+    /**
+     * The paths of the submodules to initialize. Defaults to all submodules.
+     */
+    paths?: string | string[];
+  }
+
+  /**
+   * Options that can be passed to "git submodule update".
+   */
+  export interface SubmoduleUpdateOptions extends Options {
+    /**
+     * Initialize any submodules that haven't been initialized yet before updating them.
+     */
+    init?: boolean;
+    /**
+     * Update the submodules of the submodules as well.
+     */
+    recursive?: boolean;
+    /**
+     * Create shallow clones of the submodules with histories truncated to the provided number of
+     * commits.
+     */
+    depth?: number;
+    /**
+     * Update the submodules to the latest commits of their remote-tracking branches instead of
+     * the commits that are recorded in the superproject.
+     */
+    remote?: boolean;
+    /**
+     * The paths of the submodules to update. Defaults to all submodules.
+     */
+    paths?: string | string[];
+  }
+
+  /**
+   * Options that can be passed when listing the submodules of a repository.
+   */
+  export interface ListSubmodulesOptions extends Options {
+    /**
+     * List the submodules of the submodules as well.
+     */
+    recursive?: boolean;
+  }
+
+  /**
+   * The state of a submodule's checked out commit compared to the commit that is recorded in the
+   * superproject.
+   */
+  export type SubmoduleState = "up-to-date" | "uninitialized" | "drifted" | "conflicted";
+
+  /**
+   * A submodule of a repository.
+   */
+  export interface Submodule {
+    /**
+     * The path to the submodule's folder, relative to the root of the superproject.
+     */
+    path: string;
+    /**
+     * The absolute path to the submodule's folder.
+     */
+    folderPath: string;
+    /**
+     * The SHA of the commit that the superproject has pinned the submodule to.
+     */
+    pinnedSha: string;
+    /**
+     * The state of the submodule's checked out commit.
+     */
+    state: SubmoduleState;
+    /**
+     * The "git describe" name of the pinned commit, if the submodule has been initialized.
+     */
+    describe?: string;
+  }
+
+  /**
+   * The result of listing the submodules of a repository.
+   */
+  export interface ListSubmodulesResult extends Result {
+    /**
+     * The submodules of the repository.
+     */
+    submodules: Submodule[];
+  }
+
+  /**
+   * Options that can be passed to "git format-patch".
+   */
+  export interface FormatPatchOptions extends Options {
+    /**
+     * The folder to write one patch file per commit into. If this isn't provided, then the
+     * patches will be returned as text instead.
+     */
+    outputFolderPath?: string;
+  }
+
+  /**
+   * The result of a "git format-patch" command.
+   */
+  export interface FormatPatchResult extends Result {
+    /**
+     * The text of the patches. This is only populated when no outputFolderPath was provided.
+     */
+    patchText?: string;
+    /**
+     * The paths to the patch files that were written. This is only populated when an
+     * outputFolderPath was provided.
+     */
+    patchFilePaths?: string[];
+  }
+
+  /**
+   * Options that can be passed to "git apply".
+   */
+  export interface ApplyPatchOptions extends Options {
+    /**
+     * Only check whether or not the patch can be applied without applying it.
+     */
+    check?: boolean;
+    /**
+     * Fall back to a three-way merge if the patch doesn't apply cleanly.
+     */
+    threeWay?: boolean;
+    /**
+     * Apply the patch to both the index and the working tree.
+     */
+    index?: boolean;
+  }
+
+  /**
+   * A file from a patch that couldn't be applied.
+   */
+  export interface PatchReject {
+    /**
+     * The path to the file, relative to the root of the repository.
+     */
+    filePath: string;
+    /**
+     * The reason that the patch couldn't be applied to the file, such as "patch does not apply".
+     */
+    reason: string;
+    /**
+     * The line number of the hunk that failed to apply, if git reported it.
+     */
+    line?: number;
+  }
+
+  /**
+   * The result of a "git apply" command.
+   */
+  export interface ApplyPatchResult extends Result {
+    /**
+     * Whether or not the patch was (or, when check was true, could be) applied.
+     */
+    applied: boolean;
+    /**
+     * The files that the patch couldn't be applied to.
+     */
+    rejects: PatchReject[];
+  }
+
+  /**
+   * Options that can be passed to "git am".
+   */
+  export interface AmOptions extends Options {
+    /**
+     * Fall back to a three-way merge if a patch doesn't apply cleanly.
+     */
+    threeWay?: boolean;
+  }
+
+  /**
+   * The result of a "git am" command.
+   */
+  export interface AmResult extends ApplyPatchResult {
+    /**
+     * The subject of the patch that couldn't be applied, if any.
+     */
+    failedPatch?: string;
+  }
+
+  /**
+   * Options that can be passed to "git reflog".
+   */
+  export interface ReflogOptions extends Options {
+    /**
+     * The maximum number of entries to return.
+     */
+    maxCount?: number;
+  }
+
+  /**
+   * An entry in a ref's reflog.
+   */
+  export interface ReflogEntry {
+    /**
+     * The selector that refers to this entry, such as "HEAD@{1}". This can be passed to commands
+     * like "git reset --hard" to restore the ref to this entry's SHA.
+     */
+    selector: string;
+    /**
+     * The SHA that the ref pointed at before this entry. This is undefined for the oldest entry
+     * that remains in the reflog.
+     */
+    oldSha?: string;
+    /**
+     * The SHA that the ref pointed at after this entry.
+     */
+    newSha: string;
+    /**
+     * The action that updated the ref, such as "commit", "reset", or "checkout".
+     */
+    action: string;
+    /**
+     * The message that describes the update, such as "moving to HEAD~1".
+     */
+    message: string;
+    /**
+     * The time that the ref was updated.
+     */
+    date: Date;
+  }
+
+  /**
+   * The result of a "git reflog" command.
+   */
+  export interface ReflogResult extends Result {
+    /**
+     * The reflog entries, from newest to oldest.
+     */
+    entries: ReflogEntry[];
+  }
+
+  /**
+   * The result of finding the commits that aren't reachable from any ref.
+   */
+  export interface FindDanglingCommitsResult extends Result {
+    /**
+     * The SHAs of the commits that aren't reachable from any ref or from any other unreachable
+     * commit.
+     */
+    commitShas: string[];
+  }
+}
+
+/**
+ * An implementation of Git that uses a Git executable to run commands.
+ */
+export class ExecutableGit implements Git {
+  private authenticationStrings: Set<string> = new Set();
+
+  /**
+   * Create a new ExecutableGit object.
+   * @param gitFilePath The file path to the git executable to use to run commands. This can be
+   * either a rooted path to the executable, or a relative path that will use the environment's PATH
+   * variable to resolve the executable's location.
+   * @param options The optional arguments that will be applied to each operation.
+   */
+  constructor(private readonly options: ExecutableGit.ConstructorOptions = {}) {
+    if (!options.gitFilePath) {
+      options.gitFilePath = "git";
+    }
+  }
+
+  private maskAuthenticationInLog<T extends ExecutableGit.Options>(options: T): T {
+    const authentication = this.options.authentication;
+    const log: undefined | ((text: string) => any) = options.log;
+    if (authentication && log) {
+      options.log = (text: string) => {
+        for (const authenticationString of this.authenticationStrings.values()) {
+          text = replaceAll(text, authenticationString, "<redacted>")!;
+        }
+        return log(text);
+      };
+    }
+    return options;
+  }
+
+  private async addAuthenticationToURL(url: string, options: ExecutableGit.Options = {}): Promise<string> {
+    let result: string = url;
+    if (this.options.authentication) {
+      const builder: URLBuilder = URLBuilder.parse(url);
+
+      let authenticationToAdd: string | undefined;
+      if (typeof this.options.authentication === "string") {
+        authenticationToAdd = this.options.authentication;
+      } else if (typeof this.options.authentication === "function") {
+        authenticationToAdd = await this.options.authentication(url);
+      } else {
+        let urlPath: string | undefined = builder.getPath();
+        if (urlPath) {
+          urlPath = urlPath.toLowerCase();
+
+          let matchingScope = "";
+          for (let [scope, authentication] of Object.entries(this.options.authentication)) {
+            if (!scope.startsWith("/")) {
+              scope = `/${scope}`;
+            }
+            scope = scope.toLowerCase();
+            if (urlPath.startsWith(scope) && scope.length > matchingScope.length) {
+              matchingScope = scope;
+              authenticationToAdd = authentication;
+            }
+          }
+          if (options.log) {
+            if (matchingScope) {
+              await Promise.resolve(options.log(`Git URL matches authentication scope "${matchingScope}". Inserting auth token "${authenticationToAdd}".`));
+            } else {
+              const scopes: string[] = Object.keys(this.options.authentication);
+              await Promise.resolve(options.log(`Git URL didn't match any of the authentication scopes (${scopes.join(",")}). Not inserting an auth token.`));
+            }
+          }
+        }
+      }
+
+      if (authenticationToAdd !== undefined) {
+        this.authenticationStrings.add(authenticationToAdd);
+      }
+      builder.setAuth(authenticationToAdd);
+      result = builder.toString();
+    }
+    return result;
+  }
+
+  /**
+   * Create a new ExecutableGit object that combines this ExecutableGit's options with the provieded
+   * options.
+   * @param options The options to combine with this ExecutableGit's options.
+   */
+  public scope(options: ExecutableGit.ConstructorOptions): ExecutableGit {
+    return new ExecutableGit({
+      ...this.options,
+      ...options,
+    });
+  }
+
+  /**
+   * Run an arbitrary Git command.
+   * @param args The arguments to provide to the Git executable.
+   */
+  public run(args: string[], options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    if (options.usePager === true) {
+      args.unshift("--paginate");
     } else if (options.usePager === false) {
       args.unshift("--no-pager");
     }
 
-    return run(options.gitFilePath || this.options.gitFilePath!, args, this.maskAuthenticationInLog({
-      ...this.options,
-      ...options
-    }));
+    return run(options.gitFilePath || this.options.gitFilePath!, args, this.maskAuthenticationInLog({
+      ...this.options,
+      ...options
+    }));
+  }
+
+  /**
+   * Get the SHA of the currently checked out commit.
+   */
+  public async currentCommitSha(options: ExecutableGit.Options = {}): Promise<ExecutableGit.CurrentCommitShaResult> {
+    const runResult: ExecutableGit.Result = await this.run(["rev-parse", "HEAD"], options);
+    const result: ExecutableGit.CurrentCommitShaResult = {
+      ...runResult,
+      currentCommitSha: runResult.stdout,
+    };
+    return result;
+  }
+
+  /**
+   * Download objects and refs from another repository.
+   * @param options The options that can be passed to `git fetch`.
+   */
+  public fetch(options: ExecutableGit.FetchOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["fetch"];
+    if (options.prune) {
+      args.push("--prune");
+    }
+    if (options.all) {
+      args.push("--all");
+    }
+    if (options.depth) {
+      args.push("--depth", options.depth.toString());
+    }
+    if (options.deepen) {
+      args.push(`--deepen=${options.deepen}`);
+    }
+    if (options.remoteName) {
+      args.push(options.remoteName);
+    }
+    if (options.refSpec) {
+      args.push(options.refSpec);
+    }
+    return this.run(args, options);
+  }
+
+  public async merge(options: ExecutableGit.MergeOptions = {}): Promise<ExecutableGit.MergeResult> {
+    const args: string[] = ["merge"];
+    if (options.squash != undefined) {
+      if (options.squash) {
+        args.push("--squash");
+      } else {
+        args.push("--no-squash");
+      }
+    }
+    if (options.edit != undefined) {
+      if (options.edit) {
+        args.push("--edit");
+      } else {
+        args.push("--no-edit");
+      }
+    }
+    if (options.strategyOptions) {
+      options.strategyOptions = toArray(options.strategyOptions);
+      for (const strategyOption of options.strategyOptions) {
+        args.push(`--strategy-option=${strategyOption}`);
+      }
+    }
+    if (options.quiet) {
+      args.push(`--quiet`);
+    }
+    if (options.messages != undefined) {
+      options.messages = toArray(options.messages);
+      for (const message of options.messages) {
+        args.push("-m", message);
+      }
+    }
+    if (options.refsToMerge) {
+      for (const refToMerge of toArray(options.refsToMerge)) {
+        if (refToMerge) {
+          args.push(refToMerge);
+        }
+      }
+    }
+    return this.addConflicts(await this.run(args, options), options);
+  }
+
+  /**
+   * Abort the current conflicted merge and restore the state from before the merge started.
+   * @param options The options for determining how this command will run.
+   */
+  public abortMerge(options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return this.run(["merge", "--abort"], options);
+  }
+
+  public async rebase(options: ExecutableGit.RebaseOptions = {}): Promise<ExecutableGit.RebaseResult> {
+    const args: string[] = ["rebase"];
+    if (options.strategy) {
+      args.push(`--strategy=${options.strategy}`);
+    }
+    if (options.strategyOption) {
+      args.push(`--strategy-option=${options.strategyOption}`);
+    }
+    if (options.quiet) {
+      args.push("--quiet");
+    }
+    if (options.verbose) {
+      args.push("--verbose");
+    }
+    if (options.newbase) {
+      args.push("--onto", options.newbase);
+    }
+    if (options.upstream) {
+      args.push(options.upstream);
+    }
+    if (options.branch) {
+      args.push(options.branch);
+    }
+    return this.addConflicts(await this.run(args, options), options);
+  }
+
+  /**
+   * Abort the current rebase and restore the branch to the state it was in before the rebase
+   * started.
+   * @param options The options for determining how this command will run.
+   */
+  public abortRebase(options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return this.run(["rebase", "--abort"], options);
+  }
+
+  /**
+   * Continue the current rebase after its conflicts have been resolved and staged. The commit
+   * messages of the rebased commits are kept as they are.
+   * @param options The options for determining how this command will run.
+   */
+  public async continueRebase(options: ExecutableGit.Options = {}): Promise<ExecutableGit.RebaseResult> {
+    return this.addConflicts(await this.run(["-c", "core.editor=true", "rebase", "--continue"], options), options);
+  }
+
+  /**
+   * Apply the changes that were introduced by the provided commits to the current branch.
+   * @param shas The SHAs (or other refs) of the commits to cherry-pick.
+   * @param options The options for determining how this command will run.
+   */
+  public cherryPick(shas: string | string[], options: ExecutableGit.CherryPickOptions = {}): Promise<ExecutableGit.CherryPickResult> {
+    const args: string[] = ["cherry-pick"];
+    if (options.noCommit) {
+      args.push("--no-commit");
+    }
+    if (options.recordOrigin) {
+      args.push("-x");
+    }
+    if (options.mainline != undefined) {
+      args.push("--mainline", options.mainline.toString());
+    }
+    args.push(...toArray(shas));
+    return this.runAndGetNewCommits(args, !!options.noCommit, options);
+  }
+
+  /**
+   * Create commits that undo the changes that were introduced by the provided commits.
+   * @param shas The SHAs (or other refs) of the commits to revert.
+   * @param options The options for determining how this command will run.
+   */
+  public revert(shas: string | string[], options: ExecutableGit.RevertOptions = {}): Promise<ExecutableGit.RevertResult> {
+    const args: string[] = ["revert", "--no-edit"];
+    if (options.noCommit) {
+      args.push("--no-commit");
+    }
+    if (options.mainline != undefined) {
+      args.push("--mainline", options.mainline.toString());
+    }
+    args.push(...toArray(shas));
+    return this.runAndGetNewCommits(args, !!options.noCommit, options);
+  }
+
+  /**
+   * Run the provided command and get the SHAs of the commits that it added to HEAD.
+   */
+  private async runAndGetNewCommits(args: string[], noCommit: boolean, options: ExecutableGit.Options): Promise<ExecutableGit.CherryPickResult> {
+    let previousHeadSha: string | undefined;
+    if (!noCommit) {
+      const currentCommitShaResult: ExecutableGit.CurrentCommitShaResult = await this.currentCommitSha(options);
+      previousHeadSha = currentCommitShaResult.exitCode === 0 && currentCommitShaResult.currentCommitSha ? currentCommitShaResult.currentCommitSha.trim() : undefined;
+    }
+
+    const runResult: ExecutableGit.MergeResult = await this.addConflicts(await this.run(args, options), options);
+
+    let commitShas: string[] = [];
+    if (previousHeadSha) {
+      const revListResult: ExecutableGit.Result = await this.run(["rev-list", "--reverse", `${previousHeadSha}..HEAD`], options);
+      commitShas = where(map(getLines(revListResult.stdout), (line: string) => line.trim()), (line: string) => !!line);
+    }
+    return {
+      ...runResult,
+      commitShas,
+    };
+  }
+
+  /**
+   * Get the commit that last changed each line of the provided file.
+   * @param filePath The path to the file to blame.
+   * @param options The options for determining how this command will run.
+   */
+  public async blame(filePath: string, options: ExecutableGit.BlameOptions = {}): Promise<ExecutableGit.BlameResult> {
+    const args: string[] = ["blame", "--porcelain"];
+    if (options.range) {
+      args.push("-L", `${options.range.start},${options.range.end || ""}`);
+    }
+    if (options.rev) {
+      args.push(options.rev);
+    }
+    args.push("--", filePath);
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    return {
+      ...runResult,
+      lines: getBlameLines(runResult.stdout),
+    };
+  }
+
+  /**
+   * Create patches for the commits in the provided range.
+   * @param range The commit range to create patches for, such as "origin/master..HEAD".
+   * @param options The options for determining how this command will run.
+   */
+  public async formatPatch(range: string, options: ExecutableGit.FormatPatchOptions = {}): Promise<ExecutableGit.FormatPatchResult> {
+    const args: string[] = ["format-patch"];
+    if (options.outputFolderPath) {
+      args.push("--output-directory", options.outputFolderPath);
+    } else {
+      args.push("--stdout");
+    }
+    args.push(range);
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    const result: ExecutableGit.FormatPatchResult = { ...runResult };
+    if (options.outputFolderPath) {
+      const folderPath: string = options.executionFolderPath || this.options.executionFolderPath || process.cwd();
+      result.patchFilePaths = map(
+        where(getLines(runResult.stdout), (line: string) => !!line.trim()),
+        (line: string) => isRooted(line.trim()) ? normalizePath(line.trim()) : joinPath(folderPath, line.trim()));
+    } else {
+      result.patchText = runResult.stdout;
+    }
+    return result;
+  }
+
+  /**
+   * Apply the provided patch text to the working tree (and optionally the index).
+   * @param patchText The text of the patch to apply.
+   * @param options The options for determining how this command will run.
+   */
+  public async applyPatch(patchText: string, options: ExecutableGit.ApplyPatchOptions = {}): Promise<ExecutableGit.ApplyPatchResult> {
+    const args: string[] = ["apply"];
+    if (options.check) {
+      args.push("--check");
+    }
+    if (options.threeWay) {
+      args.push("--3way");
+    }
+    if (options.index) {
+      args.push("--index");
+    }
+    args.push("-");
+    const runResult: ExecutableGit.Result = await this.run(args, { ...options, input: patchText });
+    return {
+      ...runResult,
+      applied: runResult.exitCode === 0,
+      rejects: getPatchRejects(runResult.stderr),
+    };
+  }
+
+  /**
+   * Apply the provided mailbox-formatted patches (such as the patches from formatPatch()) as
+   * commits on the current branch.
+   * @param patches The text of the patches to apply.
+   * @param options The options for determining how this command will run.
+   */
+  public async am(patches: string | string[], options: ExecutableGit.AmOptions = {}): Promise<ExecutableGit.AmResult> {
+    const args: string[] = ["am"];
+    if (options.threeWay) {
+      args.push("--3way");
+    }
+    const runResult: ExecutableGit.Result = await this.run(args, { ...options, input: toArray(patches).join("") });
+    const failedPatchMatch: RegExpMatchArray | null = `${runResult.stdout}\n${runResult.stderr}`.match(failedPatchRegExp);
+    return {
+      ...runResult,
+      applied: runResult.exitCode === 0,
+      rejects: getPatchRejects(runResult.stderr),
+      failedPatch: failedPatchMatch ? failedPatchMatch[1] : undefined,
+    };
+  }
+
+  /**
+   * Abort the current "git am" session and restore the branch to the state it was in before the
+   * session started.
+   * @param options The options for determining how this command will run.
+   */
+  public abortAm(options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return this.run(["am", "--abort"], options);
+  }
+
+  /**
+   * Get the entries in the provided ref's reflog, from newest to oldest.
+   * @param ref The ref to get the reflog of. Defaults to "HEAD".
+   * @param options The options for determining how this command will run.
+   */
+  public async reflog(ref = "HEAD", options: ExecutableGit.ReflogOptions = {}): Promise<ExecutableGit.ReflogResult> {
+    const args: string[] = ["reflog", "show", "--date=iso-strict", "--format=%H%x1f%gD%x1f%gs"];
+    if (options.maxCount != undefined) {
+      // Get one extra entry so that the last returned entry's old SHA is known.
+      args.push(`--max-count=${options.maxCount + 1}`);
+    }
+    args.push(ref);
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    const entries: ExecutableGit.ReflogEntry[] = getReflogEntries(ref, runResult.stdout);
+    return {
+      ...runResult,
+      entries: options.maxCount != undefined ? entries.slice(0, options.maxCount) : entries,
+    };
+  }
+
+  /**
+   * Find the commits that aren't reachable from any ref, such as the commits that were left behind
+   * by "git reset --hard". Commits that are only referenced by a reflog are included so that they
+   * can be recovered before the reflog expires.
+   * @param options The options for determining how this command will run.
+   */
+  public async findDanglingCommits(options: ExecutableGit.Options = {}): Promise<ExecutableGit.FindDanglingCommitsResult> {
+    const runResult: ExecutableGit.Result = await this.run(["fsck", "--no-reflogs", "--no-progress"], options);
+    const commitShas: string[] = [];
+    for (const line of getLines(runResult.stdout)) {
+      const danglingCommitMatch: RegExpMatchArray | null = line.trim().match(danglingCommitRegExp);
+      if (danglingCommitMatch) {
+        commitShas.push(danglingCommitMatch[1]);
+      }
+    }
+    return {
+      ...runResult,
+      commitShas,
+    };
+  }
+
+  /**
+   * Add a new worktree for this repository at the provided folder path.
+   * @param worktreeFolderPath The path to the folder where the worktree will be created. Relative
+   * paths are resolved against the folder that this command runs in.
+   * @param options The options for determining how this command will run.
+   */
+  public async addWorktree(worktreeFolderPath: string, options: ExecutableGit.AddWorktreeOptions = {}): Promise<ExecutableGit.AddWorktreeResult> {
+    const folderPath: string = isRooted(worktreeFolderPath)
+      ? normalizePath(worktreeFolderPath)
+      : joinPath(options.executionFolderPath || this.options.executionFolderPath || process.cwd(), worktreeFolderPath);
+    const args: string[] = ["worktree", "add"];
+    if (options.force) {
+      args.push("--force");
+    }
+    if (options.detach) {
+      args.push("--detach");
+    }
+    if (options.newBranch) {
+      args.push("-b", options.newBranch);
+    }
+    args.push(folderPath);
+    if (options.commitish) {
+      args.push(options.commitish);
+    }
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    return {
+      ...runResult,
+      folderPath,
+      git: runResult.exitCode === 0 ? this.scope({ executionFolderPath: folderPath }) : undefined,
+    };
+  }
+
+  /**
+   * Get the worktrees that are attached to this repository.
+   * @param options The options for determining how this command will run.
+   */
+  public async listWorktrees(options: ExecutableGit.Options = {}): Promise<ExecutableGit.ListWorktreesResult> {
+    const runResult: ExecutableGit.Result = await this.run(["worktree", "list", "--porcelain"], options);
+    const worktrees: ExecutableGit.Worktree[] = [];
+    let worktree: ExecutableGit.Worktree | undefined;
+    for (const line of getLines(runResult.stdout)) {
+      const spaceIndex: number = line.indexOf(" ");
+      const attributeName: string = spaceIndex === -1 ? line : line.substring(0, spaceIndex);
+      const attributeValue: string = spaceIndex === -1 ? "" : line.substring(spaceIndex + 1);
+      if (attributeName === "worktree") {
+        const folderPath: string = normalizePath(attributeValue);
+        worktree = {
+          folderPath,
+          bare: false,
+          detached: false,
+          locked: false,
+          prunable: false,
+          git: this.scope({ executionFolderPath: folderPath }),
+        };
+        worktrees.push(worktree);
+      } else if (worktree) {
+        switch (attributeName) {
+          case "HEAD":
+            worktree.headSha = attributeValue;
+            break;
+
+          case "branch":
+            worktree.branch = attributeValue.replace(/^refs\/heads\//, "");
+            break;
+
+          case "bare":
+          case "detached":
+          case "locked":
+          case "prunable":
+            worktree[attributeName] = true;
+            break;
+        }
+      }
+    }
+    return {
+      ...runResult,
+      worktrees,
+    };
+  }
+
+  /**
+   * Remove the worktree at the provided folder path.
+   * @param worktreeFolderPath The path to the worktree's folder.
+   * @param options The options for determining how this command will run.
+   */
+  public removeWorktree(worktreeFolderPath: string, options: ExecutableGit.RemoveWorktreeOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["worktree", "remove"];
+    if (options.force) {
+      args.push("--force");
+    }
+    args.push(worktreeFolderPath);
+    return this.run(args, options);
+  }
+
+  /**
+   * Initialize the submodules that are registered in .gitmodules.
+   * @param options The options for determining how this command will run.
+   */
+  public submoduleInit(options: ExecutableGit.SubmoduleInitOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["submodule", "init"];
+    if (options.paths) {
+      args.push("--", ...toArray(options.paths));
+    }
+    return this.run(args, options);
+  }
+
+  /**
+   * Update the submodules to the commits that are recorded in the superproject.
+   * @param options The options for determining how this command will run.
+   */
+  public submoduleUpdate(options: ExecutableGit.SubmoduleUpdateOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["submodule", "update"];
+    if (options.init) {
+      args.push("--init");
+    }
+    if (options.recursive) {
+      args.push("--recursive");
+    }
+    if (options.depth != undefined) {
+      args.push("--depth", options.depth.toString());
+    }
+    if (options.remote) {
+      args.push("--remote");
+    }
+    if (options.paths) {
+      args.push("--", ...toArray(options.paths));
+    }
+    return this.run(args, options);
+  }
+
+  /**
+   * Get the submodules of this repository along with the commits that they are pinned to.
+   * @param options The options for determining how this command will run.
+   */
+  public async listSubmodules(options: ExecutableGit.ListSubmodulesOptions = {}): Promise<ExecutableGit.ListSubmodulesResult> {
+    const folderPath: string = options.executionFolderPath || this.options.executionFolderPath || process.cwd();
+    const args: string[] = ["submodule", "status", "--cached"];
+    if (options.recursive) {
+      args.push("--recursive");
+    }
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    const submodules: ExecutableGit.Submodule[] = [];
+    for (const line of getLines(runResult.stdout)) {
+      const submoduleMatch: RegExpMatchArray | null = line.match(submoduleStatusRegExp);
+      if (submoduleMatch) {
+        submodules.push({
+          path: submoduleMatch[3],
+          folderPath: joinPath(folderPath, submoduleMatch[3]),
+          pinnedSha: submoduleMatch[2],
+          state: submoduleStates[submoduleMatch[1]],
+          describe: submoduleMatch[4],
+        });
+      }
+    }
+    return {
+      ...runResult,
+      submodules,
+    };
+  }
+
+  /**
+   * Get the files that have unresolved conflicts, along with the conflict regions in each file.
+   * @param options The options for determining how this command will run.
+   */
+  public async getConflicts(options: ExecutableGit.Options = {}): Promise<ExecutableGit.GetConflictsResult> {
+    const runResult: ExecutableGit.Result = await this.run(["status", "--porcelain"], options);
+    const conflicts: ExecutableGit.ConflictedFile[] = [];
+    // The paths in "git status --porcelain" are relative to the repository's root folder, not the
+    // folder that the command ran in.
+    let rootFolderPath: string | undefined;
+    for (const line of getLines(runResult.stdout)) {
+      const conflictType: ExecutableGit.ConflictType | undefined = conflictTypes[line.substring(0, 2)];
+      if (conflictType) {
+        if (rootFolderPath == undefined) {
+          rootFolderPath = await this.getRootFolderPath(options);
+        }
+        const filePath: string = joinPath(rootFolderPath, getDiffPath(line.substring(3), "")!);
+        const fileContents: string | undefined = conflictType === "both-deleted" ? undefined : await readFileContents(filePath);
+        conflicts.push({
+          filePath,
+          conflictType,
+          regions: fileContents ? getConflictRegions(fileContents) : [],
+        });
+      }
+    }
+    return {
+      ...runResult,
+      conflicts,
+    };
+  }
+
+  /**
+   * If the provided result reports that the command stopped because of conflicts, then add the
+   * unresolved conflicts to it.
+   */
+  private async addConflicts(runResult: ExecutableGit.Result, options: ExecutableGit.Options): Promise<ExecutableGit.MergeResult> {
+    let result: ExecutableGit.MergeResult = runResult;
+    if (runResult.exitCode !== 0 && conflictOutputRegExp.test(`${runResult.stdout}\n${runResult.stderr}`)) {
+      const conflictsResult: ExecutableGit.GetConflictsResult = await this.getConflicts({ ...options, usePager: undefined });
+      result = {
+        ...runResult,
+        conflicts: conflictsResult.conflicts,
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Clone the repository with the provided URI.
+   * @param gitUri The repository URI to clone.
+   * @param options The options that can be passed to "git clone".
+   */
+  public async clone(gitUri: string, options: ExecutableGit.CloneOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = getCloneArguments(await this.addAuthenticationToURL(gitUri), options);
+    let result: ExecutableGit.Result = await this.run(args, options);
+    if (result.exitCode === 0 && options.sparseCheckoutPatterns) {
+      const cloneFolderName: string = options.directory || getCloneFolderName(gitUri);
+      const cloneFolderPath: string = isRooted(cloneFolderName)
+        ? normalizePath(cloneFolderName)
+        : joinPath(options.executionFolderPath || this.options.executionFolderPath || process.cwd(), cloneFolderName);
+      const sparseCheckoutResult: ExecutableGit.Result = await this.sparseCheckoutSet(options.sparseCheckoutPatterns, {
+        ...options,
+        executionFolderPath: cloneFolderPath,
+      });
+      if (sparseCheckoutResult.exitCode !== 0) {
+        result = sparseCheckoutResult;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Set the folders (or patterns) that will be checked out in this sparse-checkout repository and
+   * update the working tree to match.
+   * @param patterns The folders (or patterns if noCone is true) to check out.
+   * @param options The options for determining how this command will run.
+   */
+  public sparseCheckoutSet(patterns: string | string[], options: ExecutableGit.SparseCheckoutSetOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["sparse-checkout", "set", options.noCone ? "--no-cone" : "--cone"];
+    args.push(...toArray(patterns));
+    return this.run(args, options);
+  }
+
+  /**
+   * Init git repo.
+   * @param options Options
+   */
+  public async init(options?: ExecutableGit.Options): Promise<ExecutableGit.Result> {
+    return this.run(["init"], options);
+  }
+
+  public async symbolicRef(name: string, ref?: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["symbolic-ref"];
+    args.push(name);
+    if (ref) {
+      args.push(ref);
+    }
+    return this.run(args, options);
+  }
+
+  /**
+   * Checkout the provided git reference (branch, tag, or commit ID) in the repository.
+   * @param refId The git reference to checkout.
+   */
+  public async checkout(refId: string, options: ExecutableGit.CheckoutOptions = {}): Promise<ExecutableGit.CheckoutResult> {
+    const args: string[] = [`checkout`];
+    if (!options.remote) {
+      args.push(refId);
+    } else {
+      args.push(`--track`, `${options.remote}/${refId}`);
+    }
+    if (options.localBranchName) {
+      args.push("-b", options.localBranchName);
+    }
+    if (options.detach) {
+      args.push("--detach");
+    }
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    let filesThatWouldBeOverwritten: string[] | undefined;
+    if (runResult.stderr) {
+      const stderrLines: string[] = getLines(runResult.stderr);
+      if (stderrLines[0].trim() === "error: The following untracked working tree files would be overwritten by checkout:") {
+        filesThatWouldBeOverwritten = [];
+        let lineIndex = 1;
+        while (lineIndex < stderrLines.length) {
+          const line: string = stderrLines[lineIndex];
+          if (line.trim() === "Please move or remove them before you switch branches.") {
+            break;
+          } else {
+            filesThatWouldBeOverwritten.push(joinPath(options.executionFolderPath || this.options.executionFolderPath || "", line.trim()));
+            ++lineIndex;
+          }
+        }
+      }
+    }
+    return {
+      ...runResult,
+      filesThatWouldBeOverwritten
+    };
+  }
+
+  /**
+   * Pull the latest changes for the current branch from the registered remote branch.
+   */
+  public pull(options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return this.run([`pull`], options);
+  }
+
+  /**
+   * Push the current branch to the remote tracked repository.
+   * @param options The options for determining how this command will run.
+   */
+  public async push(options: ExecutableGit.PushOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["push"];
+    if (options.setUpstream) {
+      const upstream: string = typeof options.setUpstream === "string" ? options.setUpstream : "origin";
+      const branchName: string = options.branchName || await this.currentBranch(options);
+      args.push(`--set-upstream`, upstream, branchName);
+    } else if (options.tags) {
+      // "git push --tags" without a refspec only pushes the tags, so the branch has to be named.
+      const branchName: string = options.branchName || await this.currentBranch(options);
+      const remoteResult: ExecutableGit.GetConfigurationValueResult = await this.getConfigurationValue(`branch.${branchName}.remote`, options);
+      args.push((remoteResult.configurationValue || "").trim() || "origin", branchName);
+    }
+    if (options.force) {
+      args.push(`--force`);
+    }
+    if (options.tags) {
+      args.push(`--tags`);
+    }
+    return await this.run(args, options);
+  }
+
+  /**
+   * Create a tag that points at the provided target commit (or HEAD).
+   * @param tagName The name of the tag to create.
+   * @param options The options for determining how this command will run.
+   */
+  public async createTag(tagName: string, options: ExecutableGit.CreateTagOptions = {}): Promise<ExecutableGit.CreateTagResult> {
+    const args: string[] = ["tag"];
+    const messages: string[] = options.messages ? toArray(options.messages) : [];
+    if (messages.length > 0) {
+      args.push("--annotate");
+      for (const message of messages) {
+        args.push("-m", message);
+      }
+    }
+    if (options.force) {
+      args.push("--force");
+    }
+    args.push(tagName);
+    if (options.target) {
+      args.push(options.target);
+    }
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    return {
+      ...runResult,
+      tagName,
+      annotated: messages.length > 0,
+    };
+  }
+
+  /**
+   * Get the tags in this repository.
+   * @param options The options for determining how this command will run.
+   */
+  public async listTags(options: ExecutableGit.ListTagsOptions = {}): Promise<ExecutableGit.ListTagsResult> {
+    const args: string[] = ["tag", "--list"];
+    if (options.pattern) {
+      args.push(options.pattern);
+    }
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    const tags: string[] = where(map(getLines(runResult.stdout), (line: string) => line.trim()), (line: string) => !!line);
+    if (options.sortByVersion) {
+      tags.sort(compareTagVersions);
+    }
+    return {
+      ...runResult,
+      tags,
+    };
+  }
+
+  /**
+   * Delete the provided local tag.
+   * @param tagName The name of the tag to delete.
+   * @param options The options for determining how this command will run.
+   */
+  public async deleteTag(tagName: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.DeleteTagResult> {
+    const runResult: ExecutableGit.Result = await this.run(["tag", "--delete", tagName], options);
+    const deletedTagMatch: RegExpMatchArray | null = (runResult.stdout || "").match(deletedTagRegExp);
+    return {
+      ...runResult,
+      deletedTagSha: deletedTagMatch ? deletedTagMatch[1] : undefined,
+    };
+  }
+
+  /**
+   * Get the SHA of the best common ancestor of the two provided refs.
+   * @param ref1 The first ref.
+   * @param ref2 The second ref.
+   * @param options The options for determining how this command will run.
+   */
+  public async mergeBase(ref1: string | GitRemoteBranch, ref2: string | GitRemoteBranch, options: ExecutableGit.Options = {}): Promise<ExecutableGit.MergeBaseResult> {
+    const runResult: ExecutableGit.Result = await this.run(["merge-base", getRemoteBranchRef(ref1), getRemoteBranchRef(ref2)], options);
+    return {
+      ...runResult,
+      mergeBaseSha: (runResult.exitCode === 0 && runResult.stdout && runResult.stdout.trim()) || undefined,
+    };
+  }
+
+  /**
+   * Check whether or not the possible ancestor ref is an ancestor of the descendant ref. A ref is
+   * considered to be an ancestor of itself.
+   * @param possibleAncestorRef The ref that may be an ancestor.
+   * @param descendantRef The ref that may be a descendant.
+   * @param options The options for determining how this command will run.
+   */
+  public async isAncestor(possibleAncestorRef: string | GitRemoteBranch, descendantRef: string | GitRemoteBranch, options: ExecutableGit.Options = {}): Promise<ExecutableGit.IsAncestorResult> {
+    const runResult: ExecutableGit.Result = await this.run(["merge-base", "--is-ancestor", getRemoteBranchRef(possibleAncestorRef), getRemoteBranchRef(descendantRef)], options);
+    return {
+      ...runResult,
+      isAncestor: runResult.exitCode === 0,
+    };
+  }
+
+  /**
+   * Get the number of commits that the local ref is ahead of and behind the remote ref.
+   * @param localRef The local ref, such as a local branch name.
+   * @param remoteRef The remote ref, such as the local branch's upstream branch.
+   * @param options The options for determining how this command will run.
+   */
+  public async aheadBehind(localRef: string | GitRemoteBranch, remoteRef: string | GitRemoteBranch, options: ExecutableGit.Options = {}): Promise<ExecutableGit.AheadBehindResult> {
+    const runResult: ExecutableGit.Result = await this.run(["rev-list", "--left-right", "--count", `${getRemoteBranchRef(localRef)}...${getRemoteBranchRef(remoteRef)}`], options);
+    const countsMatch: RegExpMatchArray | null = (runResult.stdout || "").match(aheadBehindRegExp);
+    return {
+      ...runResult,
+      ahead: countsMatch ? parseInt(countsMatch[1]) : 0,
+      behind: countsMatch ? parseInt(countsMatch[2]) : 0,
+    };
+  }
+
+  /**
+   * Add/stage the provided files.
+   * @param filePaths The paths to the files to stage.
+   * @param options The options for determining how this command will run.
+   */
+  public add(filePaths: string | string[], options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["add"];
+    if (typeof filePaths === "string") {
+      args.push(filePaths);
+    } else {
+      args.push(...filePaths);
+    }
+    return this.run(args, options);
+  }
+
+  /**
+   * Add/stage all of the current unstaged files.
+   * @param options The options that determine how this command will run.
+   */
+  public addAll(options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return this.add("*", options);
+  }
+
+  /**
+   * Commit the currently staged/added changes to the current branch.
+   * @param commitMessages The commit messages to apply to this commit.
+   * @param options The options that determine how this command will run.
+   */
+  public commit(commitMessages: string | string[], options: ExecutableGit.CommitOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["commit"];
+
+    if (options.noVerify) {
+      args.push("--no-verify");
+    }
+
+    if (typeof commitMessages === "string") {
+      commitMessages = [commitMessages];
+    }
+    for (const commitMessage of commitMessages) {
+      args.push("-m", commitMessage);
+    }
+
+    return this.run(args, options);
+  }
+
+  /**
+   * Delete a local branch.
+   * @param branchName The name of the local branch to delete.
+   */
+  public deleteLocalBranch(branchName: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return this.run([`branch`, `-D`, branchName], options);
+  }
+
+  /**
+   * Create a new local branch with the provided name.
+   * @param branchName The name of the new branch.
+   * @param options The options for determining how this command will run.
+   */
+  public createLocalBranch(branchName: string, options: ExecutableGit.CreateLocalBranchOptions = {}): Promise<ExecutableGit.Result> {
+    const args: string[] = ["checkout", "-b", branchName];
+    if (options.startPoint) {
+      args.push(options.startPoint);
+    }
+    return this.run(args, options);
+  }
+
+  /**
+   * Remote the provided branch from the provided tracked remote repository.
+   * @param branchName The name of the remote branch to delete.
+   * @param remoteName The name of the tracked remote repository.
+   * @param options The options for determining how this command will run.
+   */
+  public deleteRemoteBranch(branchName: string, options: ExecutableGit.DeleteRemoteBranchOptions = {}): Promise<ExecutableGit.Result> {
+    return this.run([`push`, options.remoteName || "origin", `:${branchName}`], options);
+  }
+
+  public async diff(options: ExecutableGit.DiffOptions = {}): Promise<ExecutableGit.DiffResult> {
+    const args: string[] = ["diff"];
+
+    if (options.commit1) {
+      args.push(options.commit1);
+    }
+
+    if (options.commit2) {
+      args.push(options.commit2);
+    }
+
+    if (options.staged) {
+      args.push(`--staged`);
+    }
+
+    if (options.nameOnly) {
+      args.push(`--name-only`);
+    }
+
+    if (options.ignoreSpace === "all") {
+      args.push(`--ignore-all-space`);
+    } else if (options.ignoreSpace) {
+      args.push(`--ignore-space-${options.ignoreSpace}`);
+    }
+
+    const commandResult: ExecutableGit.Result = await this.run(args, options);
+
+    const result: ExecutableGit.DiffResult = {
+      ...commandResult,
+      filesChanged: [],
+    };
+    const repositoryFolderPath: string | undefined = options.executionFolderPath || this.options.executionFolderPath || process.cwd();
+    const stdoutLines: string[] = getLines(commandResult.stdout);
+    if (options.nameOnly) {
+      for (const fileChanged of getLines(commandResult.stdout)) {
+        if (fileChanged) {
+          result.filesChanged.push(joinPath(repositoryFolderPath, fileChanged));
+        }
+      }
+    } else {
+      result.filesChanged = getFilesChangedFromFullDiff(stdoutLines, repositoryFolderPath);
+      result.files = parseDiff(stdoutLines);
+    }
+    return result;
+  }
+
+  /**
+   * Get the branches that are local to this repository.
+   */
+  public async localBranches(options: ExecutableGit.Options = {}): Promise<ExecutableGit.LocalBranchesResult> {
+    const commandResult: ExecutableGit.Result = await this.run(["branch"], options);
+    let currentBranch = "";
+    const localBranches: string[] = [];
+    for (let branch of getLines(commandResult.stdout)) {
+      if (branch) {
+        branch = branch.trim();
+        if (branch) {
+          if (branch.startsWith("*")) {
+            branch = branch.substring(1).trimLeft();
+            const detachedHeadMatch: RegExpMatchArray | null = branch.match(branchDetachedHeadRegExp);
+            if (detachedHeadMatch) {
+              branch = detachedHeadMatch[1];
+            }
+            currentBranch = branch;
+          }
+          localBranches.push(branch);
+        }
+      }
+    }
+    return {
+      ...commandResult,
+      localBranches,
+      currentBranch,
+    };
+  }
+
+  /**
+   * Get the branch that the repository is currently on.
+   * @param options The options to run this command with.
+   */
+  public async currentBranch(options: ExecutableGit.Options = {}): Promise<string> {
+    return (await this.localBranches(options)).currentBranch;
+  }
+
+  /**
+   * Get the remote branches that this repository clone is aware of.
+   * @param options The options to run this command with.
+   */
+  public async remoteBranches(options: ExecutableGit.Options = {}): Promise<ExecutableGit.RemoteBranchesResult> {
+    const gitResult: ExecutableGit.Result = await this.run(["branch", "--remotes"], options);
+    const remoteBranches: GitRemoteBranch[] = [];
+    for (let remoteBranchLine of getLines(gitResult.stdout)) {
+      if (remoteBranchLine && remoteBranchLine.indexOf("->") === -1) {
+        remoteBranchLine = remoteBranchLine.trim();
+        if (remoteBranchLine) {
+          const firstSlashIndex: number = remoteBranchLine.indexOf("/");
+          const repositoryTrackingName: string = remoteBranchLine.substring(0, firstSlashIndex);
+          const branchName: string = remoteBranchLine.substring(firstSlashIndex + 1);
+          remoteBranches.push({
+            repositoryTrackingName,
+            branchName
+          });
+        }
+      }
+    }
+    return {
+      ...gitResult,
+      remoteBranches
+    };
+  }
+
+  public async stash(options: ExecutableGit.StashOptions = {}): Promise<ExecutableGit.Result> {
+    const args = ["stash"];
+    if (options.pop) {
+      args.push("pop");
+    }
+    if (options.keepIndex) {
+      args.push("--keep-index");
+    }
+    if (options.all) {
+      args.push("--all");
+    }
+
+    return this.run(args, options);
+  }
+
+  /**
+   * Get the commits in the repository's history.
+   * @param options The options for determining which commits will be returned.
+   */
+  public async log(options: ExecutableGit.LogOptions = {}): Promise<ExecutableGit.LogResult> {
+    const args: string[] = ["log", `--format=${logFormat}`, "--name-only"];
+    if (options.maxCount != undefined) {
+      args.push(`--max-count=${options.maxCount}`);
+    }
+    if (options.author) {
+      args.push(`--author=${options.author}`);
+    }
+    if (options.range) {
+      args.push(options.range);
+    }
+    if (options.paths) {
+      args.push("--", ...toArray(options.paths));
+    }
+    const runResult: ExecutableGit.Result = await this.run(args, options);
+    const commits: Git.Commit[] = getCommitsFromLogOutput(runResult.stdout);
+    if (commits.some((commit: Git.Commit) => commit.filesChanged.length > 0)) {
+      // The changed file paths are relative to the repository's root folder, not the folder that
+      // the command ran in.
+      const rootFolderPath: string = await this.getRootFolderPath(options);
+      for (const commit of commits) {
+        commit.filesChanged = commit.filesChanged.map((filePath: string) => joinPath(rootFolderPath, filePath));
+      }
+    }
+    return {
+      ...runResult,
+      commits,
+    };
+  }
+
+  /**
+   * Get the root folder of the repository that contains the folder that commands will run in. If
+   * the root folder can't be found, then the folder that commands will run in is returned instead.
+   * @param options The options for determining how this command will run.
+   */
+  private async getRootFolderPath(options: ExecutableGit.Options): Promise<string> {
+    const runResult: ExecutableGit.Result = await this.run(["rev-parse", "--show-toplevel"], { ...options, usePager: undefined });
+    const rootFolderPath: string | undefined = runResult.exitCode === 0 && runResult.stdout ? runResult.stdout.trim() : undefined;
+    return rootFolderPath || options.executionFolderPath || this.options.executionFolderPath || process.cwd();
+  }
+
+  /**
+   * Reset a local git repo, possible with existing git data.
+   * Delete all the branches and all the remotes.
+   * Use this function to reuse existing git repo data to accelerate fetching.
+   */
+  public async resetRepoFolder(): Promise<void> {
+    const log = this.options.log || console.error;
+
+    if (this.options.executionFolderPath) {
+      mkdirSync(this.options.executionFolderPath, { recursive: true });
+    }
+    const initResult = await this.init();
+    if (initResult.exitCode !== 0) {
+      log(`Failed to init repo at ${this.options.executionFolderPath}`);
+      if (initResult.error) {
+        log(JSON.stringify(initResult.error));
+        throw initResult;
+      }
+    }
+
+    try {
+      await this.addAll();
+    } catch (e) {}
+    await this.resetAll({ hard: true });
+    await this.run(["clean", "-xdf"]);
+
+    // Remove all the local branches
+    const localBranchesResult = await this.localBranches();
+    if (localBranchesResult.currentBranch) {
+      try {
+        await this.checkout(localBranchesResult.currentBranch, { detach: true });
+        await this.deleteLocalBranch(localBranchesResult.currentBranch);
+      } catch (e) {
+      }
+    }
+    for (const branchName of localBranchesResult.localBranches) {
+      if (branchName && branchName !== localBranchesResult.currentBranch) {
+        try {
+          await this.deleteLocalBranch(branchName);
+        } catch (e) {
+        }
+      }
+    }
+
+    // Remove all the remotes
+    const listRemotesResult = await this.listRemotes();
+    for (const remoteName of Object.keys(listRemotesResult.remotes)) {
+      if (remoteName) {
+        await this.removeRemote(remoteName);
+      }
+    }
+  }
+
+  /**
+   * Run "git status".
+   */
+  public async status(options: ExecutableGit.Options = {}): Promise<ExecutableGit.StatusResult> {
+    const folderPath: string = options.executionFolderPath || this.options.executionFolderPath || process.cwd();
+
+    let parseState: StatusParseState = "CurrentBranch";
+    let localBranch: string | undefined;
+    let remoteBranch: string | undefined;
+    let hasUncommittedChanges = false;
+    const stagedModifiedFiles: string[] = [];
+    const stagedDeletedFiles: string[] = [];
+    const notStagedModifiedFiles: string[] = [];
+    const notStagedDeletedFiles: string[] = [];
+    const untrackedFiles: string[] = [];
+    const driftedSubmodules: ExecutableGit.DriftedSubmodule[] = [];
+
+    const runResult: ExecutableGit.Result = await this.run(["status"], options);
+    const lines: string[] = getLines(runResult.stdout);
+    let lineIndex = 0;
+    while (lineIndex < lines.length) {
+      const line: string = lines[lineIndex].trim();
+      if (!line) {
+        ++lineIndex;
+      } else {
+        switch (parseState) {
+          case "CurrentBranch":
+            const onBranchMatch: RegExpMatchArray | null = line.match(onBranchRegExp);
+            if (onBranchMatch) {
+              localBranch = onBranchMatch[1];
+            } else {
+              const detachedHeadMatch: RegExpMatchArray | null = line.match(statusDetachedHeadRegExp);
+              if (detachedHeadMatch) {
+                localBranch = detachedHeadMatch[1];
+              }
+            }
+            parseState = "RemoteBranch";
+            ++lineIndex;
+            break;
+
+          case "RemoteBranch":
+            const remoteBranchMatch: RegExpMatchArray | null = line.match(/.*\'(.*)\'.*/);
+            if (remoteBranchMatch) {
+              remoteBranch = remoteBranchMatch[1];
+              ++lineIndex;
+            }
+            parseState = "Changes";
+            break;
+
+          case "Changes":
+            hasUncommittedChanges = !line.match(/nothing to commit, working tree clean/i);
+            if (hasUncommittedChanges) {
+              if (line.match(/Changes to be committed:/i)) {
+                parseState = "ChangesToBeCommitted";
+              } if (isChangesNotStagedForCommitHeader(line)) {
+                parseState = "ChangesNotStagedForCommit";
+              } else if (isUntrackedFilesHeader(line)) {
+                parseState = "UntrackedFiles";
+              }
+            }
+            ++lineIndex;
+            break;
+
+          case "ChangesToBeCommitted":
+            if (!line.match(/\(use "git reset HEAD <file>..." to unstage\)/i)) {
+              const modifiedMatch: RegExpMatchArray | null = line.match(/modified:(.*)/i);
+              if (modifiedMatch) {
+                const modifiedFilePath: string = joinPath(folderPath, modifiedMatch[1].trim());
+                stagedModifiedFiles.push(modifiedFilePath);
+              } else {
+                const deletedMatch: RegExpMatchArray | null = line.match(/deleted:(.*)/i);
+                if (deletedMatch) {
+                  const deletedFilePath: string = joinPath(folderPath, deletedMatch[1].trim());
+                  stagedDeletedFiles.push(deletedFilePath);
+                } else if (isChangesNotStagedForCommitHeader(line)) {
+                  parseState = "ChangesNotStagedForCommit";
+                } else if (isUntrackedFilesHeader(line)) {
+                  parseState = "UntrackedFiles";
+                }
+              }
+            }
+            ++lineIndex;
+            break;
+
+          case "ChangesNotStagedForCommit":
+            if (!line.match(/\(use "git add <file>..." to update what will be committed\)/i) && !line.match(/\(use "git checkout -- <file>..." to discard changes in working directory\)/i)) {
+              const modifiedMatch: RegExpMatchArray | null = line.match(/modified:(.*)/i);
+              if (modifiedMatch) {
+                let modifiedFilePath: string = modifiedMatch[1].trim();
+                const driftedSubmoduleMatch: RegExpMatchArray | null = modifiedFilePath.match(driftedSubmoduleRegExp);
+                if (driftedSubmoduleMatch) {
+                  modifiedFilePath = joinPath(folderPath, driftedSubmoduleMatch[1]);
+                  const driftDescriptions: string[] = driftedSubmoduleMatch[2].split(", ");
+                  driftedSubmodules.push({
+                    folderPath: modifiedFilePath,
+                    newCommits: contains(driftDescriptions, "new commits"),
+                    modifiedContent: contains(driftDescriptions, "modified content"),
+                    untrackedContent: contains(driftDescriptions, "untracked content"),
+                  });
+                } else {
+                  modifiedFilePath = joinPath(folderPath, modifiedFilePath);
+                }
+                notStagedModifiedFiles.push(modifiedFilePath);
+              } else {
+                const deletedMatch: RegExpMatchArray | null = line.match(/deleted:(.*)/i);
+                if (deletedMatch) {
+                  const deletedFilePath: string = joinPath(folderPath, deletedMatch[1].trim());
+                  notStagedDeletedFiles.push(deletedFilePath);
+                } else if (isUntrackedFilesHeader(line)) {
+                  parseState = "UntrackedFiles";
+                }
+              }
+            }
+            ++lineIndex;
+            break;
+
+          case "UntrackedFiles":
+            if (!line.match(/\(use "git add <file>..." to include in what will be committed\)/i) &&
+              !line.match(/nothing added to commit but untracked files present \(use "git add" to track\)/i) &&
+              !line.match(/no changes added to commit \(use \"git add\" and\/or \"git commit -a\"\)/i)) {
+              const resolveUntrackedFilePath: string = joinPath(folderPath, line);
+              untrackedFiles.push(resolveUntrackedFilePath);
+            }
+            ++lineIndex;
+            break;
+        }
+      }
+    }
+
+    const modifiedFiles: string[] = [];
+    if (hasUncommittedChanges) {
+      modifiedFiles.push(
+        ...stagedModifiedFiles,
+        ...stagedDeletedFiles,
+        ...notStagedModifiedFiles,
+        ...notStagedDeletedFiles,
+        ...untrackedFiles);
+    }
+
+    return {
+      ...runResult,
+      localBranch,
+      remoteBranch,
+      hasUncommittedChanges,
+      modifiedFiles,
+      stagedModifiedFiles,
+      stagedDeletedFiles,
+      notStagedModifiedFiles,
+      notStagedDeletedFiles,
+      untrackedFiles,
+      driftedSubmodules,
+    };
+  }
+
+  /**
+   * Get the configuration value for the provided configuration value name.
+   * @param configurationValueName The name of the configuration value to get.
+   * @param options The options that can configure how the command will run.
+   */
+  public async getConfigurationValue(configurationValueName: string, options?: ExecutableGit.Options): Promise<ExecutableGit.GetConfigurationValueResult> {
+    const result: ExecutableGit.GetConfigurationValueResult = await this.run(["config", "--get", configurationValueName], options);
+    if (result.exitCode === 0 && result.stdout) {
+      result.configurationValue = result.stdout;
+    }
+    return result;
+  }
+
+  /**
+   * Set the configuration value with the provided name in the repository's local configuration.
+   * @param configurationValueName The name of the configuration value to set.
+   * @param configurationValue The value to set.
+   * @param options The options that can configure how the command will run.
+   */
+  public setConfigurationValue(configurationValueName: string, configurationValue: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return this.run(["config", configurationValueName, configurationValue], options);
+  }
+
+  /**
+   * Get the URL of the current repository.
+   * @param options The options that can configure how the command will run.
+   */
+  public async getRepositoryUrl(options: ExecutableGit.Options = {}): Promise<string | undefined> {
+    let result: string | undefined = (await this.getConfigurationValue("remote.origin.url", options)).configurationValue;
+    if (result) {
+      result = result.trim();
+    }
+    return result;
+  }
+
+  /**
+   * Reset all the file.
+   * @param options The options that can configure how the command will run.
+   */
+  public resetAll(options: ExecutableGit.ResetOptions = {}): Promise<ExecutableGit.Result> {
+    const args = ["reset"];
+    if (options.hard) {
+      args.push("--hard");
+    }
+    if (options.soft) {
+      args.push("--soft");
+    }
+
+    if (options.target) {
+      args.push(options.target);
+    } else if (!options.hard && !options.soft) {
+      args.push("*");
+    }
+    return this.run(args, options);
+  }
+
+  /**
+   * Add the provided remote URL to this local repository's list of remote repositories using the
+   * provided remoteName.
+   * @param remoteName The name/reference that will be used to refer to the remote repository.
+   * @param remoteUrl The URL of the remote repository.
+   * @param options Options that can be used to modify the way that this operation is run.
+   */
+  public async addRemote(remoteName: string, remoteUrl: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return await this.run(["remote", "add", remoteName, await this.addAuthenticationToURL(remoteUrl)], options);
+  }
+
+  /**
+   * Remove git remote repository
+   * @param remoteName The name of the remote repository to be removed
+   * @param options Options
+   */
+  public async removeRemote(remoteName: string, options?: ExecutableGit.Options) {
+    return this.run(["remote", "remove", remoteName], options);
+  }
+
+  /**
+   * Get the URL associated with the provided remote repository.
+   * @param remoteName The name of the remote repository.
+   * @returns The URL associated with the provided remote repository or undefined if the remote name
+   * is not found.
+   */
+  public async getRemoteUrl(remoteName: string, options: ExecutableGit.Options = {}): Promise<string | undefined> {
+    const result: string | undefined = (await this.run(["remote", "get-url", remoteName], options)).stdout;
+    return (result && result.trim()) || undefined;
+  }
+
+  /**
+   * Set the URL associated with the provided remote repository.
+   * @param remoteName The name of the remote repository.
+   * @param remoteUrl The URL associated with the provided remote repository.
+   */
+  public async setRemoteUrl(remoteName: string, remoteUrl: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
+    return await this.run(["remote", "set-url", remoteName, await this.addAuthenticationToURL(remoteUrl)], options);
+  }
+
+  public async refreshRemoteAuthentication(): Promise<ExecutableGit.ListRemotesResult> {
+    const log = this.options.log || console.error;
+    const remotesResult = await this.listRemotes();
+    if (remotesResult.error) {
+      log(remotesResult.error.toString());
+      return remotesResult;
+    }
+
+    for (const remoteName of Object.keys(remotesResult.remotes)) {
+      const remoteUrl = remotesResult.remotes[remoteName];
+      if (remoteUrl) {
+        await this.setRemoteUrl(remoteName, remoteUrl);
+      }
+    }
+
+    return this.listRemotes();
+  }
+
+  /**
+   * Get the remote repositories that are referenced in this local repository.
+   */
+  public async listRemotes(options: ExecutableGit.Options = {}): Promise<ExecutableGit.ListRemotesResult> {
+    const runResult: ExecutableGit.Result = await this.run(["remote", "--verbose"], options);
+    const remotes: StringMap<string> = {};
+    for (const line of getLines(runResult.stdout)) {
+      const lineParts: string[] = line.split(/\s+/g);
+      remotes[lineParts[0]] = lineParts[1];
+    }
+    const result: ExecutableGit.ListRemotesResult = {
+      ...runResult,
+      remotes,
+    };
+    return result;
+  }
+}
+
+/**
+ * A set of interfaces and types that relate to the FakeGit class.
+ */
+export namespace FakeGit {
+  /**
+   * Options that can be passed to the FakeGit constructor.
+   */
+  export interface ConstructorOptions extends Git.ConstructorOptions {
+    /**
+     * The folder that the fake repository's files will be resolved against. Defaults to the
+     * current working directory.
+     */
+    folderPath?: string;
+    /**
+     * The name of the branch that the fake repository will start on. Defaults to "master".
+     */
+    initialBranch?: string;
+    /**
+     * The function that will be used to get the date of new commits. Defaults to the current date.
+     */
+    getCurrentDate?: () => Date;
+  }
+
+  /**
+   * A commit that is stored in a fake repository.
+   */
+  export interface Commit {
+    /**
+     * The SHA of the commit.
+     */
+    sha: string;
+    /**
+     * The SHAs of the commit's parents.
+     */
+    parents: string[];
+    /**
+     * The person who authored the changes of the commit.
+     */
+    author: Git.Author;
+    /**
+     * The date when the changes of the commit were authored.
+     */
+    authorDate: Date;
+    /**
+     * The person who created the commit.
+     */
+    committer: Git.Author;
+    /**
+     * The date when the commit was created.
+     */
+    committerDate: Date;
+    /**
+     * The full commit message.
+     */
+    message: string;
+    /**
+     * The contents of every file in the repository at this commit, keyed by the file's path
+     * relative to the root of the repository.
+     */
+    files: StringMap<string>;
+  }
+}
+
+/**
+ * The saved state of a "git stash" operation in a FakeGit repository.
+ */
+interface FakeStashEntry {
+  baseSha?: string;
+  index: StringMap<string>;
+  workingTree: StringMap<string>;
+}
+
+/**
+ * An in-memory implementation of Git that models branches, commits, a working tree, remotes,
+ * staging and stash without running a git executable. Failures are reported the same way that
+ * ExecutableGit reports them: through a non-zero exit code and an error message in stderr.
+ */
+export class FakeGit implements Git {
+  private readonly folderPath: string;
+  private readonly author: Git.Author;
+  private readonly getCurrentDate: () => Date;
+  private readonly commits: StringMap<FakeGit.Commit> = {};
+  private readonly branches: StringMap<string> = {};
+  private readonly tags: StringMap<string> = {};
+  private readonly upstreamBranches: StringMap<string> = {};
+  private readonly remoteTrackingBranches: StringMap<string> = {};
+  private readonly remotes: StringMap<string> = {};
+  private readonly configuration: StringMap<string> = {};
+  private readonly remoteRepositories: StringMap<FakeGit> = {};
+  private readonly stashEntries: FakeStashEntry[] = [];
+  private mergeHeads: string[] = [];
+  private headBranch: string | undefined;
+  private detachedHeadSha: string | undefined;
+  private index: StringMap<string> = {};
+  private workingTree: StringMap<string> = {};
+
+  /**
+   * Create a new FakeGit object that starts as an empty repository.
+   * @param options The options that will configure the fake repository.
+   */
+  constructor(options: FakeGit.ConstructorOptions = {}) {
+    this.folderPath = options.folderPath || process.cwd();
+    this.author = options.author || { name: "Fake Author", email: "fake.author@example.com" };
+    this.getCurrentDate = options.getCurrentDate || (() => new Date());
+    this.headBranch = options.initialBranch || "master";
+  }
+
+  /**
+   * Register the provided fake repository as the repository that can be reached at the provided
+   * URL when cloning, fetching, pulling or pushing.
+   * @param remoteUrl The URL of the remote repository.
+   * @param repository The fake repository that lives at the provided URL.
+   */
+  public setRemoteRepository(remoteUrl: string, repository: FakeGit): void {
+    this.remoteRepositories[remoteUrl] = repository;
   }
 
   /**
-   * Get the SHA of the currently checked out commit.
+   * Write the provided contents to the file at the provided path in the working tree.
+   * @param filePath The path to the file, either rooted or relative to the repository folder.
+   * @param contents The contents of the file.
    */
-  public async currentCommitSha(options: ExecutableGit.Options = {}): Promise<ExecutableGit.CurrentCommitShaResult> {
-    const runResult: ExecutableGit.Result = await this.run(["rev-parse", "HEAD"], options);
-    const result: ExecutableGit.CurrentCommitShaResult = {
-      ...runResult,
-      currentCommitSha: runResult.stdout,
-    };
+  public writeFile(filePath: string, contents: string): void {
+    this.workingTree[this.getRelativeFilePath(filePath)] = contents;
+  }
+
+  /**
+   * Read the contents of the file at the provided path in the working tree.
+   * @param filePath The path to the file, either rooted or relative to the repository folder.
+   * @returns The contents of the file or undefined if the file doesn't exist.
+   */
+  public readFile(filePath: string): string | undefined {
+    const relativeFilePath: string = this.getRelativeFilePath(filePath);
+    return hasKey(this.workingTree, relativeFilePath) ? this.workingTree[relativeFilePath] : undefined;
+  }
+
+  /**
+   * Delete the file at the provided path from the working tree.
+   * @param filePath The path to the file, either rooted or relative to the repository folder.
+   * @returns Whether or not the file existed.
+   */
+  public deleteFile(filePath: string): boolean {
+    const relativeFilePath: string = this.getRelativeFilePath(filePath);
+    const result: boolean = hasKey(this.workingTree, relativeFilePath);
+    delete this.workingTree[relativeFilePath];
     return result;
   }
 
   /**
-   * Download objects and refs from another repository.
+   * Get the commit that the provided reference (branch, remote branch, commit SHA or HEAD)
+   * resolves to.
+   * @param ref The reference to resolve.
+   */
+  public getCommit(ref: string): FakeGit.Commit | undefined {
+    const sha: string | undefined = this.resolveRef(ref);
+    return sha ? this.commits[sha] : undefined;
+  }
+
+  /**
+   * Set a configuration value that will be returned by getConfigurationValue().
+   * @param configurationValueName The name of the configuration value.
+   * @param configurationValue The configuration value.
+   */
+  public setConfigurationValue(configurationValueName: string, configurationValue: string): void {
+    this.configuration[configurationValueName] = configurationValue;
+  }
+
+  /**
+   * Get the SHA of the currently checked out commit.
+   */
+  public async currentCommitSha(): Promise<ExecutableGit.CurrentCommitShaResult> {
+    const currentCommitSha: string | undefined = this.getHeadSha();
+    return currentCommitSha
+      ? { ...fakeResult(0, currentCommitSha), currentCommitSha }
+      : fakeResult(128, "", "fatal: ambiguous argument 'HEAD': unknown revision or path not in the working tree.");
+  }
+
+  /**
+   * Download commits and branches from the fake repositories that this repository's remotes refer
+   * to.
    * @param options The options that can be passed to `git fetch`.
    */
-  public fetch(options: ExecutableGit.FetchOptions = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["fetch"];
-    if (options.prune) {
-      args.push("--prune");
-    }
+  public async fetch(options: ExecutableGit.FetchOptions = {}): Promise<ExecutableGit.Result> {
+    let remoteNames: string[];
     if (options.all) {
-      args.push("--all");
-    }
-    if (options.depth) {
-      args.push("--depth", options.depth.toString());
-    }
-    if (options.remoteName) {
-      args.push(options.remoteName);
-    }
-    if (options.refSpec) {
-      args.push(options.refSpec);
+      remoteNames = Object.keys(this.remotes);
+    } else {
+      const upstreamBranch: GitRemoteBranch | undefined = this.getUpstreamBranch();
+      remoteNames = [options.remoteName || (upstreamBranch && upstreamBranch.repositoryTrackingName) || "origin"];
     }
-    return this.run(args, options);
-  }
 
-  public merge(options: ExecutableGit.MergeOptions = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["merge"];
-    if (options.squash != undefined) {
-      if (options.squash) {
-        args.push("--squash");
-      } else {
-        args.push("--no-squash");
+    const refSpecBranchName: string | undefined = options.refSpec && options.refSpec.split(":")[0].replace(/^refs\/heads\//, "");
+    for (const remoteName of remoteNames) {
+      const remoteRepository: FakeGit | undefined = this.getRemoteRepository(remoteName);
+      if (!remoteRepository) {
+        return this.remoteNotFound(remoteName);
       }
-    }
-    if (options.edit != undefined) {
-      if (options.edit) {
-        args.push("--edit");
-      } else {
-        args.push("--no-edit");
+      this.copyCommitsFrom(remoteRepository);
+      for (const branchName of Object.keys(remoteRepository.branches)) {
+        if (!refSpecBranchName || refSpecBranchName === branchName) {
+          this.remoteTrackingBranches[`${remoteName}/${branchName}`] = remoteRepository.branches[branchName];
+        }
       }
-    }
-    if (options.strategyOptions) {
-      options.strategyOptions = toArray(options.strategyOptions);
-      for (const strategyOption of options.strategyOptions) {
-        args.push(`--strategy-option=${strategyOption}`);
+      if (options.prune) {
+        for (const remoteBranch of this.getRemoteBranches()) {
+          if (remoteBranch.repositoryTrackingName === remoteName && !hasKey(remoteRepository.branches, remoteBranch.branchName)) {
+            delete this.remoteTrackingBranches[`${remoteName}/${remoteBranch.branchName}`];
+          }
+        }
       }
     }
-    if (options.quiet) {
-      args.push(`--quiet`);
-    }
-    if (options.messages != undefined) {
-      options.messages = toArray(options.messages);
-      for (const message of options.messages) {
-        args.push("-m", message);
+    return fakeResult();
+  }
+
+  /**
+   * Merge the provided references into the current branch. Conflicting files are written to the
+   * working tree with conflict markers, and the merge is completed by the next commit.
+   * @param options Options that can be passed to "git merge".
+   */
+  public async merge(options: ExecutableGit.MergeOptions = {}): Promise<ExecutableGit.Result> {
+    const refsToMerge: string[] = options.refsToMerge ? where(toArray(options.refsToMerge), (ref: string) => !!ref) : [];
+    if (refsToMerge.length === 0) {
+      const upstreamBranch: GitRemoteBranch | undefined = this.getUpstreamBranch();
+      if (!upstreamBranch) {
+        return fakeResult(128, "", "fatal: No remote for the current branch.");
       }
+      refsToMerge.push(`${upstreamBranch.repositoryTrackingName}/${upstreamBranch.branchName}`);
     }
-    if (options.refsToMerge) {
-      for (const refToMerge of toArray(options.refsToMerge)) {
-        if (refToMerge) {
-          args.push(refToMerge);
-        }
+
+    const theirShas: string[] = [];
+    for (const refToMerge of refsToMerge) {
+      const theirSha: string | undefined = this.resolveRef(refToMerge);
+      if (!theirSha) {
+        return fakeResult(1, "", `merge: ${refToMerge} - not something we can merge`);
       }
+      theirShas.push(theirSha);
     }
-    return this.run(args, options);
-  }
 
-  public rebase(options: ExecutableGit.RebaseOptions = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["rebase"];
-    if (options.strategy) {
-      args.push(`--strategy=${options.strategy}`);
-    }
-    if (options.strategyOption) {
-      args.push(`--strategy-option=${options.strategyOption}`);
+    const headSha: string | undefined = this.getHeadSha();
+    const shasToMerge: string[] = where(theirShas, (theirSha: string) => !headSha || !this.isAncestor(theirSha, headSha));
+    if (shasToMerge.length === 0) {
+      return fakeResult(0, "Already up to date.");
     }
-    if (options.quiet) {
-      args.push("--quiet");
+
+    if (shasToMerge.length === 1 && !options.squash && (!headSha || this.isAncestor(headSha, shasToMerge[0]))) {
+      const overwrittenResult: ExecutableGit.Result | undefined = this.checkLocalChanges(shasToMerge[0], "merge");
+      if (overwrittenResult) {
+        return overwrittenResult;
+      }
+      this.switchTree(this.getTree(shasToMerge[0]));
+      this.setHeadSha(shasToMerge[0]);
+      return fakeResult(0, "Fast-forward");
     }
-    if (options.verbose) {
-      args.push("--verbose");
+
+    const strategyOptions: string[] = options.strategyOptions ? toArray(options.strategyOptions) : [];
+    const headFiles: StringMap<string> = this.getTree(headSha);
+    let mergedFiles: StringMap<string> = headFiles;
+    const conflicts: string[] = [];
+    for (let i = 0; i < shasToMerge.length; ++i) {
+      const baseSha: string | undefined = headSha && this.getMergeBase(headSha, shasToMerge[i]);
+      const treeMerge: FakeTreeMerge = mergeTrees(this.getTree(baseSha), mergedFiles, this.getTree(shasToMerge[i]), refsToMerge[i], strategyOptions);
+      mergedFiles = treeMerge.files;
+      conflicts.push(...treeMerge.conflicts);
     }
-    if (options.newbase) {
-      args.push("--onto", options.newbase);
+
+    const mergedFilePaths: string[] = getChangedFilePaths(headFiles, mergedFiles);
+    const overwrittenLocalChanges: string[] = where(this.getLocalChanges(), (filePath: string) => contains(mergedFilePaths, filePath));
+    if (overwrittenLocalChanges.length > 0) {
+      return fakeResult(2, "", getOverwrittenFilesMessage("merge", overwrittenLocalChanges));
     }
-    if (options.upstream) {
-      args.push(options.upstream);
+    for (const filePath of mergedFilePaths) {
+      setOrDelete(this.workingTree, filePath, mergedFiles[filePath]);
+      if (!contains(conflicts, filePath)) {
+        setOrDelete(this.index, filePath, mergedFiles[filePath]);
+      }
     }
-    if (options.branch) {
-      args.push(options.branch);
+
+    if (conflicts.length > 0) {
+      this.mergeHeads = shasToMerge;
+      const stdoutLines: string[] = map(conflicts, (conflict: string) => `CONFLICT (content): Merge conflict in ${conflict}`);
+      stdoutLines.push("Automatic merge failed; fix conflicts and then commit the result.");
+      return fakeResult(1, stdoutLines.join("\n"));
     }
-    return this.run(args, options);
-  }
 
-  /**
-   * Clone the repository with the provided URI.
-   * @param gitUri The repository URI to clone.
-   * @param options The options that can be passed to "git clone".
-   */
-  public async clone(gitUri: string, options: ExecutableGit.CloneOptions = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = getCloneArguments(await this.addAuthenticationToURL(gitUri), options);
-    return await this.run(args, options);
+    if (options.squash) {
+      return fakeResult(0, "Squash commit -- not updating HEAD");
+    }
+    const messages: string[] = options.messages ? toArray(options.messages) : [`Merge ${refsToMerge.length === 1 ? "branch" : "branches"} ${map(refsToMerge, (ref: string) => `'${ref}'`).join(", ")}`];
+    this.setHeadSha(this.createCommit([...(headSha ? [headSha] : []), ...shasToMerge], mergedFiles, messages));
+    return fakeResult(0, "Merge made by the 'ort' strategy.");
   }
 
   /**
-   * Init git repo.
-   * @param options Options
+   * Reapply commits on top of another base tip. If any commit can't be reapplied without a
+   * conflict, the rebase is aborted and the repository is left unchanged.
+   * @param options Options that can be passed to "git rebase".
    */
-  public async init(options?: ExecutableGit.Options): Promise<ExecutableGit.Result> {
-    return this.run(["init"], options);
-  }
-
-  public async symbolicRef(name: string, ref?: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["symbolic-ref"];
-    args.push(name);
-    if (ref) {
-      args.push(ref);
+  public async rebase(options: ExecutableGit.RebaseOptions = {}): Promise<ExecutableGit.Result> {
+    if (this.getLocalChanges().length > 0) {
+      return fakeResult(1, "", "error: cannot rebase: You have unstaged changes.\nerror: Please commit or stash them.");
+    }
+    if (options.branch) {
+      const checkoutResult: ExecutableGit.Result = await this.checkout(options.branch);
+      if (checkoutResult.exitCode !== 0) {
+        return checkoutResult;
+      }
     }
-    return this.run(args, options);
-  }
 
-  /**
-   * Checkout the provided git reference (branch, tag, or commit ID) in the repository.
-   * @param refId The git reference to checkout.
-   */
-  public async checkout(refId: string, options: ExecutableGit.CheckoutOptions = {}): Promise<ExecutableGit.CheckoutResult> {
-    const args: string[] = [`checkout`];
-    if (!options.remote) {
-      args.push(refId);
-    } else {
-      args.push(`--track`, `${options.remote}/${refId}`);
+    let upstream: string | undefined = options.upstream;
+    if (!upstream) {
+      const upstreamBranch: GitRemoteBranch | undefined = this.getUpstreamBranch();
+      if (!upstreamBranch) {
+        return fakeResult(1, "", "There is no tracking information for the current branch.");
+      }
+      upstream = `${upstreamBranch.repositoryTrackingName}/${upstreamBranch.branchName}`;
     }
-    if (options.localBranchName) {
-      args.push("-b", options.localBranchName);
+    const upstreamSha: string | undefined = this.resolveRef(upstream);
+    if (!upstreamSha) {
+      return fakeResult(128, "", `fatal: invalid upstream '${upstream}'`);
     }
-    if (options.detach) {
-      args.push("--detach");
+    const newbaseSha: string | undefined = options.newbase ? this.resolveRef(options.newbase) : upstreamSha;
+    if (!newbaseSha) {
+      return fakeResult(1, "", `fatal: Does not point to a valid commit '${options.newbase}'`);
     }
-    const runResult: ExecutableGit.Result = await this.run(args, options);
-    let filesThatWouldBeOverwritten: string[] | undefined;
-    if (runResult.stderr) {
-      const stderrLines: string[] = getLines(runResult.stderr);
-      if (stderrLines[0].trim() === "error: The following untracked working tree files would be overwritten by checkout:") {
-        filesThatWouldBeOverwritten = [];
-        let lineIndex = 1;
-        while (lineIndex < stderrLines.length) {
-          const line: string = stderrLines[lineIndex];
-          if (line.trim() === "Please move or remove them before you switch branches.") {
-            break;
-          } else {
-            filesThatWouldBeOverwritten.push(joinPath(options.executionFolderPath || this.options.executionFolderPath || "", line.trim()));
-            ++lineIndex;
-          }
+
+    const headSha: string | undefined = this.getHeadSha();
+    const upstreamAncestors: Set<string> = this.getAncestors(upstreamSha);
+    const commitsToReplay: FakeGit.Commit[] = [];
+    let replaySha: string | undefined = headSha;
+    while (replaySha && !upstreamAncestors.has(replaySha)) {
+      const commit: FakeGit.Commit = this.commits[replaySha];
+      if (commit.parents.length <= 1) {
+        commitsToReplay.unshift(commit);
+      }
+      replaySha = commit.parents[0];
+    }
+    if (headSha && newbaseSha === upstreamSha && this.isAncestor(upstreamSha, headSha)) {
+      return fakeResult(0, `Current branch ${this.getCurrentBranchDisplayName()} is up to date.`);
+    }
+
+    let newHeadSha: string = newbaseSha;
+    for (const commit of commitsToReplay) {
+      const parentFiles: StringMap<string> = this.getTree(commit.parents[0]);
+      const files: StringMap<string> = { ...this.getTree(newHeadSha) };
+      const conflicts: string[] = [];
+      for (const filePath of getChangedFilePaths(parentFiles, commit.files)) {
+        if (files[filePath] !== parentFiles[filePath] && files[filePath] !== commit.files[filePath]) {
+          conflicts.push(filePath);
+        } else if (hasKey(commit.files, filePath)) {
+          files[filePath] = commit.files[filePath];
+        } else {
+          delete files[filePath];
         }
       }
+      if (conflicts.length > 0) {
+        const stderrLines: string[] = [`error: could not apply ${getShortSha(commit.sha)}... ${getLines(commit.message)[0]}`];
+        stderrLines.push(...map(conflicts, (conflict: string) => `CONFLICT (content): Merge conflict in ${conflict}`));
+        return fakeResult(1, "", stderrLines.join("\n"));
+      }
+      if (getChangedFilePaths(this.getTree(newHeadSha), files).length > 0) {
+        newHeadSha = this.createCommit([newHeadSha], files, [commit.message], commit.author, commit.authorDate);
+      }
     }
-    return {
-      ...runResult,
-      filesThatWouldBeOverwritten
-    };
-  }
 
-  /**
-   * Pull the latest changes for the current branch from the registered remote branch.
-   */
-  public pull(options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    return this.run([`pull`], options);
+    this.switchTree(this.getTree(newHeadSha));
+    this.setHeadSha(newHeadSha);
+    return fakeResult(0, `Successfully rebased and updated ${this.headBranch ? `refs/heads/${this.headBranch}` : "detached HEAD"}.`);
   }
 
   /**
-   * Push the current branch to the remote tracked repository.
-   * @param options The options for determining how this command will run.
+   * Clone the fake repository registered with the provided URI into this fake repository. The
+   * directory option is ignored because this fake repository becomes the clone.
+   * @param gitUri The repository URI to clone.
+   * @param options The options that can be passed to "git clone".
    */
-  public async push(options: ExecutableGit.PushOptions = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["push"];
-    if (options.setUpstream) {
-      const upstream: string = typeof options.setUpstream === "string" ? options.setUpstream : "origin";
-      const branchName: string = options.branchName || await this.currentBranch(options);
-      args.push(`--set-upstream`, upstream, branchName);
+  public async clone(gitUri: string, options: ExecutableGit.CloneOptions = {}): Promise<ExecutableGit.Result> {
+    const remoteRepository: FakeGit | undefined = this.remoteRepositories[gitUri];
+    if (!remoteRepository) {
+      return fakeResult(128, "", `fatal: repository '${gitUri}' not found`);
     }
-    if (options.force) {
-      args.push(`--force`);
+    if (Object.keys(this.commits).length > 0 || Object.keys(this.workingTree).length > 0) {
+      return fakeResult(128, "", `fatal: destination path '${this.folderPath}' already exists and is not an empty directory.`);
     }
-    return await this.run(args, options);
-  }
 
-  /**
-   * Add/stage the provided files.
-   * @param filePaths The paths to the files to stage.
-   * @param options The options for determining how this command will run.
-   */
-  public add(filePaths: string | string[], options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["add"];
-    if (typeof filePaths === "string") {
-      args.push(filePaths);
-    } else {
-      args.push(...filePaths);
+    const remoteName: string = options.origin || "origin";
+    this.remotes[remoteName] = gitUri;
+    const fetchResult: ExecutableGit.Result = await this.fetch({ remoteName });
+    if (fetchResult.exitCode !== 0) {
+      return fetchResult;
     }
-    return this.run(args, options);
-  }
 
-  /**
-   * Add/stage all of the current unstaged files.
-   * @param options The options that determine how this command will run.
-   */
-  public addAll(options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    return this.add("*", options);
+    const branchName: string | undefined = options.branch || remoteRepository.headBranch;
+    if (Object.keys(remoteRepository.branches).length === 0) {
+      return fakeResult(0, "", "warning: You appear to have cloned an empty repository.");
+    } else if (!branchName || !hasKey(remoteRepository.branches, branchName)) {
+      return fakeResult(128, "", `fatal: Remote branch ${branchName} not found in upstream ${remoteName}`);
+    }
+    this.switchTree(this.getTree(remoteRepository.branches[branchName]));
+    this.headBranch = branchName;
+    this.branches[branchName] = remoteRepository.branches[branchName];
+    this.upstreamBranches[branchName] = `${remoteName}/${branchName}`;
+    return fakeResult();
   }
 
   /**
-   * Commit the currently staged/added changes to the current branch.
-   * @param commitMessages The commit messages to apply to this commit.
-   * @param options The options that determine how this command will run.
+   * Checkout the provided git reference (branch, remote branch, or commit SHA) in the repository.
+   * @param refId The git reference to checkout.
+   * @param options The options that can be passed to "git checkout".
    */
-  public commit(commitMessages: string | string[], options: ExecutableGit.CommitOptions = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["commit"];
-
-    if (options.noVerify) {
-      args.push("--no-verify");
+  public async checkout(refId: string, options: ExecutableGit.CheckoutOptions = {}): Promise<ExecutableGit.CheckoutResult> {
+    if (options.remote) {
+      const remoteBranchName = `${options.remote}/${refId}`;
+      if (!hasKey(this.remoteTrackingBranches, remoteBranchName)) {
+        return fakeResult(128, "", `fatal: '${remoteBranchName}' is not a commit and a branch '${options.localBranchName || refId}' cannot be created from it`);
+      }
+      return this.createBranchAndSwitch(options.localBranchName || refId, remoteBranchName);
+    } else if (options.localBranchName) {
+      return this.createBranchAndSwitch(options.localBranchName, refId);
     }
 
-    if (typeof commitMessages === "string") {
-      commitMessages = [commitMessages];
-    }
-    for (const commitMessage of commitMessages) {
-      args.push("-m", commitMessage);
+    let targetBranch: string | undefined;
+    let targetSha: string | undefined;
+    if (!options.detach && hasKey(this.branches, refId)) {
+      targetBranch = refId;
+      targetSha = this.branches[refId];
+    } else if (!options.detach && hasKey(this.remoteTrackingBranches, `origin/${refId}`)) {
+      return this.createBranchAndSwitch(refId, `origin/${refId}`);
+    } else {
+      targetSha = this.resolveRef(refId);
+      if (!targetSha) {
+        return fakeResult(1, "", `error: pathspec '${refId}' did not match any file(s) known to git`);
+      }
     }
 
-    return this.run(args, options);
-  }
-
-  /**
-   * Delete a local branch.
-   * @param branchName The name of the local branch to delete.
-   */
-  public deleteLocalBranch(branchName: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    return this.run([`branch`, `-D`, branchName], options);
+    const overwrittenResult: ExecutableGit.CheckoutResult | undefined = this.checkLocalChanges(targetSha, "checkout");
+    if (overwrittenResult) {
+      return overwrittenResult;
+    }
+    this.switchTree(this.getTree(targetSha));
+    if (targetBranch) {
+      this.headBranch = targetBranch;
+      this.detachedHeadSha = undefined;
+      return fakeResult(0, "", `Switched to branch '${targetBranch}'`);
+    } else {
+      this.headBranch = undefined;
+      this.detachedHeadSha = targetSha;
+      return fakeResult(0, "", `HEAD is now at ${getShortSha(targetSha)}`);
+    }
   }
 
   /**
-   * Create a new local branch with the provided name.
-   * @param branchName The name of the new branch.
-   * @param options The options for determining how this command will run.
+   * Pull the latest changes for the current branch from its upstream branch.
    */
-  public createLocalBranch(branchName: string, options: ExecutableGit.CreateLocalBranchOptions = {}): Promise<ExecutableGit.Result> {
-    const args: string[] = ["checkout", "-b", branchName];
-    if (options.startPoint) {
-      args.push(options.startPoint);
+  public async pull(): Promise<ExecutableGit.Result> {
+    const upstreamBranch: GitRemoteBranch | undefined = this.getUpstreamBranch();
+    if (!upstreamBranch) {
+      return fakeResult(1, "", "There is no tracking information for the current branch.");
     }
-    return this.run(args, options);
+    const fetchResult: ExecutableGit.Result = await this.fetch({ remoteName: upstreamBranch.repositoryTrackingName });
+    return fetchResult.exitCode !== 0
+      ? fetchResult
+      : await this.merge({ refsToMerge: `${upstreamBranch.repositoryTrackingName}/${upstreamBranch.branchName}` });
   }
 
   /**
-   * Remote the provided branch from the provided tracked remote repository.
-   * @param branchName The name of the remote branch to delete.
-   * @param remoteName The name of the tracked remote repository.
+   * Push the current branch to its upstream branch in the fake remote repository.
    * @param options The options for determining how this command will run.
    */
-  public deleteRemoteBranch(branchName: string, options: ExecutableGit.DeleteRemoteBranchOptions = {}): Promise<ExecutableGit.Result> {
-    return this.run([`push`, options.remoteName || "origin", `:${branchName}`], options);
-  }
-
-  public async diff(options: ExecutableGit.DiffOptions = {}): Promise<ExecutableGit.DiffResult> {
-    const args: string[] = ["diff"];
-
-    if (options.commit1) {
-      args.push(options.commit1);
+  public async push(options: ExecutableGit.PushOptions = {}): Promise<ExecutableGit.Result> {
+    const branchName: string | undefined = options.branchName || this.headBranch;
+    if (!branchName || !hasKey(this.branches, branchName)) {
+      return fakeResult(1, "", `error: src refspec ${branchName || "HEAD"} does not match any`);
     }
 
-    if (options.commit2) {
-      args.push(options.commit2);
+    let remoteBranch: GitRemoteBranch | undefined;
+    if (options.setUpstream) {
+      remoteBranch = {
+        repositoryTrackingName: typeof options.setUpstream === "string" ? options.setUpstream : "origin",
+        branchName,
+      };
+    } else {
+      remoteBranch = this.getUpstreamBranch(branchName);
+      if (!remoteBranch && options.tags) {
+        remoteBranch = { repositoryTrackingName: "origin", branchName };
+      }
+      if (!remoteBranch) {
+        return fakeResult(128, "", `fatal: The current branch ${branchName} has no upstream branch.`);
+      }
     }
 
-    if (options.staged) {
-      args.push(`--staged`);
+    const remoteRepository: FakeGit | undefined = this.getRemoteRepository(remoteBranch.repositoryTrackingName);
+    if (!remoteRepository) {
+      return this.remoteNotFound(remoteBranch.repositoryTrackingName);
     }
 
-    if (options.nameOnly) {
-      args.push(`--name-only`);
+    const localSha: string = this.branches[branchName];
+    const remoteSha: string | undefined = remoteRepository.branches[remoteBranch.branchName];
+    if (remoteSha && !options.force && !(hasKey(this.commits, remoteSha) && this.isAncestor(remoteSha, localSha))) {
+      return fakeResult(1, "", [
+        ` ! [rejected]        ${branchName} -> ${remoteBranch.branchName} (fetch first)`,
+        `error: failed to push some refs to '${this.remotes[remoteBranch.repositoryTrackingName]}'`,
+      ].join("\n"));
     }
 
-    if (options.ignoreSpace === "all") {
-      args.push(`--ignore-all-space`);
-    } else if (options.ignoreSpace) {
-      args.push(`--ignore-space-${options.ignoreSpace}`);
+    remoteRepository.copyCommitsFrom(this);
+    if (remoteRepository.headBranch === remoteBranch.branchName) {
+      remoteRepository.switchTree(remoteRepository.getTree(localSha));
+    }
+    remoteRepository.branches[remoteBranch.branchName] = localSha;
+    this.remoteTrackingBranches[`${remoteBranch.repositoryTrackingName}/${remoteBranch.branchName}`] = localSha;
+    if (options.setUpstream) {
+      this.upstreamBranches[branchName] = `${remoteBranch.repositoryTrackingName}/${remoteBranch.branchName}`;
     }
 
-    const commandResult: ExecutableGit.Result = await this.run(args, options);
-
-    let filesChanged: string[];
-    const repositoryFolderPath: string | undefined = options.executionFolderPath || this.options.executionFolderPath || process.cwd();
-    const stdoutLines: string[] = getLines(commandResult.stdout);
-    if (options.nameOnly) {
-      filesChanged = [];
-      for (const fileChanged of getLines(commandResult.stdout)) {
-        if (fileChanged) {
-          filesChanged.push(joinPath(repositoryFolderPath, fileChanged));
+    const rejectedTagLines: string[] = [];
+    if (options.tags) {
+      for (const tagName of Object.keys(this.tags)) {
+        const remoteTagSha: string | undefined = remoteRepository.tags[tagName];
+        if (remoteTagSha && remoteTagSha !== this.tags[tagName] && !options.force) {
+          rejectedTagLines.push(` ! [rejected]        ${tagName} -> ${tagName} (already exists)`);
+        } else {
+          remoteRepository.tags[tagName] = this.tags[tagName];
         }
       }
-    } else {
-      filesChanged = getFilesChangedFromFullDiff(stdoutLines, repositoryFolderPath);
     }
-    return {
-      ...commandResult,
-      filesChanged
-    };
+    return rejectedTagLines.length === 0
+      ? fakeResult()
+      : fakeResult(1, "", [...rejectedTagLines, `error: failed to push some refs to '${this.remotes[remoteBranch.repositoryTrackingName]}'`].join("\n"));
   }
 
   /**
-   * Get the branches that are local to this repository.
+   * Create a tag that points at the provided target commit (or HEAD).
+   * @param tagName The name of the tag to create.
+   * @param options The options for determining how this command will run.
    */
-  public async localBranches(options: ExecutableGit.Options = {}): Promise<ExecutableGit.LocalBranchesResult> {
-    const commandResult: ExecutableGit.Result = await this.run(["branch"], options);
-    let currentBranch = "";
-    const localBranches: string[] = [];
-    for (let branch of getLines(commandResult.stdout)) {
-      if (branch) {
-        branch = branch.trim();
-        if (branch) {
-          if (branch.startsWith("*")) {
-            branch = branch.substring(1).trimLeft();
-            const detachedHeadMatch: RegExpMatchArray | null = branch.match(branchDetachedHeadRegExp);
-            if (detachedHeadMatch) {
-              branch = detachedHeadMatch[1];
-            }
-            currentBranch = branch;
-          }
-          localBranches.push(branch);
-        }
-      }
+  public async createTag(tagName: string, options: ExecutableGit.CreateTagOptions = {}): Promise<ExecutableGit.CreateTagResult> {
+    const annotated: boolean = (options.messages ? toArray(options.messages) : []).length > 0;
+    const target: string = options.target || "HEAD";
+    const targetSha: string | undefined = this.resolveRef(target);
+    let result: ExecutableGit.Result;
+    if (!targetSha) {
+      result = fakeResult(128, "", `fatal: Failed to resolve '${target}' as a valid ref.`);
+    } else if (hasKey(this.tags, tagName) && !options.force) {
+      result = fakeResult(128, "", `fatal: tag '${tagName}' already exists`);
+    } else {
+      this.tags[tagName] = targetSha;
+      result = fakeResult();
     }
     return {
-      ...commandResult,
-      localBranches,
-      currentBranch,
+      ...result,
+      tagName,
+      annotated,
     };
   }
 
   /**
-   * Get the branch that the repository is currently on.
-   * @param options The options to run this command with.
+   * Get the tags in this repository.
+   * @param options The options for determining how this command will run.
    */
-  public async currentBranch(options: ExecutableGit.Options = {}): Promise<string> {
-    return (await this.localBranches(options)).currentBranch;
+  public async listTags(options: ExecutableGit.ListTagsOptions = {}): Promise<ExecutableGit.ListTagsResult> {
+    let tags: string[] = Object.keys(this.tags).sort();
+    if (options.pattern) {
+      const patternRegExp: RegExp = getWildcardRegExp(options.pattern);
+      tags = where(tags, (tagName: string) => patternRegExp.test(tagName));
+    }
+    if (options.sortByVersion) {
+      tags.sort(compareTagVersions);
+    }
+    return {
+      ...fakeResult(0, tags.join("\n")),
+      tags,
+    };
   }
 
   /**
-   * Get the remote branches that this repository clone is aware of.
-   * @param options The options to run this command with.
+   * Delete the provided local tag.
+   * @param tagName The name of the tag to delete.
    */
-  public async remoteBranches(options: ExecutableGit.Options = {}): Promise<ExecutableGit.RemoteBranchesResult> {
-    const gitResult: ExecutableGit.Result = await this.run(["branch", "--remotes"], options);
-    const remoteBranches: GitRemoteBranch[] = [];
-    for (let remoteBranchLine of getLines(gitResult.stdout)) {
-      if (remoteBranchLine && remoteBranchLine.indexOf("->") === -1) {
-        remoteBranchLine = remoteBranchLine.trim();
-        if (remoteBranchLine) {
-          const firstSlashIndex: number = remoteBranchLine.indexOf("/");
-          const repositoryTrackingName: string = remoteBranchLine.substring(0, firstSlashIndex);
-          const branchName: string = remoteBranchLine.substring(firstSlashIndex + 1);
-          remoteBranches.push({
-            repositoryTrackingName,
-            branchName
-          });
-        }
-      }
+  public async deleteTag(tagName: string): Promise<ExecutableGit.DeleteTagResult> {
+    if (!hasKey(this.tags, tagName)) {
+      return fakeResult(1, "", `error: tag '${tagName}' not found.`);
     }
+    const deletedTagSha: string = getShortSha(this.tags[tagName]);
+    delete this.tags[tagName];
     return {
-      ...gitResult,
-      remoteBranches
+      ...fakeResult(0, `Deleted tag '${tagName}' (was ${deletedTagSha})`),
+      deletedTagSha,
     };
   }
 
-  public async stash(options: ExecutableGit.StashOptions = {}): Promise<ExecutableGit.Result> {
-    const args = ["stash"];
-    if (options.pop) {
-      args.push("pop");
-    }
-    if (options.keepIndex) {
-      args.push("--keep-index");
-    }
-    if (options.all) {
-      args.push("--all");
-    }
-
-    return this.run(args, options);
-  }
-
   /**
-   * Reset a local git repo, possible with existing git data.
-   * Delete all the branches and all the remotes.
-   * Use this function to reuse existing git repo data to accelerate fetching.
+   * Add/stage the provided files. The pathspecs "*" and "." stage every file.
+   * @param filePaths The paths to the files to stage.
    */
-  public async resetRepoFolder(): Promise<void> {
-    const log = this.options.log || console.error;
-
-    if (this.options.executionFolderPath) {
-      mkdirSync(this.options.executionFolderPath, { recursive: true });
-    }
-    const initResult = await this.init();
-    if (initResult.exitCode !== 0) {
-      log(`Failed to init repo at ${this.options.executionFolderPath}`);
-      if (initResult.error) {
-        log(JSON.stringify(initResult.error));
-        throw initResult;
-      }
-    }
-
-    try {
-      await this.addAll();
-    } catch (e) {}
-    await this.resetAll({ hard: true });
-    await this.run(["clean", "-xdf"]);
-
-    // Remove all the local branches
-    const localBranchesResult = await this.localBranches();
-    if (localBranchesResult.currentBranch) {
-      try {
-        await this.checkout(localBranchesResult.currentBranch, { detach: true });
-        await this.deleteLocalBranch(localBranchesResult.currentBranch);
-      } catch (e) {
+  public async add(filePaths: string | string[]): Promise<ExecutableGit.Result> {
+    for (const filePath of toArray(filePaths)) {
+      const matchingFilePaths: string[] = this.getMatchingFilePaths(filePath, { ...this.index, ...this.workingTree });
+      if (matchingFilePaths.length === 0) {
+        return fakeResult(128, "", `fatal: pathspec '${filePath}' did not match any files`);
       }
-    }
-    for (const branchName of localBranchesResult.localBranches) {
-      if (branchName && branchName !== localBranchesResult.currentBranch) {
-        try {
-          await this.deleteLocalBranch(branchName);
-        } catch (e) {
+      for (const matchingFilePath of matchingFilePaths) {
+        if (hasKey(this.workingTree, matchingFilePath)) {
+          this.index[matchingFilePath] = this.workingTree[matchingFilePath];
+        } else {
+          delete this.index[matchingFilePath];
         }
       }
     }
-
-    // Remove all the remotes
-    const listRemotesResult = await this.listRemotes();
-    for (const remoteName of Object.keys(listRemotesResult.remotes)) {
-      if (remoteName) {
-        await this.removeRemote(remoteName);
-      }
-    }
+    return fakeResult();
   }
 
   /**
-   * Run "git status".
+   * Add/stage all of the current unstaged files.
    */
-  public async status(options: ExecutableGit.Options = {}): Promise<ExecutableGit.StatusResult> {
-    const folderPath: string = options.executionFolderPath || this.options.executionFolderPath || process.cwd();
-
-    let parseState: StatusParseState = "CurrentBranch";
-    let localBranch: string | undefined;
-    let remoteBranch: string | undefined;
-    let hasUncommittedChanges = false;
-    const stagedModifiedFiles: string[] = [];
-    const stagedDeletedFiles: string[] = [];
-    const notStagedModifiedFiles: string[] = [];
-    const notStagedDeletedFiles: string[] = [];
-    const untrackedFiles: string[] = [];
+  public addAll(): Promise<ExecutableGit.Result> {
+    return this.add("*");
+  }
 
-    const runResult: ExecutableGit.Result = await this.run(["status"], options);
-    const lines: string[] = getLines(runResult.stdout);
-    let lineIndex = 0;
-    while (lineIndex < lines.length) {
-      const line: string = lines[lineIndex].trim();
-      if (!line) {
-        ++lineIndex;
-      } else {
-        switch (parseState) {
-          case "CurrentBranch":
-            const onBranchMatch: RegExpMatchArray | null = line.match(onBranchRegExp);
-            if (onBranchMatch) {
-              localBranch = onBranchMatch[1];
-            } else {
-              const detachedHeadMatch: RegExpMatchArray | null = line.match(statusDetachedHeadRegExp);
-              if (detachedHeadMatch) {
-                localBranch = detachedHeadMatch[1];
-              }
-            }
-            parseState = "RemoteBranch";
-            ++lineIndex;
-            break;
+  /**
+   * Commit the currently staged/added changes to the current branch.
+   * @param commitMessages The commit messages to apply to this commit.
+   * @param options The options that determine how this command will run.
+   */
+  public async commit(commitMessages: string | string[], options: ExecutableGit.CommitOptions = {}): Promise<ExecutableGit.Result> {
+    const headSha: string | undefined = this.getHeadSha();
+    if (this.mergeHeads.length === 0 && getChangedFilePaths(this.getTree(headSha), this.index).length === 0) {
+      return fakeResult(1, this.getLocalChanges().length > 0
+        ? `no changes added to commit (use "git add" and/or "git commit -a")`
+        : "nothing to commit, working tree clean");
+    }
 
-          case "RemoteBranch":
-            const remoteBranchMatch: RegExpMatchArray | null = line.match(/.*\'(.*)\'.*/);
-            if (remoteBranchMatch) {
-              remoteBranch = remoteBranchMatch[1];
-              ++lineIndex;
-            }
-            parseState = "Changes";
-            break;
+    const parents: string[] = [...(headSha ? [headSha] : []), ...this.mergeHeads];
+    const commitSha: string = this.createCommit(parents, { ...this.index }, toArray(commitMessages), options.author);
+    this.setHeadSha(commitSha);
+    this.mergeHeads = [];
+    return fakeResult(0, `[${this.getCurrentBranchDisplayName()} ${getShortSha(commitSha)}] ${getLines(this.commits[commitSha].message)[0]}`);
+  }
 
-          case "Changes":
-            hasUncommittedChanges = !line.match(/nothing to commit, working tree clean/i);
-            if (hasUncommittedChanges) {
-              if (line.match(/Changes to be committed:/i)) {
-                parseState = "ChangesToBeCommitted";
-              } if (isChangesNotStagedForCommitHeader(line)) {
-                parseState = "ChangesNotStagedForCommit";
-              } else if (isUntrackedFilesHeader(line)) {
-                parseState = "UntrackedFiles";
-              }
-            }
-            ++lineIndex;
-            break;
+  /**
+   * Delete a local branch.
+   * @param branchName The name of the local branch to delete.
+   */
+  public async deleteLocalBranch(branchName: string): Promise<ExecutableGit.Result> {
+    if (branchName === this.headBranch) {
+      return fakeResult(1, "", `error: Cannot delete branch '${branchName}' checked out at '${this.folderPath}'`);
+    } else if (!hasKey(this.branches, branchName)) {
+      return fakeResult(1, "", `error: branch '${branchName}' not found.`);
+    }
+    const branchSha: string = this.branches[branchName];
+    delete this.branches[branchName];
+    delete this.upstreamBranches[branchName];
+    return fakeResult(0, `Deleted branch ${branchName} (was ${getShortSha(branchSha)}).`);
+  }
 
-          case "ChangesToBeCommitted":
-            if (!line.match(/\(use "git reset HEAD <file>..." to unstage\)/i)) {
-              const modifiedMatch: RegExpMatchArray | null = line.match(/modified:(.*)/i);
-              if (modifiedMatch) {
-                const modifiedFilePath: string = joinPath(folderPath, modifiedMatch[1].trim());
-                stagedModifiedFiles.push(modifiedFilePath);
-              } else {
-                const deletedMatch: RegExpMatchArray | null = line.match(/deleted:(.*)/i);
-                if (deletedMatch) {
-                  const deletedFilePath: string = joinPath(folderPath, deletedMatch[1].trim());
-                  stagedDeletedFiles.push(deletedFilePath);
-                } else if (isChangesNotStagedForCommitHeader(line)) {
-                  parseState = "ChangesNotStagedForCommit";
-                } else if (isUntrackedFilesHeader(line)) {
-                  parseState = "UntrackedFiles";
-                }
-              }
-            }
-            ++lineIndex;
-            break;
+  /**
+   * Create a new local branch with the provided name and switch to it.
+   * @param branchName The name of the new branch.
+   * @param options The options for determining how this command will run.
+   */
+  public createLocalBranch(branchName: string, options: ExecutableGit.CreateLocalBranchOptions = {}): Promise<ExecutableGit.Result> {
+    return Promise.resolve(this.createBranchAndSwitch(branchName, options.startPoint));
+  }
 
-          case "ChangesNotStagedForCommit":
-            if (!line.match(/\(use "git add <file>..." to update what will be committed\)/i) && !line.match(/\(use "git checkout -- <file>..." to discard changes in working directory\)/i)) {
-              const modifiedMatch: RegExpMatchArray | null = line.match(/modified:(.*)/i);
-              if (modifiedMatch) {
-                const modifiedFilePath: string = joinPath(folderPath, modifiedMatch[1].trim());
-                notStagedModifiedFiles.push(modifiedFilePath);
-              } else {
-                const deletedMatch: RegExpMatchArray | null = line.match(/deleted:(.*)/i);
-                if (deletedMatch) {
-                  const deletedFilePath: string = joinPath(folderPath, deletedMatch[1].trim());
-                  notStagedDeletedFiles.push(deletedFilePath);
-                } else if (isUntrackedFilesHeader(line)) {
-                  parseState = "UntrackedFiles";
-                }
-              }
-            }
-            ++lineIndex;
-            break;
+  /**
+   * Remove the provided branch from the provided tracked fake remote repository.
+   * @param branchName The name of the remote branch to delete.
+   * @param options The options for determining how this command will run.
+   */
+  public async deleteRemoteBranch(branchName: string, options: ExecutableGit.DeleteRemoteBranchOptions = {}): Promise<ExecutableGit.Result> {
+    const remoteName: string = options.remoteName || "origin";
+    const remoteRepository: FakeGit | undefined = this.getRemoteRepository(remoteName);
+    if (!remoteRepository) {
+      return this.remoteNotFound(remoteName);
+    } else if (!hasKey(remoteRepository.branches, branchName)) {
+      return fakeResult(1, "", `error: unable to delete '${branchName}': remote ref does not exist`);
+    } else if (remoteRepository.headBranch === branchName) {
+      return fakeResult(1, "", ` ! [remote rejected] ${branchName} (refusing to delete the current branch: refs/heads/${branchName})`);
+    }
+    delete remoteRepository.branches[branchName];
+    delete this.remoteTrackingBranches[`${remoteName}/${branchName}`];
+    return fakeResult();
+  }
 
-          case "UntrackedFiles":
-            if (!line.match(/\(use "git add <file>..." to include in what will be committed\)/i) &&
-              !line.match(/nothing added to commit but untracked files present \(use "git add" to track\)/i) &&
-              !line.match(/no changes added to commit \(use \"git add\" and\/or \"git commit -a\"\)/i)) {
-              const resolveUntrackedFilePath: string = joinPath(folderPath, line);
-              untrackedFiles.push(resolveUntrackedFilePath);
-            }
-            ++lineIndex;
-            break;
+  /**
+   * Get the files that differ between two commits, a commit and the index or working tree, or the
+   * index and the working tree.
+   * @param options The options for determining how this command will run.
+   */
+  public async diff(options: ExecutableGit.DiffOptions = {}): Promise<ExecutableGit.DiffResult> {
+    let fromFiles: StringMap<string>;
+    let toFiles: StringMap<string>;
+    const commitRef: string | undefined = options.commit1 || options.commit2;
+    if (commitRef) {
+      for (const ref of [options.commit1, options.commit2]) {
+        if (ref && !this.resolveRef(ref)) {
+          return { ...fakeResult(128, "", `fatal: bad revision '${ref}'`), filesChanged: [] };
         }
       }
+      fromFiles = this.getTree(this.resolveRef(commitRef));
+      if (options.commit1 && options.commit2) {
+        toFiles = this.getTree(this.resolveRef(options.commit2));
+      } else {
+        toFiles = options.staged ? this.index : this.getTrackedWorkingTree(fromFiles);
+      }
+    } else if (options.staged) {
+      fromFiles = this.getTree(this.getHeadSha());
+      toFiles = this.index;
+    } else {
+      fromFiles = this.index;
+      toFiles = this.getTrackedWorkingTree();
     }
 
-    const modifiedFiles: string[] = [];
-    if (hasUncommittedChanges) {
-      modifiedFiles.push(
-        ...stagedModifiedFiles,
-        ...stagedDeletedFiles,
-        ...notStagedModifiedFiles,
-        ...notStagedDeletedFiles,
-        ...untrackedFiles);
+    const normalize: (contents: string | undefined) => string | undefined = getWhitespaceNormalizer(options.ignoreSpace);
+    const changedFilePaths: string[] = where(getChangedFilePaths(fromFiles, toFiles), (filePath: string) =>
+      normalize(fromFiles[filePath]) !== normalize(toFiles[filePath]));
+    const stdout: string = options.nameOnly
+      ? changedFilePaths.join("\n")
+      : map(changedFilePaths, (filePath: string) => `${changedFileDiffLinePrefix} a/${filePath} b/${filePath}`).join("\n");
+    return {
+      ...fakeResult(0, stdout),
+      filesChanged: map(changedFilePaths, (filePath: string) => joinPath(this.folderPath, filePath)),
+    };
+  }
+
+  /**
+   * Get the branches that are local to this repository.
+   */
+  public async localBranches(): Promise<ExecutableGit.LocalBranchesResult> {
+    const localBranches: string[] = Object.keys(this.branches).sort();
+    let currentBranch = "";
+    if (this.headBranch) {
+      if (hasKey(this.branches, this.headBranch)) {
+        currentBranch = this.headBranch;
+      }
+    } else if (this.detachedHeadSha) {
+      currentBranch = getShortSha(this.detachedHeadSha);
+      localBranches.unshift(currentBranch);
     }
+    return {
+      ...fakeResult(),
+      localBranches,
+      currentBranch,
+    };
+  }
+
+  /**
+   * Get the branch that the repository is currently on.
+   */
+  public async currentBranch(): Promise<string> {
+    return (await this.localBranches()).currentBranch;
+  }
 
+  /**
+   * Get the remote branches that this repository is aware of.
+   */
+  public async remoteBranches(): Promise<ExecutableGit.RemoteBranchesResult> {
     return {
-      ...runResult,
-      localBranch,
-      remoteBranch,
-      hasUncommittedChanges,
+      ...fakeResult(),
+      remoteBranches: this.getRemoteBranches(),
+    };
+  }
+
+  /**
+   * Get the status of the current branch, the index and the working tree.
+   */
+  public async status(): Promise<ExecutableGit.StatusResult> {
+    const headFiles: StringMap<string> = this.getTree(this.getHeadSha());
+    const stagedModifiedFiles: string[] = [];
+    const stagedDeletedFiles: string[] = [];
+    for (const filePath of getChangedFilePaths(headFiles, this.index)) {
+      (hasKey(this.index, filePath) ? stagedModifiedFiles : stagedDeletedFiles).push(joinPath(this.folderPath, filePath));
+    }
+    const notStagedModifiedFiles: string[] = [];
+    const notStagedDeletedFiles: string[] = [];
+    const untrackedFiles: string[] = [];
+    for (const filePath of getChangedFilePaths(this.index, this.workingTree)) {
+      const fullFilePath: string = joinPath(this.folderPath, filePath);
+      if (!hasKey(this.index, filePath)) {
+        untrackedFiles.push(fullFilePath);
+      } else if (!hasKey(this.workingTree, filePath)) {
+        notStagedDeletedFiles.push(fullFilePath);
+      } else {
+        notStagedModifiedFiles.push(fullFilePath);
+      }
+    }
+    const modifiedFiles: string[] = [
+      ...stagedModifiedFiles,
+      ...stagedDeletedFiles,
+      ...notStagedModifiedFiles,
+      ...notStagedDeletedFiles,
+      ...untrackedFiles,
+    ];
+
+    const upstreamBranch: GitRemoteBranch | undefined = this.getUpstreamBranch();
+    return {
+      ...fakeResult(),
+      localBranch: this.headBranch || (this.detachedHeadSha && getShortSha(this.detachedHeadSha)),
+      remoteBranch: upstreamBranch && `${upstreamBranch.repositoryTrackingName}/${upstreamBranch.branchName}`,
+      hasUncommittedChanges: modifiedFiles.length > 0,
       modifiedFiles,
       stagedModifiedFiles,
       stagedDeletedFiles,
       notStagedModifiedFiles,
       notStagedDeletedFiles,
       untrackedFiles,
+      driftedSubmodules: [],
     };
   }
 
   /**
    * Get the configuration value for the provided configuration value name.
    * @param configurationValueName The name of the configuration value to get.
-   * @param options The options that can configure how the command will run.
    */
-  public async getConfigurationValue(configurationValueName: string, options?: ExecutableGit.Options): Promise<ExecutableGit.GetConfigurationValueResult> {
-    const result: ExecutableGit.GetConfigurationValueResult = await this.run(["config", "--get", configurationValueName], options);
-    if (result.exitCode === 0 && result.stdout) {
-      result.configurationValue = result.stdout;
+  public async getConfigurationValue(configurationValueName: string): Promise<ExecutableGit.GetConfigurationValueResult> {
+    let configurationValue: string | undefined;
+    const remoteUrlMatch: RegExpMatchArray | null = (configurationValueName || "").match(/^remote\.(.*)\.url$/);
+    if (configurationValueName && hasKey(this.configuration, configurationValueName)) {
+      configurationValue = this.configuration[configurationValueName];
+    } else if (remoteUrlMatch && hasKey(this.remotes, remoteUrlMatch[1])) {
+      configurationValue = this.remotes[remoteUrlMatch[1]];
+    } else if (configurationValueName === "user.name") {
+      configurationValue = this.author.name;
+    } else if (configurationValueName === "user.email") {
+      configurationValue = this.author.email;
     }
-    return result;
+    return configurationValue === undefined
+      ? fakeResult(1)
+      : { ...fakeResult(0, configurationValue), configurationValue };
   }
 
   /**
    * Get the URL of the current repository.
-   * @param options The options that can configure how the command will run.
    */
-  public async getRepositoryUrl(options: ExecutableGit.Options = {}): Promise<string | undefined> {
-    let result: string | undefined = (await this.getConfigurationValue("remote.origin.url", options)).configurationValue;
-    if (result) {
-      result = result.trim();
-    }
-    return result;
+  public async getRepositoryUrl(): Promise<string | undefined> {
+    return (await this.getConfigurationValue("remote.origin.url")).configurationValue;
   }
 
   /**
-   * Reset all the file.
+   * Reset the index (and with the hard option, the working tree) to the provided target or HEAD.
    * @param options The options that can configure how the command will run.
    */
-  public resetAll(options: ExecutableGit.ResetOptions = {}): Promise<ExecutableGit.Result> {
-    const args = ["reset"];
+  public async resetAll(options: ExecutableGit.ResetOptions = {}): Promise<ExecutableGit.Result> {
+    const targetSha: string | undefined = options.target ? this.resolveRef(options.target) : this.getHeadSha();
+    if (options.target && !targetSha) {
+      return fakeResult(128, "", `fatal: ambiguous argument '${options.target}': unknown revision or path not in the working tree.`);
+    }
+    const targetFiles: StringMap<string> = this.getTree(targetSha);
     if (options.hard) {
-      args.push("--hard");
+      for (const filePath of Object.keys({ ...this.index, ...this.getTree(this.getHeadSha()) })) {
+        delete this.workingTree[filePath];
+      }
+      this.workingTree = { ...this.workingTree, ...targetFiles };
     }
-    if (options.soft) {
-      args.push("--soft");
+    if (!options.soft) {
+      this.index = { ...targetFiles };
     }
-
-    if (options.target) {
-      args.push(options.target);
-    } else if (!options.hard && !options.soft) {
-      args.push("*");
+    if (targetSha) {
+      this.setHeadSha(targetSha);
     }
-    return this.run(args, options);
+    this.mergeHeads = [];
+    return fakeResult();
   }
 
   /**
-   * Add the provided remote URL to this local repository's list of remote repositories using the
+   * Add the provided remote URL to this repository's list of remote repositories using the
    * provided remoteName.
    * @param remoteName The name/reference that will be used to refer to the remote repository.
    * @param remoteUrl The URL of the remote repository.
-   * @param options Options that can be used to modify the way that this operation is run.
-   */
-  public async addRemote(remoteName: string, remoteUrl: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    return await this.run(["remote", "add", remoteName, await this.addAuthenticationToURL(remoteUrl)], options);
-  }
-
-  /**
-   * Remove git remote repository
-   * @param remoteName The name of the remote repository to be removed
-   * @param options Options
    */
-  public async removeRemote(remoteName: string, options?: ExecutableGit.Options) {
-    return this.run(["remote", "remove", remoteName], options);
+  public async addRemote(remoteName: string, remoteUrl: string): Promise<ExecutableGit.Result> {
+    if (hasKey(this.remotes, remoteName)) {
+      return fakeResult(3, "", `error: remote ${remoteName} already exists.`);
+    }
+    this.remotes[remoteName] = remoteUrl;
+    return fakeResult();
   }
 
   /**
    * Get the URL associated with the provided remote repository.
    * @param remoteName The name of the remote repository.
-   * @returns The URL associated with the provided remote repository or undefined if the remote name
-   * is not found.
    */
-  public async getRemoteUrl(remoteName: string, options: ExecutableGit.Options = {}): Promise<string | undefined> {
-    const result: string | undefined = (await this.run(["remote", "get-url", remoteName], options)).stdout;
-    return (result && result.trim()) || undefined;
+  public async getRemoteUrl(remoteName: string): Promise<string | undefined> {
+    return hasKey(this.remotes, remoteName) ? this.remotes[remoteName] : undefined;
   }
 
   /**
@@ -1543,43 +4115,481 @@ export class ExecutableGit implements Git {
    * @param remoteName The name of the remote repository.
    * @param remoteUrl The URL associated with the provided remote repository.
    */
-  public async setRemoteUrl(remoteName: string, remoteUrl: string, options: ExecutableGit.Options = {}): Promise<ExecutableGit.Result> {
-    return await this.run(["remote", "set-url", remoteName, await this.addAuthenticationToURL(remoteUrl)], options);
+  public async setRemoteUrl(remoteName: string, remoteUrl: string): Promise<ExecutableGit.Result> {
+    if (!hasKey(this.remotes, remoteName)) {
+      return fakeResult(2, "", `error: No such remote '${remoteName}'`);
+    }
+    this.remotes[remoteName] = remoteUrl;
+    return fakeResult();
+  }
+
+  /**
+   * Get the remote repositories that are referenced in this repository.
+   */
+  public async listRemotes(): Promise<ExecutableGit.ListRemotesResult> {
+    return {
+      ...fakeResult(),
+      remotes: { ...this.remotes },
+    };
+  }
+
+  /**
+   * Save the local changes to the stash and revert them, or restore the most recently saved changes
+   * with the pop option.
+   * @param options The options for determining how this command will run.
+   */
+  public async stash(options: ExecutableGit.StashOptions = {}): Promise<ExecutableGit.Result> {
+    if (options.pop) {
+      const stashEntry: FakeStashEntry | undefined = this.stashEntries.shift();
+      if (!stashEntry) {
+        return fakeResult(1, "", "No stash entries found.");
+      }
+      const baseFiles: StringMap<string> = this.getTree(stashEntry.baseSha);
+      for (const filePath of getChangedFilePaths(baseFiles, stashEntry.index)) {
+        setOrDelete(this.index, filePath, stashEntry.index[filePath]);
+      }
+      for (const filePath of getChangedFilePaths(baseFiles, stashEntry.workingTree)) {
+        setOrDelete(this.workingTree, filePath, stashEntry.workingTree[filePath]);
+      }
+      return fakeResult(0, "Dropped refs/stash@{0}");
+    }
+
+    const headSha: string | undefined = this.getHeadSha();
+    if (!headSha) {
+      return fakeResult(1, "", "You do not have the initial commit yet");
+    }
+    const headFiles: StringMap<string> = this.getTree(headSha);
+    const untrackedFilePaths: string[] = where(Object.keys(this.workingTree), (filePath: string) => !hasKey(this.index, filePath));
+    if (this.getLocalChanges().length === 0 && (!options.all || untrackedFilePaths.length === 0)) {
+      return fakeResult(0, "No local changes to save");
+    }
+
+    const stashedWorkingTree: StringMap<string> = this.getTrackedWorkingTree(headFiles);
+    if (options.all) {
+      for (const untrackedFilePath of untrackedFilePaths) {
+        stashedWorkingTree[untrackedFilePath] = this.workingTree[untrackedFilePath];
+        delete this.workingTree[untrackedFilePath];
+      }
+    }
+    this.stashEntries.unshift({
+      baseSha: headSha,
+      index: { ...this.index },
+      workingTree: stashedWorkingTree,
+    });
+
+    const restoredFiles: StringMap<string> = options.keepIndex ? this.index : headFiles;
+    for (const filePath of Object.keys({ ...this.index, ...headFiles })) {
+      delete this.workingTree[filePath];
+    }
+    this.workingTree = { ...this.workingTree, ...restoredFiles };
+    this.index = { ...restoredFiles };
+    return fakeResult(0, `Saved working directory and index state WIP on ${this.getCurrentBranchDisplayName()}: ${getShortSha(headSha)} ${getLines(this.commits[headSha].message)[0]}`);
+  }
+
+  /**
+   * Get the commits in the repository's history, newest first.
+   * @param options The options for determining which commits will be returned.
+   */
+  public async log(options: ExecutableGit.LogOptions = {}): Promise<ExecutableGit.LogResult> {
+    let includeRef: string = options.range || "HEAD";
+    let excludeRef: string | undefined;
+    const rangeSeparatorIndex: number = includeRef.indexOf("..");
+    if (rangeSeparatorIndex !== -1) {
+      excludeRef = includeRef.substring(0, rangeSeparatorIndex) || "HEAD";
+      includeRef = includeRef.substring(rangeSeparatorIndex + 2) || "HEAD";
+    }
+    const includeSha: string | undefined = this.resolveRef(includeRef);
+    const excludeSha: string | undefined = excludeRef && this.resolveRef(excludeRef);
+    if (!includeSha || (excludeRef && !excludeSha)) {
+      const badRevision: string = options.range ? options.range : "HEAD";
+      return { ...fakeResult(128, "", `fatal: bad revision '${badRevision}'`), commits: [] };
+    }
+
+    const excludedShas: Set<string> = excludeSha ? this.getAncestors(excludeSha) : new Set();
+    const pathsToMatch: string[] = options.paths ? map(toArray(options.paths), (filePath: string) => this.getRelativeFilePath(filePath)) : [];
+    const authorRegExp: RegExp | undefined = options.author ? new RegExp(options.author) : undefined;
+    const commits: Git.Commit[] = [];
+    const pendingShas: string[] = [includeSha];
+    const visitedShas: Set<string> = new Set(pendingShas);
+    while (pendingShas.length > 0 && (options.maxCount == undefined || commits.length < options.maxCount)) {
+      let newestIndex = 0;
+      for (let i = 1; i < pendingShas.length; ++i) {
+        if (this.commits[pendingShas[i]].committerDate > this.commits[pendingShas[newestIndex]].committerDate) {
+          newestIndex = i;
+        }
+      }
+      const commit: FakeGit.Commit = this.commits[pendingShas.splice(newestIndex, 1)[0]];
+      for (const parent of commit.parents) {
+        if (!visitedShas.has(parent)) {
+          visitedShas.add(parent);
+          pendingShas.push(parent);
+        }
+      }
+
+      if (!excludedShas.has(commit.sha)) {
+        const changedFilePaths: string[] = commit.parents.length > 1 ? [] : getChangedFilePaths(this.getTree(commit.parents[0]), commit.files);
+        const matchesPaths: boolean = pathsToMatch.length === 0 || contains(changedFilePaths, (changedFilePath: string) =>
+          contains(pathsToMatch, (pathToMatch: string) => changedFilePath === pathToMatch || changedFilePath.startsWith(`${pathToMatch}/`)));
+        const matchesAuthor: boolean = !authorRegExp || authorRegExp.test(`${commit.author.name} <${commit.author.email}>`);
+        if (matchesPaths && matchesAuthor) {
+          const paragraphs: string[] = commit.message.trim().split(/\r?\n\s*\r?\n/);
+          const body: string = paragraphs.slice(1).join("\n\n").trim();
+          commits.push({
+            sha: commit.sha,
+            parents: [...commit.parents],
+            author: { ...commit.author },
+            authorDate: commit.authorDate,
+            committer: { ...commit.committer },
+            committerDate: commit.committerDate,
+            subject: getLines(paragraphs[0]).join(" "),
+            body,
+            trailers: getCommitTrailers(body),
+            filesChanged: map(changedFilePaths, (filePath: string) => joinPath(this.folderPath, filePath)),
+          });
+        }
+      }
+    }
+    return {
+      ...fakeResult(),
+      commits,
+    };
+  }
+
+  private getRelativeFilePath(filePath: string): string {
+    let result: string = normalizePath(filePath);
+    if (isRooted(result)) {
+      result = pathRelativeTo(result, this.folderPath);
+    }
+    return result.replace(/^(\.\/)+/, "");
+  }
+
+  private getMatchingFilePaths(pathspec: string, files: StringMap<string>): string[] {
+    const relativePathspec: string = this.getRelativeFilePath(pathspec).replace(/\/$/, "");
+    return where(Object.keys(files), (filePath: string) =>
+      relativePathspec === "*" || relativePathspec === "." || relativePathspec === "" ||
+      filePath === relativePathspec || filePath.startsWith(`${relativePathspec}/`));
+  }
+
+  private getHeadSha(): string | undefined {
+    return this.headBranch ? this.branches[this.headBranch] : this.detachedHeadSha;
+  }
+
+  private setHeadSha(sha: string): void {
+    if (this.headBranch) {
+      this.branches[this.headBranch] = sha;
+    } else {
+      this.detachedHeadSha = sha;
+    }
+  }
+
+  private getCurrentBranchDisplayName(): string {
+    return this.headBranch || "detached HEAD";
+  }
+
+  private getUpstreamBranch(branchName: string | undefined = this.headBranch): GitRemoteBranch | undefined {
+    let result: GitRemoteBranch | undefined;
+    if (branchName && hasKey(this.upstreamBranches, branchName)) {
+      const upstreamBranch: string = this.upstreamBranches[branchName];
+      const slashIndex: number = upstreamBranch.indexOf("/");
+      result = {
+        repositoryTrackingName: upstreamBranch.substring(0, slashIndex),
+        branchName: upstreamBranch.substring(slashIndex + 1),
+      };
+    }
+    return result;
+  }
+
+  private getRemoteBranches(): GitRemoteBranch[] {
+    return map(Object.keys(this.remoteTrackingBranches).sort(), (remoteBranch: string) => {
+      const slashIndex: number = remoteBranch.indexOf("/");
+      return {
+        repositoryTrackingName: remoteBranch.substring(0, slashIndex),
+        branchName: remoteBranch.substring(slashIndex + 1),
+      };
+    });
+  }
+
+  private getRemoteRepository(remoteName: string): FakeGit | undefined {
+    return hasKey(this.remotes, remoteName) ? this.remoteRepositories[this.remotes[remoteName]] : undefined;
+  }
+
+  private remoteNotFound(remoteName: string): ExecutableGit.Result {
+    return fakeResult(128, "", [
+      `fatal: '${remoteName}' does not appear to be a git repository`,
+      `fatal: Could not read from remote repository.`,
+    ].join("\n"));
+  }
+
+  private copyCommitsFrom(repository: FakeGit): void {
+    for (const sha of Object.keys(repository.commits)) {
+      if (!hasKey(this.commits, sha)) {
+        this.commits[sha] = repository.commits[sha];
+      }
+    }
+  }
+
+  private resolveRef(ref: string | undefined): string | undefined {
+    let result: string | undefined;
+    const refMatch: RegExpMatchArray | null = (ref || "").match(/^(.*?)((?:[~^]\d*)*)$/);
+    if (refMatch && refMatch[1]) {
+      const refName: string = refMatch[1];
+      if (refName === "HEAD") {
+        result = this.getHeadSha();
+      } else if (hasKey(this.branches, refName.replace(/^refs\/heads\//, ""))) {
+        result = this.branches[refName.replace(/^refs\/heads\//, "")];
+      } else if (hasKey(this.tags, refName.replace(/^refs\/tags\//, ""))) {
+        result = this.tags[refName.replace(/^refs\/tags\//, "")];
+      } else if (hasKey(this.remoteTrackingBranches, refName.replace(/^(refs\/)?remotes\//, ""))) {
+        result = this.remoteTrackingBranches[refName.replace(/^(refs\/)?remotes\//, "")];
+      } else if (refName.length >= 4) {
+        const matchingShas: string[] = where(Object.keys(this.commits), (sha: string) => sha.startsWith(refName));
+        if (matchingShas.length === 1) {
+          result = matchingShas[0];
+        }
+      }
+
+      const suffixMatches: RegExpMatchArray = refMatch[2].match(/[~^]\d*/g) || [];
+      for (const suffix of suffixMatches) {
+        const count: number = suffix.length > 1 ? parseInt(suffix.substring(1)) : 1;
+        if (suffix[0] === "~") {
+          for (let i = 0; i < count && result; ++i) {
+            result = this.commits[result].parents[0];
+          }
+        } else if (result && count > 0) {
+          result = this.commits[result].parents[count - 1];
+        }
+      }
+    }
+    return result;
+  }
+
+  private getTree(sha: string | undefined): StringMap<string> {
+    return sha && hasKey(this.commits, sha) ? this.commits[sha].files : {};
+  }
+
+  private getTrackedWorkingTree(additionalTrackedFiles: StringMap<string> = {}): StringMap<string> {
+    const result: StringMap<string> = {};
+    for (const filePath of Object.keys(this.workingTree)) {
+      if (hasKey(this.index, filePath) || hasKey(additionalTrackedFiles, filePath)) {
+        result[filePath] = this.workingTree[filePath];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the tracked files that have staged or unstaged changes.
+   */
+  private getLocalChanges(): string[] {
+    const headFiles: StringMap<string> = this.getTree(this.getHeadSha());
+    const result: string[] = getChangedFilePaths(headFiles, this.index);
+    for (const filePath of getChangedFilePaths(this.index, this.getTrackedWorkingTree(headFiles))) {
+      if (!contains(result, filePath)) {
+        result.push(filePath);
+      }
+    }
+    return result.sort();
+  }
+
+  private checkLocalChanges(targetSha: string, operation: string): ExecutableGit.CheckoutResult | undefined {
+    let result: ExecutableGit.CheckoutResult | undefined;
+    const headFiles: StringMap<string> = this.getTree(this.getHeadSha());
+    const targetFiles: StringMap<string> = this.getTree(targetSha);
+    const filesToSwitch: string[] = getChangedFilePaths(headFiles, targetFiles);
+    const overwrittenLocalChanges: string[] = where(this.getLocalChanges(), (filePath: string) => contains(filesToSwitch, filePath));
+    if (overwrittenLocalChanges.length > 0) {
+      result = fakeResult(1, "", getOverwrittenFilesMessage(operation, overwrittenLocalChanges));
+    } else {
+      const overwrittenUntrackedFiles: string[] = where(filesToSwitch, (filePath: string) =>
+        !hasKey(this.index, filePath) && hasKey(this.workingTree, filePath) && this.workingTree[filePath] !== targetFiles[filePath]);
+      if (overwrittenUntrackedFiles.length > 0) {
+        result = {
+          ...fakeResult(1, "", [
+            `error: The following untracked working tree files would be overwritten by ${operation}:`,
+            ...map(overwrittenUntrackedFiles, (filePath: string) => `\t${filePath}`),
+            `Please move or remove them before you switch branches.`,
+            `Aborting`,
+          ].join("\n")),
+          filesThatWouldBeOverwritten: map(overwrittenUntrackedFiles, (filePath: string) => joinPath(this.folderPath, filePath)),
+        };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Update the index and working tree files that differ between HEAD and the provided files.
+   */
+  private switchTree(targetFiles: StringMap<string>): void {
+    const headFiles: StringMap<string> = this.getTree(this.getHeadSha());
+    for (const filePath of getChangedFilePaths(headFiles, targetFiles)) {
+      setOrDelete(this.index, filePath, targetFiles[filePath]);
+      setOrDelete(this.workingTree, filePath, targetFiles[filePath]);
+    }
+  }
+
+  private createBranchAndSwitch(branchName: string, startPoint: string | undefined): ExecutableGit.CheckoutResult {
+    if (hasKey(this.branches, branchName)) {
+      return fakeResult(128, "", `fatal: A branch named '${branchName}' already exists.`);
+    }
+    const startSha: string | undefined = startPoint ? this.resolveRef(startPoint) : this.getHeadSha();
+    if (startPoint && !startSha) {
+      return fakeResult(128, "", `fatal: '${startPoint}' is not a commit and a branch '${branchName}' cannot be created from it`);
+    }
+    if (startSha) {
+      const overwrittenResult: ExecutableGit.CheckoutResult | undefined = this.checkLocalChanges(startSha, "checkout");
+      if (overwrittenResult) {
+        return overwrittenResult;
+      }
+      this.switchTree(this.getTree(startSha));
+      this.branches[branchName] = startSha;
+    }
+    if (startPoint && hasKey(this.remoteTrackingBranches, startPoint.replace(/^(refs\/)?remotes\//, ""))) {
+      this.upstreamBranches[branchName] = startPoint.replace(/^(refs\/)?remotes\//, "");
+    }
+    this.headBranch = branchName;
+    this.detachedHeadSha = undefined;
+    return fakeResult(0, "", `Switched to a new branch '${branchName}'`);
   }
 
-  public async refreshRemoteAuthentication(): Promise<ExecutableGit.ListRemotesResult> {
-    const log = this.options.log || console.error;
-    const remotesResult = await this.listRemotes();
-    if (remotesResult.error) {
-      log(remotesResult.error.toString());
-      return remotesResult;
+  private createCommit(parents: string[], files: StringMap<string>, messages: string[], author?: Git.Author, authorDate?: Date): string {
+    const committerDate: Date = this.getCurrentDate();
+    const commit: FakeGit.Commit = {
+      sha: "",
+      parents,
+      author: { ...this.author, ...author },
+      authorDate: authorDate || committerDate,
+      committer: { ...this.author },
+      committerDate,
+      message: messages.join("\n\n"),
+      files,
+    };
+    commit.sha = createHash("sha1").update(JSON.stringify(commit)).digest("hex");
+    this.commits[commit.sha] = commit;
+    return commit.sha;
+  }
+
+  private getAncestors(sha: string): Set<string> {
+    const result: Set<string> = new Set();
+    const shasToVisit: string[] = [sha];
+    while (shasToVisit.length > 0) {
+      const shaToVisit: string = shasToVisit.pop()!;
+      if (!result.has(shaToVisit) && hasKey(this.commits, shaToVisit)) {
+        result.add(shaToVisit);
+        shasToVisit.push(...this.commits[shaToVisit].parents);
+      }
     }
+    return result;
+  }
 
-    for (const remoteName of Object.keys(remotesResult.remotes)) {
-      const remoteUrl = remotesResult.remotes[remoteName];
-      if (remoteUrl) {
-        await this.setRemoteUrl(remoteName, remoteUrl);
+  private isAncestor(ancestorSha: string, descendantSha: string): boolean {
+    return this.getAncestors(descendantSha).has(ancestorSha);
+  }
+
+  private getMergeBase(sha1: string, sha2: string): string | undefined {
+    const sha1Ancestors: Set<string> = this.getAncestors(sha1);
+    const shasToVisit: string[] = [sha2];
+    const visitedShas: Set<string> = new Set(shasToVisit);
+    while (shasToVisit.length > 0) {
+      const shaToVisit: string = shasToVisit.shift()!;
+      if (sha1Ancestors.has(shaToVisit)) {
+        return shaToVisit;
+      }
+      for (const parent of this.commits[shaToVisit].parents) {
+        if (!visitedShas.has(parent)) {
+          visitedShas.add(parent);
+          shasToVisit.push(parent);
+        }
       }
     }
+    return undefined;
+  }
+}
 
-    return this.listRemotes();
+/**
+ * The result of merging the files of two commits in a FakeGit repository.
+ */
+interface FakeTreeMerge {
+  files: StringMap<string>;
+  conflicts: string[];
+}
+
+function mergeTrees(baseFiles: StringMap<string>, ourFiles: StringMap<string>, theirFiles: StringMap<string>, theirName: string, strategyOptions: string[]): FakeTreeMerge {
+  const files: StringMap<string> = { ...ourFiles };
+  const conflicts: string[] = [];
+  for (const filePath of getChangedFilePaths(ourFiles, theirFiles)) {
+    const baseContents: string | undefined = baseFiles[filePath];
+    const ourContents: string | undefined = ourFiles[filePath];
+    const theirContents: string | undefined = theirFiles[filePath];
+    if (ourContents === baseContents || contains(strategyOptions, "theirs")) {
+      setOrDelete(files, filePath, theirContents);
+    } else if (theirContents !== baseContents && !contains(strategyOptions, "ours")) {
+      files[filePath] = `<<<<<<< HEAD\n${ourContents || ""}\n=======\n${theirContents || ""}\n>>>>>>> ${theirName}\n`;
+      conflicts.push(filePath);
+    }
   }
+  return { files, conflicts };
+}
 
-  /**
-   * Get the remote repositories that are referenced in this local repository.
-   */
-  public async listRemotes(options: ExecutableGit.Options = {}): Promise<ExecutableGit.ListRemotesResult> {
-    const runResult: ExecutableGit.Result = await this.run(["remote", "--verbose"], options);
-    const remotes: StringMap<string> = {};
-    for (const line of getLines(runResult.stdout)) {
-      const lineParts: string[] = line.split(/\s+/g);
-      remotes[lineParts[0]] = lineParts[1];
+/**
+ * Get a RegExp that matches the same strings as the provided shell wildcard pattern, such as "v1.*".
+ */
+function getWildcardRegExp(pattern: string): RegExp {
+  const escapedPattern: string = pattern.replace(/[.+^$|{}()[\]\\]/g, "\\$&");
+  return new RegExp(`^${escapedPattern.replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+}
+
+function fakeResult(exitCode = 0, stdout = "", stderr = ""): ExecutableGit.Result {
+  return { exitCode, stdout, stderr };
+}
+
+function getShortSha(sha: string): string {
+  return sha.substring(0, 7);
+}
+
+function getOverwrittenFilesMessage(operation: string, filePaths: string[]): string {
+  return [
+    `error: Your local changes to the following files would be overwritten by ${operation}:`,
+    ...map(filePaths, (filePath: string) => `\t${filePath}`),
+    `Please commit your changes or stash them before you ${operation === "merge" ? "merge" : "switch branches"}.`,
+    `Aborting`,
+  ].join("\n");
+}
+
+/**
+ * Get the sorted paths of the files whose contents are different between the two provided sets of
+ * files.
+ */
+function getChangedFilePaths(fromFiles: StringMap<string>, toFiles: StringMap<string>): string[] {
+  return where(Object.keys({ ...fromFiles, ...toFiles }), (filePath: string) =>
+    hasKey(fromFiles, filePath) !== hasKey(toFiles, filePath) || fromFiles[filePath] !== toFiles[filePath]).sort();
+}
+
+function getWhitespaceNormalizer(ignoreSpace: "at-eol" | "change" | "all" | undefined): (contents: string | undefined) => string | undefined {
+  return (contents: string | undefined) => {
+    let result: string | undefined = contents;
+    if (result !== undefined) {
+      if (ignoreSpace === "all") {
+        result = result.replace(/[ \t]+/g, "");
+      } else if (ignoreSpace === "change") {
+        result = result.replace(/[ \t]+/g, " ").replace(/ +$/gm, "");
+      } else if (ignoreSpace === "at-eol") {
+        result = result.replace(/[ \t]+$/gm, "");
+      }
     }
-    const result: ExecutableGit.ListRemotesResult = {
-      ...runResult,
-      remotes,
-    };
     return result;
+  };
+}
+
+function hasKey(map: StringMap<any>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(map, key);
+}
+
+function setOrDelete(map: StringMap<string>, key: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete map[key];
+  } else {
+    map[key] = value;
   }
 }
 
@@ -1600,6 +4610,22 @@ function getCloneArguments(gitUri: string, options: ExecutableGit.CloneOptions =
   if (options.depth != undefined) {
     args.push(`--depth`, options.depth.toString());
   }
+  if (options.shallowSince) {
+    const shallowSince: string = typeof options.shallowSince === "string" ? options.shallowSince : options.shallowSince.toISOString();
+    args.push(`--shallow-since=${shallowSince}`);
+  }
+  if (options.filter) {
+    args.push(`--filter=${options.filter}`);
+  }
+  if (options.singleBranch) {
+    args.push(`--single-branch`);
+  }
+  if (options.sparseCheckoutPatterns) {
+    args.push(`--sparse`);
+  }
+  if (options.recurseSubmodules) {
+    args.push(`--recurse-submodules`);
+  }
   args.push(gitUri);
   if (options.directory) {
     args.push(options.directory);
@@ -1607,6 +4633,20 @@ function getCloneArguments(gitUri: string, options: ExecutableGit.CloneOptions =
   return args;
 }
 
+/**
+ * Get the name of the folder that "git clone" will create for the provided repository URI when no
+ * directory is provided, such as "repo" for "https://host.xz/path/to/repo.git".
+ * @param gitUri The repository URI.
+ */
+function getCloneFolderName(gitUri: string): string {
+  const uriSegments: string[] = where(gitUri.split(/[\/:]/), (segment: string) => !!segment);
+  let result: string = uriSegments[uriSegments.length - 1] || "";
+  if (result === ".git" && uriSegments.length > 1) {
+    result = uriSegments[uriSegments.length - 2];
+  }
+  return result.replace(/\.git$/, "");
+}
+
 /**
  * The prefix that marks the beginning of a diff-ed file line.
  */
@@ -1637,6 +4677,531 @@ export function getFilesChangedFromFullDiff(text: string | string[], currentFold
   return result;
 }
 
+/**
+ * The character that "git log" will write before each commit in its output.
+ */
+const logCommitSeparator = "\x1e";
+
+/**
+ * The character that "git log" will write between the fields of each commit in its output.
+ */
+const logFieldSeparator = "\x1f";
+
+/**
+ * The pretty format that is passed to "git log". The files changed by each commit are written
+ * after the last field separator by the "--name-only" option.
+ */
+const logFormat: string = "%x1e" + ["%H", "%P", "%an", "%ae", "%aI", "%cn", "%ce", "%cI", "%s", "%b", ""].join("%x1f");
+
+/**
+ * The regular expression used to match a trailer line in a commit message.
+ */
+const commitTrailerRegExp: RegExp = /^([A-Za-z0-9-]+):\s*(.*)$/;
+
+/**
+ * Get the trailers from the last paragraph of the provided commit message body.
+ * @param body The body of the commit message.
+ */
+export function getCommitTrailers(body: string): Git.CommitTrailer[] {
+  const result: Git.CommitTrailer[] = [];
+  const paragraphs: string[] = body.trim().split(/\r?\n\s*\r?\n/);
+  const lastParagraphLines: string[] = getLines(paragraphs[paragraphs.length - 1]);
+  for (const line of lastParagraphLines) {
+    const trailerMatch: RegExpMatchArray | null = line.match(commitTrailerRegExp);
+    if (trailerMatch) {
+      result.push({
+        token: trailerMatch[1],
+        value: trailerMatch[2].trim(),
+      });
+    } else if (line.match(/^\s+/) && result.length > 0) {
+      result[result.length - 1].value += ` ${line.trim()}`;
+    } else {
+      result.splice(0, result.length);
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the commits from the provided "git log" output text. The changed files are left relative to
+ * the repository's root folder.
+ * @param text The output of a "git log" command that used the logFormat pretty format.
+ */
+function getCommitsFromLogOutput(text: string | undefined): Git.Commit[] {
+  const result: Git.Commit[] = [];
+  if (text) {
+    for (const commitText of text.split(logCommitSeparator)) {
+      const fields: string[] = commitText.split(logFieldSeparator);
+      if (fields.length >= 11) {
+        const body: string = fields[9].trim();
+        const filesChanged: string[] = [];
+        for (const line of getLines(fields[10])) {
+          const relativeFilePath: string = line.trim();
+          if (relativeFilePath) {
+            filesChanged.push(relativeFilePath);
+          }
+        }
+        result.push({
+          sha: fields[0].trim(),
+          parents: fields[1].split(" ").filter((parent: string) => !!parent),
+          author: {
+            name: fields[2],
+            email: fields[3],
+          },
+          authorDate: new Date(fields[4]),
+          committer: {
+            name: fields[5],
+            email: fields[6],
+          },
+          committerDate: new Date(fields[7]),
+          subject: fields[8],
+          body,
+          trailers: getCommitTrailers(body),
+          filesChanged,
+        });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The regular expression used to parse a hunk header line, such as "@@ -1,3 +1,4 @@ heading".
+ */
+const hunkHeaderRegExp: RegExp = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/**
+ * Remove the quotes and escapes that git adds around file paths with unusual characters, and the
+ * provided "a/" or "b/" prefix.
+ */
+function getDiffPath(text: string, prefix: string): string | undefined {
+  let result: string | undefined = text.trim();
+  if (result.startsWith(`"`) && result.endsWith(`"`)) {
+    result = unquotePath(result.substring(1, result.length - 1));
+  }
+  if (result === "/dev/null") {
+    result = undefined;
+  } else if (prefix && result.startsWith(prefix)) {
+    result = result.substring(prefix.length);
+  }
+  return result;
+}
+
+/**
+ * The characters that git writes as a backslash followed by the key when it quotes a path.
+ */
+const quotedPathEscapes: StringMap<string> = { a: "\x07", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v", "\"": "\"", "\\": "\\" };
+
+/**
+ * Remove the escapes from the provided quoted path (without its quotes). Bytes that aren't ASCII
+ * (such as the UTF-8 bytes of "é") are written as octal escapes like "\303\251".
+ */
+function unquotePath(text: string): string {
+  const bytes: string = Buffer.from(text, "utf8").toString("latin1")
+    .replace(/\\([0-7]{3}|.)/g, (match: string, escape: string) => escape.length === 3
+      ? String.fromCharCode(parseInt(escape, 8))
+      : quotedPathEscapes[escape] || match);
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+/**
+ * Get the old and new paths from a "diff --git a/<old-path> b/<new-path>" line.
+ */
+function getDiffGitLinePaths(line: string): [string | undefined, string | undefined] {
+  const paths: string = line.substring(changedFileDiffLinePrefix.length + 1);
+  let result: [string | undefined, string | undefined] = [undefined, undefined];
+  const halfLength: number = (paths.length - 1) / 2;
+  if (Number.isInteger(halfLength) && paths.substring(2, halfLength) === paths.substring(halfLength + 3)) {
+    const path: string | undefined = getDiffPath(paths.substring(0, halfLength), "a/");
+    result = [path, path];
+  } else {
+    const pathsMatch: RegExpMatchArray | null = paths.match(/^(.*) (b\/.*|"b\/.*)$/);
+    if (pathsMatch) {
+      result = [getDiffPath(pathsMatch[1], "a/"), getDiffPath(pathsMatch[2], "b/")];
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse the files, hunks and lines from the provided full diff text.
+ * @param text The text of the full diff.
+ */
+export function parseDiff(text: string | string[]): ExecutableGit.DiffFile[] {
+  const lines: string[] = typeof text === "string" ? getLines(text) : text;
+  const result: ExecutableGit.DiffFile[] = [];
+  let currentFile: ExecutableGit.DiffFile | undefined;
+  let lineIndex = 0;
+  while (lineIndex < lines.length) {
+    const line: string = lines[lineIndex++];
+    if (line.startsWith(changedFileDiffLinePrefix)) {
+      const [oldPath, newPath] = getDiffGitLinePaths(line);
+      currentFile = {
+        oldPath,
+        newPath,
+        status: "modified",
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      result.push(currentFile);
+    } else if (currentFile) {
+      const hunkHeaderMatch: RegExpMatchArray | null = line.match(hunkHeaderRegExp);
+      if (hunkHeaderMatch) {
+        const hunk: ExecutableGit.DiffHunk = {
+          oldStart: parseInt(hunkHeaderMatch[1]),
+          oldLines: hunkHeaderMatch[2] === undefined ? 1 : parseInt(hunkHeaderMatch[2]),
+          newStart: parseInt(hunkHeaderMatch[3]),
+          newLines: hunkHeaderMatch[4] === undefined ? 1 : parseInt(hunkHeaderMatch[4]),
+          heading: hunkHeaderMatch[5],
+          lines: [],
+        };
+        currentFile.hunks.push(hunk);
+
+        let oldLineNumber: number = hunk.oldStart;
+        let newLineNumber: number = hunk.newStart;
+        let oldLinesRemaining: number = hunk.oldLines;
+        let newLinesRemaining: number = hunk.newLines;
+        while (lineIndex < lines.length && (oldLinesRemaining > 0 || newLinesRemaining > 0 || lines[lineIndex].startsWith("\\"))) {
+          const hunkLine: string = lines[lineIndex++];
+          if (hunkLine.startsWith("\\")) {
+            if (hunk.lines.length > 0) {
+              hunk.lines[hunk.lines.length - 1].noNewlineAtEndOfFile = true;
+            }
+          } else if (hunkLine.startsWith("+")) {
+            hunk.lines.push({ type: "added", content: hunkLine.substring(1), newLineNumber: newLineNumber++ });
+            --newLinesRemaining;
+            ++currentFile.additions;
+          } else if (hunkLine.startsWith("-")) {
+            hunk.lines.push({ type: "removed", content: hunkLine.substring(1), oldLineNumber: oldLineNumber++ });
+            --oldLinesRemaining;
+            ++currentFile.deletions;
+          } else {
+            hunk.lines.push({ type: "context", content: hunkLine.substring(1), oldLineNumber: oldLineNumber++, newLineNumber: newLineNumber++ });
+            --oldLinesRemaining;
+            --newLinesRemaining;
+          }
+        }
+      } else if (line.startsWith("new file mode ")) {
+        currentFile.status = "added";
+        currentFile.oldPath = undefined;
+        currentFile.newMode = line.substring("new file mode ".length);
+      } else if (line.startsWith("deleted file mode ")) {
+        currentFile.status = "deleted";
+        currentFile.newPath = undefined;
+        currentFile.oldMode = line.substring("deleted file mode ".length);
+      } else if (line.startsWith("old mode ")) {
+        currentFile.oldMode = line.substring("old mode ".length);
+      } else if (line.startsWith("new mode ")) {
+        currentFile.newMode = line.substring("new mode ".length);
+      } else if (line.startsWith("similarity index ")) {
+        currentFile.similarity = parseInt(line.substring("similarity index ".length));
+      } else if (line.startsWith("rename from ")) {
+        currentFile.status = "renamed";
+        currentFile.oldPath = getDiffPath(line.substring("rename from ".length), "");
+      } else if (line.startsWith("rename to ")) {
+        currentFile.newPath = getDiffPath(line.substring("rename to ".length), "");
+      } else if (line.startsWith("copy from ")) {
+        currentFile.status = "copied";
+        currentFile.oldPath = getDiffPath(line.substring("copy from ".length), "");
+      } else if (line.startsWith("copy to ")) {
+        currentFile.newPath = getDiffPath(line.substring("copy to ".length), "");
+      } else if (line.startsWith("--- ")) {
+        currentFile.oldPath = getDiffPath(line.substring(4), "a/");
+      } else if (line.startsWith("+++ ")) {
+        currentFile.newPath = getDiffPath(line.substring(4), "b/");
+      } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+        currentFile.binary = true;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The regular expression used to parse the header line of each line group in the output of
+ * "git blame --porcelain".
+ */
+const blameHeaderRegExp: RegExp = /^([0-9a-f]{40}) (\d+) (\d+)/;
+
+/**
+ * The details of a commit in the output of "git blame --porcelain". Each commit's details are
+ * only written the first time that the commit appears.
+ */
+interface BlameCommit {
+  author: Git.Author;
+  authorTime: Date;
+  summary: string;
+  originalFilePath: string;
+}
+
+/**
+ * Get the blamed lines from the provided "git blame --porcelain" output.
+ */
+function getBlameLines(text: string | undefined): ExecutableGit.BlameLine[] {
+  const result: ExecutableGit.BlameLine[] = [];
+  const commits: StringMap<BlameCommit> = {};
+  let header: RegExpMatchArray | undefined;
+  for (const line of getLines(text)) {
+    if (header) {
+      const sha: string = header[1];
+      const commit: BlameCommit = commits[sha] || (commits[sha] = { author: {}, authorTime: new Date(0), summary: "", originalFilePath: "" });
+      if (line.startsWith("\t")) {
+        result.push({
+          sha,
+          author: { ...commit.author },
+          authorTime: commit.authorTime,
+          summary: commit.summary,
+          originalFilePath: commit.originalFilePath,
+          originalLineNumber: parseInt(header[2]),
+          finalLineNumber: parseInt(header[3]),
+          content: line.substring(1),
+        });
+        header = undefined;
+      } else {
+        const spaceIndex: number = line.indexOf(" ");
+        const key: string = spaceIndex === -1 ? line : line.substring(0, spaceIndex);
+        const value: string = spaceIndex === -1 ? "" : line.substring(spaceIndex + 1);
+        switch (key) {
+          case "author":
+            commit.author.name = value;
+            break;
+
+          case "author-mail":
+            commit.author.email = value.replace(/^<(.*)>$/, "$1");
+            break;
+
+          case "author-time":
+            commit.authorTime = new Date(parseInt(value) * 1000);
+            break;
+
+          case "summary":
+            commit.summary = value;
+            break;
+
+          case "filename":
+            commit.originalFilePath = value;
+            break;
+        }
+      }
+    } else {
+      header = line.match(blameHeaderRegExp) || undefined;
+    }
+  }
+  return result;
+}
+
+/**
+ * The regular expression used to get the subject of the patch that "git am" stopped at.
+ */
+const failedPatchRegExp: RegExp = /^Patch failed at \d+ (.*)$/m;
+
+/**
+ * The regular expression used to get the file and line of a hunk that "git apply" couldn't apply.
+ */
+const patchFailedRegExp: RegExp = /^error: patch failed: (.*):(\d+)$/;
+
+/**
+ * The regular expression used to get the file and reason of a patch that "git apply" couldn't
+ * apply.
+ */
+const patchErrorRegExp: RegExp = /^error: (.*): (patch does not apply|does not exist in index|already exists in (?:working directory|index)|does not match index|No such file or directory)$/;
+
+/**
+ * The regular expression used to get the files that "git apply --3way" applied with conflicts.
+ */
+const patchConflictsRegExp: RegExp = /^Applied patch to '(.*)' with conflicts\.$/;
+
+/**
+ * Get the files that couldn't be patched from the provided "git apply" or "git am" error output.
+ */
+function getPatchRejects(text: string | undefined): ExecutableGit.PatchReject[] {
+  const result: ExecutableGit.PatchReject[] = [];
+  const rejects: StringMap<ExecutableGit.PatchReject> = {};
+  const getReject = (filePath: string, reason: string) => {
+    if (!rejects[filePath]) {
+      rejects[filePath] = { filePath, reason };
+      result.push(rejects[filePath]);
+    }
+    return rejects[filePath];
+  };
+  for (const line of getLines(text)) {
+    const patchFailedMatch: RegExpMatchArray | null = line.match(patchFailedRegExp);
+    const patchErrorMatch: RegExpMatchArray | null = line.match(patchErrorRegExp);
+    const patchConflictsMatch: RegExpMatchArray | null = line.match(patchConflictsRegExp);
+    if (patchFailedMatch) {
+      getReject(patchFailedMatch[1], "patch failed").line = parseInt(patchFailedMatch[2]);
+    } else if (patchErrorMatch) {
+      getReject(patchErrorMatch[1], patchErrorMatch[2]).reason = patchErrorMatch[2];
+    } else if (patchConflictsMatch) {
+      getReject(patchConflictsMatch[1], "conflicts").reason = "conflicts";
+    }
+  }
+  return result;
+}
+
+/**
+ * The regular expression used to parse the selector of a reflog entry that was formatted with
+ * "--date=iso-strict", such as "HEAD@{2019-07-01T00:00:00+00:00}".
+ */
+const reflogSelectorRegExp: RegExp = /^(.*)@\{(.*)\}$/;
+
+/**
+ * Parse the output of "git reflog show --date=iso-strict --format=%H%x1f%gD%x1f%gs".
+ */
+function getReflogEntries(ref: string, text: string | undefined): ExecutableGit.ReflogEntry[] {
+  const result: ExecutableGit.ReflogEntry[] = [];
+  for (const line of getLines(text)) {
+    const parts: string[] = line.split("\x1f");
+    const selectorMatch: RegExpMatchArray | null = (parts[1] || "").match(reflogSelectorRegExp);
+    if (parts.length === 3 && selectorMatch) {
+      const subject: string = parts[2];
+      const colonIndex: number = subject.indexOf(": ");
+      if (result.length > 0) {
+        result[result.length - 1].oldSha = parts[0];
+      }
+      result.push({
+        selector: `${ref}@{${result.length}}`,
+        newSha: parts[0],
+        action: colonIndex === -1 ? subject : subject.substring(0, colonIndex),
+        message: colonIndex === -1 ? "" : subject.substring(colonIndex + 2),
+        date: new Date(selectorMatch[2]),
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * The regular expression used to get the SHA of a dangling commit from the output of "git fsck".
+ */
+const danglingCommitRegExp: RegExp = /^dangling commit ([0-9a-f]+)$/;
+
+/**
+ * The regular expression used to parse a line from "git submodule status".
+ */
+const submoduleStatusRegExp: RegExp = /^([ +U-])([0-9a-f]+) (.+?)(?: \((.*)\))?$/;
+
+/**
+ * The submodule states for each of the prefix characters from "git submodule status".
+ */
+const submoduleStates: StringMap<ExecutableGit.SubmoduleState> = {
+  " ": "up-to-date",
+  "-": "uninitialized",
+  "+": "drifted",
+  "U": "conflicted",
+};
+
+/**
+ * The regular expression used to detect a submodule with drift in the output of "git status",
+ * such as "libs/spec (new commits, untracked content)".
+ */
+const driftedSubmoduleRegExp: RegExp = /^(.*) \(((?:new commits|modified content|untracked content)(?:, (?:new commits|modified content|untracked content))*)\)$/;
+
+/**
+ * The regular expression used to detect that a merge, rebase, cherry-pick or revert stopped
+ * because of conflicts.
+ */
+const conflictOutputRegExp: RegExp = /^CONFLICT \(/m;
+
+/**
+ * The conflict types for each of the unmerged two-letter codes from "git status --porcelain".
+ */
+const conflictTypes: StringMap<ExecutableGit.ConflictType> = {
+  "DD": "both-deleted",
+  "AU": "added-by-us",
+  "UD": "deleted-by-them",
+  "UA": "added-by-them",
+  "DU": "deleted-by-us",
+  "AA": "both-added",
+  "UU": "both-modified",
+};
+
+/**
+ * Get the regions that are surrounded by conflict markers in the provided file contents.
+ * @param fileContents The contents of a conflicted file.
+ */
+export function getConflictRegions(fileContents: string): ExecutableGit.ConflictRegion[] {
+  const result: ExecutableGit.ConflictRegion[] = [];
+  let currentRegion: ExecutableGit.ConflictRegion | undefined;
+  let currentLines: string[] = [];
+  const lines: string[] = getLines(fileContents);
+  for (let lineIndex = 0; lineIndex < lines.length; ++lineIndex) {
+    const line: string = lines[lineIndex];
+    if (line.startsWith("<<<<<<<")) {
+      currentRegion = {
+        startLine: lineIndex + 1,
+        endLine: lineIndex + 1,
+        oursLabel: line.substring(7).trim(),
+        ours: [],
+        theirsLabel: "",
+        theirs: [],
+      };
+      currentLines = currentRegion.ours;
+    } else if (currentRegion) {
+      if (line.startsWith("|||||||")) {
+        currentRegion.base = [];
+        currentLines = currentRegion.base;
+      } else if (line === "=======") {
+        currentLines = currentRegion.theirs;
+      } else if (line.startsWith(">>>>>>>")) {
+        currentRegion.endLine = lineIndex + 1;
+        currentRegion.theirsLabel = line.substring(7).trim();
+        result.push(currentRegion);
+        currentRegion = undefined;
+      } else {
+        currentLines.push(line);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The regular expression used to get the ahead and behind counts from the output of
+ * "git rev-list --left-right --count".
+ */
+const aheadBehindRegExp: RegExp = /^\s*(\d+)\s+(\d+)/;
+
+/**
+ * The regular expression used to get the abbreviated SHA from the output of "git tag --delete".
+ */
+const deletedTagRegExp: RegExp = /Deleted tag '.*' \(was (.*)\)/;
+
+/**
+ * The regular expression used to get the version at the end of a tag name.
+ */
+const tagVersionRegExp: RegExp = /(\d+\.\d+\.\d+(-.+)?)$/;
+
+/**
+ * Get the version at the end of the provided tag name, such as the "1.2.3" in "v1.2.3".
+ * @param tagName The name of the tag.
+ * @returns The version at the end of the tag name or undefined if the tag name doesn't end with a
+ * version.
+ */
+export function getTagVersion(tagName: string): Version | undefined {
+  const tagVersionMatch: RegExpMatchArray | null = tagName.match(tagVersionRegExp);
+  return tagVersionMatch ? new Version(tagVersionMatch[1]) : undefined;
+}
+
+function compareTagVersions(lhsTagName: string, rhsTagName: string): number {
+  const lhsVersion: Version | undefined = getTagVersion(lhsTagName);
+  const rhsVersion: Version | undefined = getTagVersion(rhsTagName);
+  let result: number;
+  if (lhsVersion && rhsVersion) {
+    result = lhsVersion.compareTo(rhsVersion) || lhsTagName.localeCompare(rhsTagName);
+  } else if (lhsVersion) {
+    result = -1;
+  } else if (rhsVersion) {
+    result = 1;
+  } else {
+    result = lhsTagName.localeCompare(rhsTagName);
+  }
+  return result;
+}
+
 const branchDetachedHeadRegExp: RegExp = /\(HEAD detached at (.*)\)/;
 
 /**
@@ -1674,6 +5239,23 @@ export interface GitRemoteBranch {
   branchName: string;
 }
 
+/**
+ * Get the ref that git commands can use to refer to the provided remote branch, such as
+ * "origin/master". Strings are returned unchanged.
+ * @param remoteBranch The ref or remote branch to get the ref of.
+ */
+export function getRemoteBranchRef(remoteBranch: string | GitRemoteBranch): string {
+  let result: string;
+  if (typeof remoteBranch === "string") {
+    result = remoteBranch;
+  } else if (!remoteBranch.repositoryTrackingName) {
+    result = remoteBranch.branchName;
+  } else {
+    result = `${remoteBranch.repositoryTrackingName}/${remoteBranch.branchName}`;
+  }
+  return result;
+}
+
 /**
  * Get the full name of the provided remote branch.
  * @param remoteBranch The remote branch to get the full name of.
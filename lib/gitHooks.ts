@@ -0,0 +1,339 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for
+ * license information.
+ */
+
+import * as fs from "fs";
+import { contains, where } from "./arrays";
+import { getLines, readEntireString, StringMap } from "./common";
+import { createFolder, deleteFile, getChildFilePaths, readFileContents, writeFileContents } from "./fileSystem2";
+import { ExecutableGit } from "./git";
+import { getName, joinPath, normalizePath } from "./path";
+
+/**
+ * The names of the hooks that Git can run.
+ */
+export type GitHookName =
+  "applypatch-msg" |
+  "pre-applypatch" |
+  "post-applypatch" |
+  "pre-commit" |
+  "pre-merge-commit" |
+  "prepare-commit-msg" |
+  "commit-msg" |
+  "post-commit" |
+  "pre-rebase" |
+  "post-checkout" |
+  "post-merge" |
+  "pre-push" |
+  "pre-receive" |
+  "update" |
+  "post-receive" |
+  "post-update" |
+  "reference-transaction" |
+  "post-rewrite";
+
+/**
+ * The line that is written into every hook script that this module generates. It is used to tell
+ * generated hook scripts apart from hook scripts that were written by hand.
+ */
+const generatedHookMarker = "# Generated by @ts-common/azure-js-dev-tools";
+
+/**
+ * The hooks that receive ref updates on their standard input.
+ */
+const refUpdateHookNames: GitHookName[] = ["pre-push", "pre-receive", "post-receive", "reference-transaction"];
+
+/**
+ * A hook script in a repository's hooks folder.
+ */
+export interface GitHook {
+  /**
+   * The name of the hook.
+   */
+  name: string;
+  /**
+   * The absolute path to the hook script.
+   */
+  filePath: string;
+  /**
+   * Whether or not the hook script was generated by installGitHook().
+   */
+  generated: boolean;
+  /**
+   * The command that the generated hook script runs. This is undefined for hook scripts that
+   * weren't generated by installGitHook().
+   */
+  command?: string;
+}
+
+/**
+ * Options that can be provided when installing a hook script.
+ */
+export interface InstallGitHookOptions extends ExecutableGit.Options {
+  /**
+   * Whether or not to overwrite an existing hook script that wasn't generated by installGitHook().
+   */
+  force?: boolean;
+}
+
+/**
+ * Options that can be provided when removing a hook script.
+ */
+export interface RemoveGitHookOptions extends ExecutableGit.Options {
+  /**
+   * Whether or not to remove the hook script even if it wasn't generated by installGitHook().
+   */
+  force?: boolean;
+}
+
+/**
+ * Get the absolute path to the folder that the provided repository runs its hook scripts from.
+ * This respects the repository's core.hooksPath configuration value.
+ * @param git The repository to get the hooks folder of.
+ * @param options The options that determine how the Git commands will run.
+ */
+export async function getGitHooksFolderPath(git: ExecutableGit, options: ExecutableGit.Options = {}): Promise<string> {
+  const runResult: ExecutableGit.Result = await git.run(["rev-parse", "--path-format=absolute", "--git-path", "hooks"], options);
+  if (runResult.exitCode !== 0 || !runResult.stdout) {
+    throw new Error(`Failed to get the hooks folder: ${runResult.stderr}`);
+  }
+  return normalizePath(runResult.stdout.trim());
+}
+
+/**
+ * Set the repository's core.hooksPath configuration value so that Git will run hook scripts from
+ * the provided folder instead of from .git/hooks.
+ * @param git The repository to configure.
+ * @param hooksFolderPath The path to the folder that contains the hook scripts.
+ * @param options The options that determine how the Git commands will run.
+ */
+export async function setGitHooksPath(git: ExecutableGit, hooksFolderPath: string, options: ExecutableGit.Options = {}): Promise<void> {
+  const runResult: ExecutableGit.Result = await git.setConfigurationValue("core.hooksPath", hooksFolderPath, options);
+  if (runResult.exitCode !== 0) {
+    throw new Error(`Failed to set core.hooksPath to "${hooksFolderPath}": ${runResult.stderr}`);
+  }
+}
+
+/**
+ * Get the contents of a hook script that runs the provided command with the hook's arguments.
+ * @param command The command that the hook script will run.
+ */
+export function getGitHookScript(command: string): string {
+  return `#!/bin/sh\n${generatedHookMarker}\n${command} "$@"\n`;
+}
+
+/**
+ * Install a hook script that runs the provided command into the provided repository's hooks
+ * folder. The command receives the hook's arguments and standard input.
+ * @param git The repository to install the hook script into.
+ * @param hookName The name of the hook to install.
+ * @param command The command that the hook script will run.
+ * @param options The options that determine how the hook will be installed.
+ * @returns The path to the installed hook script.
+ */
+export async function installGitHook(git: ExecutableGit, hookName: GitHookName, command: string, options: InstallGitHookOptions = {}): Promise<string> {
+  const hooksFolderPath: string = await getGitHooksFolderPath(git, options);
+  const hookFilePath: string = joinPath(hooksFolderPath, hookName);
+  const existingHook: GitHook | undefined = await readGitHook(hookFilePath);
+  if (existingHook && !existingHook.generated && !options.force) {
+    throw new Error(`A ${hookName} hook that wasn't generated already exists at "${hookFilePath}".`);
+  }
+  await createFolder(hooksFolderPath);
+  await writeFileContents(hookFilePath, getGitHookScript(command));
+  await makeExecutable(hookFilePath);
+  return hookFilePath;
+}
+
+/**
+ * Get the hook scripts in the provided repository's hooks folder. Sample hook scripts are not
+ * included.
+ * @param git The repository to get the hook scripts of.
+ * @param options The options that determine how the Git commands will run.
+ */
+export async function listGitHooks(git: ExecutableGit, options: ExecutableGit.Options = {}): Promise<GitHook[]> {
+  const hooksFolderPath: string = await getGitHooksFolderPath(git, options);
+  const hookFilePaths: string[] = where(await getChildFilePaths(hooksFolderPath) || [], (hookFilePath: string) => !hookFilePath.endsWith(".sample"));
+  const result: GitHook[] = [];
+  for (const hookFilePath of hookFilePaths.sort()) {
+    const hook: GitHook | undefined = await readGitHook(hookFilePath);
+    if (hook) {
+      result.push(hook);
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove the hook script with the provided name from the provided repository's hooks folder.
+ * @param git The repository to remove the hook script from.
+ * @param hookName The name of the hook to remove.
+ * @param options The options that determine how the hook will be removed.
+ * @returns Whether or not a hook script was removed.
+ */
+export async function removeGitHook(git: ExecutableGit, hookName: GitHookName, options: RemoveGitHookOptions = {}): Promise<boolean> {
+  const hookFilePath: string = joinPath(await getGitHooksFolderPath(git, options), hookName);
+  const existingHook: GitHook | undefined = await readGitHook(hookFilePath);
+  let result = false;
+  if (existingHook) {
+    if (!existingHook.generated && !options.force) {
+      throw new Error(`The ${hookName} hook at "${hookFilePath}" wasn't generated and won't be removed.`);
+    }
+    result = await deleteFile(hookFilePath);
+  }
+  return result;
+}
+
+async function readGitHook(hookFilePath: string): Promise<GitHook | undefined> {
+  let result: GitHook | undefined;
+  const hookScript: string | undefined = await readFileContents(hookFilePath);
+  if (hookScript != undefined) {
+    const lines: string[] = getLines(hookScript);
+    const generated: boolean = contains(lines, generatedHookMarker);
+    let command: string | undefined;
+    if (generated) {
+      const commandLine: string = lines[lines.indexOf(generatedHookMarker) + 1] || "";
+      command = commandLine.replace(/ "\$@"$/, "");
+    }
+    result = {
+      name: getName(hookFilePath),
+      filePath: hookFilePath,
+      generated,
+      command,
+    };
+  }
+  return result;
+}
+
+function makeExecutable(filePath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    fs.chmod(filePath, 0o755, (error: NodeJS.ErrnoException | null) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * A ref update that a hook received on its standard input.
+ */
+export interface GitHookRefUpdate {
+  /**
+   * The name of the ref that is being updated. For pre-push hooks, this is the ref in the remote
+   * repository.
+   */
+  refName: string;
+  /**
+   * The SHA that the ref currently points at. This is all zeros if the ref is being created.
+   */
+  oldSha: string;
+  /**
+   * The SHA that the ref will point at. This is all zeros if the ref is being deleted.
+   */
+  newSha: string;
+  /**
+   * The name of the local ref that is being pushed. This is only populated for pre-push hooks.
+   */
+  localRef?: string;
+}
+
+/**
+ * The details of a hook invocation that are handed to a hook callback.
+ */
+export interface GitHookContext {
+  /**
+   * The name of the hook that is running.
+   */
+  hookName: GitHookName;
+  /**
+   * The arguments that Git passed to the hook.
+   */
+  args: string[];
+  /**
+   * The ref updates that Git passed to the hook on its standard input. This is empty for hooks
+   * that don't receive ref updates.
+   */
+  refUpdates: GitHookRefUpdate[];
+}
+
+/**
+ * A function that handles a hook. Returning a non-zero exit code from a "pre-" hook will stop the
+ * Git operation.
+ */
+export type GitHookCallback = (context: GitHookContext) => number | void | Promise<number | void>;
+
+/**
+ * Options that can be provided when running a hook callback.
+ */
+export interface RunGitHookOptions {
+  /**
+   * The arguments that Git passed to the hook. Defaults to process.argv.slice(2).
+   */
+  args?: string[];
+  /**
+   * The standard input that Git passed to the hook. Defaults to process.stdin for hooks that
+   * receive ref updates.
+   */
+  stdin?: string | NodeJS.ReadableStream;
+}
+
+/**
+ * Parse the ref updates that Git passes on the standard input of the provided hook.
+ * @param hookName The name of the hook.
+ * @param stdin The standard input of the hook.
+ */
+export function getGitHookRefUpdates(hookName: GitHookName, stdin: string): GitHookRefUpdate[] {
+  const result: GitHookRefUpdate[] = [];
+  for (const line of getLines(stdin)) {
+    const parts: string[] = line.trim().split(/\s+/);
+    if (parts.length >= 3) {
+      if (hookName === "pre-push" && parts.length >= 4) {
+        result.push({
+          refName: parts[2],
+          oldSha: parts[3],
+          newSha: parts[1],
+          localRef: parts[0],
+        });
+      } else if (hookName !== "pre-push") {
+        result.push({
+          refName: parts[2],
+          oldSha: parts[0],
+          newSha: parts[1],
+        });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Run the callback that handles the provided hook and get the exit code that the hook script
+ * should exit with. The callbacks can be a single callback or a map from hook names to callbacks.
+ * If no callback handles the provided hook, then 0 will be returned.
+ * @param hookName The name of the hook that is running.
+ * @param callbacks The callback or callbacks that handle hooks.
+ * @param options The options that provide the hook's arguments and standard input.
+ */
+export async function runGitHook(hookName: GitHookName, callbacks: GitHookCallback | StringMap<GitHookCallback>, options: RunGitHookOptions = {}): Promise<number> {
+  let result = 0;
+  const callback: GitHookCallback | undefined = typeof callbacks === "function" ? callbacks : callbacks[hookName];
+  if (callback) {
+    let stdin: string | undefined;
+    if (contains(refUpdateHookNames, hookName)) {
+      stdin = typeof options.stdin === "string"
+        ? options.stdin
+        : await readEntireString(options.stdin || process.stdin);
+    }
+    const context: GitHookContext = {
+      hookName,
+      args: options.args || process.argv.slice(2),
+      refUpdates: stdin ? getGitHookRefUpdates(hookName, stdin) : [],
+    };
+    result = (await Promise.resolve(callback(context))) || 0;
+  }
+  return result;
+}
@@ -0,0 +1,245 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for
+ * license information.
+ */
+
+import * as fs from "fs";
+import { Clock, ClockTimeout, RealClock } from "./clock";
+import { Duration } from "./duration";
+import { ExecutableGit } from "./git";
+
+/**
+ * An event that is raised when the files that have uncommitted changes in the working tree change,
+ * or when one of those files is edited again.
+ */
+export interface WorkingTreeChangedEvent {
+  type: "working-tree-changed";
+  /**
+   * The staged, not staged, and untracked files that now have uncommitted changes.
+   */
+  modifiedFiles: string[];
+  /**
+   * The files that had uncommitted changes when the repository was last polled.
+   */
+  previousModifiedFiles: string[];
+}
+
+/**
+ * An event that is raised when HEAD points at a different commit.
+ */
+export interface HeadMovedEvent {
+  type: "head-moved";
+  /**
+   * The SHA that HEAD pointed at when the repository was last polled.
+   */
+  previousSha?: string;
+  /**
+   * The SHA that HEAD now points at.
+   */
+  currentSha?: string;
+}
+
+/**
+ * An event that is raised when a different branch is checked out.
+ */
+export interface BranchSwitchedEvent {
+  type: "branch-switched";
+  /**
+   * The branch that was checked out when the repository was last polled.
+   */
+  previousBranch?: string;
+  /**
+   * The branch that is now checked out.
+   */
+  currentBranch?: string;
+}
+
+/**
+ * An event that is raised by a GitWatcher.
+ */
+export type GitWatcherEvent = WorkingTreeChangedEvent | HeadMovedEvent | BranchSwitchedEvent;
+
+/**
+ * Options that can be provided when creating a GitWatcher.
+ */
+export interface GitWatcherOptions extends ExecutableGit.Options {
+  /**
+   * The amount of time to wait between polls. Defaults to 1 second.
+   */
+  pollInterval?: Duration;
+  /**
+   * The clock that will be used to schedule polls. Defaults to a RealClock.
+   */
+  clock?: Clock;
+  /**
+   * The function that will be invoked for each event that is raised.
+   */
+  onEvent?: (event: GitWatcherEvent) => unknown;
+  /**
+   * The function that will be invoked when a scheduled poll throws. If this isn't provided, then
+   * the error will be ignored and the next poll will still be scheduled.
+   */
+  onError?: (error: any) => unknown;
+}
+
+interface GitWatcherState {
+  branch?: string;
+  sha?: string;
+  modifiedFiles: string[];
+  /**
+   * The size and modification time of each of the modified files, in the same order as
+   * modifiedFiles. This is what lets a watcher notice when a file that already had uncommitted
+   * changes is edited again.
+   */
+  modifiedFileFingerprints: string[];
+}
+
+/**
+ * An object that polls a Git repository and raises events when its working tree, HEAD, or checked
+ * out branch change.
+ */
+export class GitWatcher {
+  private readonly pollInterval: Duration;
+  private readonly clock: Clock;
+  private state: GitWatcherState | undefined;
+  private timeout: ClockTimeout | undefined;
+  private running = false;
+  /**
+   * Incremented each time this watcher starts or stops so that a poll which finishes after the
+   * watcher was stopped (and maybe restarted) doesn't schedule another poll.
+   */
+  private runId = 0;
+
+  /**
+   * Create a new GitWatcher.
+   * @param git The repository to watch.
+   * @param options The options that determine how the repository will be watched.
+   */
+  constructor(private readonly git: ExecutableGit, private readonly options: GitWatcherOptions = {}) {
+    this.pollInterval = options.pollInterval || Duration.seconds(1);
+    this.clock = options.clock || new RealClock();
+  }
+
+  /**
+   * Whether or not this watcher is polling the repository.
+   */
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Read the repository's current state and get the events that describe how it changed since the
+   * previous poll. The first poll only records the repository's state and doesn't raise any
+   * events. If the repository's state can't be read, then no events are raised and the previous
+   * state is kept.
+   */
+  public async poll(): Promise<GitWatcherEvent[]> {
+    const result: GitWatcherEvent[] = [];
+    const statusResult: ExecutableGit.StatusResult = await this.git.status(this.options);
+    const currentCommitShaResult: ExecutableGit.CurrentCommitShaResult = await this.git.currentCommitSha(this.options);
+    if (statusResult.exitCode === 0 && currentCommitShaResult.exitCode === 0) {
+      const previousState: GitWatcherState | undefined = this.state;
+      const modifiedFiles: string[] = statusResult.modifiedFiles.slice().sort();
+      const currentState: GitWatcherState = {
+        branch: statusResult.localBranch,
+        sha: (currentCommitShaResult.currentCommitSha || "").trim() || undefined,
+        modifiedFiles,
+        modifiedFileFingerprints: await Promise.all(modifiedFiles.map(getFileFingerprint)),
+      };
+      this.state = currentState;
+
+      if (previousState) {
+        if (previousState.branch !== currentState.branch) {
+          result.push({
+            type: "branch-switched",
+            previousBranch: previousState.branch,
+            currentBranch: currentState.branch,
+          });
+        }
+        if (previousState.sha !== currentState.sha) {
+          result.push({
+            type: "head-moved",
+            previousSha: previousState.sha,
+            currentSha: currentState.sha,
+          });
+        }
+        if (previousState.modifiedFiles.join("\n") !== currentState.modifiedFiles.join("\n") ||
+            previousState.modifiedFileFingerprints.join("\n") !== currentState.modifiedFileFingerprints.join("\n")) {
+          result.push({
+            type: "working-tree-changed",
+            modifiedFiles: currentState.modifiedFiles,
+            previousModifiedFiles: previousState.modifiedFiles,
+          });
+        }
+      }
+    }
+
+    if (this.options.onEvent) {
+      for (const event of result) {
+        await Promise.resolve(this.options.onEvent(event));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Record the repository's current state and start polling it. Calling start() on a watcher that
+   * is already running does nothing. If the first poll throws, then the watcher isn't started.
+   */
+  public async start(): Promise<void> {
+    if (!this.running) {
+      this.running = true;
+      const runId: number = ++this.runId;
+      try {
+        await this.poll();
+      } catch (error) {
+        if (runId === this.runId) {
+          this.running = false;
+        }
+        throw error;
+      }
+      this.scheduleNextPoll(runId);
+    }
+  }
+
+  /**
+   * Stop polling the repository.
+   */
+  public stop(): void {
+    this.running = false;
+    ++this.runId;
+    if (this.timeout != undefined) {
+      this.clock.clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  private scheduleNextPoll(runId: number): void {
+    if (this.running && runId === this.runId) {
+      this.timeout = this.clock.setTimeout(async () => {
+        this.timeout = undefined;
+        try {
+          await this.poll();
+        } catch (error) {
+          if (this.options.onError) {
+            this.options.onError(error);
+          }
+        }
+        this.scheduleNextPoll(runId);
+      }, this.pollInterval);
+    }
+  }
+}
+
+/**
+ * Get a string that changes when the file at the provided path is edited. A file that doesn't
+ * exist, such as a deleted file, has the fingerprint "missing".
+ */
+function getFileFingerprint(filePath: string): Promise<string> {
+  return new Promise((resolve: (fingerprint: string) => void) => {
+    fs.lstat(filePath, (error: NodeJS.ErrnoException | null, stats: fs.Stats) => {
+      resolve(error ? "missing" : `${stats.size}:${stats.mtime.valueOf()}`);
+    });
+  });
+}
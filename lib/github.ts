@@ -5,10 +5,15 @@
  */
 
 import { Octokit } from "@octokit/rest";
+import * as crypto from "crypto";
 import * as fs from "fs";
-import { contains, first, map, removeFirst, where } from "./arrays";
+import { contains, first, map, removeFirst, toArray, where } from "./arrays";
 import { URLBuilder } from "./url";
+import { Clock, delay, RealClock } from "./clock";
+import { getArgument } from "./commandLine";
 import { StringMap } from "./common";
+import { Duration } from "./duration";
+import { retry } from "./retry";
 
 /**
  * The name and optional organization that the repository belongs to.
@@ -115,7 +120,7 @@ export interface GitHubPullRequestWebhookBody {
   /**
    * The action that the Webhook request is being sent as a result of.
    */
-  action: "assigned" | "unassigned" | "review_requested" | "review_request_removed" | "labeled" | "unlabeled" | "opened" | "edited" | "closed" | "reopened";
+  action: "assigned" | "unassigned" | "review_requested" | "review_request_removed" | "labeled" | "unlabeled" | "opened" | "edited" | "closed" | "reopened" | "synchronize" | "ready_for_review";
   /**
    * The pull request number.
    */
@@ -132,9 +137,39 @@ export interface GitHubLabel {
   url: string;
   name: string;
   color: string;
+  description?: string;
   default: boolean;
 }
 
+/**
+ * Optional parameters that can be provided to the GitHub.createLabel() function.
+ */
+export interface GitHubCreateLabelOptions {
+  /**
+   * A short description of the label.
+   */
+  description?: string;
+}
+
+/**
+ * Parameters that can be provided to the GitHub.updateLabel() function. Properties that aren't
+ * provided won't be changed.
+ */
+export interface GitHubUpdateLabelOptions {
+  /**
+   * The new name of the label.
+   */
+  name?: string;
+  /**
+   * The new color of the label, without a leading "#".
+   */
+  color?: string;
+  /**
+   * The new description of the label.
+   */
+  description?: string;
+}
+
 export type GitHubMilestoneState = "open" | "closed";
 
 export interface GitHubMilestone {
@@ -172,12 +207,20 @@ export interface GitHubPullRequest {
   number: number;
   state: GitHubPullRequestState;
   merged?: boolean;
+  /**
+   * The timestamp for when the pull request was merged.
+   */
+  merged_at?: string;
   title: string;
   url: string;
   html_url: string;
   diff_url: string;
   milestone?: GitHubMilestone;
   assignees?: GitHubUser[];
+  /**
+   * The users that have been asked to review the pull request and haven't reviewed it yet.
+   */
+  requested_reviewers?: GitHubUser[];
   /**
    * The description for the pull request.
    */
@@ -204,6 +247,134 @@ export interface GitHubPullRequestCommit {
   sha: string;
 }
 
+/**
+ * The action that a pull request review performs.
+ */
+export type GitHubReviewEvent = "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+
+/**
+ * The state of a pull request review.
+ */
+export type GitHubReviewState = "APPROVED" | "CHANGES_REQUESTED" | "COMMENTED" | "DISMISSED" | "PENDING";
+
+/**
+ * A review that was submitted on a pull request.
+ */
+export interface GitHubReview {
+  id: number;
+  node_id: string;
+  html_url: string;
+  /**
+   * The user that submitted this review.
+   */
+  user: GitHubUser;
+  /**
+   * The summary text of this review.
+   */
+  body: string;
+  state: GitHubReviewState;
+  /**
+   * The SHA of the pull request head commit that this review was submitted against.
+   */
+  commit_id: string;
+  /**
+   * The timestamp for when this review was submitted.
+   */
+  submitted_at?: string;
+}
+
+/**
+ * A comment that is anchored to a line in a pull request's diff.
+ */
+export interface GitHubReviewComment {
+  id: number;
+  node_id: string;
+  url: string;
+  html_url: string;
+  /**
+   * The id of the review that this comment belongs to.
+   */
+  pull_request_review_id: number;
+  /**
+   * The path of the commented file, relative to the root of the repository.
+   */
+  path: string;
+  /**
+   * The line of the file that this comment is anchored to. This is undefined if the line no
+   * longer exists in the pull request's diff.
+   */
+  line?: number;
+  /**
+   * The side of the diff that the line is on. "LEFT" is the base and "RIGHT" is the head.
+   */
+  side?: GitHubReviewCommentSide;
+  /**
+   * The SHA of the commit that this comment was made on.
+   */
+  commit_id: string;
+  /**
+   * The body/text of this comment.
+   */
+  body: string;
+  /**
+   * The user that made this comment.
+   */
+  user: GitHubUser;
+  /**
+   * The timestamp for when this comment was created.
+   */
+  created_at: string;
+  /**
+   * The timestamp for the last time that this comment was updated.
+   */
+  updated_at: string;
+}
+
+/**
+ * The side of a pull request's diff that a review comment is anchored to.
+ */
+export type GitHubReviewCommentSide = "LEFT" | "RIGHT";
+
+/**
+ * An inline comment that will be created as part of a pull request review.
+ */
+export interface GitHubCreateReviewComment {
+  /**
+   * The path of the file to comment on, relative to the root of the repository.
+   */
+  path: string;
+  /**
+   * The line of the file to comment on.
+   */
+  line: number;
+  /**
+   * The side of the diff that the line is on. Defaults to "RIGHT".
+   */
+  side?: GitHubReviewCommentSide;
+  /**
+   * The text of the comment.
+   */
+  body: string;
+}
+
+/**
+ * Optional parameters that can be provided to the GitHub.createReview() function.
+ */
+export interface GitHubCreateReviewOptions {
+  /**
+   * The summary text of the review. This is required when requesting changes.
+   */
+  body?: string;
+  /**
+   * The inline comments to create as part of the review.
+   */
+  comments?: GitHubCreateReviewComment[];
+  /**
+   * The SHA of the commit that the review applies to. Defaults to the pull request's head commit.
+   */
+  commitId?: string;
+}
+
 /**
  * Get the label in the provided GitHubPullRequest that has the provided name. If no label is found,
  * then undefined will be returned.
@@ -243,11 +414,164 @@ function getCommentId(comment: number | GitHubComment): number {
   return typeof comment === "number" ? comment : comment.id;
 }
 
+function getCheckRunId(checkRun: number | GitHubCheckRun): number {
+  return typeof checkRun === "number" ? checkRun : checkRun.id;
+}
+
+function getReleaseId(release: number | GitHubRelease): number {
+  return typeof release === "number" ? release : release.id;
+}
+
+export type GitHubIssueState = "open" | "closed";
+
+/**
+ * An issue in a GitHub repository.
+ */
+export interface GitHubIssue {
+  id: number;
+  node_id: string;
+  number: number;
+  title: string;
+  /**
+   * The description for the issue.
+   */
+  body?: string;
+  state: GitHubIssueState;
+  labels: GitHubLabel[];
+  assignees?: GitHubUser[];
+  milestone?: GitHubMilestone;
+  /**
+   * The user that created this issue.
+   */
+  user: GitHubUser;
+  url: string;
+  html_url: string;
+  /**
+   * The timestamp for when this issue was created.
+   */
+  created_at: string;
+  /**
+   * The timestamp for the last time that this issue was updated.
+   */
+  updated_at: string;
+  /**
+   * The timestamp for when this issue was closed.
+   */
+  closed_at?: string;
+  /**
+   * The links to the pull request that this issue belongs to. This is only populated when the
+   * issue is a pull request.
+   */
+  pull_request?: {
+    url: string;
+    html_url: string;
+  };
+}
+
+/**
+ * Get the label in the provided GitHubIssue that has the provided name. If no label is found, then
+ * undefined will be returned.
+ * @param githubIssue The issue to look for the label in.
+ * @param labelName The name of the label to look for.
+ */
+export function gitHubIssueGetLabel(githubIssue: GitHubIssue, labelName: string): GitHubLabel | undefined {
+  return first(githubIssue.labels, (label: GitHubLabel) => label.name === labelName);
+}
+
+function getIssueNumber(issue: number | GitHubIssue): number {
+  return typeof issue === "number" ? issue : issue.number;
+}
+
+/**
+ * Optional parameters that can be provided to the GitHub functions that list items.
+ */
+export interface GitHubListOptions {
+  /**
+   * The maximum number of items to return. If this isn't provided, then all of the items will be
+   * returned.
+   */
+  maxItems?: number;
+}
+
+/**
+ * Get the first maxItems of the provided items, or all of them if maxItems isn't provided.
+ */
+function takeMaxItems<T>(items: T[], options: GitHubListOptions | undefined): T[] {
+  return options && options.maxItems != undefined ? items.slice(0, Math.max(0, options.maxItems)) : items;
+}
+
+/**
+ * Optional parameters that can be provided to the GitHub.getIssues() function to restrict the
+ * returned issues.
+ */
+export interface GitHubGetIssuesOptions extends GitHubListOptions {
+  /**
+   * Filter the results to the issues that are either open (true) or closed (false). If this value
+   * is undefined, then all issues will be returned.
+   */
+  open?: boolean;
+  /**
+   * Filter the results to the issues that have all of the provided labels.
+   */
+  labels?: string | string[];
+  /**
+   * Filter the results to the issues that are assigned to the provided milestone. The milestone
+   * can be a milestone number, name, or details. "*" matches issues with any milestone and "none"
+   * matches issues without a milestone.
+   */
+  milestone?: number | string | GitHubMilestone;
+  /**
+   * Filter the results to the issues that are assigned to the provided user. "*" matches issues
+   * with any assignee and "none" matches issues without an assignee.
+   */
+  assignee?: string | GitHubUser;
+  /**
+   * Filter the results to the issues that have been updated at or after the provided time.
+   */
+  since?: Date | string;
+  /**
+   * Whether or not to include pull requests in the results. GitHub treats every pull request as
+   * an issue. Defaults to false.
+   */
+  includePullRequests?: boolean;
+}
+
+/**
+ * Optional parameters that can be provided to the GitHub.createIssue() function.
+ */
+export interface GitHubCreateIssueOptions {
+  /**
+   * The description that will appear in the created issue.
+   */
+  body?: string;
+  /**
+   * The names of the labels to add to the created issue.
+   */
+  labels?: string[];
+  /**
+   * The users to assign to the created issue.
+   */
+  assignees?: (string | GitHubUser)[];
+  /**
+   * The milestone number, name, or details to assign the created issue to.
+   */
+  milestone?: number | string | GitHubMilestone;
+}
+
+/**
+ * Optional parameters that can be provided to the GitHub.updateIssue() function. Properties that
+ * are undefined will not be changed.
+ */
+export interface GitHubUpdateIssueOptions extends GitHubCreateIssueOptions {
+  title?: string;
+  state?: GitHubIssueState;
+}
+
 /**
  * Optional parameters that can be provided to the GitHub.getMilestones() function to restrict the
  * returned milestones.
  */
-export interface GitHubGetMilestonesOptions {
+export interface GitHubGetMilestonesOptions extends GitHubListOptions {
   /**
    * Filter the results to the milestones that are either open (true) or closed (false). If this
    * value is undefined, then all milestones will be returned.
@@ -263,7 +587,7 @@ export interface GitHubCreateMilestoneOptions {
  * Optional parameters that can be provided to the GitHub.getPullRequests() function to restrict the
  * returned pull requests.
  */
-export interface GitHubGetPullRequestsOptions extends Partial<Octokit.PullsListParams> {
+export interface GitHubGetPullRequestsOptions extends Partial<Octokit.PullsListParams>, GitHubListOptions {
   /**
    * Filter the results to the pull requests that are either open (true) or closed (false). If this
    * value is undefined, then all pull requests will be returned.
@@ -416,871 +740,2414 @@ export interface GitHubBranch extends GitHubReference {
   readonly name: string;
 }
 
-export interface GitHub {
+/**
+ * The state of a commit status.
+ */
+export type GitHubCommitStatusState = "error" | "failure" | "pending" | "success";
+
+/**
+ * A status that an external service reported for a commit.
+ */
+export interface GitHubCommitStatus {
+  id: number;
+  node_id: string;
+  url: string;
+  state: GitHubCommitStatusState;
   /**
-   * Get the user that is currently authenticated.
-   * @returns The user that is currently authenticated.
+   * A short description of this status.
    */
-  getCurrentUser(): Promise<GitHubUser>;
-
+  description?: string;
   /**
-   * Get all of the labels in the provided repository.
+   * The URL that this status links to.
    */
-  getLabels(repository: string | Repository): Promise<GitHubLabel[]>;
-
+  target_url?: string;
   /**
-   * Get all of the labels that contain "-Sprint-" in the provided repository.
-   * @param repository The repository to look in.
+   * The label that differentiates this status from the statuses of other services.
    */
-  getSprintLabels(repository: string | Repository): Promise<GitHubSprintLabel[]>;
-
+  context: string;
   /**
-   * Create a label with the provided labelName and color in the provided repository.
-   * @param repositoryName The name of the repository where the label will be created.
-   * @param labelName The name of the created label.
-   * @param color The color of the created label.
+   * The user that created this status.
    */
-  createLabel(repository: string | Repository, labelName: string, color: string): Promise<GitHubLabel>;
-
+  creator: GitHubUser;
   /**
-   * Delete the provided label from the provided repository.
-   * @param repository The repository to delete the label from.
-   * @param label The label name, id, or details to delete.
+   * The timestamp for when this status was created.
    */
-  deleteLabel(repository: string | Repository, label: string | number | GitHubLabel): Promise<unknown>;
-
+  created_at: string;
   /**
-   * Update the color of the label with the provided name in the provided repository.
-   * @param repository The repository that contains the label to update.
-   * @param labelName The name of the label to update.
-   * @param newColor The color to update the label to.
+   * The timestamp for the last time that this status was updated.
    */
-  updateLabelColor(repository: string | Repository, labelName: string, newColor: string): Promise<unknown>;
+  updated_at: string;
+}
 
+/**
+ * The latest status of each context for a commit, combined into a single state.
+ */
+export interface GitHubCombinedStatus {
   /**
-   * Get the milestone in the provided repository with either the provided milestone number or name.
+   * "failure" if any context has an error or failure status, "pending" if there are no statuses
+   * or any context is pending, and "success" otherwise.
    */
-  getMilestone(repository: string | Repository, milestone: number | string): Promise<GitHubMilestone>;
-
+  state: GitHubCommitStatusState;
   /**
-   * Get all of the milestones that exist in the provided repository.
-   * @param repository The repository to get all of the milestones of.
-   * @returns All of the milestones that exist in the provided repository.
+   * The SHA of the commit that these statuses belong to.
    */
-  getMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubMilestone[]>;
-
+  sha: string;
   /**
-   * Get all of the sprint milestones (milestones that begin with "Sprint-") in the provided
-   * repository.
-   * @param repository The repository.
-   * @returns All of the sprint milestones in the provided repository.
+   * The number of contexts that have a status.
    */
-  getSprintMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubSprintMilestone[]>;
-
+  total_count: number;
   /**
-   * Create a new milestone in the provided repository.
-   * @param repository The repository to create a new milestone in.
-   * @param milestoneName The name of the new milestone.
-   * @param options The optional properties to set on the created milestone.
+   * The latest status of each context.
    */
-  createMilestone(repositoryName: string | Repository, milestoneName: string, options?: GitHubCreateMilestoneOptions): Promise<GitHubMilestone>;
+  statuses: GitHubCommitStatus[];
+}
 
+/**
+ * Optional parameters that can be provided to the GitHub.createCommitStatus() function.
+ */
+export interface GitHubCreateCommitStatusOptions {
   /**
-   * Create a new sprint milestone in the provided repository.
-   * @param repository The repository to create the new sprint milestone in.
-   * @param sprintNumber The number of the sprint that the milestone will be associated with.
-   * @param sprintEndDate The last day of the sprint.
+   * The label that differentiates this status from the statuses of other services. Defaults to
+   * "default".
    */
-  createSprintMilestone(repository: string | Repository, sprintNumber: number, sprintEndDate: string): Promise<GitHubSprintMilestone | undefined>;
-
+  context?: string;
   /**
-   * Update the end date of an existing milestone in the provided repository.
-   * @param repository The repository that contains the milestone to update.
-   * @param milestoneNumber The number id of the milestone to update.
-   * @param newSprintEndDate The new end date to update the existing milestone to.
+   * A short description of the status.
    */
-  updateMilestoneEndDate(repository: string | Repository, milestoneNumber: number, newSprintEndDate: string): Promise<GitHubMilestone>;
+  description?: string;
+  /**
+   * The URL that the status will link to.
+   */
+  targetUrl?: string;
+}
 
-  updateSprintMilestoneEndDate(repository: string | Repository, sprintMilestone: GitHubSprintMilestone, newSprintEndDate: string): Promise<GitHubSprintMilestone>;
+/**
+ * The status of a check run.
+ */
+export type GitHubCheckRunStatus = "queued" | "in_progress" | "completed";
 
-  closeMilestone(repository: string | Repository, milestoneNumber: number): Promise<unknown>;
+/**
+ * The final conclusion of a completed check run.
+ */
+export type GitHubCheckRunConclusion = "success" | "failure" | "neutral" | "cancelled" | "timed_out" | "action_required";
 
-  closeSprintMilestone(repository: string | Repository, sprintMilestone: GitHubSprintMilestone): Promise<unknown>;
+/**
+ * The severity of a check run annotation.
+ */
+export type GitHubCheckRunAnnotationLevel = "notice" | "warning" | "failure";
 
+/**
+ * A message that a check run attaches to a range of lines in a file.
+ */
+export interface GitHubCheckRunAnnotation {
   /**
-   * Get the pull request from the provided repository with the provided number.
-   * @param repository The repository to get the pull request from.
+   * The path of the annotated file, relative to the root of the repository.
    */
-  getPullRequest(repository: string | Repository, pullRequestNumber: number): Promise<GitHubPullRequest>;
-
+  path: string;
   /**
-   * Get the pull requests in the provided respository.
-   * @param repository The name of the repository.
+   * The first line of the annotated range.
    */
-  getPullRequests(repository: string | Repository, options?: GitHubGetPullRequestsOptions): Promise<GitHubPullRequest[]>;
-
+  startLine: number;
   /**
-   * Create a new pull request in the provided repository.
-   * @param repository The repository to create the pull request in.
-   * @param baseBranch The base branch that the pull request will merge into.
-   * @param headBranch The head branch that the pull request will merge from.
-   * @param title The title of the pull request.
-   * @param options The optional parameters for creating a pull request.
+   * The last line of the annotated range. Defaults to startLine.
    */
-  createPullRequest(repository: string | Repository, baseBranch: string, headBranch: string | RepositoryBranch, options: GitHubCreatePullRequestOptions): Promise<GitHubPullRequest>;
+  endLine?: number;
+  level: GitHubCheckRunAnnotationLevel;
+  message: string;
+  title?: string;
+}
 
-  updatePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, options?: Partial<GitHubCreatePullRequestOptions>): Promise<unknown>;
+/**
+ * The output of a check run that is displayed on GitHub.
+ */
+export interface GitHubCheckRunOutput {
+  title: string;
+  /**
+   * The summary of the check run. This supports Markdown.
+   */
+  summary: string;
+  /**
+   * The details of the check run. This supports Markdown.
+   */
+  text?: string;
+  /**
+   * The annotations to add to the check run. Annotations are added to the annotations that the
+   * check run already has.
+   */
+  annotations?: GitHubCheckRunAnnotation[];
+}
 
+/**
+ * A check run that was created for a commit.
+ */
+export interface GitHubCheckRun {
+  id: number;
+  node_id: string;
+  name: string;
   /**
-   * Close the provided pull request without merging it.
-   * @param repository The repository that the pull request exists in.
-   * @param pullRequest The pull request number or the pull request object to close.
+   * The SHA of the commit that this check run belongs to.
    */
-  closePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest): Promise<unknown>;
+  head_sha: string;
+  external_id?: string;
+  url: string;
+  html_url: string;
+  details_url?: string;
+  status: GitHubCheckRunStatus;
+  /**
+   * The conclusion of this check run. This is only defined when the check run is completed.
+   */
+  conclusion?: GitHubCheckRunConclusion;
+  started_at?: string;
+  completed_at?: string;
+  output: {
+    title?: string;
+    summary?: string;
+    text?: string;
+    annotations_count: number;
+    annotations_url: string;
+  };
+}
 
+/**
+ * Optional parameters that can be provided to the GitHub.createCheckRun() function.
+ */
+export interface GitHubCreateCheckRunOptions {
   /**
-   * Merge and close the provided pull request.
-   * @param repository The repository that the pull request exists in.
-   * @param pullRequest The pull request number or the pull request object to merge.
-   * @param mergeMethod The way that the pull request will be merged.
+   * The status of the check run. Defaults to "completed" if a conclusion is provided and "queued"
+   * otherwise.
    */
-  mergePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, mergeMethod?: GitHubMergeMethod): Promise<unknown>;
+  status?: GitHubCheckRunStatus;
+  /**
+   * The conclusion of the check run. This is required if the status is "completed".
+   */
+  conclusion?: GitHubCheckRunConclusion;
+  /**
+   * The URL of the site that has the full details of the check.
+   */
+  detailsUrl?: string;
+  /**
+   * A reference for the check run on the integrator's system.
+   */
+  externalId?: string;
+  startedAt?: Date | string;
+  completedAt?: Date | string;
+  output?: GitHubCheckRunOutput;
+}
 
-  addPullRequestAssignees(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, assignees: string | GitHubUser | (string | GitHubUser)[]): Promise<unknown>;
+/**
+ * Optional parameters that can be provided to the GitHub.updateCheckRun() function.
+ */
+export interface GitHubUpdateCheckRunOptions extends GitHubCreateCheckRunOptions {
+  name?: string;
+}
 
+/**
+ * Optional parameters that can be provided to the GitHub.listCheckRuns() function.
+ */
+export interface GitHubListCheckRunsOptions extends GitHubListOptions {
   /**
-   * Add the provided labels to the provided GitHubPullRequest.
-   * @param repository The repository where the pull request exists.
-   * @param githubPullRequest The GitHubPullRequest that the labels will be added to.
-   * @param labelNamesToAdd The name of the label or labels to add to the pull request.
+   * Only get the check runs with this name.
    */
-  addPullRequestLabels(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, labelNames: string | string[]): Promise<string[]>;
-
+  checkName?: string;
   /**
-   * Remove the provided labels from the provided pull request.
-   * @param repository The repository where the pull request exists.
-   * @param githubPullRequest The pull request that the labels will be removed from.
-   * @param labelNames The names of the labels to remove from the pull request.
-   * @returns The names of the labels that were removed.
+   * Only get the check runs with this status.
    */
-  removePullRequestLabels(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, labelNames: string | string[]): Promise<string[]>;
+  status?: GitHubCheckRunStatus;
+}
 
+/**
+ * A file that was uploaded to a release.
+ */
+export interface GitHubReleaseAsset {
+  id: number;
+  node_id: string;
+  url: string;
   /**
-   * Set the milestone that the provided pull request is assigned to.
-   * @param repository The repository where the pull request exists.
-   * @param githubPullRequest The pull request to assign.
-   * @param milestone The milestone to assign to the pull request.
+   * The URL that the asset can be downloaded from.
    */
-  setPullRequestMilestone(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, milestone: number | string | GitHubMilestone): Promise<unknown>;
-
+  browser_download_url: string;
   /**
-   * Get the comments that have been made on the provided GitHubPullRequest.
-   * @param repository The repository where the pull request exists.
-   * @param githubPullRequest The GitHubPullRequest to get the comments of.
+   * The file name of the asset.
    */
-  getPullRequestComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number): Promise<GitHubComment[]>;
-
+  name: string;
   /**
-   * Create a new comment on the provided GitHubPullRequest.
-   * @param repository The repository where the pull request exists.
-   * @param githubPullRequest The GitHubPullReuqest to create the new comment on.
-   * @param commentBody The text of the comment to make.
+   * A short description of the asset that is displayed instead of its name.
    */
-  createPullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, commentBody: string): Promise<GitHubComment>;
-
+  label?: string;
+  content_type: string;
   /**
-   * Update an existing comment on the provided GitHubPullRequest.
-   * @param repository The repository where the pull request exists.
-   * @param githubPullRequest The GitHubPullRequest to update an existing comment on.
-   * @param comment The updated comment.
+   * The size of the asset in bytes.
    */
-  updatePullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, comment: GitHubComment | number, commentBody: string): Promise<GitHubComment>;
-
+  size: number;
+  download_count: number;
   /**
-   * Delete an existing comment from the provided GitHubPullRequest.
-   * @param repository The repository where the pull request exists.
-   * @param githubPullRequest The GitHubPUllRequest to delete an existing comment from.
-   * @param comment The comment to delete.
+   * The user that uploaded this asset.
    */
-  deletePullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, comment: GitHubComment | number): Promise<unknown>;
+  uploader: GitHubUser;
+  created_at: string;
+  updated_at: string;
+}
 
+/**
+ * A release of a repository.
+ */
+export interface GitHubRelease {
+  id: number;
+  node_id: string;
+  url: string;
+  html_url: string;
   /**
-   * Get the details of the commit with the provided unique identifier or undefined if no commit
-   * existed with the provided identifier.
-   * @param repository The repository that the commit exists in.
-   * @param commit A unique identifier for the commit.
+   * The URL template that assets are uploaded to.
    */
-  getCommit(repository: string | Repository, commit: string): Promise<GitHubCommit | undefined>;
-
+  upload_url: string;
   /**
-   * Get one file contents from Git. If the content is encoded by base64, it will be decoded.
-   * Support private repo.
-   * @param repository The repository that the file exists in.
-   * @param filepath A unique name for the file.
+   * The name of the tag that this release is for.
    */
-  getContents(repository: string | Repository, filepath: string): Promise<GitHubContent | undefined | Array<GitHubContentItem>>;
-
+  tag_name: string;
   /**
-   * Get all of the references (branches, tags, notes, stashes, etc.) in the provided repository.
-   * @param repository The repository to get all of the references for.
-   * @returns All of the references (branches, tags, notes, stashes, etc.) in the provided
-   * repository.
+   * The branch or commit SHA that the tag is created from if it doesn't already exist.
+   */
+  target_commitish: string;
+  name: string;
+  /**
+   * The description of this release.
+   */
+  body?: string;
+  draft: boolean;
+  prerelease: boolean;
+  /**
+   * The user that created this release.
+   */
+  author: GitHubUser;
+  created_at: string;
+  /**
+   * The timestamp for when this release was published. This is undefined for draft releases.
    */
-  getAllReferences(repository: string | Repository): Promise<GitHubReference[]>;
+  published_at?: string;
+  assets: GitHubReleaseAsset[];
+}
 
+/**
+ * Optional parameters that can be provided to the GitHub.createRelease() function.
+ */
+export interface GitHubCreateReleaseOptions {
   /**
-   * Get all of the branches in the provided repository.
-   * @param repository The repository to get all of the branches for.
-   * @returns All of the branches in the provided repository.
+   * The name of the release. Defaults to the tag name.
+   */
+  name?: string;
+  /**
+   * The description of the release.
+   */
+  body?: string;
+  /**
+   * The branch or commit SHA that the tag will be created from if it doesn't already exist.
+   * Defaults to the repository's default branch.
+   */
+  targetCommitish?: string;
+  draft?: boolean;
+  prerelease?: boolean;
+  /**
+   * Whether or not to generate the release's body from the pull requests that were merged since
+   * the previous release. This is ignored if a body is provided.
    */
-  getAllBranches(repository: string | Repository): Promise<GitHubBranch[]>;
+  generateReleaseNotes?: boolean;
+}
 
+/**
+ * Optional parameters that can be provided to the GitHub.updateRelease() function.
+ */
+export interface GitHubUpdateReleaseOptions extends GitHubCreateReleaseOptions {
   /**
-   * Get more information about the provided branch in the provided repository.
-   * @param repository The repository to get the branch from.
-   * @param branchName The name of the branch to get.
+   * The name of the tag that the release will be for.
    */
-  getBranch(repository: string | Repository, branchName: string): Promise<GitHubBranch>;
+  tagName?: string;
+}
 
+/**
+ * Optional parameters that can be provided to the GitHub.uploadReleaseAsset() function.
+ */
+export interface GitHubUploadReleaseAssetOptions {
   /**
-   * Delete the branch with the provided name in the provided repository.
-   * @param repository The repository to delete the branch from.
-   * @param branchName The name of the branch to delete.
+   * The media type of the asset. Defaults to "application/octet-stream".
    */
-  deleteBranch(repository: string | Repository, branchName: string): Promise<unknown>;
+  contentType?: string;
+  /**
+   * A short description of the asset that is displayed instead of its name.
+   */
+  label?: string;
+}
 
+/**
+ * Optional parameters that can be provided to the getReleaseNotes() function.
+ */
+export interface GitHubGetReleaseNotesOptions {
   /**
-   * Create a branch with the provided name as the provided sha in the provided repository.
-   * @param repository The repository to create the branch in.
-   * @param branchName The name of the branch to create.
-   * @param branchSha The SHA/commit ID that the branch will be created at.
+   * The tag of the release to get the merged pull requests since. Defaults to the most recent
+   * published release before the release for the provided tag.
    */
-  createBranch(repository: string | Repository, branchName: string, branchSha: string): Promise<GitHubBranch>;
+  previousTagName?: string;
 }
 
-export interface FakeGitHubPullRequest extends GitHubPullRequest {
-  comments: GitHubComment[];
+/**
+ * Optional parameters that can be provided to the GitHub.getContents() function.
+ */
+export interface GitHubGetContentsOptions {
+  /**
+   * The branch, tag, or commit SHA to get the contents from. Defaults to the repository's default
+   * branch.
+   */
+  ref?: string;
 }
 
-type FakeContent = |GitHubContent|GitHubContentItem[]|undefined;
-export class FakeRepository {
-  public readonly labels: GitHubLabel[] = [];
-  public readonly milestones: GitHubMilestone[] = [];
-  public readonly pullRequests: FakeGitHubPullRequest[] = [];
-  public readonly commits: GitHubCommit[] = [];
-  public readonly branches: GitHubBranch[] = [];
-  public readonly forks: FakeRepository[] = [];
-  public readonly content: FakeContent[] = [];
+/**
+ * A file that was created or updated through the contents API.
+ */
+export interface GitHubFile extends GitHubContent {
+  name: string;
+  path: string;
+  size: number;
+}
 
-  constructor(public readonly name: string, public readonly forkOf?: FakeRepository) {
-  }
+/**
+ * A commit that was created through the contents API or the git data API.
+ */
+export interface GitHubGitCommit {
+  sha: string;
+  node_id: string;
+  url: string;
+  html_url: string;
+  message: string;
+  tree: {
+    sha: string;
+    url: string;
+  };
+  parents: {
+    sha: string;
+    url: string;
+  }[];
+}
 
+/**
+ * The result of creating, updating, or deleting a file.
+ */
+export interface GitHubFileCommit {
   /**
-   * Get the fork of this repository that was created by the provided owner.
-   * @param owner The name of the owner that created a fork of this repository.
+   * The file that was created or updated. This is undefined if the file was deleted.
    */
-  public getFork(owner: string): FakeRepository | undefined {
-    const forksToSearch: FakeRepository[] = this.forkOf ? this.forkOf.forks : this.forks;
-    return first(forksToSearch, (fork: FakeRepository) => getRepository(fork.name).owner === owner);
-  }
+  content?: GitHubFile;
+  /**
+   * The commit that changed the file.
+   */
+  commit: GitHubGitCommit;
 }
 
-export class FakeGitHub implements GitHub {
-  private readonly users: GitHubUser[] = [];
-  private currentUser: GitHubUser | undefined;
-  private readonly repositories: FakeRepository[] = [];
+/**
+ * Optional parameters that can be provided to the GitHub.createOrUpdateFile() function.
+ */
+export interface GitHubCreateOrUpdateFileOptions {
+  /**
+   * The branch to commit the file to. Defaults to the repository's default branch.
+   */
+  branch?: string;
+  /**
+   * The blob SHA of the file that is being replaced. This must be provided when updating an
+   * existing file.
+   */
+  sha?: string;
+}
 
-  public getRepository(repository: string | Repository): FakeRepository {
-    const repositoryFullName: string = getRepositoryFullName(repository);
+/**
+ * Parameters that can be provided to the GitHub.deleteFile() function.
+ */
+export interface GitHubDeleteFileOptions {
+  /**
+   * The branch to delete the file from. Defaults to the repository's default branch.
+   */
+  branch?: string;
+  /**
+   * The blob SHA of the file that is being deleted.
+   */
+  sha: string;
+}
+
+/**
+ * A change to a single file in a commit that is created by GitHub.commitFiles().
+ */
+/**
+ * The mode of a file in a Git tree.
+ */
+export type GitHubFileMode = "100644" | "100755" | "120000";
+
+export interface GitHubFileChange {
+  /**
+   * The path of the file from the root of the repository.
+   */
+  path: string;
+  /**
+   * The new contents of the file. If this is undefined, then the file will be deleted.
+   */
+  content?: string | Buffer;
+  /**
+   * The mode of the file, such as "100755" for an executable file or "120000" for a symbolic link.
+   * Defaults to the file's existing mode, or "100644" if the file doesn't exist yet.
+   */
+  mode?: GitHubFileMode;
+}
+
+export interface GitHub {
+  /**
+   * Get the user that is currently authenticated.
+   * @returns The user that is currently authenticated.
+   */
+  getCurrentUser(): Promise<GitHubUser>;
+
+  /**
+   * Get all of the labels in the provided repository.
+   * @param options The optional parameters that limit the number of returned items.
+   */
+  getLabels(repository: string | Repository, options?: GitHubListOptions): Promise<GitHubLabel[]>;
+
+  /**
+   * Get all of the labels that contain "-Sprint-" in the provided repository.
+   * @param repository The repository to look in.
+   */
+  getSprintLabels(repository: string | Repository): Promise<GitHubSprintLabel[]>;
+
+  /**
+   * Create a label with the provided labelName and color in the provided repository.
+   * @param repositoryName The name of the repository where the label will be created.
+   * @param labelName The name of the created label.
+   * @param color The color of the created label.
+   * @param options The optional parameters for the created label.
+   */
+  createLabel(repository: string | Repository, labelName: string, color: string, options?: GitHubCreateLabelOptions): Promise<GitHubLabel>;
+
+  /**
+   * Delete the provided label from the provided repository.
+   * @param repository The repository to delete the label from.
+   * @param label The label name, id, or details to delete.
+   */
+  deleteLabel(repository: string | Repository, label: string | number | GitHubLabel): Promise<unknown>;
+
+  /**
+   * Update the color of the label with the provided name in the provided repository.
+   * @param repository The repository that contains the label to update.
+   * @param labelName The name of the label to update.
+   * @param newColor The color to update the label to.
+   */
+  updateLabelColor(repository: string | Repository, labelName: string, newColor: string): Promise<unknown>;
+
+  /**
+   * Update the name, color, or description of the label with the provided name in the provided
+   * repository.
+   * @param repository The repository that contains the label to update.
+   * @param labelName The current name of the label to update.
+   * @param options The properties of the label to update.
+   */
+  updateLabel(repository: string | Repository, labelName: string, options: GitHubUpdateLabelOptions): Promise<GitHubLabel>;
+
+  /**
+   * Get the milestone in the provided repository with either the provided milestone number or name.
+   */
+  getMilestone(repository: string | Repository, milestone: number | string): Promise<GitHubMilestone>;
+
+  /**
+   * Get all of the milestones that exist in the provided repository.
+   * @param repository The repository to get all of the milestones of.
+   * @returns All of the milestones that exist in the provided repository.
+   */
+  getMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubMilestone[]>;
+
+  /**
+   * Get all of the sprint milestones (milestones that begin with "Sprint-") in the provided
+   * repository.
+   * @param repository The repository.
+   * @returns All of the sprint milestones in the provided repository.
+   */
+  getSprintMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubSprintMilestone[]>;
+
+  /**
+   * Create a new milestone in the provided repository.
+   * @param repository The repository to create a new milestone in.
+   * @param milestoneName The name of the new milestone.
+   * @param options The optional properties to set on the created milestone.
+   */
+  createMilestone(repositoryName: string | Repository, milestoneName: string, options?: GitHubCreateMilestoneOptions): Promise<GitHubMilestone>;
+
+  /**
+   * Create a new sprint milestone in the provided repository.
+   * @param repository The repository to create the new sprint milestone in.
+   * @param sprintNumber The number of the sprint that the milestone will be associated with.
+   * @param sprintEndDate The last day of the sprint.
+   */
+  createSprintMilestone(repository: string | Repository, sprintNumber: number, sprintEndDate: string): Promise<GitHubSprintMilestone | undefined>;
+
+  /**
+   * Update the end date of an existing milestone in the provided repository.
+   * @param repository The repository that contains the milestone to update.
+   * @param milestoneNumber The number id of the milestone to update.
+   * @param newSprintEndDate The new end date to update the existing milestone to.
+   */
+  updateMilestoneEndDate(repository: string | Repository, milestoneNumber: number, newSprintEndDate: string): Promise<GitHubMilestone>;
+
+  updateSprintMilestoneEndDate(repository: string | Repository, sprintMilestone: GitHubSprintMilestone, newSprintEndDate: string): Promise<GitHubSprintMilestone>;
+
+  closeMilestone(repository: string | Repository, milestoneNumber: number): Promise<unknown>;
+
+  closeSprintMilestone(repository: string | Repository, sprintMilestone: GitHubSprintMilestone): Promise<unknown>;
+
+  /**
+   * Get the pull request from the provided repository with the provided number.
+   * @param repository The repository to get the pull request from.
+   */
+  getPullRequest(repository: string | Repository, pullRequestNumber: number): Promise<GitHubPullRequest>;
+
+  /**
+   * Get the pull requests in the provided respository.
+   * @param repository The name of the repository.
+   */
+  getPullRequests(repository: string | Repository, options?: GitHubGetPullRequestsOptions): Promise<GitHubPullRequest[]>;
+
+  /**
+   * Create a new pull request in the provided repository.
+   * @param repository The repository to create the pull request in.
+   * @param baseBranch The base branch that the pull request will merge into.
+   * @param headBranch The head branch that the pull request will merge from.
+   * @param title The title of the pull request.
+   * @param options The optional parameters for creating a pull request.
+   */
+  createPullRequest(repository: string | Repository, baseBranch: string, headBranch: string | RepositoryBranch, options: GitHubCreatePullRequestOptions): Promise<GitHubPullRequest>;
+
+  updatePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, options?: Partial<GitHubCreatePullRequestOptions>): Promise<unknown>;
+
+  /**
+   * Close the provided pull request without merging it.
+   * @param repository The repository that the pull request exists in.
+   * @param pullRequest The pull request number or the pull request object to close.
+   */
+  closePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest): Promise<unknown>;
+
+  /**
+   * Merge and close the provided pull request.
+   * @param repository The repository that the pull request exists in.
+   * @param pullRequest The pull request number or the pull request object to merge.
+   * @param mergeMethod The way that the pull request will be merged.
+   */
+  mergePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, mergeMethod?: GitHubMergeMethod): Promise<unknown>;
+
+  addPullRequestAssignees(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, assignees: string | GitHubUser | (string | GitHubUser)[]): Promise<unknown>;
+
+  /**
+   * Add the provided labels to the provided GitHubPullRequest.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The GitHubPullRequest that the labels will be added to.
+   * @param labelNamesToAdd The name of the label or labels to add to the pull request.
+   */
+  addPullRequestLabels(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, labelNames: string | string[]): Promise<string[]>;
+
+  /**
+   * Remove the provided labels from the provided pull request.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The pull request that the labels will be removed from.
+   * @param labelNames The names of the labels to remove from the pull request.
+   * @returns The names of the labels that were removed.
+   */
+  removePullRequestLabels(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, labelNames: string | string[]): Promise<string[]>;
+
+  /**
+   * Set the milestone that the provided pull request is assigned to.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The pull request to assign.
+   * @param milestone The milestone to assign to the pull request.
+   */
+  setPullRequestMilestone(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, milestone: number | string | GitHubMilestone): Promise<unknown>;
+
+  /**
+   * Get the comments that have been made on the provided GitHubPullRequest.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The GitHubPullRequest to get the comments of.
+   * @param options The optional parameters that limit the number of returned items.
+   */
+  getPullRequestComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options?: GitHubListOptions): Promise<GitHubComment[]>;
+
+  /**
+   * Create a new comment on the provided GitHubPullRequest.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The GitHubPullReuqest to create the new comment on.
+   * @param commentBody The text of the comment to make.
+   */
+  createPullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, commentBody: string): Promise<GitHubComment>;
+
+  /**
+   * Update an existing comment on the provided GitHubPullRequest.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The GitHubPullRequest to update an existing comment on.
+   * @param comment The updated comment.
+   */
+  updatePullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, comment: GitHubComment | number, commentBody: string): Promise<GitHubComment>;
+
+  /**
+   * Delete an existing comment from the provided GitHubPullRequest.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The GitHubPUllRequest to delete an existing comment from.
+   * @param comment The comment to delete.
+   */
+  deletePullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, comment: GitHubComment | number): Promise<unknown>;
+
+  /**
+   * Request reviews of the provided pull request from the provided users.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The pull request to request reviews of.
+   * @param reviewers The user or users to request reviews from.
+   */
+  requestReviewers(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, reviewers: string | GitHubUser | (string | GitHubUser)[]): Promise<unknown>;
+
+  /**
+   * Get the reviews that have been submitted on the provided pull request.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The pull request to get the reviews of.
+   * @param options The optional parameters that limit the number of returned items.
+   */
+  getReviews(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options?: GitHubListOptions): Promise<GitHubReview[]>;
+
+  /**
+   * Submit a review on the provided pull request.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The pull request to review.
+   * @param event Whether the review approves the pull request, requests changes, or only comments.
+   * @param options The optional parameters for creating a review, such as its inline comments.
+   */
+  createReview(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, event: GitHubReviewEvent, options?: GitHubCreateReviewOptions): Promise<GitHubReview>;
+
+  /**
+   * Get the inline review comments that have been made on the provided pull request's diff.
+   * @param repository The repository where the pull request exists.
+   * @param githubPullRequest The pull request to get the review comments of.
+   * @param options The optional parameters that limit the number of returned items.
+   */
+  getReviewComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options?: GitHubListOptions): Promise<GitHubReviewComment[]>;
+
+  /**
+   * Get the issue from the provided repository with the provided number.
+   * @param repository The repository to get the issue from.
+   * @param issueNumber The number of the issue to get.
+   */
+  getIssue(repository: string | Repository, issueNumber: number): Promise<GitHubIssue>;
+
+  /**
+   * Get the issues in the provided repository.
+   * @param repository The repository to get the issues from.
+   * @param options The optional parameters that restrict the returned issues.
+   */
+  getIssues(repository: string | Repository, options?: GitHubGetIssuesOptions): Promise<GitHubIssue[]>;
+
+  /**
+   * Create a new issue in the provided repository.
+   * @param repository The repository to create the issue in.
+   * @param title The title of the issue.
+   * @param options The optional parameters for creating an issue.
+   */
+  createIssue(repository: string | Repository, title: string, options?: GitHubCreateIssueOptions): Promise<GitHubIssue>;
+
+  /**
+   * Update the provided issue.
+   * @param repository The repository that the issue exists in.
+   * @param issue The issue number or the issue object to update.
+   * @param options The properties of the issue to update.
+   */
+  updateIssue(repository: string | Repository, issue: number | GitHubIssue, options: GitHubUpdateIssueOptions): Promise<GitHubIssue>;
+
+  /**
+   * Close the provided issue.
+   * @param repository The repository that the issue exists in.
+   * @param issue The issue number or the issue object to close.
+   */
+  closeIssue(repository: string | Repository, issue: number | GitHubIssue): Promise<unknown>;
+
+  /**
+   * Get the comments that have been made on the provided issue.
+   * @param repository The repository where the issue exists.
+   * @param issue The issue to get the comments of.
+   * @param options The optional parameters that limit the number of returned items.
+   */
+  getIssueComments(repository: string | Repository, issue: number | GitHubIssue, options?: GitHubListOptions): Promise<GitHubComment[]>;
+
+  /**
+   * Create a new comment on the provided issue.
+   * @param repository The repository where the issue exists.
+   * @param issue The issue to create the new comment on.
+   * @param commentBody The text of the comment to make.
+   */
+  createIssueComment(repository: string | Repository, issue: number | GitHubIssue, commentBody: string): Promise<GitHubComment>;
+
+  /**
+   * Update an existing comment on the provided issue.
+   * @param repository The repository where the issue exists.
+   * @param issue The issue to update an existing comment on.
+   * @param comment The comment to update.
+   * @param commentBody The new text of the comment.
+   */
+  updateIssueComment(repository: string | Repository, issue: number | GitHubIssue, comment: GitHubComment | number, commentBody: string): Promise<GitHubComment>;
+
+  /**
+   * Delete an existing comment from the provided issue.
+   * @param repository The repository where the issue exists.
+   * @param issue The issue to delete an existing comment from.
+   * @param comment The comment to delete.
+   */
+  deleteIssueComment(repository: string | Repository, issue: number | GitHubIssue, comment: GitHubComment | number): Promise<unknown>;
+
+  /**
+   * Add the provided labels to the provided issue.
+   * @param repository The repository where the issue exists.
+   * @param issue The issue that the labels will be added to.
+   * @param labelNames The name of the label or labels to add to the issue.
+   * @returns The names of the labels that were added.
+   */
+  addIssueLabels(repository: string | Repository, issue: number | GitHubIssue, labelNames: string | string[]): Promise<string[]>;
+
+  /**
+   * Remove the provided labels from the provided issue.
+   * @param repository The repository where the issue exists.
+   * @param issue The issue that the labels will be removed from.
+   * @param labelNames The names of the labels to remove from the issue.
+   * @returns The names of the labels that were removed.
+   */
+  removeIssueLabels(repository: string | Repository, issue: number | GitHubIssue, labelNames: string | string[]): Promise<string[]>;
+
+  /**
+   * Get the details of the commit with the provided unique identifier or undefined if no commit
+   * existed with the provided identifier.
+   * @param repository The repository that the commit exists in.
+   * @param commit A unique identifier for the commit.
+   */
+  getCommit(repository: string | Repository, commit: string): Promise<GitHubCommit | undefined>;
+
+  /**
+   * Get one file contents from Git. If the content is encoded by base64, it will be decoded.
+   * Support private repo.
+   * @param repository The repository that the file exists in.
+   * @param filepath A unique name for the file.
+   * @param options The optional parameters that determine which version of the file to get.
+   */
+  getContents(repository: string | Repository, filepath: string, options?: GitHubGetContentsOptions): Promise<GitHubContent | undefined | Array<GitHubContentItem>>;
+
+  /**
+   * Get all of the references (branches, tags, notes, stashes, etc.) in the provided repository.
+   * @param repository The repository to get all of the references for.
+   * @param options The optional parameters that limit the number of returned items.
+   * @returns All of the references (branches, tags, notes, stashes, etc.) in the provided
+   * repository.
+   */
+  getAllReferences(repository: string | Repository, options?: GitHubListOptions): Promise<GitHubReference[]>;
+
+  /**
+   * Get all of the branches in the provided repository.
+   * @param repository The repository to get all of the branches for.
+   * @param options The optional parameters that limit the number of returned items.
+   * @returns All of the branches in the provided repository.
+   */
+  getAllBranches(repository: string | Repository, options?: GitHubListOptions): Promise<GitHubBranch[]>;
+
+  /**
+   * Get more information about the provided branch in the provided repository.
+   * @param repository The repository to get the branch from.
+   * @param branchName The name of the branch to get.
+   */
+  getBranch(repository: string | Repository, branchName: string): Promise<GitHubBranch>;
+
+  /**
+   * Delete the branch with the provided name in the provided repository.
+   * @param repository The repository to delete the branch from.
+   * @param branchName The name of the branch to delete.
+   */
+  deleteBranch(repository: string | Repository, branchName: string): Promise<unknown>;
+
+  /**
+   * Create a branch with the provided name as the provided sha in the provided repository.
+   * @param repository The repository to create the branch in.
+   * @param branchName The name of the branch to create.
+   * @param branchSha The SHA/commit ID that the branch will be created at.
+   */
+  createBranch(repository: string | Repository, branchName: string, branchSha: string): Promise<GitHubBranch>;
+
+  /**
+   * Create a status for the commit with the provided SHA.
+   * @param repository The repository that the commit exists in.
+   * @param sha The SHA of the commit to create the status for.
+   * @param state The state of the status.
+   * @param options The optional parameters for the status.
+   */
+  createCommitStatus(repository: string | Repository, sha: string, state: GitHubCommitStatusState, options?: GitHubCreateCommitStatusOptions): Promise<GitHubCommitStatus>;
+
+  /**
+   * Get the combined status of the commit that the provided ref points to.
+   * @param repository The repository that the commit exists in.
+   * @param ref The SHA, branch name, or tag name of the commit.
+   */
+  getCombinedStatus(repository: string | Repository, ref: string): Promise<GitHubCombinedStatus>;
+
+  /**
+   * Create a check run for the commit with the provided SHA.
+   * @param repository The repository that the commit exists in.
+   * @param name The name of the check run.
+   * @param headSha The SHA of the commit to create the check run for.
+   * @param options The optional parameters for the check run.
+   */
+  createCheckRun(repository: string | Repository, name: string, headSha: string, options?: GitHubCreateCheckRunOptions): Promise<GitHubCheckRun>;
+
+  /**
+   * Update the provided check run.
+   * @param repository The repository that the check run exists in.
+   * @param checkRun The check run to update or its id.
+   * @param options The properties of the check run to update.
+   */
+  updateCheckRun(repository: string | Repository, checkRun: number | GitHubCheckRun, options: GitHubUpdateCheckRunOptions): Promise<GitHubCheckRun>;
+
+  /**
+   * Get the check runs of the commit that the provided ref points to.
+   * @param repository The repository that the commit exists in.
+   * @param ref The SHA, branch name, or tag name of the commit.
+   * @param options The optional parameters that filter the check runs.
+   */
+  listCheckRuns(repository: string | Repository, ref: string, options?: GitHubListCheckRunsOptions): Promise<GitHubCheckRun[]>;
+
+  /**
+   * Get all of the releases in the provided repository, including draft releases.
+   * @param repository The repository to get the releases of.
+   * @param options The optional parameters that limit the number of returned items.
+   */
+  getReleases(repository: string | Repository, options?: GitHubListOptions): Promise<GitHubRelease[]>;
+
+  /**
+   * Get the release for the provided tag.
+   * @param repository The repository that the release exists in.
+   * @param tagName The name of the tag that the release is for.
+   */
+  getReleaseByTag(repository: string | Repository, tagName: string): Promise<GitHubRelease>;
+
+  /**
+   * Create a release for the provided tag. If the tag doesn't exist, then it will be created.
+   * @param repository The repository to create the release in.
+   * @param tagName The name of the tag that the release is for.
+   * @param options The optional parameters for the release.
+   */
+  createRelease(repository: string | Repository, tagName: string, options?: GitHubCreateReleaseOptions): Promise<GitHubRelease>;
+
+  /**
+   * Update the provided release.
+   * @param repository The repository that the release exists in.
+   * @param release The release to update or its id.
+   * @param options The properties of the release to update.
+   */
+  updateRelease(repository: string | Repository, release: number | GitHubRelease, options: GitHubUpdateReleaseOptions): Promise<GitHubRelease>;
+
+  /**
+   * Delete the provided release. The release's tag is not deleted.
+   * @param repository The repository that the release exists in.
+   * @param release The release to delete or its id.
+   */
+  deleteRelease(repository: string | Repository, release: number | GitHubRelease): Promise<unknown>;
+
+  /**
+   * Upload a file to the provided release.
+   * @param repository The repository that the release exists in.
+   * @param release The release to upload the file to or its id.
+   * @param assetName The file name of the asset.
+   * @param assetContents The contents of the asset.
+   * @param options The optional parameters for the asset.
+   */
+  uploadReleaseAsset(repository: string | Repository, release: number | GitHubRelease, assetName: string, assetContents: Buffer | string, options?: GitHubUploadReleaseAssetOptions): Promise<GitHubReleaseAsset>;
+
+  /**
+   * Get the assets that were uploaded to the provided release.
+   * @param repository The repository that the release exists in.
+   * @param release The release to get the assets of or its id.
+   * @param options The optional parameters that limit the number of returned items.
+   */
+  listReleaseAssets(repository: string | Repository, release: number | GitHubRelease, options?: GitHubListOptions): Promise<GitHubReleaseAsset[]>;
+
+  /**
+   * Create or replace the file at the provided path in a new commit.
+   * @param repository The repository to commit the file to.
+   * @param path The path of the file from the root of the repository.
+   * @param content The new contents of the file.
+   * @param message The message of the commit.
+   * @param options The optional parameters that determine which branch the file is committed to
+   * and which version of the file is replaced.
+   */
+  createOrUpdateFile(repository: string | Repository, path: string, content: string | Buffer, message: string, options?: GitHubCreateOrUpdateFileOptions): Promise<GitHubFileCommit>;
+
+  /**
+   * Delete the file at the provided path in a new commit.
+   * @param repository The repository to delete the file from.
+   * @param path The path of the file from the root of the repository.
+   * @param message The message of the commit.
+   * @param options The parameters that determine which branch the file is deleted from and which
+   * version of the file is deleted.
+   */
+  deleteFile(repository: string | Repository, path: string, message: string, options: GitHubDeleteFileOptions): Promise<GitHubFileCommit>;
+
+  /**
+   * Create a single commit that changes each of the provided files and move the provided branch
+   * to it. This uses the git data API, so the repository doesn't need to be cloned.
+   * @param repository The repository to create the commit in.
+   * @param branchName The name of the branch to add the commit to.
+   * @param changes The files to create, update, or delete.
+   * @param message The message of the commit.
+   */
+  commitFiles(repository: string | Repository, branchName: string, changes: GitHubFileChange[], message: string): Promise<GitHubGitCommit>;
+}
+
+export interface FakeGitHubPullRequest extends GitHubPullRequest {
+  comments: GitHubComment[];
+  reviews: GitHubReview[];
+  reviewComments: GitHubReviewComment[];
+}
+
+export interface FakeGitHubIssue extends GitHubIssue {
+  comments: GitHubComment[];
+}
+
+export interface FakeGitHubCheckRun extends GitHubCheckRun {
+  annotations: GitHubCheckRunAnnotation[];
+}
+
+export interface FakeGitHubReleaseAsset extends GitHubReleaseAsset {
+  contents: Buffer;
+}
+
+export interface FakeGitHubRelease extends GitHubRelease {
+  assets: FakeGitHubReleaseAsset[];
+}
+
+export interface FakeGitHubFile {
+  /**
+   * The blob SHA of the file.
+   */
+  sha: string;
+  contents: Buffer;
+}
+
+type FakeContent = |GitHubContent|GitHubContentItem[]|undefined;
+export class FakeRepository {
+  public readonly labels: GitHubLabel[] = [];
+  public readonly milestones: GitHubMilestone[] = [];
+  public readonly pullRequests: FakeGitHubPullRequest[] = [];
+  public readonly issues: FakeGitHubIssue[] = [];
+  public readonly commits: GitHubCommit[] = [];
+  public readonly branches: GitHubBranch[] = [];
+  public readonly forks: FakeRepository[] = [];
+  public readonly content: FakeContent[] = [];
+  /**
+   * The statuses of each commit, keyed by commit SHA. The newest status of each commit is last.
+   */
+  public readonly commitStatuses: StringMap<GitHubCommitStatus[]> = {};
+  public readonly checkRuns: FakeGitHubCheckRun[] = [];
+  public readonly releases: FakeGitHubRelease[] = [];
+  /**
+   * The files in each commit, keyed by commit SHA and then by file path. A commit that isn't in
+   * this map doesn't have any files.
+   */
+  public readonly files: StringMap<StringMap<FakeGitHubFile>> = {};
+  /**
+   * The branch that files are read from and committed to when no branch is provided.
+   */
+  public defaultBranch = "master";
+
+  constructor(public readonly name: string, public readonly forkOf?: FakeRepository) {
+  }
+
+  /**
+   * Get the fork of this repository that was created by the provided owner.
+   * @param owner The name of the owner that created a fork of this repository.
+   */
+  public getFork(owner: string): FakeRepository | undefined {
+    const forksToSearch: FakeRepository[] = this.forkOf ? this.forkOf.forks : this.forks;
+    return first(forksToSearch, (fork: FakeRepository) => getRepository(fork.name).owner === owner);
+  }
+}
+
+export class FakeGitHub implements GitHub {
+  private readonly users: GitHubUser[] = [];
+  private currentUser: GitHubUser | undefined;
+  private readonly repositories: FakeRepository[] = [];
+
+  public getRepository(repository: string | Repository): FakeRepository {
+    const repositoryFullName: string = getRepositoryFullName(repository);
     const fakeRepository: FakeRepository | undefined = first(this.repositories, (fakeRepository: FakeRepository) => fakeRepository.name === repositoryFullName);
     if (!fakeRepository) {
       throw new Error(`No fake repository exists with the name "${repositoryFullName}".`);
     }
-    return fakeRepository;
+    return fakeRepository;
+  }
+
+  private createRepositoryInner(repository: string | Repository, forkOf?: string | Repository): FakeRepository {
+    const repositoryFullName: string = getRepositoryFullName(repository);
+    let fakeRepository: FakeRepository | undefined = first(this.repositories, (fakeRepository: FakeRepository) => fakeRepository.name === repositoryFullName);
+    if (fakeRepository) {
+      throw new Error(`A fake repository with the name "${repositoryFullName}" already exists.`);
+    } else {
+      let forkOfRepository: FakeRepository | undefined;
+      if (forkOf) {
+        forkOfRepository = this.getRepository(forkOf);
+        if (forkOfRepository.forkOf) {
+          forkOfRepository = forkOfRepository.forkOf;
+        }
+      }
+
+      fakeRepository = new FakeRepository(repositoryFullName, forkOfRepository);
+      if (forkOfRepository) {
+        forkOfRepository.forks.push(fakeRepository);
+      }
+      this.repositories.push(fakeRepository);
+    }
+    return fakeRepository;
+  }
+
+  public createRepository(repository: string | Repository): FakeRepository {
+    return this.createRepositoryInner(repository);
+  }
+
+  public forkRepository(repository: string | Repository, forkedRepositoryOwner: string): FakeRepository {
+    repository = getRepository(repository);
+    const forkedRepository: Repository = {
+      owner: forkedRepositoryOwner,
+      name: repository.name,
+    };
+    return this.createRepositoryInner(forkedRepository, repository);
+  }
+
+  public deleteRepository(repository: string | Repository): Promise<void> {
+    const repositoryFullName: string = getRepositoryFullName(repository);
+    const deletedRepository: FakeRepository | undefined = removeFirst(this.repositories, (repo: FakeRepository) => repo.name === repositoryFullName);
+
+    let result: Promise<void>;
+    if (!deletedRepository) {
+      result = Promise.reject(new Error(`No fake repository exists with the name "${repositoryFullName}".`));
+    } else {
+      if (deletedRepository.forkOf) {
+        removeFirst(deletedRepository.forkOf.forks, (fork: FakeRepository) => fork === deletedRepository);
+      }
+      result = Promise.resolve();
+    }
+
+    return result;
+  }
+
+  public createUser(username: string): GitHubUser {
+    let user: GitHubUser | undefined = first(this.users, (user: GitHubUser) => user.login === username);
+    if (user) {
+      throw new Error(`A fake user with the username "${username}" already exists.`);
+    } else {
+      user = {
+        id: 0,
+        name: "Fake User Name",
+        node_id: "Fake Node ID",
+        login: username,
+        url: `https://api.github.com/users/${username}`,
+        site_admin: false
+      };
+      this.users.push(user);
+    }
+    return user;
+  }
+
+  public getUser(username: string): GitHubUser {
+    const user: GitHubUser | undefined = first(this.users, (user: GitHubUser) => user.login === username);
+    if (!user) {
+      throw new Error(`No fake user with the username "${username}" exists.`);
+    }
+    return user;
+  }
+
+  public setCurrentUser(username: string): void {
+    this.currentUser = this.getUser(username);
+  }
+
+  public async getLabel(repository: string | Repository, label: string): Promise<GitHubLabel> {
+    let result: Promise<GitHubLabel>;
+    const labels: GitHubLabel[] = await this.getLabels(repository);
+    const githubLabel: GitHubLabel | undefined = first(labels, (l: GitHubLabel) => l.name === label);
+    if (!githubLabel) {
+      result = Promise.reject(new Error(`No fake label named "${label}" found in the fake repository "${getRepositoryFullName(repository)}".`));
+    } else {
+      result = Promise.resolve(githubLabel);
+    }
+    return result;
+  }
+
+  public getCurrentUser(): Promise<GitHubUser> {
+    return this.currentUser
+      ? Promise.resolve(this.currentUser)
+      : Promise.reject(new Error(`No fake current user has been set.`));
+  }
+
+  public getLabels(repository: string | Repository, options: GitHubListOptions = {}): Promise<GitHubLabel[]> {
+    return toPromise(() => takeMaxItems(this.getRepository(repository).labels, options));
+  }
+
+  public async getSprintLabels(repository: string | Repository): Promise<GitHubSprintLabel[]> {
+    const labels: GitHubLabel[] = await this.getLabels(repository);
+    return getSprintLabels(labels);
+  }
+
+  public async createLabel(repository: string | Repository, labelName: string, color: string, options: GitHubCreateLabelOptions = {}): Promise<GitHubLabel> {
+    let result: Promise<GitHubLabel>;
+    if (!labelName) {
+      result = Promise.reject(new Error(`labelName cannot be undefined or empty.`));
+    } else if (!color) {
+      result = Promise.reject(new Error(`label color cannot be undefined or empty.`));
+    } else if (color.startsWith("#")) {
+      result = Promise.reject(new Error(`Validation Failed`));
+    } else {
+      const fakeRepository: FakeRepository = this.getRepository(repository);
+      const label: GitHubLabel = {
+        id: 0,
+        default: false,
+        node_id: "fake label node_id",
+        url: "fake label url",
+        name: labelName,
+        color,
+        description: options.description,
+      };
+      fakeRepository.labels.push(label);
+      result = Promise.resolve(label);
+    }
+    return result;
+  }
+
+  public async deleteLabel(repository: string | Repository, label: string | GitHubLabel): Promise<void> {
+    const labelName: string = (!label || typeof label === "string") ? label : label.name;
+    let result: Promise<void>;
+    if (!labelName) {
+      result = Promise.reject(new Error(`label cannot be undefined or an empty string.`));
+    } else {
+      const fakeRepository: FakeRepository = this.getRepository(repository);
+      const removedLabel: GitHubLabel | undefined = removeFirst(fakeRepository.labels, (label: GitHubLabel) => label.name === labelName);
+      if (!removedLabel) {
+        result = Promise.reject(new Error(`No label named "${labelName}" found in the fake repository "${getRepositoryFullName(repository)}".`));
+      } else {
+        result = Promise.resolve();
+      }
+    }
+    return result;
+  }
+
+  public async updateLabelColor(repository: string | Repository, labelName: string, newColor: string): Promise<unknown> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const label: GitHubLabel | undefined = first(fakeRepository.labels, (label: GitHubLabel) => label.name === labelName);
+    let result: Promise<unknown>;
+    if (!label) {
+      result = Promise.reject(new Error(`No label named "${labelName}" found in the fake repository "${getRepositoryFullName(repository)}".`));
+    } else {
+      label.color = newColor;
+      result = Promise.resolve();
+    }
+    return result;
+  }
+
+  public async updateLabel(repository: string | Repository, labelName: string, options: GitHubUpdateLabelOptions): Promise<GitHubLabel> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const label: GitHubLabel | undefined = first(fakeRepository.labels, (label: GitHubLabel) => label.name === labelName);
+    if (!label) {
+      throw new Error(`No label named "${labelName}" found in the fake repository "${fakeRepository.name}".`);
+    }
+    const newName: string | undefined = options.name;
+    if (newName != undefined) {
+      if (contains(fakeRepository.labels, (otherLabel: GitHubLabel) => otherLabel !== label && otherLabel.name.toLowerCase() === newName.toLowerCase())) {
+        throw new Error(`A label named "${newName}" already exists in the fake repository "${fakeRepository.name}".`);
+      }
+      label.name = newName;
+    }
+    if (options.color != undefined) {
+      label.color = options.color;
+    }
+    if (options.description != undefined) {
+      label.description = options.description;
+    }
+    return label;
+  }
+
+  public async getMilestone(repository: string | Repository, milestone: string | number): Promise<GitHubMilestone> {
+    const milestones: GitHubMilestone[] = await this.getMilestones(repository);
+    let result: Promise<GitHubMilestone>;
+    if (typeof milestone === "string") {
+      const milestoneMatch: GitHubMilestone | undefined = first(milestones, (m: GitHubMilestone) => m.title === milestone);
+      if (!milestoneMatch) {
+        result = Promise.reject(new Error(`No milestone found with the name "${milestone}" in the fake repository "${getRepositoryFullName(repository)}".`));
+      } else {
+        result = Promise.resolve(milestoneMatch);
+      }
+    } else {
+      const milestoneMatch: GitHubMilestone | undefined = first(milestones, (m: GitHubMilestone) => m.number === milestone);
+      if (!milestoneMatch) {
+        result = Promise.reject(new Error(`No milestone found with the id number ${milestone} in the fake repository "${getRepositoryFullName(repository)}".`));
+      } else {
+        result = Promise.resolve(milestoneMatch);
+      }
+    }
+    return result;
+  }
+
+  public async getMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubMilestone[]> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    let result: GitHubMilestone[] = fakeRepository.milestones;
+    if (options && options.open !== undefined) {
+      result = where(result, (milestone: GitHubMilestone) => milestone.state === (options.open ? "open" : "closed"));
+    }
+    return takeMaxItems(result, options);
+  }
+
+  public async getSprintMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubSprintMilestone[]> {
+    const milestones: GitHubMilestone[] = await this.getMilestones(repository, options);
+    return githubMilestonesToSprintMilestones(milestones);
+  }
+
+  public async createMilestone(repository: string | Repository, milestoneName: string, options?: GitHubCreateMilestoneOptions): Promise<GitHubMilestone> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const milestone: GitHubMilestone = {
+      title: milestoneName,
+      number: fakeRepository.milestones.length + 1,
+      due_on: addOffset(options && options.endDate || "2000-01-02"),
+      state: "open",
+      closed_issues: 0,
+      open_issues: 0
+    };
+    fakeRepository.milestones.push(milestone);
+    return milestone;
+  }
+
+  public async createSprintMilestone(repository: string | Repository, sprintNumber: number, sprintEndDate: string): Promise<GitHubSprintMilestone | undefined> {
+    const milestoneName = getSprintMilestoneName(sprintNumber);
+    const githubMilestone: GitHubMilestone = await this.createMilestone(repository, milestoneName, { endDate: sprintEndDate });
+    return githubMilestoneToSprintMilestone(githubMilestone);
+  }
+
+  public async updateMilestoneEndDate(repository: string | Repository, milestoneNumber: number, newSprintEndDate: string): Promise<GitHubMilestone> {
+    const milestone: GitHubMilestone = await this.getMilestone(repository, milestoneNumber);
+    milestone.due_on = addOffset(newSprintEndDate);
+    return milestone;
+  }
+
+  public async updateSprintMilestoneEndDate(repository: string | Repository, sprintMilestone: GitHubSprintMilestone, newSprintEndDate: string): Promise<GitHubSprintMilestone> {
+    const githubMilestone: GitHubMilestone = await this.updateMilestoneEndDate(repository, sprintMilestone.milestoneNumber!, newSprintEndDate);
+    return githubMilestoneToSprintMilestone(githubMilestone)!;
+  }
+
+  public async closeMilestone(repository: string | Repository, milestoneNumber: number): Promise<void> {
+    const milestone: GitHubMilestone = await this.getMilestone(repository, milestoneNumber);
+    milestone.state = "closed";
+  }
+
+  public closeSprintMilestone(repository: string | Repository, sprintMilestone: GitHubSprintMilestone): Promise<void> {
+    return this.closeMilestone(repository, sprintMilestone.milestoneNumber!);
+  }
+
+  public createFakePullRequest(repository: string | Repository, pullRequest: GitHubPullRequest): FakeGitHubPullRequest {
+    repository = getRepository(repository);
+    const repositoryFullName: string = getRepositoryFullName(repository);
+
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    let result: FakeGitHubPullRequest;
+
+    const baseBranch: RepositoryBranch = getRepositoryBranch(pullRequest.base.label);
+    if (baseBranch.owner !== repository.owner) {
+      throw new Error(`The owner of the repository (${repository.owner}) must be the same owner as the base branch (${baseBranch.owner}).`);
+    }
+
+    const headBranch: RepositoryBranch = getRepositoryBranch(pullRequest.head.label);
+    if (headBranch.owner === repository.owner) {
+      // Pull request between branches within the same repository.
+      if (!contains(fakeRepository.branches, (branch: GitHubBranch) => branch.name === baseBranch.name)) {
+        throw new Error(`No branch exists in the fake repository "${repositoryFullName}" with the name "${baseBranch.name}".`);
+      } else if (!contains(fakeRepository.branches, (branch: GitHubBranch) => branch.name === headBranch.name)) {
+        throw new Error(`No branch exists in the fake repository "${repositoryFullName}" with the name "${baseBranch.name}".`);
+      }
+    } else {
+      // Pull request between branches in different repositories.
+      const forkedRepository: FakeRepository | undefined = fakeRepository.getFork(headBranch.owner);
+      if (!forkedRepository) {
+        throw new Error(`No fork of the fake repository "${getRepositoryFullName(repository)}" exists for the owner "${headBranch.owner}".`);
+      } else if (!contains(forkedRepository.branches, (branch: GitHubBranch) => branch.name === headBranch.name)) {
+        throw new Error(`No branch exists in the forked fake repository "${forkedRepository.name}" with the name "${headBranch.name}".`);
+      }
+    }
+
+    if (pullRequest.base.label === pullRequest.head.label) {
+      throw new Error(`The base label ("${pullRequest.base.label}") cannot be the same as the head label ("${pullRequest.head.label}").`);
+    } else {
+      const existingPullRequest: FakeGitHubPullRequest | undefined = first(fakeRepository.pullRequests, (pr: FakeGitHubPullRequest) => pr.number === pullRequest.number);
+      if (existingPullRequest) {
+        throw new Error(`A pull request already exists in the fake repository "${getRepositoryFullName(repository)}" with the number ${pullRequest.number}.`);
+      } else {
+        pullRequest.body = pullRequest.body || "";
+        result = {
+          ...pullRequest,
+          comments: [],
+          reviews: [],
+          reviewComments: [],
+        };
+        fakeRepository.pullRequests.push(result);
+      }
+    }
+
+    return result;
   }
 
-  private createRepositoryInner(repository: string | Repository, forkOf?: string | Repository): FakeRepository {
-    const repositoryFullName: string = getRepositoryFullName(repository);
-    let fakeRepository: FakeRepository | undefined = first(this.repositories, (fakeRepository: FakeRepository) => fakeRepository.name === repositoryFullName);
-    if (fakeRepository) {
-      throw new Error(`A fake repository with the name "${repositoryFullName}" already exists.`);
+  public async createPullRequest(repository: string | Repository, baseBranch: string | RepositoryBranch, headBranch: string | RepositoryBranch, options: GitHubCreatePullRequestOptions): Promise<GitHubPullRequest> {
+    repository = getRepository(repository);
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    baseBranch = getRepositoryBranch(baseBranch);
+    if (baseBranch.owner) {
+      throw new Error(`When creating a pull request, the provided baseBranch (${getRepositoryBranchFullName(baseBranch)}) cannot have an owner.`);
+    }
+    baseBranch.owner = repository.owner;
+    headBranch = getRepositoryBranch(headBranch);
+    if (!headBranch.owner) {
+      headBranch.owner = repository.owner;
+    }
+    return this.createFakePullRequest(repository, {
+      base: {
+        label: getRepositoryBranchFullName(baseBranch),
+        ref: baseBranch.name,
+        sha: "fake-base-sha",
+      },
+      diff_url: "fake-diff-url",
+      head: {
+        label: getRepositoryBranchFullName(headBranch),
+        ref: headBranch.name,
+        sha: "fake-head-sha",
+      },
+      html_url: "fake-html-url",
+      id: fakeRepository.pullRequests.length + 1,
+      labels: [],
+      number: fakeRepository.pullRequests.length + 1,
+      state: "open",
+      title: options.title,
+      url: "fake-url",
+      body: options.body
+    });
+  }
+
+  public async updatePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, options: Partial<GitHubCreatePullRequestOptions> = {}): Promise<unknown> {
+    const existingPullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(pullRequest));
+    Object.assign(existingPullRequest, options);
+    return existingPullRequest;
+  }
+
+  public async closePullRequest(repository: string | Repository, pullRequestNumber: number | GitHubPullRequest): Promise<void> {
+    const existingPullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(pullRequestNumber));
+    existingPullRequest.state = "closed";
+  }
+
+  public async mergePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, _mergeMethod: GitHubMergeMethod): Promise<void> {
+    const existingPullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(pullRequest));
+    let result: Promise<void>;
+    if (existingPullRequest.state === "closed") {
+      result = Promise.reject(new Error(`The pull request (${getRepositoryFullName(repository)}/${existingPullRequest.number}) is already closed.`));
     } else {
-      let forkOfRepository: FakeRepository | undefined;
-      if (forkOf) {
-        forkOfRepository = this.getRepository(forkOf);
-        if (forkOfRepository.forkOf) {
-          forkOfRepository = forkOfRepository.forkOf;
-        }
+      existingPullRequest.state = "closed";
+      existingPullRequest.merged = true;
+      existingPullRequest.merged_at = new Date().toISOString();
+      result = Promise.resolve();
+    }
+    return result;
+  }
+
+  public async getPullRequest(repository: string | Repository, pullRequestNumber: number): Promise<FakeGitHubPullRequest> {
+    const pullRequests: FakeGitHubPullRequest[] = await this.getPullRequests(repository);
+    const pullRequest: FakeGitHubPullRequest | undefined = first(pullRequests, (pr: FakeGitHubPullRequest) => pr.number === pullRequestNumber);
+    return pullRequest
+      ? Promise.resolve(pullRequest)
+      : Promise.reject(new Error(`No pull request found in fake repository "${getRepositoryFullName(repository)}" with number ${pullRequestNumber}.`));
+  }
+
+  public getPullRequests(repository: string | Repository, options?: GitHubGetPullRequestsOptions): Promise<FakeGitHubPullRequest[]> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    let result: FakeGitHubPullRequest[] = fakeRepository.pullRequests;
+    if (options) {
+      if (options.open != undefined) {
+        result = where(result, (pullRequest) => pullRequest.state === (options.open ? "open" : "closed"));
+      }
+      if (options.head) {
+        result = where(result, (pullRequest) => pullRequest.head.ref === options.head);
+      }
+      if (options.base) {
+        result = where(result, (pullRequest) => pullRequest.base.ref === options.base);
       }
+    }
+    return Promise.resolve(takeMaxItems(result, options));
+  }
 
-      fakeRepository = new FakeRepository(repositoryFullName, forkOfRepository);
-      if (forkOfRepository) {
-        forkOfRepository.forks.push(fakeRepository);
+  public async addPullRequestAssignees(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, assignees: string | GitHubUser | (string | GitHubUser)[]): Promise<void> {
+    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
+    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, pullRequestNumber);
+
+    if (!pullRequest.assignees) {
+      pullRequest.assignees = [];
+    }
+
+    if (!Array.isArray(assignees)) {
+      assignees = [assignees];
+    }
+    for (const assignee of assignees) {
+      if (typeof assignee === "string") {
+        pullRequest.assignees.push(await this.getUser(assignee));
+      } else {
+        pullRequest.assignees.push(assignee);
       }
-      this.repositories.push(fakeRepository);
     }
-    return fakeRepository;
   }
 
-  public createRepository(repository: string | Repository): FakeRepository {
-    return this.createRepositoryInner(repository);
+  public async addPullRequestLabels(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, labelNames: string | string[]): Promise<string[]> {
+    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
+    const labelNamesArray: string[] = (Array.isArray(labelNames) ? labelNames : [labelNames]);
+
+    const repositoryLabels: GitHubLabel[] = await this.getLabels(repository);
+    for (const labelName of labelNamesArray) {
+      if (!contains(repositoryLabels, (repositoryLabel: GitHubLabel) => repositoryLabel.name === labelName)) {
+        repositoryLabels.push(await this.createLabel(repository, labelName, "ededed"));
+      }
+    }
+
+    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, pullRequestNumber);
+    const pullRequestLabels: GitHubLabel[] = pullRequest.labels;
+    const pullRequestLabelNames: string[] = map(pullRequestLabels, (label: GitHubLabel) => label.name);
+    const labelNamesAddedToPullRequest: string[] = where(labelNamesArray, (labelName: string) => !contains(pullRequestLabelNames, labelName));
+    if (labelNamesAddedToPullRequest.length > 0) {
+      pullRequest.labels.push(...await Promise.all(map(labelNamesAddedToPullRequest, (labelName: string) => this.getLabel(repository, labelName))));
+    }
+
+    return labelNamesAddedToPullRequest;
   }
 
-  public forkRepository(repository: string | Repository, forkedRepositoryOwner: string): FakeRepository {
-    repository = getRepository(repository);
-    const forkedRepository: Repository = {
-      owner: forkedRepositoryOwner,
-      name: repository.name,
-    };
-    return this.createRepositoryInner(forkedRepository, repository);
+  public async removePullRequestLabels(repository: string | Repository, githubPullRequest: number | GitHubPullRequest, labelNames: string | string[]): Promise<string[]> {
+    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
+    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, pullRequestNumber);
+    const labelNamesToRemove: string[] = (Array.isArray(labelNames) ? labelNames : [labelNames]);
+    const currentLabelNames: string[] = map(pullRequest.labels, (label: GitHubLabel) => label.name);
+    const removedLabelNames: string[] = where(currentLabelNames, (labelName: string) => contains(labelNamesToRemove, labelName));
+    pullRequest.labels = where(pullRequest.labels, (label: GitHubLabel) => !contains(labelNamesToRemove, label.name));
+    return removedLabelNames;
   }
 
-  public deleteRepository(repository: string | Repository): Promise<void> {
-    const repositoryFullName: string = getRepositoryFullName(repository);
-    const deletedRepository: FakeRepository | undefined = removeFirst(this.repositories, (repo: FakeRepository) => repo.name === repositoryFullName);
+  public setPullRequestMilestone(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, milestone: string | number | GitHubMilestone): Promise<unknown> {
+    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
+    return this.getPullRequest(repository, pullRequestNumber)
+      .then((pullRequest: FakeGitHubPullRequest) => {
+        let milestonePromise: Promise<GitHubMilestone>;
+        if (typeof milestone === "string" || typeof milestone === "number") {
+          milestonePromise = this.getMilestone(repository, milestone);
+        } else {
+          milestonePromise = Promise.resolve(milestone);
+        }
 
-    let result: Promise<void>;
-    if (!deletedRepository) {
-      result = Promise.reject(new Error(`No fake repository exists with the name "${repositoryFullName}".`));
-    } else {
-      if (deletedRepository.forkOf) {
-        removeFirst(deletedRepository.forkOf.forks, (fork: FakeRepository) => fork === deletedRepository);
+        milestonePromise.then((githubMilestone: GitHubMilestone) => {
+          pullRequest.milestone = githubMilestone;
+        });
+      });
+  }
+
+  public getPullRequestComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options: GitHubListOptions = {}): Promise<GitHubComment[]> {
+    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
+    return this.getPullRequest(repository, pullRequestNumber)
+      .then((fakePullRequest: FakeGitHubPullRequest) => takeMaxItems(fakePullRequest.comments, options));
+  }
+
+  public createPullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, commentBody: string): Promise<GitHubComment> {
+    return this.getPullRequestComments(repository, githubPullRequest)
+      .then((comments: GitHubComment[]) => {
+        return this.getCurrentUser()
+          .then((currentUser: GitHubUser) => {
+            const newComment: GitHubComment = {
+              id: comments.length + 1,
+              node_id: "fake_node_id",
+              user: currentUser,
+              html_url: "fake_html_url",
+              url: "fake_url",
+              body: commentBody,
+              created_at: "fake_created_at",
+              updated_at: "fake_updated_at",
+            };
+            comments.push(newComment);
+            return newComment;
+          });
+      });
+  }
+
+  public updatePullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, comment: number | GitHubComment, commentBody: string): Promise<GitHubComment> {
+    return this.getPullRequestComments(repository, githubPullRequest)
+      .then((comments: GitHubComment[]) => {
+        let result: Promise<GitHubComment>;
+        const commentId: number = getCommentId(comment);
+        const commentToUpdate: GitHubComment | undefined = first(comments, (existingComment: GitHubComment) => existingComment.id === commentId);
+        if (!commentToUpdate) {
+          result = Promise.reject(new Error(`No comment found with the ID ${commentId}.`));
+        } else {
+          commentToUpdate.body = commentBody;
+          result = Promise.resolve(commentToUpdate);
+        }
+        return result;
+      });
+  }
+
+  public deletePullRequestComment(repository: string | Repository, githubPullRequest: number | GitHubPullRequest, comment: number | GitHubComment): Promise<unknown> {
+    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
+    return this.getPullRequest(repository, pullRequestNumber)
+      .then((pullRequest: FakeGitHubPullRequest) => {
+        let result: Promise<unknown>;
+        const commentId: number = getCommentId(comment);
+        if (!contains(pullRequest.comments, (existingComment: GitHubComment) => existingComment.id === commentId)) {
+          result = Promise.reject(new Error(`No comment was found with the id ${commentId}.`));
+        } else {
+          pullRequest.comments = where(pullRequest.comments, (existingComment: GitHubComment) => existingComment.id !== commentId);
+          result = Promise.resolve();
+        }
+        return result;
+      });
+  }
+
+  public async requestReviewers(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, reviewers: string | GitHubUser | (string | GitHubUser)[]): Promise<unknown> {
+    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(githubPullRequest));
+    if (!pullRequest.requested_reviewers) {
+      pullRequest.requested_reviewers = [];
+    }
+    for (const reviewer of toArray(reviewers)) {
+      const user: GitHubUser = typeof reviewer === "string" ? this.getUser(reviewer) : reviewer;
+      if (!contains(pullRequest.requested_reviewers, (requestedReviewer: GitHubUser) => requestedReviewer.login === user.login)) {
+        pullRequest.requested_reviewers.push(user);
       }
-      result = Promise.resolve();
+    }
+    return pullRequest;
+  }
+
+  public async getReviews(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options: GitHubListOptions = {}): Promise<GitHubReview[]> {
+    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(githubPullRequest));
+    return takeMaxItems(pullRequest.reviews, options);
+  }
+
+  public async createReview(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, event: GitHubReviewEvent, options: GitHubCreateReviewOptions = {}): Promise<GitHubReview> {
+    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(githubPullRequest));
+    const currentUser: GitHubUser = await this.getCurrentUser();
+    const comments: GitHubCreateReviewComment[] = options.comments || [];
+    if (event === "REQUEST_CHANGES" && !options.body) {
+      throw new Error(`A review that requests changes must have a body.`);
+    } else if (event === "COMMENT" && !options.body && comments.length === 0) {
+      throw new Error(`A review that comments must have a body or inline comments.`);
     }
 
-    return result;
+    const now: string = new Date().toISOString();
+    const commitId: string = options.commitId || pullRequest.head.sha;
+    const review: GitHubReview = {
+      id: pullRequest.reviews.length + 1,
+      node_id: "fake_node_id",
+      html_url: "fake_html_url",
+      user: currentUser,
+      body: options.body || "",
+      state: event === "APPROVE" ? "APPROVED" : event === "REQUEST_CHANGES" ? "CHANGES_REQUESTED" : "COMMENTED",
+      commit_id: commitId,
+      submitted_at: now,
+    };
+    pullRequest.reviews.push(review);
+    for (const comment of comments) {
+      pullRequest.reviewComments.push({
+        id: pullRequest.reviewComments.length + 1,
+        node_id: "fake_node_id",
+        url: "fake_url",
+        html_url: "fake_html_url",
+        pull_request_review_id: review.id,
+        path: comment.path,
+        line: comment.line,
+        side: comment.side || "RIGHT",
+        commit_id: commitId,
+        body: comment.body,
+        user: currentUser,
+        created_at: now,
+        updated_at: now,
+      });
+    }
+    if (pullRequest.requested_reviewers) {
+      removeFirst(pullRequest.requested_reviewers, (requestedReviewer: GitHubUser) => requestedReviewer.login === currentUser.login);
+    }
+    return review;
   }
 
-  public createUser(username: string): GitHubUser {
-    let user: GitHubUser | undefined = first(this.users, (user: GitHubUser) => user.login === username);
-    if (user) {
-      throw new Error(`A fake user with the username "${username}" already exists.`);
-    } else {
-      user = {
-        id: 0,
-        name: "Fake User Name",
-        node_id: "Fake Node ID",
-        login: username,
-        url: `https://api.github.com/users/${username}`,
-        site_admin: false
-      };
-      this.users.push(user);
+  public async getReviewComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options: GitHubListOptions = {}): Promise<GitHubReviewComment[]> {
+    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(githubPullRequest));
+    return takeMaxItems(pullRequest.reviewComments, options);
+  }
+
+  public async getIssue(repository: string | Repository, issueNumber: number): Promise<FakeGitHubIssue> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const issue: FakeGitHubIssue | undefined = first(fakeRepository.issues, (existingIssue: FakeGitHubIssue) => existingIssue.number === issueNumber);
+    if (!issue) {
+      throw new Error(`No issue found in fake repository "${getRepositoryFullName(repository)}" with number ${issueNumber}.`);
     }
-    return user;
+    return issue;
   }
 
-  public getUser(username: string): GitHubUser {
-    const user: GitHubUser | undefined = first(this.users, (user: GitHubUser) => user.login === username);
-    if (!user) {
-      throw new Error(`No fake user with the username "${username}" exists.`);
+  public async getIssues(repository: string | Repository, options: GitHubGetIssuesOptions = {}): Promise<FakeGitHubIssue[]> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    let result: FakeGitHubIssue[] = fakeRepository.issues;
+    if (options.open !== undefined) {
+      result = where(result, (issue: FakeGitHubIssue) => issue.state === (options.open ? "open" : "closed"));
     }
-    return user;
+    if (options.labels) {
+      const labelNames: string[] = toArray(options.labels);
+      result = where(result, (issue: FakeGitHubIssue) => labelNames.every((labelName: string) => !!gitHubIssueGetLabel(issue, labelName)));
+    }
+    const milestone: number | string | GitHubMilestone | undefined = options.milestone;
+    if (milestone !== undefined) {
+      result = where(result, (issue: FakeGitHubIssue) => {
+        let isMatch: boolean;
+        if (milestone === "*") {
+          isMatch = !!issue.milestone;
+        } else if (milestone === "none") {
+          isMatch = !issue.milestone;
+        } else if (typeof milestone === "number") {
+          isMatch = !!issue.milestone && issue.milestone.number === milestone;
+        } else if (typeof milestone === "string") {
+          isMatch = !!issue.milestone && issue.milestone.title === milestone;
+        } else {
+          isMatch = !!issue.milestone && issue.milestone.number === milestone.number;
+        }
+        return isMatch;
+      });
+    }
+    const assignee: string | GitHubUser | undefined = options.assignee;
+    if (assignee) {
+      result = where(result, (issue: FakeGitHubIssue) => {
+        let isMatch: boolean;
+        if (assignee === "*") {
+          isMatch = !!issue.assignees && issue.assignees.length > 0;
+        } else if (assignee === "none") {
+          isMatch = !issue.assignees || issue.assignees.length === 0;
+        } else {
+          const assigneeLogin: string = typeof assignee === "string" ? assignee : assignee.login;
+          isMatch = contains(issue.assignees, (existingAssignee: GitHubUser) => existingAssignee.login === assigneeLogin);
+        }
+        return isMatch;
+      });
+    }
+    if (options.since) {
+      const since: number = new Date(options.since).valueOf();
+      result = where(result, (issue: FakeGitHubIssue) => new Date(issue.updated_at).valueOf() >= since);
+    }
+    return takeMaxItems(result, options);
   }
 
-  public setCurrentUser(username: string): void {
-    this.currentUser = this.getUser(username);
+  public async createIssue(repository: string | Repository, title: string, options: GitHubCreateIssueOptions = {}): Promise<FakeGitHubIssue> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const currentUser: GitHubUser = await this.getCurrentUser();
+    const repositoryFullName: string = getRepositoryFullName(repository);
+    let issueNumber = 1;
+    for (const existingIssue of [...fakeRepository.issues, ...fakeRepository.pullRequests]) {
+      issueNumber = Math.max(issueNumber, existingIssue.number + 1);
+    }
+    const now: string = new Date().toISOString();
+    const issue: FakeGitHubIssue = {
+      id: issueNumber,
+      node_id: "fake-node-id",
+      number: issueNumber,
+      title,
+      body: "",
+      state: "open",
+      labels: [],
+      assignees: [],
+      user: currentUser,
+      url: `https://api.github.com/repos/${repositoryFullName}/issues/${issueNumber}`,
+      html_url: `https://github.com/${repositoryFullName}/issues/${issueNumber}`,
+      created_at: now,
+      updated_at: now,
+      comments: [],
+    };
+    await this.updateFakeIssue(repository, issue, options);
+    fakeRepository.issues.push(issue);
+    return issue;
   }
 
-  public async getLabel(repository: string | Repository, label: string): Promise<GitHubLabel> {
-    let result: Promise<GitHubLabel>;
-    const labels: GitHubLabel[] = await this.getLabels(repository);
-    const githubLabel: GitHubLabel | undefined = first(labels, (l: GitHubLabel) => l.name === label);
-    if (!githubLabel) {
-      result = Promise.reject(new Error(`No fake label named "${label}" found in the fake repository "${getRepositoryFullName(repository)}".`));
-    } else {
-      result = Promise.resolve(githubLabel);
+  public async updateIssue(repository: string | Repository, issue: number | GitHubIssue, options: GitHubUpdateIssueOptions): Promise<FakeGitHubIssue> {
+    const existingIssue: FakeGitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    await this.updateFakeIssue(repository, existingIssue, options);
+    return existingIssue;
+  }
+
+  private async updateFakeIssue(repository: string | Repository, issue: FakeGitHubIssue, options: GitHubUpdateIssueOptions): Promise<void> {
+    if (options.title !== undefined) {
+      issue.title = options.title;
     }
-    return result;
+    if (options.body !== undefined) {
+      issue.body = options.body;
+    }
+    if (options.state !== undefined && options.state !== issue.state) {
+      issue.state = options.state;
+      issue.closed_at = options.state === "closed" ? new Date().toISOString() : undefined;
+    }
+    if (options.labels !== undefined) {
+      issue.labels = [];
+      await this.addFakeIssueLabels(repository, issue, options.labels);
+    }
+    if (options.assignees !== undefined) {
+      issue.assignees = map(options.assignees, (assignee: string | GitHubUser) => typeof assignee === "string" ? this.getUser(assignee) : assignee);
+    }
+    if (options.milestone !== undefined) {
+      issue.milestone = typeof options.milestone === "object" ? options.milestone : await this.getMilestone(repository, options.milestone);
+    }
+    issue.updated_at = new Date().toISOString();
   }
 
-  public getCurrentUser(): Promise<GitHubUser> {
-    return this.currentUser
-      ? Promise.resolve(this.currentUser)
-      : Promise.reject(new Error(`No fake current user has been set.`));
+  public closeIssue(repository: string | Repository, issue: number | GitHubIssue): Promise<unknown> {
+    return this.updateIssue(repository, issue, { state: "closed" });
   }
 
-  public getLabels(repository: string | Repository): Promise<GitHubLabel[]> {
-    return toPromise(() => this.getRepository(repository).labels);
+  public async getIssueComments(repository: string | Repository, issue: number | GitHubIssue, options: GitHubListOptions = {}): Promise<GitHubComment[]> {
+    const fakeIssue: FakeGitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    return takeMaxItems(fakeIssue.comments, options);
   }
 
-  public async getSprintLabels(repository: string | Repository): Promise<GitHubSprintLabel[]> {
-    const labels: GitHubLabel[] = await this.getLabels(repository);
-    return getSprintLabels(labels);
+  public async createIssueComment(repository: string | Repository, issue: number | GitHubIssue, commentBody: string): Promise<GitHubComment> {
+    const fakeIssue: FakeGitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    const currentUser: GitHubUser = await this.getCurrentUser();
+    const now: string = new Date().toISOString();
+    const newComment: GitHubComment = {
+      id: fakeIssue.comments.length + 1,
+      node_id: "fake_node_id",
+      user: currentUser,
+      html_url: "fake_html_url",
+      url: "fake_url",
+      body: commentBody,
+      created_at: now,
+      updated_at: now,
+    };
+    fakeIssue.comments.push(newComment);
+    return newComment;
   }
 
-  public async createLabel(repository: string | Repository, labelName: string, color: string): Promise<GitHubLabel> {
-    let result: Promise<GitHubLabel>;
-    if (!labelName) {
-      result = Promise.reject(new Error(`labelName cannot be undefined or empty.`));
-    } else if (!color) {
-      result = Promise.reject(new Error(`label color cannot be undefined or empty.`));
-    } else if (color.startsWith("#")) {
-      result = Promise.reject(new Error(`Validation Failed`));
-    } else {
-      const fakeRepository: FakeRepository = this.getRepository(repository);
-      const label: GitHubLabel = {
-        id: 0,
-        default: false,
-        node_id: "fake label node_id",
-        url: "fake label url",
-        name: labelName,
-        color,
-      };
-      fakeRepository.labels.push(label);
-      result = Promise.resolve(label);
+  public async updateIssueComment(repository: string | Repository, issue: number | GitHubIssue, comment: number | GitHubComment, commentBody: string): Promise<GitHubComment> {
+    const comments: GitHubComment[] = await this.getIssueComments(repository, issue);
+    const commentId: number = getCommentId(comment);
+    const commentToUpdate: GitHubComment | undefined = first(comments, (existingComment: GitHubComment) => existingComment.id === commentId);
+    if (!commentToUpdate) {
+      throw new Error(`No comment found with the ID ${commentId}.`);
     }
-    return result;
+    commentToUpdate.body = commentBody;
+    commentToUpdate.updated_at = new Date().toISOString();
+    return commentToUpdate;
   }
 
-  public async deleteLabel(repository: string | Repository, label: string | GitHubLabel): Promise<void> {
-    const labelName: string = (!label || typeof label === "string") ? label : label.name;
-    let result: Promise<void>;
-    if (!labelName) {
-      result = Promise.reject(new Error(`label cannot be undefined or an empty string.`));
-    } else {
-      const fakeRepository: FakeRepository = this.getRepository(repository);
-      const removedLabel: GitHubLabel | undefined = removeFirst(fakeRepository.labels, (label: GitHubLabel) => label.name === labelName);
-      if (!removedLabel) {
-        result = Promise.reject(new Error(`No label named "${labelName}" found in the fake repository "${getRepositoryFullName(repository)}".`));
-      } else {
-        result = Promise.resolve();
-      }
+  public async deleteIssueComment(repository: string | Repository, issue: number | GitHubIssue, comment: number | GitHubComment): Promise<unknown> {
+    const fakeIssue: FakeGitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    const commentId: number = getCommentId(comment);
+    if (!removeFirst(fakeIssue.comments, (existingComment: GitHubComment) => existingComment.id === commentId)) {
+      throw new Error(`No comment was found with the id ${commentId}.`);
     }
-    return result;
+    return undefined;
   }
 
-  public async updateLabelColor(repository: string | Repository, labelName: string, newColor: string): Promise<unknown> {
-    const fakeRepository: FakeRepository = this.getRepository(repository);
-    const label: GitHubLabel | undefined = first(fakeRepository.labels, (label: GitHubLabel) => label.name === labelName);
-    let result: Promise<unknown>;
-    if (!label) {
-      result = Promise.reject(new Error(`No label named "${labelName}" found in the fake repository "${getRepositoryFullName(repository)}".`));
-    } else {
-      label.color = newColor;
-      result = Promise.resolve();
-    }
-    return result;
+  public async addIssueLabels(repository: string | Repository, issue: number | GitHubIssue, labelNames: string | string[]): Promise<string[]> {
+    const fakeIssue: FakeGitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    return this.addFakeIssueLabels(repository, fakeIssue, labelNames);
   }
 
-  public async getMilestone(repository: string | Repository, milestone: string | number): Promise<GitHubMilestone> {
-    const milestones: GitHubMilestone[] = await this.getMilestones(repository);
-    let result: Promise<GitHubMilestone>;
-    if (typeof milestone === "string") {
-      const milestoneMatch: GitHubMilestone | undefined = first(milestones, (m: GitHubMilestone) => m.title === milestone);
-      if (!milestoneMatch) {
-        result = Promise.reject(new Error(`No milestone found with the name "${milestone}" in the fake repository "${getRepositoryFullName(repository)}".`));
-      } else {
-        result = Promise.resolve(milestoneMatch);
-      }
-    } else {
-      const milestoneMatch: GitHubMilestone | undefined = first(milestones, (m: GitHubMilestone) => m.number === milestone);
-      if (!milestoneMatch) {
-        result = Promise.reject(new Error(`No milestone found with the id number ${milestone} in the fake repository "${getRepositoryFullName(repository)}".`));
-      } else {
-        result = Promise.resolve(milestoneMatch);
+  private async addFakeIssueLabels(repository: string | Repository, fakeIssue: FakeGitHubIssue, labelNames: string | string[]): Promise<string[]> {
+    const labelNamesArray: string[] = toArray(labelNames);
+
+    const repositoryLabels: GitHubLabel[] = await this.getLabels(repository);
+    for (const labelName of labelNamesArray) {
+      if (!contains(repositoryLabels, (repositoryLabel: GitHubLabel) => repositoryLabel.name === labelName)) {
+        await this.createLabel(repository, labelName, "ededed");
       }
     }
-    return result;
-  }
 
-  public async getMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubMilestone[]> {
-    const fakeRepository: FakeRepository = this.getRepository(repository);
-    let result: GitHubMilestone[] = fakeRepository.milestones;
-    if (options && options.open !== undefined) {
-      result = where(result, (milestone: GitHubMilestone) => milestone.state === (options.open ? "open" : "closed"));
+    const labelNamesAddedToIssue: string[] = where(labelNamesArray, (labelName: string) => !gitHubIssueGetLabel(fakeIssue, labelName));
+    for (const labelName of labelNamesAddedToIssue) {
+      fakeIssue.labels.push(await this.getLabel(repository, labelName));
     }
-    return result;
+    return labelNamesAddedToIssue;
   }
 
-  public async getSprintMilestones(repository: string | Repository, options?: GitHubGetMilestonesOptions): Promise<GitHubSprintMilestone[]> {
-    const milestones: GitHubMilestone[] = await this.getMilestones(repository, options);
-    return githubMilestonesToSprintMilestones(milestones);
+  public async removeIssueLabels(repository: string | Repository, issue: number | GitHubIssue, labelNames: string | string[]): Promise<string[]> {
+    const fakeIssue: FakeGitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    const labelNamesToRemove: string[] = toArray(labelNames);
+    const currentLabelNames: string[] = map(fakeIssue.labels, (label: GitHubLabel) => label.name);
+    const removedLabelNames: string[] = where(currentLabelNames, (labelName: string) => contains(labelNamesToRemove, labelName));
+    fakeIssue.labels = where(fakeIssue.labels, (label: GitHubLabel) => !contains(labelNamesToRemove, label.name));
+    return removedLabelNames;
   }
 
-  public async createMilestone(repository: string | Repository, milestoneName: string, options?: GitHubCreateMilestoneOptions): Promise<GitHubMilestone> {
-    const fakeRepository: FakeRepository = this.getRepository(repository);
-    const milestone: GitHubMilestone = {
-      title: milestoneName,
-      number: 0,
-      due_on: addOffset(options && options.endDate || "2000-01-02"),
-      state: "open",
-      closed_issues: 0,
-      open_issues: 0
-    };
-    fakeRepository.milestones.push(milestone);
-    return milestone;
+  public getCommit(repository: string | Repository, commitId: string): Promise<GitHubCommit | undefined> {
+    return toPromise(() => {
+      const fakeRepository: FakeRepository = this.getRepository(repository);
+      return first(fakeRepository.commits, (commit: GitHubCommit) => commit.sha.startsWith(commitId));
+    });
   }
 
-  public async createSprintMilestone(repository: string | Repository, sprintNumber: number, sprintEndDate: string): Promise<GitHubSprintMilestone | undefined> {
-    const milestoneName = getSprintMilestoneName(sprintNumber);
-    const githubMilestone: GitHubMilestone = await this.createMilestone(repository, milestoneName, { endDate: sprintEndDate });
-    return githubMilestoneToSprintMilestone(githubMilestone);
+  public async getContents(repository: string | Repository, filepath: string, options: GitHubGetContentsOptions = {}): Promise<GitHubContent | undefined | Array<GitHubContentItem>> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    let result: GitHubContent | undefined | Array<GitHubContentItem> = first(fakeRepository.content);
+    if (options.ref && !this.tryGetFakeCommitSha(fakeRepository, options.ref)) {
+      // GitHub doesn't return any contents for a ref that doesn't refer to a commit.
+      result = undefined;
+    } else if (options.ref || contains(fakeRepository.branches, (branch: GitHubBranch) => branch.name === fakeRepository.defaultBranch)) {
+      const fakeFile: FakeGitHubFile | undefined = this.getFakeFiles(fakeRepository, options.ref || fakeRepository.defaultBranch)[filepath];
+      if (fakeFile) {
+        result = {
+          ...getFakeGitHubFile(filepath, fakeFile),
+          encoding: "base64",
+          content: fakeFile.contents.toString("base64"),
+        };
+      }
+    }
+    return result;
   }
 
-  public async updateMilestoneEndDate(repository: string | Repository, milestoneNumber: number, newSprintEndDate: string): Promise<GitHubMilestone> {
-    const milestone: GitHubMilestone = await this.getMilestone(repository, milestoneNumber);
-    milestone.due_on = addOffset(newSprintEndDate);
-    return milestone;
+  public createCommit(repository: string | Repository, commitId: string, message: string): Promise<unknown> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    fakeRepository.commits.push({
+      sha: commitId,
+      commit: {
+        message
+      }
+    });
+    return Promise.resolve();
   }
 
-  public async updateSprintMilestoneEndDate(repository: string | Repository, sprintMilestone: GitHubSprintMilestone, newSprintEndDate: string): Promise<GitHubSprintMilestone> {
-    const githubMilestone: GitHubMilestone = await this.updateMilestoneEndDate(repository, sprintMilestone.milestoneNumber!, newSprintEndDate);
-    return githubMilestoneToSprintMilestone(githubMilestone)!;
+  public getAllReferences(repository: string | Repository, options: GitHubListOptions = {}): Promise<GitHubReference[]> {
+    return toPromise(() => takeMaxItems(this.getRepository(repository).branches, options));
   }
 
-  public async closeMilestone(repository: string | Repository, milestoneNumber: number): Promise<void> {
-    const milestone: GitHubMilestone = await this.getMilestone(repository, milestoneNumber);
-    milestone.state = "closed";
+  public getAllBranches(repository: string | Repository, options: GitHubListOptions = {}): Promise<GitHubBranch[]> {
+    return this.getAllReferences(repository, options)
+      .then(referencesToBranches);
   }
 
-  public closeSprintMilestone(repository: string | Repository, sprintMilestone: GitHubSprintMilestone): Promise<void> {
-    return this.closeMilestone(repository, sprintMilestone.milestoneNumber!);
+  public getBranch(repository: string | Repository, branchName: string): Promise<GitHubBranch> {
+    return toPromise(() => {
+      const fakeRepository: FakeRepository = this.getRepository(repository);
+      const result: GitHubBranch | undefined = first(fakeRepository.branches, (branch: GitHubBranch) => branch.name === branchName);
+      if (!result) {
+        throw new Error(`Could not get details about the branch "${branchName}" in repository "${fakeRepository.name}" because the branch didn't exist.`);
+      }
+      return result;
+    });
   }
 
-  public createFakePullRequest(repository: string | Repository, pullRequest: GitHubPullRequest): FakeGitHubPullRequest {
-    repository = getRepository(repository);
-    const repositoryFullName: string = getRepositoryFullName(repository);
-
-    const fakeRepository: FakeRepository = this.getRepository(repository);
-    let result: FakeGitHubPullRequest;
-
-    const baseBranch: RepositoryBranch = getRepositoryBranch(pullRequest.base.label);
-    if (baseBranch.owner !== repository.owner) {
-      throw new Error(`The owner of the repository (${repository.owner}) must be the same owner as the base branch (${baseBranch.owner}).`);
-    }
-
-    const headBranch: RepositoryBranch = getRepositoryBranch(pullRequest.head.label);
-    if (headBranch.owner === repository.owner) {
-      // Pull request between branches within the same repository.
-      if (!contains(fakeRepository.branches, (branch: GitHubBranch) => branch.name === baseBranch.name)) {
-        throw new Error(`No branch exists in the fake repository "${repositoryFullName}" with the name "${baseBranch.name}".`);
-      } else if (!contains(fakeRepository.branches, (branch: GitHubBranch) => branch.name === headBranch.name)) {
-        throw new Error(`No branch exists in the fake repository "${repositoryFullName}" with the name "${baseBranch.name}".`);
-      }
-    } else {
-      // Pull request between branches in different repositories.
-      const forkedRepository: FakeRepository | undefined = fakeRepository.getFork(headBranch.owner);
-      if (!forkedRepository) {
-        throw new Error(`No fork of the fake repository "${getRepositoryFullName(repository)}" exists for the owner "${headBranch.owner}".`);
-      } else if (!contains(forkedRepository.branches, (branch: GitHubBranch) => branch.name === headBranch.name)) {
-        throw new Error(`No branch exists in the forked fake repository "${forkedRepository.name}" with the name "${headBranch.name}".`);
+  public deleteBranch(repository: string | Repository, branchName: string): Promise<unknown> {
+    return toPromise(() => {
+      const fakeRepository: FakeRepository = this.getRepository(repository);
+      const removedBranch: GitHubBranch | undefined = removeFirst(fakeRepository.branches, (branch: GitHubBranch) => branch.name === branchName);
+      if (!removedBranch) {
+        throw new Error(`Could not delete branch "${branchName}" from repository "${fakeRepository.name}" because the branch didn't exist.`);
       }
-    }
+    });
+  }
 
-    if (pullRequest.base.label === pullRequest.head.label) {
-      throw new Error(`The base label ("${pullRequest.base.label}") cannot be the same as the head label ("${pullRequest.head.label}").`);
-    } else {
-      const existingPullRequest: FakeGitHubPullRequest | undefined = first(fakeRepository.pullRequests, (pr: FakeGitHubPullRequest) => pr.number === pullRequest.number);
-      if (existingPullRequest) {
-        throw new Error(`A pull request already exists in the fake repository "${getRepositoryFullName(repository)}" with the number ${pullRequest.number}.`);
+  public createBranch(repository: string | Repository, branchName: string, branchSha: string): Promise<GitHubBranch> {
+    return toPromise(() => {
+      const fakeRepository: FakeRepository = this.getRepository(repository);
+      let result: GitHubBranch;
+      if (contains(fakeRepository.branches, (branch: GitHubBranch) => branch.name === branchName)) {
+        throw new Error(`Could not create a branch named "${branchName}" in repository "${fakeRepository.name}" because a branch with that name already exists.`);
+      } else if (!contains(fakeRepository.commits, (commit: GitHubCommit) => commit.sha === branchSha)) {
+        throw new Error(`Could not create a branch named "${branchName}" in repository "${fakeRepository.name}" with the SHA "${branchSha}" because no commit exists in the repository with the provided SHA.`);
       } else {
-        pullRequest.body = pullRequest.body || "";
         result = {
-          ...pullRequest,
-          comments: [],
+          name: branchName,
+          ref: `refs/heads/${branchName}`,
+          node_id: "fake-node-id",
+          url: "fake-branch-url",
+          object: {
+            type: "commit",
+            sha: branchSha,
+            url: "fake-branch-commit-sha",
+          }
         };
-        fakeRepository.pullRequests.push(result);
+        fakeRepository.branches.push(result);
       }
-    }
+      return result;
+    });
+  }
+
+  /**
+   * Get the SHA of the commit that the provided branch name or SHA refers to, or undefined if the
+   * ref doesn't refer to a commit.
+   */
+  private tryGetFakeCommitSha(fakeRepository: FakeRepository, ref: string): string | undefined {
+    const branch: GitHubBranch | undefined = first(fakeRepository.branches, (existingBranch: GitHubBranch) => existingBranch.name === ref);
+    const commit: GitHubCommit | undefined = first(fakeRepository.commits, (existingCommit: GitHubCommit) => existingCommit.sha === ref);
+    return branch ? branch.object.sha : commit && commit.sha;
+  }
 
+  /**
+   * Get the SHA of the commit that the provided branch name or SHA refers to.
+   */
+  private getFakeCommitSha(fakeRepository: FakeRepository, ref: string): string {
+    const result: string | undefined = this.tryGetFakeCommitSha(fakeRepository, ref);
+    if (!result) {
+      throw new Error(`No commit found in fake repository "${fakeRepository.name}" for the ref "${ref}".`);
+    }
     return result;
   }
 
-  public async createPullRequest(repository: string | Repository, baseBranch: string | RepositoryBranch, headBranch: string | RepositoryBranch, options: GitHubCreatePullRequestOptions): Promise<GitHubPullRequest> {
-    repository = getRepository(repository);
+  public async createCommitStatus(repository: string | Repository, sha: string, state: GitHubCommitStatusState, options: GitHubCreateCommitStatusOptions = {}): Promise<GitHubCommitStatus> {
     const fakeRepository: FakeRepository = this.getRepository(repository);
-    baseBranch = getRepositoryBranch(baseBranch);
-    if (baseBranch.owner) {
-      throw new Error(`When creating a pull request, the provided baseBranch (${getRepositoryBranchFullName(baseBranch)}) cannot have an owner.`);
+    if (!contains(fakeRepository.commits, (commit: GitHubCommit) => commit.sha === sha)) {
+      throw new Error(`No commit found in fake repository "${fakeRepository.name}" with the SHA "${sha}".`);
     }
-    baseBranch.owner = repository.owner;
-    headBranch = getRepositoryBranch(headBranch);
-    if (!headBranch.owner) {
-      headBranch.owner = repository.owner;
+    if (!fakeRepository.commitStatuses[sha]) {
+      fakeRepository.commitStatuses[sha] = [];
     }
-    return this.createFakePullRequest(repository, {
-      base: {
-        label: getRepositoryBranchFullName(baseBranch),
-        ref: baseBranch.name,
-        sha: "fake-base-sha",
-      },
-      diff_url: "fake-diff-url",
-      head: {
-        label: getRepositoryBranchFullName(headBranch),
-        ref: headBranch.name,
-        sha: "fake-head-sha",
-      },
-      html_url: "fake-html-url",
-      id: fakeRepository.pullRequests.length + 1,
-      labels: [],
-      number: fakeRepository.pullRequests.length + 1,
-      state: "open",
-      title: options.title,
-      url: "fake-url",
-      body: options.body
-    });
+    const commitStatuses: GitHubCommitStatus[] = fakeRepository.commitStatuses[sha];
+    const now: string = new Date().toISOString();
+    const result: GitHubCommitStatus = {
+      id: commitStatuses.length + 1,
+      node_id: "fake_node_id",
+      url: "fake_url",
+      state,
+      description: options.description,
+      target_url: options.targetUrl,
+      context: options.context || "default",
+      creator: await this.getCurrentUser(),
+      created_at: now,
+      updated_at: now,
+    };
+    commitStatuses.push(result);
+    return result;
   }
 
-  public async updatePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, options: Partial<GitHubCreatePullRequestOptions> = {}): Promise<unknown> {
-    const existingPullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(pullRequest));
-    Object.assign(existingPullRequest, options);
-    return existingPullRequest;
+  public async getCombinedStatus(repository: string | Repository, ref: string): Promise<GitHubCombinedStatus> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const sha: string = this.getFakeCommitSha(fakeRepository, ref);
+    const commitStatuses: GitHubCommitStatus[] = fakeRepository.commitStatuses[sha] || [];
+    const statuses: GitHubCommitStatus[] = [];
+    for (let i = commitStatuses.length - 1; i >= 0; --i) {
+      const commitStatus: GitHubCommitStatus = commitStatuses[i];
+      if (!contains(statuses, (status: GitHubCommitStatus) => status.context === commitStatus.context)) {
+        statuses.push(commitStatus);
+      }
+    }
+    let state: GitHubCommitStatusState = statuses.length === 0 ? "pending" : "success";
+    for (const status of statuses) {
+      if (status.state === "error" || status.state === "failure") {
+        state = "failure";
+      } else if (status.state === "pending" && state !== "failure") {
+        state = "pending";
+      }
+    }
+    return {
+      state,
+      sha,
+      total_count: statuses.length,
+      statuses,
+    };
   }
 
-  public async closePullRequest(repository: string | Repository, pullRequestNumber: number | GitHubPullRequest): Promise<void> {
-    const existingPullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(pullRequestNumber));
-    existingPullRequest.state = "closed";
+  public async createCheckRun(repository: string | Repository, name: string, headSha: string, options: GitHubCreateCheckRunOptions = {}): Promise<FakeGitHubCheckRun> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    if (!contains(fakeRepository.commits, (commit: GitHubCommit) => commit.sha === headSha)) {
+      throw new Error(`No commit found in fake repository "${fakeRepository.name}" with the SHA "${headSha}".`);
+    }
+    const checkRun: FakeGitHubCheckRun = {
+      id: fakeRepository.checkRuns.length + 1,
+      node_id: "fake_node_id",
+      name,
+      head_sha: headSha,
+      url: "fake_url",
+      html_url: "fake_html_url",
+      status: "queued",
+      started_at: new Date().toISOString(),
+      output: {
+        annotations_count: 0,
+        annotations_url: "fake_annotations_url",
+      },
+      annotations: [],
+    };
+    this.updateFakeCheckRun(checkRun, options);
+    fakeRepository.checkRuns.push(checkRun);
+    return checkRun;
   }
 
-  public async mergePullRequest(repository: string | Repository, pullRequest: number | GitHubPullRequest, _mergeMethod: GitHubMergeMethod): Promise<void> {
-    const existingPullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, getPullRequestNumber(pullRequest));
-    let result: Promise<void>;
-    if (existingPullRequest.state === "closed") {
-      result = Promise.reject(new Error(`The pull request (${getRepositoryFullName(repository)}/${existingPullRequest.number}) is already closed.`));
-    } else {
-      existingPullRequest.state = "closed";
-      result = Promise.resolve();
+  public async updateCheckRun(repository: string | Repository, checkRun: number | GitHubCheckRun, options: GitHubUpdateCheckRunOptions): Promise<FakeGitHubCheckRun> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const checkRunId: number = getCheckRunId(checkRun);
+    const fakeCheckRun: FakeGitHubCheckRun | undefined = first(fakeRepository.checkRuns, (existingCheckRun: FakeGitHubCheckRun) => existingCheckRun.id === checkRunId);
+    if (!fakeCheckRun) {
+      throw new Error(`No check run found in fake repository "${fakeRepository.name}" with id ${checkRunId}.`);
     }
-    return result;
+    this.updateFakeCheckRun(fakeCheckRun, options);
+    return fakeCheckRun;
   }
 
-  public async getPullRequest(repository: string | Repository, pullRequestNumber: number): Promise<FakeGitHubPullRequest> {
-    const pullRequests: FakeGitHubPullRequest[] = await this.getPullRequests(repository);
-    const pullRequest: FakeGitHubPullRequest | undefined = first(pullRequests, (pr: FakeGitHubPullRequest) => pr.number === pullRequestNumber);
-    return pullRequest
-      ? Promise.resolve(pullRequest)
-      : Promise.reject(new Error(`No pull request found in fake repository "${getRepositoryFullName(repository)}" with number ${pullRequestNumber}.`));
+  private updateFakeCheckRun(checkRun: FakeGitHubCheckRun, options: GitHubUpdateCheckRunOptions): void {
+    const status: GitHubCheckRunStatus = options.conclusion ? "completed" : options.status || checkRun.status;
+    const conclusion: GitHubCheckRunConclusion | undefined = options.conclusion || checkRun.conclusion;
+    if (status === "completed" && !conclusion) {
+      throw new Error(`A completed check run must have a conclusion.`);
+    }
+
+    if (options.name) {
+      checkRun.name = options.name;
+    }
+    if (options.detailsUrl != undefined) {
+      checkRun.details_url = options.detailsUrl;
+    }
+    if (options.externalId != undefined) {
+      checkRun.external_id = options.externalId;
+    }
+    if (options.startedAt) {
+      checkRun.started_at = toISOString(options.startedAt);
+    }
+    checkRun.status = status;
+    if (status === "completed") {
+      checkRun.conclusion = conclusion;
+      checkRun.completed_at = toISOString(options.completedAt) || checkRun.completed_at || new Date().toISOString();
+    }
+    if (options.output) {
+      checkRun.annotations.push(...(options.output.annotations || []));
+      checkRun.output = {
+        ...checkRun.output,
+        title: options.output.title,
+        summary: options.output.summary,
+        text: options.output.text,
+        annotations_count: checkRun.annotations.length,
+      };
+    }
   }
 
-  public getPullRequests(repository: string | Repository, options?: GitHubGetPullRequestsOptions): Promise<FakeGitHubPullRequest[]> {
+  public async listCheckRuns(repository: string | Repository, ref: string, options: GitHubListCheckRunsOptions = {}): Promise<FakeGitHubCheckRun[]> {
     const fakeRepository: FakeRepository = this.getRepository(repository);
-    let result: FakeGitHubPullRequest[] = fakeRepository.pullRequests;
-    if (options) {
-      if (options.open) {
-        result = where(result, (pullRequest) => pullRequest.state === (options.open ? "open" : "closed"));
-      }
-      if (options.head) {
-        result = where(result, (pullRequest) => pullRequest.head.ref === options.head);
-      }
-    }
-    return Promise.resolve(result);
+    const sha: string = this.getFakeCommitSha(fakeRepository, ref);
+    return takeMaxItems(where(fakeRepository.checkRuns, (checkRun: FakeGitHubCheckRun) =>
+      checkRun.head_sha === sha &&
+      (!options.checkName || checkRun.name === options.checkName) &&
+      (!options.status || checkRun.status === options.status)), options);
   }
 
-  public async addPullRequestAssignees(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, assignees: string | GitHubUser | (string | GitHubUser)[]): Promise<void> {
-    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
-    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, pullRequestNumber);
+  public async getReleases(repository: string | Repository, options: GitHubListOptions = {}): Promise<FakeGitHubRelease[]> {
+    return takeMaxItems(this.getRepository(repository).releases, options);
+  }
 
-    if (!pullRequest.assignees) {
-      pullRequest.assignees = [];
+  public async getReleaseByTag(repository: string | Repository, tagName: string): Promise<FakeGitHubRelease> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const release: FakeGitHubRelease | undefined = first(fakeRepository.releases, (existingRelease: FakeGitHubRelease) => existingRelease.tag_name === tagName);
+    if (!release) {
+      throw new Error(`No release found in fake repository "${fakeRepository.name}" with the tag "${tagName}".`);
     }
+    return release;
+  }
 
-    if (!Array.isArray(assignees)) {
-      assignees = [assignees];
-    }
-    for (const assignee of assignees) {
-      if (typeof assignee === "string") {
-        pullRequest.assignees.push(await this.getUser(assignee));
-      } else {
-        pullRequest.assignees.push(assignee);
-      }
+  private async getFakeRelease(repository: string | Repository, release: number | GitHubRelease): Promise<FakeGitHubRelease> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const releaseId: number = getReleaseId(release);
+    const result: FakeGitHubRelease | undefined = first(fakeRepository.releases, (existingRelease: FakeGitHubRelease) => existingRelease.id === releaseId);
+    if (!result) {
+      throw new Error(`No release found in fake repository "${fakeRepository.name}" with id ${releaseId}.`);
     }
+    return result;
   }
 
-  public async addPullRequestLabels(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, labelNames: string | string[]): Promise<string[]> {
-    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
-    const labelNamesArray: string[] = (Array.isArray(labelNames) ? labelNames : [labelNames]);
+  public async createRelease(repository: string | Repository, tagName: string, options: GitHubCreateReleaseOptions = {}): Promise<FakeGitHubRelease> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    if (contains(fakeRepository.releases, (release: FakeGitHubRelease) => release.tag_name === tagName)) {
+      throw new Error(`A release with the tag "${tagName}" already exists in fake repository "${fakeRepository.name}".`);
+    }
+    let body: string | undefined = options.body;
+    if (body == undefined && options.generateReleaseNotes) {
+      body = await getReleaseNotes(this, repository, tagName);
+    }
 
-    const repositoryLabels: GitHubLabel[] = await this.getLabels(repository);
-    for (const labelName of labelNamesArray) {
-      if (!contains(repositoryLabels, (repositoryLabel: GitHubLabel) => repositoryLabel.name === labelName)) {
-        repositoryLabels.push(await this.createLabel(repository, labelName, "ededed"));
-      }
+    let releaseId = 1;
+    for (const release of fakeRepository.releases) {
+      releaseId = Math.max(releaseId, release.id + 1);
     }
+    const now: string = new Date().toISOString();
+    const result: FakeGitHubRelease = {
+      id: releaseId,
+      node_id: "fake_node_id",
+      url: "fake_url",
+      html_url: `https://github.com/${fakeRepository.name}/releases/tag/${tagName}`,
+      upload_url: "fake_upload_url",
+      tag_name: tagName,
+      target_commitish: options.targetCommitish || "master",
+      name: options.name || tagName,
+      body,
+      draft: !!options.draft,
+      prerelease: !!options.prerelease,
+      author: await this.getCurrentUser(),
+      created_at: now,
+      published_at: options.draft ? undefined : now,
+      assets: [],
+    };
+    fakeRepository.releases.push(result);
+    return result;
+  }
 
-    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, pullRequestNumber);
-    const pullRequestLabels: GitHubLabel[] = pullRequest.labels;
-    const pullRequestLabelNames: string[] = map(pullRequestLabels, (label: GitHubLabel) => label.name);
-    const labelNamesAddedToPullRequest: string[] = where(labelNamesArray, (labelName: string) => !contains(pullRequestLabelNames, labelName));
-    if (labelNamesAddedToPullRequest.length > 0) {
-      pullRequest.labels.push(...await Promise.all(map(labelNamesAddedToPullRequest, (labelName: string) => this.getLabel(repository, labelName))));
+  public async updateRelease(repository: string | Repository, release: number | GitHubRelease, options: GitHubUpdateReleaseOptions): Promise<FakeGitHubRelease> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const fakeRelease: FakeGitHubRelease = await this.getFakeRelease(repository, release);
+    if (options.tagName && options.tagName !== fakeRelease.tag_name && contains(fakeRepository.releases, (existingRelease: FakeGitHubRelease) => existingRelease.tag_name === options.tagName)) {
+      throw new Error(`A release with the tag "${options.tagName}" already exists in fake repository "${fakeRepository.name}".`);
+    }
+    let body: string | undefined = options.body;
+    if (body == undefined && options.generateReleaseNotes) {
+      body = await getReleaseNotes(this, repository, options.tagName || fakeRelease.tag_name);
     }
 
-    return labelNamesAddedToPullRequest;
+    if (options.tagName) {
+      fakeRelease.tag_name = options.tagName;
+      fakeRelease.html_url = `https://github.com/${fakeRepository.name}/releases/tag/${options.tagName}`;
+    }
+    if (options.name != undefined) {
+      fakeRelease.name = options.name;
+    }
+    if (body != undefined) {
+      fakeRelease.body = body;
+    }
+    if (options.targetCommitish) {
+      fakeRelease.target_commitish = options.targetCommitish;
+    }
+    if (options.prerelease != undefined) {
+      fakeRelease.prerelease = options.prerelease;
+    }
+    if (options.draft != undefined) {
+      fakeRelease.draft = options.draft;
+      fakeRelease.published_at = options.draft ? undefined : fakeRelease.published_at || new Date().toISOString();
+    }
+    return fakeRelease;
   }
 
-  public async removePullRequestLabels(repository: string | Repository, githubPullRequest: number | GitHubPullRequest, labelNames: string | string[]): Promise<string[]> {
-    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
-    const pullRequest: FakeGitHubPullRequest = await this.getPullRequest(repository, pullRequestNumber);
-    const labelNamesToRemove: string[] = (Array.isArray(labelNames) ? labelNames : [labelNames]);
-    const currentLabelNames: string[] = map(pullRequest.labels, (label: GitHubLabel) => label.name);
-    const removedLabelNames: string[] = where(currentLabelNames, (labelName: string) => contains(labelNamesToRemove, labelName));
-    pullRequest.labels = where(pullRequest.labels, (label: GitHubLabel) => !contains(labelNamesToRemove, label.name));
-    return removedLabelNames;
+  public async deleteRelease(repository: string | Repository, release: number | GitHubRelease): Promise<unknown> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const fakeRelease: FakeGitHubRelease = await this.getFakeRelease(repository, release);
+    return removeFirst(fakeRepository.releases, (existingRelease: FakeGitHubRelease) => existingRelease === fakeRelease);
   }
 
-  public setPullRequestMilestone(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, milestone: string | number | GitHubMilestone): Promise<unknown> {
-    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
-    return this.getPullRequest(repository, pullRequestNumber)
-      .then((pullRequest: FakeGitHubPullRequest) => {
-        let milestonePromise: Promise<GitHubMilestone>;
-        if (typeof milestone === "string" || typeof milestone === "number") {
-          milestonePromise = this.getMilestone(repository, milestone);
-        } else {
-          milestonePromise = Promise.resolve(milestone);
-        }
+  public async uploadReleaseAsset(repository: string | Repository, release: number | GitHubRelease, assetName: string, assetContents: Buffer | string, options: GitHubUploadReleaseAssetOptions = {}): Promise<FakeGitHubReleaseAsset> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const fakeRelease: FakeGitHubRelease = await this.getFakeRelease(repository, release);
+    if (contains(fakeRelease.assets, (asset: FakeGitHubReleaseAsset) => asset.name === assetName)) {
+      throw new Error(`An asset named "${assetName}" already exists in the release "${fakeRelease.tag_name}".`);
+    }
 
-        milestonePromise.then((githubMilestone: GitHubMilestone) => {
-          pullRequest.milestone = githubMilestone;
-        });
-      });
+    let assetId = 1;
+    for (const asset of fakeRelease.assets) {
+      assetId = Math.max(assetId, asset.id + 1);
+    }
+    const contents: Buffer = typeof assetContents === "string" ? Buffer.from(assetContents) : assetContents;
+    const now: string = new Date().toISOString();
+    const result: FakeGitHubReleaseAsset = {
+      id: assetId,
+      node_id: "fake_node_id",
+      url: "fake_url",
+      browser_download_url: `https://github.com/${fakeRepository.name}/releases/download/${fakeRelease.tag_name}/${assetName}`,
+      name: assetName,
+      label: options.label,
+      content_type: options.contentType || "application/octet-stream",
+      size: contents.length,
+      download_count: 0,
+      uploader: await this.getCurrentUser(),
+      created_at: now,
+      updated_at: now,
+      contents,
+    };
+    fakeRelease.assets.push(result);
+    return result;
   }
 
-  public getPullRequestComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number): Promise<GitHubComment[]> {
-    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
-    return this.getPullRequest(repository, pullRequestNumber)
-      .then((fakePullRequest: FakeGitHubPullRequest) => fakePullRequest.comments);
+  public async listReleaseAssets(repository: string | Repository, release: number | GitHubRelease, options: GitHubListOptions = {}): Promise<FakeGitHubReleaseAsset[]> {
+    return takeMaxItems((await this.getFakeRelease(repository, release)).assets, options);
   }
 
-  public createPullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, commentBody: string): Promise<GitHubComment> {
-    return this.getPullRequestComments(repository, githubPullRequest)
-      .then((comments: GitHubComment[]) => {
-        return this.getCurrentUser()
-          .then((currentUser: GitHubUser) => {
-            const newComment: GitHubComment = {
-              id: comments.length + 1,
-              node_id: "fake_node_id",
-              user: currentUser,
-              html_url: "fake_html_url",
-              url: "fake_url",
-              body: commentBody,
-              created_at: "fake_created_at",
-              updated_at: "fake_updated_at",
-            };
-            comments.push(newComment);
-            return newComment;
-          });
-      });
+  public async createOrUpdateFile(repository: string | Repository, path: string, content: string | Buffer, message: string, options: GitHubCreateOrUpdateFileOptions = {}): Promise<GitHubFileCommit> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const fakeFile: FakeGitHubFile = createFakeGitHubFile(content);
+    const commit: GitHubGitCommit = this.createFakeFileCommit(fakeRepository, options.branch || fakeRepository.defaultBranch, message, (files: StringMap<FakeGitHubFile>) => {
+      const existingFile: FakeGitHubFile | undefined = files[path];
+      if (existingFile) {
+        if (!options.sha) {
+          throw new Error(`Could not update the file "${path}" in fake repository "${fakeRepository.name}" because the SHA of the file being replaced wasn't provided.`);
+        }
+        assertFakeFileSha(fakeRepository, path, existingFile, options.sha);
+      }
+      files[path] = fakeFile;
+    });
+    return {
+      content: getFakeGitHubFile(path, fakeFile),
+      commit,
+    };
   }
 
-  public updatePullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, comment: number | GitHubComment, commentBody: string): Promise<GitHubComment> {
-    return this.getPullRequestComments(repository, githubPullRequest)
-      .then((comments: GitHubComment[]) => {
-        let result: Promise<GitHubComment>;
-        const commentId: number = getCommentId(comment);
-        const commentToUpdate: GitHubComment | undefined = first(comments, (existingComment: GitHubComment) => existingComment.id === commentId);
-        if (!commentToUpdate) {
-          result = Promise.reject(new Error(`No comment found with the ID ${commentId}.`));
-        } else {
-          commentToUpdate.body = commentBody;
-          result = Promise.resolve(commentToUpdate);
-        }
-        return result;
-      });
+  public async deleteFile(repository: string | Repository, path: string, message: string, options: GitHubDeleteFileOptions): Promise<GitHubFileCommit> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    const branchName: string = options.branch || fakeRepository.defaultBranch;
+    const commit: GitHubGitCommit = this.createFakeFileCommit(fakeRepository, branchName, message, (files: StringMap<FakeGitHubFile>) => {
+      assertFakeFileSha(fakeRepository, path, getFakeFile(fakeRepository, branchName, files, path), options.sha);
+      delete files[path];
+    });
+    return { commit };
   }
 
-  public deletePullRequestComment(repository: string | Repository, githubPullRequest: number | GitHubPullRequest, comment: number | GitHubComment): Promise<unknown> {
-    const pullRequestNumber: number = getPullRequestNumber(githubPullRequest);
-    return this.getPullRequest(repository, pullRequestNumber)
-      .then((pullRequest: FakeGitHubPullRequest) => {
-        let result: Promise<unknown>;
-        const commentId: number = getCommentId(comment);
-        if (!contains(pullRequest.comments, (existingComment: GitHubComment) => existingComment.id === commentId)) {
-          result = Promise.reject(new Error(`No comment was found with the id ${commentId}.`));
+  public async commitFiles(repository: string | Repository, branchName: string, changes: GitHubFileChange[], message: string): Promise<GitHubGitCommit> {
+    const fakeRepository: FakeRepository = this.getRepository(repository);
+    return this.createFakeFileCommit(fakeRepository, branchName, message, (files: StringMap<FakeGitHubFile>) => {
+      for (const change of changes) {
+        if (change.content != undefined) {
+          files[change.path] = createFakeGitHubFile(change.content);
         } else {
-          pullRequest.comments = where(pullRequest.comments, (existingComment: GitHubComment) => existingComment.id !== commentId);
-          result = Promise.resolve();
+          getFakeFile(fakeRepository, branchName, files, change.path);
+          delete files[change.path];
         }
-        return result;
-      });
-  }
-
-  public getCommit(repository: string | Repository, commitId: string): Promise<GitHubCommit | undefined> {
-    return toPromise(() => {
-      const fakeRepository: FakeRepository = this.getRepository(repository);
-      return first(fakeRepository.commits, (commit: GitHubCommit) => commit.sha.startsWith(commitId));
+      }
     });
   }
 
-  public getContents(repository: string | Repository, filepath: string): Promise<GitHubContent | undefined | Array<GitHubContentItem>> {
-    if (filepath !== undefined) {
-      return toPromise(() => {
-        const fakeRepository: FakeRepository = this.getRepository(repository);
-        return first(fakeRepository.content);
-      });
-    }
-    return toPromise(() => {
-      const fakeRepository: FakeRepository = this.getRepository(repository);
-      return first(fakeRepository.content);
-    });
+  /**
+   * Get the files in the commit that the provided branch name or SHA refers to.
+   */
+  private getFakeFiles(fakeRepository: FakeRepository, ref: string): StringMap<FakeGitHubFile> {
+    return fakeRepository.files[this.getFakeCommitSha(fakeRepository, ref)] || {};
   }
 
-  public createCommit(repository: string | Repository, commitId: string, message: string): Promise<unknown> {
-    const fakeRepository: FakeRepository = this.getRepository(repository);
+  /**
+   * Create a commit whose files are the provided branch's files after the provided changes are
+   * applied to them, and then move the branch to the new commit.
+   */
+  private createFakeFileCommit(fakeRepository: FakeRepository, branchName: string, message: string, changeFiles: (files: StringMap<FakeGitHubFile>) => void): GitHubGitCommit {
+    const branchIndex: number = fakeRepository.branches.findIndex((branch: GitHubBranch) => branch.name === branchName);
+    if (branchIndex === -1) {
+      throw new Error(`No branch named "${branchName}" found in fake repository "${fakeRepository.name}".`);
+    }
+    const branch: GitHubBranch = fakeRepository.branches[branchIndex];
+    const parentSha: string = branch.object.sha;
+    const files: StringMap<FakeGitHubFile> = { ...this.getFakeFiles(fakeRepository, parentSha) };
+    changeFiles(files);
+
+    const treeSha: string = getGitObjectSha("tree", Object.keys(files).sort().map((path: string) => `${files[path].sha} ${path}`).join("\n"));
+    // The number of existing commits is included so that commits with the same changes still get
+    // different SHAs.
+    const sha: string = getGitObjectSha("commit", `tree ${treeSha}\nparent ${parentSha}\ncount ${fakeRepository.commits.length}\n\n${message}`);
     fakeRepository.commits.push({
-      sha: commitId,
+      sha,
       commit: {
         message
       }
     });
-    return Promise.resolve();
+    fakeRepository.files[sha] = files;
+    fakeRepository.branches[branchIndex] = {
+      ...branch,
+      object: {
+        ...branch.object,
+        sha,
+      },
+    };
+    return {
+      sha,
+      node_id: "fake_node_id",
+      url: "fake_url",
+      html_url: `https://github.com/${fakeRepository.name}/commit/${sha}`,
+      message,
+      tree: {
+        sha: treeSha,
+        url: "fake_url",
+      },
+      parents: [
+        {
+          sha: parentSha,
+          url: "fake_url",
+        }
+      ],
+    };
   }
+}
 
-  public getAllReferences(repository: string | Repository): Promise<GitHubReference[]> {
-    return toPromise(() => this.getRepository(repository).branches);
-  }
+function createFakeGitHubFile(content: string | Buffer): FakeGitHubFile {
+  const contents: Buffer = toBuffer(content);
+  return {
+    sha: getGitObjectSha("blob", contents),
+    contents,
+  };
+}
 
-  public getAllBranches(repository: string | Repository): Promise<GitHubBranch[]> {
-    return this.getAllReferences(repository)
-      .then(referencesToBranches);
+function getFakeGitHubFile(path: string, fakeFile: FakeGitHubFile): GitHubFile {
+  return {
+    name: path.substring(path.lastIndexOf("/") + 1),
+    path,
+    sha: fakeFile.sha,
+    size: fakeFile.contents.length,
+    url: "fake_url",
+    html_url: "fake_html_url",
+    download_url: "fake_download_url",
+  };
+}
+
+function getFakeFile(fakeRepository: FakeRepository, branchName: string, files: StringMap<FakeGitHubFile>, path: string): FakeGitHubFile {
+  const result: FakeGitHubFile | undefined = files[path];
+  if (!result) {
+    throw new Error(`No file found in fake repository "${fakeRepository.name}" at the path "${path}" in the branch "${branchName}".`);
   }
+  return result;
+}
 
-  public getBranch(repository: string | Repository, branchName: string): Promise<GitHubBranch> {
-    return toPromise(() => {
-      const fakeRepository: FakeRepository = this.getRepository(repository);
-      const result: GitHubBranch | undefined = first(fakeRepository.branches, (branch: GitHubBranch) => branch.name === branchName);
-      if (!result) {
-        throw new Error(`Could not get details about the branch "${branchName}" in repository "${fakeRepository.name}" because the branch didn't exist.`);
-      }
-      return result;
-    });
+function assertFakeFileSha(fakeRepository: FakeRepository, path: string, fakeFile: FakeGitHubFile, sha: string): void {
+  if (fakeFile.sha !== sha) {
+    throw new Error(`Could not change the file "${path}" in fake repository "${fakeRepository.name}" because the provided SHA "${sha}" doesn't match the file's SHA "${fakeFile.sha}".`);
   }
+}
 
-  public deleteBranch(repository: string | Repository, branchName: string): Promise<unknown> {
-    return toPromise(() => {
-      const fakeRepository: FakeRepository = this.getRepository(repository);
-      const removedBranch: GitHubBranch | undefined = removeFirst(fakeRepository.branches, (branch: GitHubBranch) => branch.name === branchName);
-      if (!removedBranch) {
-        throw new Error(`Could not delete branch "${branchName}" from repository "${fakeRepository.name}" because the branch didn't exist.`);
+/**
+ * Get the SHA that Git would give to an object with the provided type and contents.
+ */
+function getGitObjectSha(type: "blob" | "tree" | "commit", contents: string | Buffer): string {
+  const buffer: Buffer = toBuffer(contents);
+  return crypto.createHash("sha1").update(`${type} ${buffer.length}\0`).update(buffer).digest("hex");
+}
+
+/**
+ * Get the release notes for the provided tag from the pull requests that were merged since the
+ * previous release. If the release for the provided tag is already published, then pull requests
+ * that were merged after it was published are left out. Each merged pull request becomes a line in
+ * the notes.
+ * @param github The GitHub to read the releases and pull requests from.
+ * @param repository The repository that the release is in.
+ * @param tagName The name of the tag that the release notes are for.
+ * @param options The optional parameters that determine the previous release.
+ */
+export async function getReleaseNotes(github: GitHub, repository: string | Repository, tagName: string, options: GitHubGetReleaseNotesOptions = {}): Promise<string> {
+  const releases: GitHubRelease[] = await github.getReleases(repository);
+  const release: GitHubRelease | undefined = first(releases, (existingRelease: GitHubRelease) => existingRelease.tag_name === tagName);
+  let previousRelease: GitHubRelease | undefined;
+  if (options.previousTagName) {
+    previousRelease = await github.getReleaseByTag(repository, options.previousTagName);
+  } else {
+    for (const existingRelease of releases) {
+      if (existingRelease.tag_name !== tagName &&
+        existingRelease.published_at &&
+        (!release || existingRelease.published_at < (release.published_at || release.created_at)) &&
+        (!previousRelease || previousRelease.published_at! < existingRelease.published_at)) {
+        previousRelease = existingRelease;
       }
-    });
+    }
   }
 
-  public createBranch(repository: string | Repository, branchName: string, branchSha: string): Promise<GitHubBranch> {
-    return toPromise(() => {
-      const fakeRepository: FakeRepository = this.getRepository(repository);
-      let result: GitHubBranch;
-      if (contains(fakeRepository.branches, (branch: GitHubBranch) => branch.name === branchName)) {
-        throw new Error(`Could not create a branch named "${branchName}" in repository "${fakeRepository.name}" because a branch with that name already exists.`);
-      } else if (!contains(fakeRepository.commits, (commit: GitHubCommit) => commit.sha === branchSha)) {
-        throw new Error(`Could not create a branch named "${branchName}" in repository "${fakeRepository.name}" with the SHA "${branchSha}" because no commit exists in the repository with the provided SHA.`);
-      } else {
-        result = {
-          name: branchName,
-          ref: `refs/heads/${branchName}`,
-          node_id: "fake-node-id",
-          url: "fake-branch-url",
-          object: {
-            type: "commit",
-            sha: branchSha,
-            url: "fake-branch-commit-sha",
-          }
-        };
-        fakeRepository.branches.push(result);
-      }
-      return result;
-    });
+  const since: string | undefined = previousRelease && (previousRelease.published_at || previousRelease.created_at);
+  const until: string | undefined = release && release.published_at;
+  const pullRequests: GitHubPullRequest[] = where(await github.getPullRequests(repository, { open: false }), (pullRequest: GitHubPullRequest) =>
+    !!pullRequest.merged_at && (!since || since < pullRequest.merged_at) && (!until || pullRequest.merged_at <= until));
+  pullRequests.sort((lhs: GitHubPullRequest, rhs: GitHubPullRequest) => lhs.merged_at! < rhs.merged_at! ? -1 : lhs.merged_at! > rhs.merged_at! ? 1 : 0);
+
+  let result = `## What's Changed\n\n`;
+  if (pullRequests.length === 0) {
+    result += `No pull requests were merged.\n`;
+  } else {
+    for (const pullRequest of pullRequests) {
+      result += `- ${pullRequest.title} (#${pullRequest.number})\n`;
+    }
+  }
+  if (previousRelease) {
+    result += `\n**Full Changelog**: https://github.com/${getRepositoryFullName(repository)}/compare/${previousRelease.tag_name}...${tagName}\n`;
   }
+  return result;
 }
 
 export function getSprintLabels(labels: GitHubLabel[]): GitHubSprintLabel[] {
@@ -1308,36 +3175,185 @@ export function getSprintLabels(labels: GitHubLabel[]): GitHubSprintLabel[] {
   return repositorySprintLabels;
 }
 
+/**
+ * What RealGitHub does when a request can't be sent because the GitHub API rate limit has been
+ * used up. "wait" waits until the rate limit resets and then sends the request, and "fail" throws
+ * an error.
+ */
+export type GitHubRateLimitPolicy = "wait" | "fail";
+
+/**
+ * The GitHub API rate limit of the authenticated user.
+ */
+export interface GitHubRateLimit {
+  /**
+   * The number of requests that can be made in each rate limit window.
+   */
+  limit: number;
+  /**
+   * The number of requests that can still be made in the current rate limit window.
+   */
+  remaining: number;
+  /**
+   * The time that the current rate limit window resets at.
+   */
+  reset: Date;
+}
+
+/**
+ * Optional parameters that can be provided when creating a RealGitHub.
+ */
+export interface RealGitHubOptions {
+  /**
+   * What to do when the rate limit has been used up. Defaults to "fail".
+   */
+  rateLimitPolicy?: GitHubRateLimitPolicy;
+  /**
+   * The longest amount of time to wait for the rate limit to reset when the rate limit policy is
+   * "wait". If the rate limit resets later than this, then an error will be thrown instead.
+   * Defaults to 1 hour.
+   */
+  maxRateLimitWait?: Duration;
+  /**
+   * The clock that will be used to wait for the rate limit to reset. Defaults to a RealClock.
+   */
+  clock?: Clock;
+}
+
 /**
  * A class that wraps @octokit/rest to interact with github.com.
  */
 export class RealGitHub implements GitHub {
-  private constructor(private readonly githubClients: Octokit | StringMap<Octokit> | ((scope: string) => Promise<Octokit>)) {
+  private readonly preparedClients: WeakSet<Octokit> = new WeakSet<Octokit>();
+  private latestRateLimit: GitHubRateLimit | undefined;
+
+  private constructor(private readonly githubClients: Octokit | StringMap<Octokit> | ((scope: string) => Promise<Octokit>), private readonly options: RealGitHubOptions) {
   }
 
-  public static fromOctokit(github: Octokit | StringMap<Octokit> | ((scope: string) => Promise<Octokit>)): RealGitHub {
-    return new RealGitHub(github);
+  public static fromOctokit(github: Octokit | StringMap<Octokit> | ((scope: string) => Promise<Octokit>), options: RealGitHubOptions = {}): RealGitHub {
+    return new RealGitHub(github, options);
   }
 
-  public static fromToken(authenticationToken: string): RealGitHub {
-    const options: Octokit.Options = {
+  public static fromToken(authenticationToken: string, options: RealGitHubOptions = {}): RealGitHub {
+    const octokitOptions: Octokit.Options = {
       auth: authenticationToken.trim()
     };
-    const github = new Octokit(options);
-    return new RealGitHub(github);
+    const github = new Octokit(octokitOptions);
+    return new RealGitHub(github, options);
   }
 
-  public static fromTokenFile(tokenFilePath: string): RealGitHub {
+  public static fromTokenFile(tokenFilePath: string, options: RealGitHubOptions = {}): RealGitHub {
     if (!fs.existsSync(tokenFilePath)) {
       throw new Error(`The file ${tokenFilePath} doesn't exist. Create a GitHub personal access token, create this file with the personal access token as its contents, and then run this application again.`);
     }
 
     const githubAuthToken: string = fs.readFileSync(tokenFilePath, { encoding: "utf-8" });
 
-    return RealGitHub.fromToken(githubAuthToken);
+    return RealGitHub.fromToken(githubAuthToken, options);
+  }
+
+  /**
+   * Create a RealGitHub that is authenticated with the --github-token argument, the GITHUB_TOKEN
+   * environment variable, or the token file at the --github-auth-file argument (which defaults to
+   * "github.auth").
+   * @param options The optional parameters that determine how the RealGitHub will send requests.
+   */
+  public static fromArguments(options: RealGitHubOptions = {}): RealGitHub {
+    const token: string | undefined = getArgument("github-token", { checkEnvironmentVariables: true, environmentVariableName: "GITHUB_TOKEN" });
+    return token
+      ? RealGitHub.fromToken(token, options)
+      : RealGitHub.fromTokenFile(getArgument("github-auth-file", { defaultValue: "github.auth" })!, options);
+  }
+
+  /**
+   * The rate limit that was reported by the most recent response, or undefined if no response has
+   * been received yet.
+   */
+  public get rateLimit(): GitHubRateLimit | undefined {
+    return this.latestRateLimit;
+  }
+
+  /**
+   * Get the current rate limit from GitHub. Getting the rate limit doesn't count against it.
+   */
+  public async getRateLimit(): Promise<GitHubRateLimit> {
+    const response = await (await this.getDefaultClient()).rateLimit.get();
+    const core: { limit: number, remaining: number, reset: number } = response.data.resources.core;
+    this.latestRateLimit = {
+      limit: core.limit,
+      remaining: core.remaining,
+      reset: new Date(core.reset * 1000),
+    };
+    return this.latestRateLimit;
   }
 
   public async getClient(repository: string | Repository): Promise<Octokit> {
+    return this.prepareClient(await this.findClient(repository));
+  }
+
+  /**
+   * Register the hook that keeps track of the rate limit on the provided client if it hasn't been
+   * registered already.
+   */
+  private prepareClient(client: Octokit): Octokit {
+    if (!this.preparedClients.has(client)) {
+      this.preparedClients.add(client);
+      client.hook.wrap("request", (request: (options: Octokit.HookOptions) => Promise<Octokit.Response<any>>, options: Octokit.HookOptions) => this.sendRequest(request, options));
+    }
+    return client;
+  }
+
+  private sendRequest(request: (options: Octokit.HookOptions) => Promise<Octokit.Response<any>>, options: Octokit.HookOptions): Promise<Octokit.Response<any>> {
+    return retry({
+      action: async () => {
+        // Getting the rate limit doesn't count against it, so it can be sent even when the rate
+        // limit has been used up.
+        if (!/\/rate_limit$/.test(options.url)) {
+          await this.waitForRateLimit();
+        }
+        try {
+          const response: Octokit.Response<any> = await request(options);
+          this.updateRateLimit(response.headers);
+          return response;
+        } catch (error) {
+          this.updateRateLimit(error.response ? error.response.headers : undefined);
+          throw error;
+        }
+      },
+      shouldRetry: (error: Error | undefined) => !!error && this.options.rateLimitPolicy === "wait" && isRateLimitError(error),
+    });
+  }
+
+  /**
+   * If the rate limit has been used up, then either wait for it to reset or throw an error,
+   * depending on the rate limit policy.
+   */
+  private async waitForRateLimit(): Promise<void> {
+    const rateLimit: GitHubRateLimit | undefined = this.latestRateLimit;
+    if (rateLimit && rateLimit.remaining <= 0) {
+      const clock: Clock = this.options.clock || new RealClock();
+      const waitTime: Duration = Duration.milliseconds(rateLimit.reset.valueOf() - clock.now().valueOf());
+      if (waitTime.value > 0) {
+        const maxWaitTime: Duration = (this.options.maxRateLimitWait || Duration.hours(1)).toMilliseconds();
+        if (this.options.rateLimitPolicy !== "wait" || waitTime.value > maxWaitTime.value) {
+          throw new Error(`The GitHub API rate limit of ${rateLimit.limit} requests has been used up. It will reset at ${rateLimit.reset.toISOString()}.`);
+        }
+        await delay(waitTime, clock);
+      }
+    }
+  }
+
+  private updateRateLimit(headers: StringMap<string | number | undefined> | undefined): void {
+    if (headers && headers["x-ratelimit-remaining"] != undefined && headers["x-ratelimit-reset"] != undefined) {
+      this.latestRateLimit = {
+        limit: Number(headers["x-ratelimit-limit"]),
+        remaining: Number(headers["x-ratelimit-remaining"]),
+        reset: new Date(Number(headers["x-ratelimit-reset"]) * 1000),
+      };
+    }
+  }
+
+  private async findClient(repository: string | Repository): Promise<Octokit> {
     const repo = getRepository(repository);
     if (isOctokit(this.githubClients)) {
       return this.githubClients;
@@ -1353,12 +3369,16 @@ export class RealGitHub implements GitHub {
           return githubClient;
         }
       }
-      return this.getDefaultClient();
+      return this.findDefaultClient();
       // throw new Error(`No GitHub client registered to be used with repository "${fullRepositoryName}".`);
     }
   }
 
   private async getDefaultClient(): Promise<Octokit> {
+    return this.prepareClient(await this.findDefaultClient());
+  }
+
+  private async findDefaultClient(): Promise<Octokit> {
     let result: Octokit;
     if (isOctokit(this.githubClients)) {
       result = this.githubClients;
@@ -1376,12 +3396,13 @@ export class RealGitHub implements GitHub {
     return result;
   }
 
-  public async getContents(repository: string | Repository, filepath: string): Promise<GitHubContent | undefined | Array<GitHubContentItem>> {
+  public async getContents(repository: string | Repository, filepath: string, options: GitHubGetContentsOptions = {}): Promise<GitHubContent | undefined | Array<GitHubContentItem>> {
     const githubRepository: Repository = getRepository(repository);
     const githubArguments: Octokit.ReposGetContentsParams = {
       owner: githubRepository.owner,
       repo: githubRepository.name,
-      path: filepath
+      path: filepath,
+      ref: options.ref
     };
     let result: GitHubContent | undefined | Array<GitHubContentItem>;
     try {
@@ -1397,13 +3418,13 @@ export class RealGitHub implements GitHub {
     return result;
   }
 
-  public async getLabels(repository: string | Repository): Promise<GitHubLabel[]> {
+  public async getLabels(repository: string | Repository, options: GitHubListOptions = {}): Promise<GitHubLabel[]> {
     const githubRepository: Repository = getRepository(repository);
     const response: Octokit.RequestOptions = await (await this.getClient(repository)).issues.listLabelsForRepo.endpoint.merge({
       owner: githubRepository.owner,
       repo: githubRepository.name
     });
-    return await this.getAllPageData(repository, response);
+    return await this.getAllPageData(repository, response, options);
   }
 
   public async getSprintLabels(repository: string | Repository): Promise<GitHubSprintLabel[]> {
@@ -1411,13 +3432,14 @@ export class RealGitHub implements GitHub {
     return getSprintLabels(labels);
   }
 
-  public async createLabel(repository: string | Repository, labelName: string, color: string): Promise<GitHubLabel> {
+  public async createLabel(repository: string | Repository, labelName: string, color: string, options: GitHubCreateLabelOptions = {}): Promise<GitHubLabel> {
     const githubRepository: Repository = getRepository(repository);
     const response: Octokit.Response<Octokit.IssuesCreateLabelResponse> = await (await this.getClient(repository)).issues.createLabel({
       owner: githubRepository.owner,
       repo: githubRepository.name,
       name: labelName,
-      color: color
+      color: color,
+      description: options.description
     });
     const result: GitHubLabel = response.data;
     return result;
@@ -1444,6 +3466,21 @@ export class RealGitHub implements GitHub {
     });
   }
 
+  public async updateLabel(repository: string | Repository, labelName: string, options: GitHubUpdateLabelOptions): Promise<GitHubLabel> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesUpdateLabelParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      current_name: labelName,
+      name: options.name,
+      color: options.color,
+      description: options.description
+    };
+    const response = await (await this.getClient(repository)).issues.updateLabel(githubArguments);
+    const result: GitHubLabel = response.data;
+    return result;
+  }
+
   public async getMilestone(repository: string | Repository, milestone: number | string): Promise<GitHubMilestone> {
     const githubRepository: Repository = getRepository(repository);
     let result: GitHubMilestone;
@@ -1486,7 +3523,7 @@ export class RealGitHub implements GitHub {
       repo: githubRepository.name,
       state: milestoneState
     });
-    const result: GitHubMilestone[] = await this.getAllPageData(repository, requestOptions);
+    const result: GitHubMilestone[] = await this.getAllPageData(repository, requestOptions, options);
     return result;
   }
 
@@ -1621,25 +3658,24 @@ export class RealGitHub implements GitHub {
     return result;
   }
 
-  public async getPullRequests(repository: string | Repository, options?: GitHubGetPullRequestsOptions): Promise<GitHubPullRequest[]> {
+  public async getPullRequests(repository: string | Repository, options: GitHubGetPullRequestsOptions = {}): Promise<GitHubPullRequest[]> {
     let pullRequestState: GitHubPullRequestState | "all" = "all";
-    if (options) {
-      if (options.open === true) {
-        pullRequestState = "open";
-      } else if (options.open === false) {
-        pullRequestState = "closed";
-      }
+    if (options.open === true) {
+      pullRequestState = "open";
+    } else if (options.open === false) {
+      pullRequestState = "closed";
     }
 
     const githubRepository: Repository = getRepository(repository);
+    const { maxItems, ...pullsListOptions } = options;
     const githubArguments: Octokit.PullsListParams = {
       owner: githubRepository.owner,
       repo: githubRepository.name,
       state: pullRequestState,
-      ...options
+      ...pullsListOptions
     };
     const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).pulls.list.endpoint.merge(githubArguments);
-    const result: GitHubPullRequest[] = await this.getAllPageData(repository, requestOptions);
+    const result: GitHubPullRequest[] = await this.getAllPageData(repository, requestOptions, { maxItems });
     return result;
   }
 
@@ -1712,51 +3748,259 @@ export class RealGitHub implements GitHub {
     return removedLabelNames;
   }
 
-  public async setPullRequestMilestone(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, milestone: number | string | GitHubMilestone): Promise<unknown> {
-    let milestoneNumber: number;
-    if (typeof milestone === "number") {
-      milestoneNumber = milestone;
-    } else if (typeof milestone === "string") {
-      const githubMilestone: GitHubMilestone = await this.getMilestone(repository, milestone);
-      milestoneNumber = githubMilestone.number;
-    } else {
-      milestoneNumber = milestone.number;
+  public async setPullRequestMilestone(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, milestone: number | string | GitHubMilestone): Promise<unknown> {
+    let milestoneNumber: number;
+    if (typeof milestone === "number") {
+      milestoneNumber = milestone;
+    } else if (typeof milestone === "string") {
+      const githubMilestone: GitHubMilestone = await this.getMilestone(repository, milestone);
+      milestoneNumber = githubMilestone.number;
+    } else {
+      milestoneNumber = milestone.number;
+    }
+
+    const githubRepository: Repository = getRepository(repository);
+    return (await this.getClient(repository)).issues.update({
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      number: getPullRequestNumber(githubPullRequest),
+      milestone: milestoneNumber
+    });
+  }
+
+  /**
+   * Get the items from all of the pages of the provided list request, stopping once maxItems items
+   * have been found.
+   * @param requestOptions The options of the list request.
+   * @param options The optional parameters that limit the number of returned items.
+   * @param condition If provided, then only the items that match this condition will be returned.
+   */
+  private async getAllPageData<T>(repository: string | Repository, requestOptions: Octokit.RequestOptions, options: GitHubListOptions = {}, condition?: (item: T) => boolean): Promise<T[]> {
+    const maxItems: number | undefined = options.maxItems;
+    let itemCount = 0;
+    return (await this.getClient(repository)).paginate({ per_page: 100, ...requestOptions }, (response: Octokit.AnyResponse, done: () => void) => {
+      let items: T[] = response.data;
+      if (condition) {
+        items = where(items, condition);
+      }
+      if (maxItems != undefined) {
+        items = items.slice(0, Math.max(0, maxItems - itemCount));
+        itemCount += items.length;
+        if (itemCount >= maxItems) {
+          done();
+        }
+      }
+      return items;
+    });
+  }
+
+  public async getPullRequestComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options: GitHubListOptions = {}): Promise<GitHubComment[]> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesListCommentsParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      issue_number: getPullRequestNumber(githubPullRequest)
+    };
+    const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).issues.listComments.endpoint.merge(githubArguments);
+    return await this.getAllPageData(repository, requestOptions, options);
+  }
+
+  public async createPullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, commentBody: string): Promise<GitHubComment> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesCreateCommentParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      issue_number: getPullRequestNumber(githubPullRequest),
+      body: commentBody
+    };
+    const response = await (await this.getClient(repository)).issues.createComment(githubArguments);
+    const result: GitHubComment = response.data;
+    return result;
+  }
+
+  public async updatePullRequestComment(repository: string | Repository, _githubPullRequest: GitHubPullRequest | number, comment: GitHubComment | number, commentBody: string): Promise<GitHubComment> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesUpdateCommentParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      comment_id: getCommentId(comment).toString(),
+      body: commentBody
+    } as any;
+    const response = await (await this.getClient(repository)).issues.updateComment(githubArguments);
+    const result: GitHubComment = response.data;
+    return result;
+  }
+
+  public async deletePullRequestComment(repository: string | Repository, _githubPullRequest: number | GitHubPullRequest, comment: number | GitHubComment): Promise<unknown> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesDeleteCommentParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      comment_id: getCommentId(comment).toString()
+    } as any;
+    return (await this.getClient(repository)).issues.deleteComment(githubArguments);
+  }
+
+  public async requestReviewers(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, reviewers: string | GitHubUser | (string | GitHubUser)[]): Promise<unknown> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.PullsCreateReviewRequestParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      pull_number: getPullRequestNumber(githubPullRequest),
+      reviewers: getUserLogins(toArray(reviewers))
+    };
+    const response = await (await this.getClient(repository)).pulls.createReviewRequest(githubArguments);
+    return response.data;
+  }
+
+  public async getReviews(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options: GitHubListOptions = {}): Promise<GitHubReview[]> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.PullsListReviewsParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      pull_number: getPullRequestNumber(githubPullRequest)
+    };
+    const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).pulls.listReviews.endpoint.merge(githubArguments);
+    return await this.getAllPageData(repository, requestOptions, options);
+  }
+
+  public async createReview(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, event: GitHubReviewEvent, options: GitHubCreateReviewOptions = {}): Promise<GitHubReview> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.PullsCreateReviewParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      pull_number: getPullRequestNumber(githubPullRequest),
+      event,
+      body: options.body,
+      commit_id: options.commitId,
+      // The typings only know about the deprecated diff "position", but the API also accepts
+      // comments that are anchored to a line and side of the diff.
+      comments: options.comments && map(options.comments, (comment: GitHubCreateReviewComment) => ({
+        path: comment.path,
+        line: comment.line,
+        side: comment.side || "RIGHT",
+        body: comment.body
+      })) as any
+    };
+    const response = await (await this.getClient(repository)).pulls.createReview(githubArguments);
+    const result: GitHubReview = response.data as any;
+    return result;
+  }
+
+  public async getReviewComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, options: GitHubListOptions = {}): Promise<GitHubReviewComment[]> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.PullsListCommentsParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      pull_number: getPullRequestNumber(githubPullRequest)
+    };
+    const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).pulls.listComments.endpoint.merge(githubArguments);
+    return await this.getAllPageData(repository, requestOptions, options);
+  }
+
+  public async getIssue(repository: string | Repository, issueNumber: number): Promise<GitHubIssue> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesGetParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      issue_number: issueNumber
+    };
+    const response = await (await this.getClient(repository)).issues.get(githubArguments);
+    const result: GitHubIssue = response.data as any;
+    result.body = result.body || "";
+    return result;
+  }
+
+  public async getIssues(repository: string | Repository, options: GitHubGetIssuesOptions = {}): Promise<GitHubIssue[]> {
+    let issueState: GitHubIssueState | "all" = "all";
+    if (options.open === true) {
+      issueState = "open";
+    } else if (options.open === false) {
+      issueState = "closed";
     }
 
     const githubRepository: Repository = getRepository(repository);
-    return (await this.getClient(repository)).issues.update({
+    const githubArguments: Octokit.IssuesListForRepoParams = {
       owner: githubRepository.owner,
       repo: githubRepository.name,
-      number: getPullRequestNumber(githubPullRequest),
-      milestone: milestoneNumber
-    });
+      state: issueState
+    };
+    if (options.labels) {
+      githubArguments.labels = toArray(options.labels).join(",");
+    }
+    if (options.milestone !== undefined) {
+      githubArguments.milestone = options.milestone === "*" || options.milestone === "none"
+        ? options.milestone
+        : (await this.getMilestoneNumber(repository, options.milestone)).toString();
+    }
+    if (options.assignee) {
+      githubArguments.assignee = typeof options.assignee === "string" ? options.assignee : options.assignee.login;
+    }
+    if (options.since) {
+      githubArguments.since = new Date(options.since).toISOString();
+    }
+    const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).issues.listForRepo.endpoint.merge(githubArguments);
+    // Pull requests are filtered out while paging so that they don't count towards maxItems.
+    return await this.getAllPageData(repository, requestOptions, options, (issue: GitHubIssue) => !!options.includePullRequests || !issue.pull_request);
   }
 
-  /**
-   * Get all of the pages associated with the provided pageResponse.
-   * @param pageResponse One of the page responses in an overall response.
-   */
-  private async getAllPageData<T>(repository: string | Repository, requestOptions: Octokit.RequestOptions): Promise<T[]> {
-    return (await this.getClient(repository)).paginate(requestOptions);
+  public async createIssue(repository: string | Repository, title: string, options: GitHubCreateIssueOptions = {}): Promise<GitHubIssue> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesCreateParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      title,
+      body: options.body,
+      labels: options.labels,
+      assignees: getUserLogins(options.assignees),
+      milestone: options.milestone === undefined ? undefined : await this.getMilestoneNumber(repository, options.milestone)
+    };
+    const response = await (await this.getClient(repository)).issues.create(githubArguments);
+    const result: GitHubIssue = response.data as any;
+    result.body = result.body || "";
+    return result;
+  }
+
+  public async updateIssue(repository: string | Repository, issue: number | GitHubIssue, options: GitHubUpdateIssueOptions): Promise<GitHubIssue> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.IssuesUpdateParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      issue_number: getIssueNumber(issue),
+      title: options.title,
+      body: options.body,
+      state: options.state,
+      labels: options.labels,
+      assignees: getUserLogins(options.assignees),
+      milestone: options.milestone === undefined ? undefined : await this.getMilestoneNumber(repository, options.milestone)
+    };
+    const response = await (await this.getClient(repository)).issues.update(githubArguments);
+    const result: GitHubIssue = response.data as any;
+    result.body = result.body || "";
+    return result;
   }
 
-  public async getPullRequestComments(repository: string | Repository, githubPullRequest: GitHubPullRequest | number): Promise<GitHubComment[]> {
+  public closeIssue(repository: string | Repository, issue: number | GitHubIssue): Promise<unknown> {
+    return this.updateIssue(repository, issue, { state: "closed" });
+  }
+
+  public async getIssueComments(repository: string | Repository, issue: number | GitHubIssue, options: GitHubListOptions = {}): Promise<GitHubComment[]> {
     const githubRepository: Repository = getRepository(repository);
     const githubArguments: Octokit.IssuesListCommentsParams = {
       owner: githubRepository.owner,
       repo: githubRepository.name,
-      issue_number: getPullRequestNumber(githubPullRequest)
+      issue_number: getIssueNumber(issue)
     };
     const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).issues.listComments.endpoint.merge(githubArguments);
-    return await this.getAllPageData(repository, requestOptions);
+    return await this.getAllPageData(repository, requestOptions, options);
   }
 
-  public async createPullRequestComment(repository: string | Repository, githubPullRequest: GitHubPullRequest | number, commentBody: string): Promise<GitHubComment> {
+  public async createIssueComment(repository: string | Repository, issue: number | GitHubIssue, commentBody: string): Promise<GitHubComment> {
     const githubRepository: Repository = getRepository(repository);
     const githubArguments: Octokit.IssuesCreateCommentParams = {
       owner: githubRepository.owner,
       repo: githubRepository.name,
-      issue_number: getPullRequestNumber(githubPullRequest),
+      issue_number: getIssueNumber(issue),
       body: commentBody
     };
     const response = await (await this.getClient(repository)).issues.createComment(githubArguments);
@@ -1764,29 +4008,80 @@ export class RealGitHub implements GitHub {
     return result;
   }
 
-  public async updatePullRequestComment(repository: string | Repository, _githubPullRequest: GitHubPullRequest | number, comment: GitHubComment | number, commentBody: string): Promise<GitHubComment> {
+  public async updateIssueComment(repository: string | Repository, _issue: number | GitHubIssue, comment: GitHubComment | number, commentBody: string): Promise<GitHubComment> {
     const githubRepository: Repository = getRepository(repository);
     const githubArguments: Octokit.IssuesUpdateCommentParams = {
       owner: githubRepository.owner,
       repo: githubRepository.name,
-      comment_id: getCommentId(comment).toString(),
+      comment_id: getCommentId(comment),
       body: commentBody
-    } as any;
+    };
     const response = await (await this.getClient(repository)).issues.updateComment(githubArguments);
     const result: GitHubComment = response.data;
     return result;
   }
 
-  public async deletePullRequestComment(repository: string | Repository, _githubPullRequest: number | GitHubPullRequest, comment: number | GitHubComment): Promise<unknown> {
+  public async deleteIssueComment(repository: string | Repository, _issue: number | GitHubIssue, comment: GitHubComment | number): Promise<unknown> {
     const githubRepository: Repository = getRepository(repository);
     const githubArguments: Octokit.IssuesDeleteCommentParams = {
       owner: githubRepository.owner,
       repo: githubRepository.name,
-      comment_id: getCommentId(comment).toString()
-    } as any;
+      comment_id: getCommentId(comment)
+    };
     return (await this.getClient(repository)).issues.deleteComment(githubArguments);
   }
 
+  public async addIssueLabels(repository: string | Repository, issue: number | GitHubIssue, labelNames: string | string[]): Promise<string[]> {
+    const labelNamesArray: string[] = toArray(labelNames);
+    const githubIssue: GitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    const currentLabelNames: string[] = map(githubIssue.labels, (label: GitHubLabel) => label.name);
+    const labelNamesToAdd: string[] = where(labelNamesArray, (labelName: string) => !contains(currentLabelNames, labelName));
+    if (labelNamesToAdd.length > 0) {
+      const githubRepository: Repository = getRepository(repository);
+      await (await this.getClient(repository)).issues.addLabels({
+        owner: githubRepository.owner,
+        repo: githubRepository.name,
+        issue_number: githubIssue.number,
+        labels: labelNamesToAdd
+      });
+    }
+    return labelNamesToAdd;
+  }
+
+  public async removeIssueLabels(repository: string | Repository, issue: number | GitHubIssue, labelNames: string | string[]): Promise<string[]> {
+    const labelNamesArray: string[] = toArray(labelNames);
+    const githubIssue: GitHubIssue = await this.getIssue(repository, getIssueNumber(issue));
+    const currentLabelNames: string[] = map(githubIssue.labels, (label: GitHubLabel) => label.name);
+    const removedLabelNames: string[] = where(currentLabelNames, (currentLabelName: string) => contains(labelNamesArray, currentLabelName));
+    const githubRepository: Repository = getRepository(repository);
+    for (const labelName of removedLabelNames) {
+      await (await this.getClient(repository)).issues.removeLabel({
+        owner: githubRepository.owner,
+        repo: githubRepository.name,
+        issue_number: githubIssue.number,
+        name: labelName
+      });
+    }
+    return removedLabelNames;
+  }
+
+  /**
+   * Get the number of the provided milestone.
+   * @param repository The repository that the milestone exists in.
+   * @param milestone The milestone number, name, or details.
+   */
+  private async getMilestoneNumber(repository: string | Repository, milestone: number | string | GitHubMilestone): Promise<number> {
+    let result: number;
+    if (typeof milestone === "number") {
+      result = milestone;
+    } else if (typeof milestone === "string") {
+      result = (await this.getMilestone(repository, milestone)).number;
+    } else {
+      result = milestone.number;
+    }
+    return result;
+  }
+
   public async getCommit(repository: string | Repository, commit: string): Promise<GitHubCommit | undefined> {
     const githubRepository: Repository = getRepository(repository);
     const githubArguments: Octokit.ReposGetCommitParams = {
@@ -1808,23 +4103,23 @@ export class RealGitHub implements GitHub {
     return result;
   }
 
-  public async getAllReferences(repository: string | Repository): Promise<GitHubReference[]> {
+  public async getAllReferences(repository: string | Repository, options: GitHubListOptions = {}): Promise<GitHubReference[]> {
     const githubRepository: Repository = getRepository(repository);
     const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).git.listRefs.endpoint.merge({
       owner: githubRepository.owner,
       repo: githubRepository.name,
     });
-    return await this.getAllPageData(repository, requestOptions);
+    return await this.getAllPageData(repository, requestOptions, options);
   }
 
-  public async getAllBranches(repository: string | Repository): Promise<GitHubBranch[]> {
+  public async getAllBranches(repository: string | Repository, options: GitHubListOptions = {}): Promise<GitHubBranch[]> {
     const githubRepository: Repository = getRepository(repository);
     const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).git.listRefs.endpoint.merge({
       owner: githubRepository.owner,
       repo: githubRepository.name,
       namespace: "heads/",
     });
-    const references: GitHubReference[] = await this.getAllPageData(repository, requestOptions);
+    const references: GitHubReference[] = await this.getAllPageData(repository, requestOptions, options);
     return referencesToBranches(references);
   }
 
@@ -1869,6 +4164,395 @@ export class RealGitHub implements GitHub {
     };
     return result;
   }
+
+  public async createCommitStatus(repository: string | Repository, sha: string, state: GitHubCommitStatusState, options: GitHubCreateCommitStatusOptions = {}): Promise<GitHubCommitStatus> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposCreateStatusParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      sha,
+      state,
+      context: options.context,
+      description: options.description,
+      target_url: options.targetUrl
+    };
+    const response = await (await this.getClient(repository)).repos.createStatus(githubArguments);
+    const result: GitHubCommitStatus = response.data as any;
+    return result;
+  }
+
+  public async getCombinedStatus(repository: string | Repository, ref: string): Promise<GitHubCombinedStatus> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposGetCombinedStatusForRefParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      ref
+    };
+    const response = await (await this.getClient(repository)).repos.getCombinedStatusForRef(githubArguments);
+    const result: GitHubCombinedStatus = response.data as any;
+    return result;
+  }
+
+  public async createCheckRun(repository: string | Repository, name: string, headSha: string, options: GitHubCreateCheckRunOptions = {}): Promise<GitHubCheckRun> {
+    const githubRepository: Repository = getRepository(repository);
+    const outputs: Octokit.ChecksCreateParamsOutput[] = getCheckRunOutputs(options.output);
+    const githubArguments: Octokit.ChecksCreateParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      name,
+      head_sha: headSha,
+      status: options.status,
+      conclusion: options.conclusion,
+      details_url: options.detailsUrl,
+      external_id: options.externalId,
+      started_at: toISOString(options.startedAt),
+      completed_at: toISOString(options.completedAt),
+      output: outputs[0]
+    };
+    const response = await (await this.getClient(repository)).checks.create(githubArguments);
+    const result: GitHubCheckRun = response.data as any;
+    return await this.addCheckRunOutputs(repository, result, outputs.slice(1));
+  }
+
+  public async updateCheckRun(repository: string | Repository, checkRun: number | GitHubCheckRun, options: GitHubUpdateCheckRunOptions): Promise<GitHubCheckRun> {
+    const githubRepository: Repository = getRepository(repository);
+    const outputs: Octokit.ChecksUpdateParamsOutput[] = getCheckRunOutputs(options.output);
+    const githubArguments: Octokit.ChecksUpdateParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      check_run_id: getCheckRunId(checkRun),
+      name: options.name,
+      status: options.status,
+      conclusion: options.conclusion,
+      details_url: options.detailsUrl,
+      external_id: options.externalId,
+      started_at: toISOString(options.startedAt),
+      completed_at: toISOString(options.completedAt),
+      output: outputs[0]
+    };
+    const response = await (await this.getClient(repository)).checks.update(githubArguments);
+    const result: GitHubCheckRun = response.data as any;
+    return await this.addCheckRunOutputs(repository, result, outputs.slice(1));
+  }
+
+  /**
+   * Send the outputs that didn't fit into the request that created or updated the provided check
+   * run.
+   */
+  private async addCheckRunOutputs(repository: string | Repository, checkRun: GitHubCheckRun, outputs: Octokit.ChecksUpdateParamsOutput[]): Promise<GitHubCheckRun> {
+    const githubRepository: Repository = getRepository(repository);
+    let result: GitHubCheckRun = checkRun;
+    for (const output of outputs) {
+      const response = await (await this.getClient(repository)).checks.update({
+        owner: githubRepository.owner,
+        repo: githubRepository.name,
+        check_run_id: checkRun.id,
+        output
+      });
+      result = response.data as any;
+    }
+    return result;
+  }
+
+  public async listCheckRuns(repository: string | Repository, ref: string, options: GitHubListCheckRunsOptions = {}): Promise<GitHubCheckRun[]> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ChecksListForRefParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      ref,
+      check_name: options.checkName,
+      status: options.status
+    };
+    const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).checks.listForRef.endpoint.merge(githubArguments);
+    return await this.getAllPageData(repository, requestOptions, options);
+  }
+
+  public async getReleases(repository: string | Repository, options: GitHubListOptions = {}): Promise<GitHubRelease[]> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposListReleasesParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name
+    };
+    const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).repos.listReleases.endpoint.merge(githubArguments);
+    return await this.getAllPageData(repository, requestOptions, options);
+  }
+
+  public async getReleaseByTag(repository: string | Repository, tagName: string): Promise<GitHubRelease> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposGetReleaseByTagParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      tag: tagName
+    };
+    const response = await (await this.getClient(repository)).repos.getReleaseByTag(githubArguments);
+    const result: GitHubRelease = response.data as any;
+    return result;
+  }
+
+  private async getRelease(repository: string | Repository, release: number | GitHubRelease): Promise<GitHubRelease> {
+    let result: GitHubRelease;
+    if (typeof release === "number") {
+      const githubRepository: Repository = getRepository(repository);
+      const githubArguments: Octokit.ReposGetReleaseParams = {
+        owner: githubRepository.owner,
+        repo: githubRepository.name,
+        release_id: release
+      };
+      const response = await (await this.getClient(repository)).repos.getRelease(githubArguments);
+      result = response.data as any;
+    } else {
+      result = release;
+    }
+    return result;
+  }
+
+  public async createRelease(repository: string | Repository, tagName: string, options: GitHubCreateReleaseOptions = {}): Promise<GitHubRelease> {
+    const githubRepository: Repository = getRepository(repository);
+    let body: string | undefined = options.body;
+    if (body == undefined && options.generateReleaseNotes) {
+      body = await getReleaseNotes(this, repository, tagName);
+    }
+    const githubArguments: Octokit.ReposCreateReleaseParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      tag_name: tagName,
+      name: options.name,
+      body,
+      target_commitish: options.targetCommitish,
+      draft: options.draft,
+      prerelease: options.prerelease
+    };
+    const response = await (await this.getClient(repository)).repos.createRelease(githubArguments);
+    const result: GitHubRelease = response.data as any;
+    return result;
+  }
+
+  public async updateRelease(repository: string | Repository, release: number | GitHubRelease, options: GitHubUpdateReleaseOptions): Promise<GitHubRelease> {
+    const githubRepository: Repository = getRepository(repository);
+    let body: string | undefined = options.body;
+    if (body == undefined && options.generateReleaseNotes) {
+      body = await getReleaseNotes(this, repository, options.tagName || (await this.getRelease(repository, release)).tag_name);
+    }
+    const githubArguments: Octokit.ReposUpdateReleaseParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      release_id: getReleaseId(release),
+      tag_name: options.tagName,
+      name: options.name,
+      body,
+      target_commitish: options.targetCommitish,
+      draft: options.draft,
+      prerelease: options.prerelease
+    };
+    const response = await (await this.getClient(repository)).repos.updateRelease(githubArguments);
+    const result: GitHubRelease = response.data as any;
+    return result;
+  }
+
+  public async deleteRelease(repository: string | Repository, release: number | GitHubRelease): Promise<unknown> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposDeleteReleaseParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      release_id: getReleaseId(release)
+    };
+    return (await this.getClient(repository)).repos.deleteRelease(githubArguments);
+  }
+
+  public async uploadReleaseAsset(repository: string | Repository, release: number | GitHubRelease, assetName: string, assetContents: Buffer | string, options: GitHubUploadReleaseAssetOptions = {}): Promise<GitHubReleaseAsset> {
+    const githubRelease: GitHubRelease = await this.getRelease(repository, release);
+    const githubArguments: Octokit.ReposUploadReleaseAssetParams = {
+      url: githubRelease.upload_url,
+      name: assetName,
+      label: options.label,
+      data: assetContents,
+      headers: {
+        "content-type": options.contentType || "application/octet-stream",
+        "content-length": typeof assetContents === "string" ? Buffer.byteLength(assetContents) : assetContents.length
+      }
+    };
+    const response = await (await this.getClient(repository)).repos.uploadReleaseAsset(githubArguments);
+    const result: GitHubReleaseAsset = response.data as any;
+    return result;
+  }
+
+  public async listReleaseAssets(repository: string | Repository, release: number | GitHubRelease, options: GitHubListOptions = {}): Promise<GitHubReleaseAsset[]> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposListAssetsForReleaseParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      release_id: getReleaseId(release)
+    };
+    const requestOptions: Octokit.RequestOptions = await (await this.getClient(repository)).repos.listAssetsForRelease.endpoint.merge(githubArguments);
+    return await this.getAllPageData(repository, requestOptions, options);
+  }
+
+  public async createOrUpdateFile(repository: string | Repository, path: string, content: string | Buffer, message: string, options: GitHubCreateOrUpdateFileOptions = {}): Promise<GitHubFileCommit> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposCreateOrUpdateFileParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      path,
+      message,
+      content: toBuffer(content).toString("base64"),
+      branch: options.branch,
+      sha: options.sha
+    };
+    const response = await (await this.getClient(repository)).repos.createOrUpdateFile(githubArguments);
+    const result: GitHubFileCommit = response.data as any;
+    return result;
+  }
+
+  public async deleteFile(repository: string | Repository, path: string, message: string, options: GitHubDeleteFileOptions): Promise<GitHubFileCommit> {
+    const githubRepository: Repository = getRepository(repository);
+    const githubArguments: Octokit.ReposDeleteFileParams = {
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      path,
+      message,
+      branch: options.branch,
+      sha: options.sha
+    };
+    const response = await (await this.getClient(repository)).repos.deleteFile(githubArguments);
+    return {
+      commit: response.data.commit as any,
+    };
+  }
+
+  public async commitFiles(repository: string | Repository, branchName: string, changes: GitHubFileChange[], message: string): Promise<GitHubGitCommit> {
+    const githubRepository: Repository = getRepository(repository);
+    const client: Octokit = await this.getClient(repository);
+    const branch: GitHubBranch = await this.getBranch(repository, branchName);
+    const parentCommitResponse = await client.git.getCommit({
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      commit_sha: branch.object.sha,
+    });
+
+    const existingModes: StringMap<GitHubFileMode> = {};
+    if (changes.some((change: GitHubFileChange) => change.mode == undefined)) {
+      const baseTreeResponse = await client.git.getTree({
+        owner: githubRepository.owner,
+        repo: githubRepository.name,
+        tree_sha: parentCommitResponse.data.tree.sha,
+        recursive: "1",
+      });
+      for (const treeItem of baseTreeResponse.data.tree) {
+        existingModes[treeItem.path] = treeItem.mode as GitHubFileMode;
+      }
+    }
+
+    const tree: GitHubCreateTreeEntry[] = [];
+    for (const change of changes) {
+      let blobSha: string | null;
+      if (change.content != undefined) {
+        const blobResponse = await client.git.createBlob({
+          owner: githubRepository.owner,
+          repo: githubRepository.name,
+          content: toBuffer(change.content).toString("base64"),
+          encoding: "base64",
+        });
+        blobSha = blobResponse.data.sha;
+      } else {
+        blobSha = deletedTreeEntrySha;
+      }
+      tree.push({
+        path: change.path,
+        mode: change.mode || existingModes[change.path] || "100644",
+        type: "blob",
+        sha: blobSha,
+      });
+    }
+    const treeResponse = await client.git.createTree({
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      base_tree: parentCommitResponse.data.tree.sha,
+      tree: tree as Octokit.GitCreateTreeParamsTree[],
+    });
+
+    const commitResponse = await client.git.createCommit({
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      message,
+      tree: treeResponse.data.sha,
+      parents: [branch.object.sha],
+    });
+    const result: GitHubGitCommit = commitResponse.data as any;
+
+    await client.git.updateRef({
+      owner: githubRepository.owner,
+      repo: githubRepository.name,
+      ref: `heads/${branchName}`,
+      sha: result.sha,
+    });
+    return result;
+  }
+}
+
+function getUserLogins(users: (string | GitHubUser)[] | undefined): string[] | undefined {
+  return users && map(users, (user: string | GitHubUser) => typeof user === "string" ? user : user.login);
+}
+
+/**
+ * The maximum number of annotations that GitHub accepts in a single check run request.
+ */
+const maximumAnnotationsPerCheckRunRequest = 50;
+
+/**
+ * Convert the provided check run output into the outputs that are sent to GitHub. Annotations are
+ * split across as many outputs as are needed to stay within GitHub's limit per request.
+ */
+function getCheckRunOutputs(output: GitHubCheckRunOutput | undefined): Octokit.ChecksCreateParamsOutput[] {
+  const result: Octokit.ChecksCreateParamsOutput[] = [];
+  if (output) {
+    const annotations: Octokit.ChecksCreateParamsOutputAnnotations[] = map(output.annotations || [], (annotation: GitHubCheckRunAnnotation) => ({
+      path: annotation.path,
+      start_line: annotation.startLine,
+      end_line: annotation.endLine || annotation.startLine,
+      annotation_level: annotation.level,
+      message: annotation.message,
+      title: annotation.title
+    }));
+    let annotationIndex = 0;
+    do {
+      result.push({
+        title: output.title,
+        summary: output.summary,
+        text: output.text,
+        annotations: annotations.slice(annotationIndex, annotationIndex + maximumAnnotationsPerCheckRunRequest)
+      });
+      annotationIndex += maximumAnnotationsPerCheckRunRequest;
+    } while (annotationIndex < annotations.length);
+  }
+  return result;
+}
+
+/**
+ * Get whether or not the provided error was thrown because the GitHub API rate limit was used up.
+ */
+function isRateLimitError(error: any): boolean {
+  const headers: StringMap<string | number | undefined> | undefined = error.response && error.response.headers;
+  return (error.status === 403 || error.status === 429) && !!headers && Number(headers["x-ratelimit-remaining"]) === 0;
+}
+
+/**
+ * An entry of a tree that is created through the Git database API. Octokit's types don't allow a
+ * null SHA, but an entry with a null SHA is how a file is removed from the tree.
+ */
+type GitHubCreateTreeEntry = Omit<Octokit.GitCreateTreeParamsTree, "sha"> & { sha: string | null };
+
+/**
+ * The SHA of a tree entry that removes the file at the entry's path from the tree.
+ */
+// tslint:disable-next-line:no-null-keyword
+const deletedTreeEntrySha: null = null;
+
+function toBuffer(content: string | Buffer): Buffer {
+  return typeof content === "string" ? Buffer.from(content) : content;
+}
+
+function toISOString(date: Date | string | undefined): string | undefined {
+  return date == undefined ? undefined : new Date(date).toISOString();
 }
 
 function referencesToBranches(references: GitHubReference[]): GitHubBranch[] {
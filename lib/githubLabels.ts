@@ -0,0 +1,391 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for
+ * license information.
+ */
+
+import { Logger } from "@azure/logger-js";
+import * as jsYaml from "js-yaml";
+import { contains, removeFirst } from "./arrays";
+import { getArgument, getBooleanArgument } from "./commandLine";
+import { readFileContents } from "./fileSystem2";
+import { getRepositoryFullName, GitHub, GitHubLabel, RealGitHub, Repository } from "./github";
+import { getDefaultLogger } from "./logger";
+
+/**
+ * The expected state of a single label.
+ */
+export interface GitHubLabelDefinition {
+  /**
+   * The name of the label.
+   */
+  name: string;
+  /**
+   * The 6 digit hexadecimal color of the label. A leading "#" is allowed.
+   */
+  color: string;
+  /**
+   * The description of the label. If this is undefined, then an existing label's description won't
+   * be changed.
+   */
+  description?: string;
+  /**
+   * The previous names of the label. If a repository doesn't have a label with this label's name
+   * but does have a label with one of these names, then that label will be renamed.
+   */
+  aliases?: string[];
+}
+
+/**
+ * The labels that a set of repositories should have.
+ */
+export interface GitHubLabelManifest {
+  /**
+   * The repositories that the labels should be synchronized in, such as
+   * "ts-common/azure-js-dev-tools".
+   */
+  repositories?: string[];
+  /**
+   * The labels that each repository should have.
+   */
+  labels: GitHubLabelDefinition[];
+  /**
+   * Whether or not labels that aren't in this manifest will be deleted. Defaults to false.
+   */
+  deleteUnlistedLabels?: boolean;
+}
+
+/**
+ * The types of changes that can be made to a label.
+ */
+export type GitHubLabelChangeType = "create" | "update" | "rename" | "delete";
+
+/**
+ * A change that needs to be made to a repository's labels so that they match a label manifest.
+ */
+export interface GitHubLabelChange {
+  type: GitHubLabelChangeType;
+  /**
+   * The name of the label before the change, or the name of the label to create.
+   */
+  labelName: string;
+  /**
+   * The new name of a renamed label.
+   */
+  newName?: string;
+  /**
+   * The new color of the label. This is undefined if the color doesn't change.
+   */
+  color?: string;
+  /**
+   * The new description of the label. This is undefined if the description doesn't change.
+   */
+  description?: string;
+}
+
+/**
+ * Optional parameters that can be provided to the syncGitHubLabels() function.
+ */
+export interface SyncGitHubLabelsOptions {
+  /**
+   * Whether or not to only log the changes that would be made instead of making them. Defaults to
+   * false.
+   */
+  dryRun?: boolean;
+  /**
+   * The Logger to use. If no Logger is specified, then a default Logger will be used instead.
+   */
+  logger?: Logger;
+}
+
+/**
+ * Optional parameters that can be provided to the syncGitHubLabelsCommand() function. Each
+ * parameter that isn't provided is read from the command line arguments instead.
+ */
+export interface SyncGitHubLabelsCommandOptions extends SyncGitHubLabelsOptions {
+  /**
+   * The path to the label manifest file. Defaults to the --manifest argument.
+   */
+  manifestFilePath?: string;
+  /**
+   * The repositories to synchronize the labels in. Defaults to the manifest's repositories.
+   */
+  repositories?: string[];
+  /**
+   * The GitHub to synchronize the labels with. Defaults to RealGitHub.fromArguments().
+   */
+  github?: GitHub;
+}
+
+/**
+ * Parse the provided YAML or JSON text into a label manifest.
+ * @param text The YAML or JSON text of the label manifest.
+ */
+export function parseGitHubLabelManifest(text: string): GitHubLabelManifest {
+  const manifest: any = jsYaml.safeLoad(text);
+  if (!manifest || typeof manifest !== "object" || !Array.isArray(manifest.labels)) {
+    throw new Error(`A label manifest must have a "labels" array.`);
+  }
+  if (manifest.repositories != undefined && (!Array.isArray(manifest.repositories) || !manifest.repositories.every((repository: unknown) => typeof repository === "string"))) {
+    throw new Error(`The "repositories" property of a label manifest must be an array of strings.`);
+  }
+
+  const labelNames: string[] = [];
+  const labels: GitHubLabelDefinition[] = manifest.labels.map((label: any, index: number) => {
+    if (!label || typeof label.name !== "string" || !label.name) {
+      throw new Error(`Label ${index} in the label manifest must have a "name".`);
+    }
+    const aliases: unknown[] = label.aliases == undefined ? [] : label.aliases;
+    if (!Array.isArray(aliases) || !aliases.every((alias: unknown) => typeof alias === "string")) {
+      throw new Error(`The "aliases" property of the label "${label.name}" must be an array of strings.`);
+    }
+    for (const name of [label.name, ...aliases]) {
+      if (contains(labelNames, (labelName: string) => equalsIgnoreCase(labelName, name))) {
+        throw new Error(`The label name "${name}" appears more than once in the label manifest.`);
+      }
+      labelNames.push(name);
+    }
+    return {
+      name: label.name,
+      color: getLabelColor(label),
+      description: label.description == undefined ? undefined : String(label.description),
+      aliases: label.aliases,
+    };
+  });
+
+  return {
+    repositories: manifest.repositories,
+    labels,
+    deleteUnlistedLabels: !!manifest.deleteUnlistedLabels,
+  };
+}
+
+/**
+ * Read and parse the YAML or JSON label manifest file at the provided path.
+ * @param manifestFilePath The path to the label manifest file.
+ */
+export async function readGitHubLabelManifest(manifestFilePath: string): Promise<GitHubLabelManifest> {
+  const text: string | undefined = await readFileContents(manifestFilePath);
+  if (text == undefined) {
+    throw new Error(`No label manifest file exists at "${manifestFilePath}".`);
+  }
+  return parseGitHubLabelManifest(text);
+}
+
+/**
+ * Get the changes that need to be made to the provided labels so that they match the provided
+ * manifest. Label names are compared case-insensitively, like GitHub does. A label that has the
+ * same name as a label in the manifest is never renamed to match a different label's alias.
+ * @param manifest The labels that should exist.
+ * @param labels The labels that currently exist.
+ */
+export function getGitHubLabelChanges(manifest: GitHubLabelManifest, labels: GitHubLabel[]): GitHubLabelChange[] {
+  const unmatchedLabels: GitHubLabel[] = labels.slice();
+  const matchedLabels: (GitHubLabel | undefined)[] = manifest.labels.map((definition: GitHubLabelDefinition) =>
+    removeFirst(unmatchedLabels, (label: GitHubLabel) => equalsIgnoreCase(label.name, definition.name)));
+
+  const result: GitHubLabelChange[] = [];
+  manifest.labels.forEach((definition: GitHubLabelDefinition, index: number) => {
+    const color: string = getLabelColor(definition);
+    const label: GitHubLabel | undefined = matchedLabels[index] || removeFirst(unmatchedLabels, (unmatchedLabel: GitHubLabel) =>
+      contains(definition.aliases || [], (alias: string) => equalsIgnoreCase(alias, unmatchedLabel.name)));
+    if (!label) {
+      result.push({
+        type: "create",
+        labelName: definition.name,
+        color,
+        description: definition.description,
+      });
+    } else {
+      const change: GitHubLabelChange = {
+        type: label.name === definition.name ? "update" : "rename",
+        labelName: label.name,
+      };
+      if (label.name !== definition.name) {
+        change.newName = definition.name;
+      }
+      if (label.color.toLowerCase() !== color) {
+        change.color = color;
+      }
+      if (definition.description != undefined && definition.description !== (label.description || "")) {
+        change.description = definition.description;
+      }
+      if (change.newName != undefined || change.color != undefined || change.description != undefined) {
+        result.push(change);
+      }
+    }
+  });
+
+  if (manifest.deleteUnlistedLabels) {
+    for (const label of unmatchedLabels) {
+      result.push({
+        type: "delete",
+        labelName: label.name,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get a human-readable description of the provided label change.
+ * @param change The label change to describe.
+ */
+export function describeGitHubLabelChange(change: GitHubLabelChange): string {
+  let result: string;
+  switch (change.type) {
+    case "create":
+      result = `Create label "${change.labelName}"`;
+      break;
+
+    case "update":
+      result = `Update label "${change.labelName}"`;
+      break;
+
+    case "rename":
+      result = `Rename label "${change.labelName}" to "${change.newName}"`;
+      break;
+
+    case "delete":
+      result = `Delete label "${change.labelName}"`;
+      break;
+  }
+  const properties: string[] = [];
+  if (change.color != undefined) {
+    properties.push(`color "${change.color}"`);
+  }
+  if (change.description != undefined) {
+    properties.push(`description "${change.description}"`);
+  }
+  if (properties.length > 0) {
+    result += ` with ${properties.join(" and ")}`;
+  }
+  return result + ".";
+}
+
+/**
+ * Make the labels in the provided repository match the provided manifest.
+ * @param github The GitHub to read and change the labels with.
+ * @param repository The repository to synchronize the labels in.
+ * @param manifest The labels that the repository should have.
+ * @param options The optional parameters that determine whether the changes will be made.
+ * @returns The changes that were made, or that would have been made for a dry run.
+ */
+export async function syncGitHubLabels(github: GitHub, repository: string | Repository, manifest: GitHubLabelManifest, options: SyncGitHubLabelsOptions = {}): Promise<GitHubLabelChange[]> {
+  const logger: Logger = options.logger || getDefaultLogger();
+  const repositoryFullName: string = getRepositoryFullName(repository);
+
+  logger.logSection(`Synchronizing labels in "${repositoryFullName}"${options.dryRun ? " (dry run)" : ""}...`);
+  const changes: GitHubLabelChange[] = getGitHubLabelChanges(manifest, await github.getLabels(repository));
+  if (changes.length === 0) {
+    logger.logInfo(`The labels in "${repositoryFullName}" already match the manifest.`);
+  }
+  for (const change of changes) {
+    logger.logInfo(`${options.dryRun ? "[dry run] " : ""}${describeGitHubLabelChange(change)}`);
+    if (!options.dryRun) {
+      switch (change.type) {
+        case "create":
+          await github.createLabel(repository, change.labelName, change.color!, { description: change.description });
+          break;
+
+        case "update":
+          if (change.description == undefined) {
+            await github.updateLabelColor(repository, change.labelName, change.color!);
+          } else {
+            await github.updateLabel(repository, change.labelName, { color: change.color, description: change.description });
+          }
+          break;
+
+        case "rename":
+          await github.updateLabel(repository, change.labelName, { name: change.newName, color: change.color, description: change.description });
+          break;
+
+        case "delete":
+          await github.deleteLabel(repository, change.labelName);
+          break;
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Synchronize the labels in each of the manifest's repositories with the manifest. This is meant
+ * to be run from the command line with a --manifest argument and an optional --dry-run argument.
+ * @param options The optional parameters that override the command line arguments.
+ * @returns The exit code for this function. Zero will be returned if the labels in every
+ * repository were synchronized.
+ */
+export async function syncGitHubLabelsCommand(options: SyncGitHubLabelsCommandOptions = {}): Promise<number> {
+  const logger: Logger = options.logger || getDefaultLogger();
+  const dryRun: boolean = options.dryRun != undefined ? options.dryRun : !!getBooleanArgument("dry-run");
+
+  let exitCode = 0;
+  const manifestFilePath: string | undefined = options.manifestFilePath || getArgument("manifest");
+  if (!manifestFilePath) {
+    logger.logError(`No label manifest file was provided. Provide one with the --manifest argument.`);
+    exitCode = 1;
+  } else {
+    let manifest: GitHubLabelManifest | undefined;
+    try {
+      manifest = await readGitHubLabelManifest(manifestFilePath);
+    } catch (error) {
+      logger.logError(error.message);
+      exitCode = 1;
+    }
+
+    if (manifest) {
+      const repositories: string[] = options.repositories || manifest.repositories || [];
+      if (repositories.length === 0) {
+        logger.logError(`No repositories were provided to synchronize the labels in.`);
+        exitCode = 1;
+      } else {
+        let github: GitHub | undefined = options.github;
+        if (!github) {
+          try {
+            github = RealGitHub.fromArguments();
+          } catch (error) {
+            logger.logError(error.message);
+            exitCode = 1;
+          }
+        }
+        if (github) {
+          for (const repository of repositories) {
+            try {
+              await syncGitHubLabels(github, repository, manifest, { dryRun, logger });
+            } catch (error) {
+              logger.logError(`Failed to synchronize the labels in "${repository}": ${error.message}`);
+              exitCode = 1;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  process.exitCode = exitCode;
+
+  return exitCode;
+}
+
+function getLabelColor(label: { name: string, color: unknown }): string {
+  if (typeof label.color === "number") {
+    // YAML reads an unquoted color such as 123456 as a number. Leading zeros (and the digits of
+    // colors such as 010101, which are read as octal) can't be recovered from the number, so only
+    // a number with exactly 6 digits is accepted.
+    if (!/^[0-9]{6}$/.test(String(label.color))) {
+      throw new Error(`The color of the label "${label.name}" must be a 6 digit hexadecimal color, but was the number ${label.color}. Put quotes around the color so that it is read as a string.`);
+    }
+    return String(label.color);
+  }
+  const color: string = typeof label.color === "string" ? label.color.replace(/^#/, "").toLowerCase() : "";
+  if (!/^[0-9a-f]{6}$/.test(color)) {
+    throw new Error(`The color of the label "${label.name}" must be a 6 digit hexadecimal color, but was ${JSON.stringify(label.color)}.`);
+  }
+  return color;
+}
+
+function equalsIgnoreCase(lhs: string, rhs: string): boolean {
+  return lhs.toLowerCase() === rhs.toLowerCase();
+}
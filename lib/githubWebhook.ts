@@ -0,0 +1,367 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for
+ * license information.
+ */
+
+import * as crypto from "crypto";
+import { StringMap } from "./common";
+import { GitHub, GitHubCheckRun, GitHubComment, GitHubIssue, GitHubLabel, GitHubMilestone, GitHubPullRequest, GitHubPullRequestWebhookBody, GitHubReview, GitHubUser } from "./github";
+
+/**
+ * The repository that a webhook request was sent for.
+ */
+export interface GitHubWebhookRepository {
+  id: number;
+  node_id: string;
+  /**
+   * The name of the repository without its owner.
+   */
+  name: string;
+  /**
+   * The name of the repository with its owner, such as "ts-common/azure-js-dev-tools".
+   */
+  full_name: string;
+  owner: GitHubUser;
+  private: boolean;
+  html_url: string;
+  default_branch: string;
+}
+
+/**
+ * The properties that every webhook payload has.
+ */
+export interface GitHubWebhookPayload {
+  /**
+   * The repository that the webhook request was sent for.
+   */
+  repository: GitHubWebhookRepository;
+  /**
+   * The user that caused the webhook request to be sent.
+   */
+  sender: GitHubUser;
+  /**
+   * The GitHub App installation that the webhook request was sent to.
+   */
+  installation?: {
+    id: number;
+  };
+}
+
+/**
+ * The payload of a pull_request webhook request.
+ */
+export interface GitHubPullRequestWebhookPayload extends GitHubWebhookPayload, GitHubPullRequestWebhookBody {
+  /**
+   * The label that was added or removed for "labeled" and "unlabeled" actions.
+   */
+  label?: GitHubLabel;
+  /**
+   * The user that was assigned or unassigned for "assigned" and "unassigned" actions.
+   */
+  assignee?: GitHubUser;
+  /**
+   * The user whose review was requested or unrequested for "review_requested" and
+   * "review_request_removed" actions.
+   */
+  requested_reviewer?: GitHubUser;
+}
+
+/**
+ * The payload of an issues webhook request.
+ */
+export interface GitHubIssuesWebhookPayload extends GitHubWebhookPayload {
+  action: "opened" | "edited" | "deleted" | "transferred" | "pinned" | "unpinned" | "closed" | "reopened" | "assigned" | "unassigned" | "labeled" | "unlabeled" | "locked" | "unlocked" | "milestoned" | "demilestoned";
+  issue: GitHubIssue;
+  /**
+   * The label that was added or removed for "labeled" and "unlabeled" actions.
+   */
+  label?: GitHubLabel;
+  /**
+   * The user that was assigned or unassigned for "assigned" and "unassigned" actions.
+   */
+  assignee?: GitHubUser;
+  /**
+   * The milestone that was added or removed for "milestoned" and "demilestoned" actions.
+   */
+  milestone?: GitHubMilestone;
+}
+
+/**
+ * The payload of an issue_comment webhook request. These requests are sent for comments on both
+ * issues and pull requests.
+ */
+export interface GitHubIssueCommentWebhookPayload extends GitHubWebhookPayload {
+  action: "created" | "edited" | "deleted";
+  /**
+   * The issue that was commented on. If the comment is on a pull request, then issue.pull_request
+   * will be defined.
+   */
+  issue: GitHubIssue;
+  comment: GitHubComment;
+}
+
+/**
+ * A commit that was pushed.
+ */
+export interface GitHubPushWebhookCommit {
+  /**
+   * The SHA of the commit.
+   */
+  id: string;
+  message: string;
+  timestamp: string;
+  url: string;
+  author: {
+    name: string;
+    email: string;
+    username?: string;
+  };
+  /**
+   * The paths of the files that the commit added.
+   */
+  added: string[];
+  /**
+   * The paths of the files that the commit removed.
+   */
+  removed: string[];
+  /**
+   * The paths of the files that the commit modified.
+   */
+  modified: string[];
+}
+
+/**
+ * The payload of a push webhook request.
+ */
+export interface GitHubPushWebhookPayload extends GitHubWebhookPayload {
+  /**
+   * The full name of the ref that was pushed, such as "refs/heads/master".
+   */
+  ref: string;
+  /**
+   * The SHA that the ref pointed at before the push. This is all zeros if the ref was created.
+   */
+  before: string;
+  /**
+   * The SHA that the ref points at after the push. This is all zeros if the ref was deleted.
+   */
+  after: string;
+  created: boolean;
+  deleted: boolean;
+  forced: boolean;
+  /**
+   * The URL that compares the before and after commits.
+   */
+  compare: string;
+  /**
+   * The commits that were pushed, oldest first.
+   */
+  commits: GitHubPushWebhookCommit[];
+  head_commit?: GitHubPushWebhookCommit;
+  pusher: {
+    name: string;
+    email?: string;
+  };
+}
+
+/**
+ * The payload of a check_run webhook request.
+ */
+export interface GitHubCheckRunWebhookPayload extends GitHubWebhookPayload {
+  action: "created" | "completed" | "rerequested" | "requested_action";
+  check_run: GitHubCheckRun;
+}
+
+/**
+ * The payload of a pull_request_review webhook request.
+ */
+export interface GitHubPullRequestReviewWebhookPayload extends GitHubWebhookPayload {
+  action: "submitted" | "edited" | "dismissed";
+  review: GitHubReview;
+  pull_request: GitHubPullRequest;
+}
+
+/**
+ * The payload types of the webhook events that can be parsed, keyed by event name.
+ */
+export interface GitHubWebhookPayloads {
+  pull_request: GitHubPullRequestWebhookPayload;
+  issues: GitHubIssuesWebhookPayload;
+  issue_comment: GitHubIssueCommentWebhookPayload;
+  push: GitHubPushWebhookPayload;
+  check_run: GitHubCheckRunWebhookPayload;
+  pull_request_review: GitHubPullRequestReviewWebhookPayload;
+}
+
+/**
+ * The names of the webhook events that can be parsed.
+ */
+export type GitHubWebhookEventName = keyof GitHubWebhookPayloads;
+
+/**
+ * A webhook event that was parsed from a webhook request.
+ */
+export interface GitHubWebhookEvent<TEventName extends GitHubWebhookEventName = GitHubWebhookEventName> {
+  /**
+   * The name of the event from the X-GitHub-Event header.
+   */
+  name: TEventName;
+  /**
+   * The unique identifier of the delivery from the X-GitHub-Delivery header.
+   */
+  deliveryId?: string;
+  payload: GitHubWebhookPayloads[TEventName];
+}
+
+/**
+ * The headers of a webhook request. Header names are matched case-insensitively.
+ */
+export type GitHubWebhookHeaders = StringMap<string | string[] | undefined>;
+
+/**
+ * Optional parameters that can be provided when parsing a webhook request.
+ */
+export interface ParseGitHubWebhookEventOptions {
+  /**
+   * The secret that the webhook was configured with. If this is provided, then the request's
+   * X-Hub-Signature-256 header must match the request's body.
+   */
+  secret?: string;
+}
+
+/**
+ * A function that handles a webhook event.
+ */
+export type GitHubWebhookHandler<TEventName extends GitHubWebhookEventName = GitHubWebhookEventName> = (event: GitHubWebhookEvent<TEventName>, github: GitHub) => unknown;
+
+const webhookEventNames: GitHubWebhookEventName[] = ["pull_request", "issues", "issue_comment", "push", "check_run", "pull_request_review"];
+
+/**
+ * Get the X-Hub-Signature-256 header value that GitHub sends for the provided body and secret.
+ * @param body The body of the webhook request.
+ * @param secret The secret that the webhook was configured with.
+ */
+export function getGitHubWebhookSignature(body: string | Buffer, secret: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Get whether or not the provided X-Hub-Signature-256 header value was created from the provided
+ * body and secret. The signatures are compared in constant time.
+ * @param body The body of the webhook request.
+ * @param signature The value of the webhook request's X-Hub-Signature-256 header.
+ * @param secret The secret that the webhook was configured with.
+ */
+export function verifyGitHubWebhookSignature(body: string | Buffer, signature: string | undefined, secret: string): boolean {
+  let result = false;
+  if (signature) {
+    const expectedSignature: Buffer = Buffer.from(getGitHubWebhookSignature(body, secret));
+    const actualSignature: Buffer = Buffer.from(signature);
+    result = expectedSignature.length === actualSignature.length && crypto.timingSafeEqual(expectedSignature, actualSignature);
+  }
+  return result;
+}
+
+/**
+ * Parse the provided webhook request into a typed event. If the request is for an event that
+ * can't be parsed (such as "ping"), then undefined will be returned.
+ * @param headers The headers of the webhook request.
+ * @param body The unparsed body of the webhook request.
+ * @param options The optional parameters that determine how the request will be verified.
+ */
+export function parseGitHubWebhookEvent(headers: GitHubWebhookHeaders, body: string | Buffer, options: ParseGitHubWebhookEventOptions = {}): GitHubWebhookEvent | undefined {
+  const eventName: string | undefined = getHeader(headers, "X-GitHub-Event");
+  if (!eventName) {
+    throw new Error(`The webhook request doesn't have an X-GitHub-Event header.`);
+  }
+  if (options.secret != undefined && !verifyGitHubWebhookSignature(body, getHeader(headers, "X-Hub-Signature-256"), options.secret)) {
+    throw new Error(`The webhook request's X-Hub-Signature-256 header doesn't match its body.`);
+  }
+
+  let result: GitHubWebhookEvent | undefined;
+  if (webhookEventNames.indexOf(eventName as GitHubWebhookEventName) !== -1) {
+    let payload: any;
+    try {
+      payload = JSON.parse(body.toString());
+    } catch (error) {
+      throw new Error(`The body of the ${eventName} webhook request isn't valid JSON: ${error.message}`);
+    }
+    result = {
+      name: eventName as GitHubWebhookEventName,
+      deliveryId: getHeader(headers, "X-GitHub-Delivery"),
+      payload,
+    };
+  }
+  return result;
+}
+
+function getHeader(headers: GitHubWebhookHeaders, headerName: string): string | undefined {
+  let result: string | undefined;
+  const lowerHeaderName: string = headerName.toLowerCase();
+  for (const name of Object.keys(headers)) {
+    if (name.toLowerCase() === lowerHeaderName) {
+      const value: string | string[] | undefined = headers[name];
+      result = Array.isArray(value) ? value[0] : value;
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * An object that parses webhook requests and dispatches the resulting events to the handlers that
+ * were registered for them.
+ */
+export class GitHubWebhookRouter {
+  private readonly handlers: StringMap<GitHubWebhookHandler<any>[]> = {};
+
+  /**
+   * Create a new GitHubWebhookRouter.
+   * @param github The GitHub that will be passed to each handler.
+   * @param options The optional parameters that determine how requests will be verified.
+   */
+  constructor(private readonly github: GitHub, private readonly options: ParseGitHubWebhookEventOptions = {}) {
+  }
+
+  /**
+   * Register a handler for the events with the provided name.
+   * @param eventName The name of the events to handle.
+   * @param handler The function that will handle the events.
+   */
+  public on<TEventName extends GitHubWebhookEventName>(eventName: TEventName, handler: GitHubWebhookHandler<TEventName>): this {
+    if (!this.handlers[eventName]) {
+      this.handlers[eventName] = [];
+    }
+    this.handlers[eventName].push(handler);
+    return this;
+  }
+
+  /**
+   * Run each of the handlers that are registered for the provided event in the order that they
+   * were registered.
+   * @param event The event to dispatch.
+   * @returns The number of handlers that were run.
+   */
+  public async dispatch(event: GitHubWebhookEvent): Promise<number> {
+    const handlers: GitHubWebhookHandler<any>[] = this.handlers[event.name] || [];
+    for (const handler of handlers) {
+      await Promise.resolve(handler(event, this.github));
+    }
+    return handlers.length;
+  }
+
+  /**
+   * Parse the provided webhook request and dispatch the resulting event to its handlers.
+   * @param headers The headers of the webhook request.
+   * @param body The unparsed body of the webhook request.
+   * @returns The parsed event, or undefined if the request is for an event that can't be parsed.
+   */
+  public async handle(headers: GitHubWebhookHeaders, body: string | Buffer): Promise<GitHubWebhookEvent | undefined> {
+    const event: GitHubWebhookEvent | undefined = parseGitHubWebhookEvent(headers, body, this.options);
+    if (event) {
+      await this.dispatch(event);
+    }
+    return event;
+  }
+}
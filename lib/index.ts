@@ -8,11 +8,13 @@ export * from "./arrays";
 export * from "./assertEx";
 export * from "./autorest";
 export * from "./blobStorage";
+export * from "./changelog";
 export * from "./checkEverything";
 export * from "./checkFileContains";
 export * from "./checkForOnlyCalls";
 export * from "./checkForSkipCalls";
 export * from "./checkPackageJsonVersion";
+export * from "./clock";
 export * from "./commandLine";
 export { endsWith, getLines, main, padLeft, readEntireString, replaceAll, startsWith, StringMap } from "./common";
 export * from "./compressor";
@@ -20,7 +22,11 @@ export * from "./dependencies";
 export * from "./duration";
 export * from "./fileSystem2";
 export * from "./git";
+export * from "./gitHooks";
+export * from "./gitWatcher";
 export * from "./github";
+export * from "./githubLabels";
+export * from "./githubWebhook";
 export * from "./htmlBuilder";
 export * from "./http";
 export * from "./mvn";
@@ -30,6 +36,7 @@ export * from "./packageJson";
 export * from "./path";
 export * from "./retry";
 export * from "./run";
+export * from "./sprintPlanning";
 export * from "./textBuilder";
 export * from "./url";
 export * from "./version";
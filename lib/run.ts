@@ -276,6 +276,13 @@ export class RealRunner implements Runner {
       env: options.environmentVariables || process.env
     });
 
+    if (options.input != undefined && childProcess.stdin) {
+      // The process may exit without reading all of its input. When that happens, the process's
+      // exit code and error stream will describe the failure, so the write error can be ignored.
+      childProcess.stdin.on("error", () => {});
+      childProcess.stdin.end(options.input);
+    }
+
     const stdoutCaptured = captureProcessOutput(childProcess.stdout, options.captureOutput, options.capturePrefix);
     const stderrCaptured = captureProcessOutput(childProcess.stderr, options.captureError, options.capturePrefix);
 
@@ -474,6 +481,11 @@ export interface RunOptions {
    * Throw on non-zero exit code
    */
   throwOnError?: boolean;
+  /**
+   * Text that will be written to the command's input stream. If this is undefined, then the
+   * command will inherit the parent process's input stream.
+   */
+  input?: string;
 }
 
 /**
@@ -548,7 +560,7 @@ export async function logResult(result: RunResult, options: RunOptions | undefin
 
 export function getChildProcessStdio(options: RunOptions): StdioOptions {
   return [
-    "inherit",
+    options.input == undefined ? "inherit" : "pipe",
     options.captureOutput === false ? "ignore" : "pipe",
     options.captureError === false ? "ignore" : "pipe"
   ];
@@ -0,0 +1,404 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for
+ * license information.
+ */
+
+import { Logger } from "@azure/logger-js";
+import * as jsYaml from "js-yaml";
+import { first } from "./arrays";
+import { Clock, RealClock } from "./clock";
+import { getArgument, getBooleanArgument } from "./commandLine";
+import { readFileContents } from "./fileSystem2";
+import { getSprintMilestoneName, GitHub, GitHubSprintLabel, GitHubSprintMilestone, RealGitHub } from "./github";
+import { getDefaultLogger } from "./logger";
+
+/**
+ * The end date that a sprint's milestone should have.
+ */
+export interface SprintPlanningMilestone {
+  sprint: number;
+  /**
+   * The last day of the sprint, such as "2019-02-04".
+   */
+  endDate: string;
+}
+
+/**
+ * The sprint labels and milestones that a set of repositories should have.
+ */
+export interface SprintPlanningConfig {
+  /**
+   * The repositories to plan the sprints in, such as "ts-common/azure-js-dev-tools".
+   */
+  repositories: string[];
+  /**
+   * The colors that each sprint's Unplanned, Planned, and Started labels should have. A label whose
+   * color isn't provided won't be checked.
+   */
+  sprintLabels?: GitHubSprintLabel[];
+  /**
+   * The end dates that each sprint's milestone should have.
+   */
+  sprintMilestones?: SprintPlanningMilestone[];
+}
+
+/**
+ * A sprint label that needs to be created or whose color needs to be changed.
+ */
+export interface SprintPlanLabel {
+  labelName: string;
+  /**
+   * The color that the label should have.
+   */
+  color: string;
+  /**
+   * The color that the label has now. This is undefined if the label doesn't exist.
+   */
+  actualColor?: string;
+}
+
+/**
+ * A sprint milestone that needs to be created or whose end date needs to be changed.
+ */
+export interface SprintPlanMilestone {
+  sprint: number;
+  /**
+   * The number of the existing milestone. This is undefined if the milestone doesn't exist.
+   */
+  milestoneNumber?: number;
+  /**
+   * The end date that the milestone should have.
+   */
+  endDate: string;
+  /**
+   * The end date that the milestone has now. This is undefined if the milestone doesn't exist.
+   */
+  actualEndDate?: string;
+}
+
+/**
+ * A sprint milestone that should be closed because it is past its end date and it has no open
+ * issues.
+ */
+export interface SprintPlanMilestoneClosure {
+  sprint: number;
+  /**
+   * The number of the milestone to close. This is undefined if the milestone will be created by
+   * the same plan.
+   */
+  milestoneNumber?: number;
+}
+
+/**
+ * The changes that need to be made to a repository's sprint labels and milestones so that they
+ * match a sprint planning config.
+ */
+export interface SprintRepositoryPlan {
+  repository: string;
+  missingLabels: SprintPlanLabel[];
+  wrongLabelColors: SprintPlanLabel[];
+  missingMilestones: SprintPlanMilestone[];
+  wrongMilestoneEndDates: SprintPlanMilestone[];
+  milestonesToClose: SprintPlanMilestoneClosure[];
+  /**
+   * The problems that can't be fixed automatically, such as a milestone that is past its end date
+   * but still has open issues.
+   */
+  problems: string[];
+}
+
+/**
+ * The changes that need to be made to each repository's sprint labels and milestones.
+ */
+export interface SprintPlan {
+  repositories: SprintRepositoryPlan[];
+}
+
+/**
+ * Optional parameters that can be provided to the planSprints() function.
+ */
+export interface PlanSprintsOptions {
+  /**
+   * The clock that determines which milestones are past their end date. Defaults to a RealClock.
+   */
+  clock?: Clock;
+}
+
+/**
+ * Optional parameters that can be provided to the applySprintPlan() function.
+ */
+export interface ApplySprintPlanOptions {
+  /**
+   * Whether or not to only log the changes that would be made instead of making them. Defaults to
+   * false.
+   */
+  dryRun?: boolean;
+  /**
+   * The Logger to use. If no Logger is specified, then a default Logger will be used instead.
+   */
+  logger?: Logger;
+}
+
+/**
+ * Optional parameters that can be provided to the planSprintsCommand() function. Each parameter
+ * that isn't provided is read from the command line arguments instead.
+ */
+export interface PlanSprintsCommandOptions extends PlanSprintsOptions, ApplySprintPlanOptions {
+  /**
+   * The path to the sprint planning config file. Defaults to the --config argument.
+   */
+  configFilePath?: string;
+  /**
+   * The GitHub to plan the sprints with. Defaults to RealGitHub.fromArguments().
+   */
+  github?: GitHub;
+}
+
+const sprintLabelTypes: ("Unplanned" | "Planned" | "Started")[] = ["Unplanned", "Planned", "Started"];
+
+/**
+ * Parse the provided YAML or JSON text into a sprint planning config.
+ * @param text The YAML or JSON text of the sprint planning config.
+ */
+export function parseSprintPlanningConfig(text: string): SprintPlanningConfig {
+  const config: any = jsYaml.safeLoad(text);
+  if (!config || typeof config !== "object" || !Array.isArray(config.repositories) || !config.repositories.every((repository: unknown) => typeof repository === "string")) {
+    throw new Error(`A sprint planning config must have a "repositories" array of strings.`);
+  }
+  for (const propertyName of ["sprintLabels", "sprintMilestones"]) {
+    const values: unknown = config[propertyName];
+    if (values != undefined && (!Array.isArray(values) || !values.every((value: any) => value && typeof value.sprint === "number"))) {
+      throw new Error(`The "${propertyName}" property of a sprint planning config must be an array of objects that each have a "sprint" number.`);
+    }
+  }
+  return {
+    repositories: config.repositories,
+    sprintLabels: config.sprintLabels && config.sprintLabels.map((sprintLabel: any) => {
+      const result: GitHubSprintLabel = { sprint: sprintLabel.sprint };
+      for (const sprintLabelType of sprintLabelTypes) {
+        const propertyName: "unplannedColor" | "plannedColor" | "startedColor" = getSprintLabelColorPropertyName(sprintLabelType);
+        if (sprintLabel[propertyName] != undefined) {
+          result[propertyName] = String(sprintLabel[propertyName]).replace(/^#/, "").toLowerCase();
+        }
+      }
+      return result;
+    }),
+    sprintMilestones: config.sprintMilestones && config.sprintMilestones.map((sprintMilestone: any) => {
+      // YAML parses unquoted dates, such as 2019-02-04, into Date objects.
+      const endDate: unknown = sprintMilestone.endDate instanceof Date ? sprintMilestone.endDate.toISOString() : sprintMilestone.endDate;
+      if (typeof endDate !== "string" || !endDate) {
+        throw new Error(`The milestone for sprint ${sprintMilestone.sprint} in the sprint planning config must have an "endDate".`);
+      }
+      return {
+        sprint: sprintMilestone.sprint,
+        endDate: getDate(endDate),
+      };
+    }),
+  };
+}
+
+/**
+ * Read and parse the YAML or JSON sprint planning config file at the provided path.
+ * @param configFilePath The path to the sprint planning config file.
+ */
+export async function readSprintPlanningConfig(configFilePath: string): Promise<SprintPlanningConfig> {
+  const text: string | undefined = await readFileContents(configFilePath);
+  if (text == undefined) {
+    throw new Error(`No sprint planning config file exists at "${configFilePath}".`);
+  }
+  return parseSprintPlanningConfig(text);
+}
+
+/**
+ * Compare the sprint labels and milestones in each of the config's repositories against the config
+ * and get the changes that need to be made to them. No changes are made by this function.
+ * @param github The GitHub to read the sprint labels and milestones from.
+ * @param config The sprint labels and milestones that each repository should have.
+ * @param options The optional parameters that determine which milestones are past their end date.
+ */
+export async function planSprints(github: GitHub, config: SprintPlanningConfig, options: PlanSprintsOptions = {}): Promise<SprintPlan> {
+  const today: string = getDate((options.clock || new RealClock()).now().toISOString());
+  const repositories: SprintRepositoryPlan[] = [];
+  for (const repository of config.repositories) {
+    const repositoryPlan: SprintRepositoryPlan = {
+      repository,
+      missingLabels: [],
+      wrongLabelColors: [],
+      missingMilestones: [],
+      wrongMilestoneEndDates: [],
+      milestonesToClose: [],
+      problems: [],
+    };
+
+    if (config.sprintLabels && config.sprintLabels.length > 0) {
+      const sprintLabels: GitHubSprintLabel[] = await github.getSprintLabels(repository);
+      for (const expectedSprintLabel of config.sprintLabels) {
+        const sprintLabel: GitHubSprintLabel | undefined = first(sprintLabels, (label: GitHubSprintLabel) => label.sprint === expectedSprintLabel.sprint);
+        for (const sprintLabelType of sprintLabelTypes) {
+          const propertyName: "unplannedColor" | "plannedColor" | "startedColor" = getSprintLabelColorPropertyName(sprintLabelType);
+          const color: string | undefined = expectedSprintLabel[propertyName];
+          const actualColor: string | undefined = sprintLabel && sprintLabel[propertyName];
+          const labelName = `${sprintLabelType}-Sprint-${expectedSprintLabel.sprint}`;
+          if (color == undefined) {
+            continue;
+          } else if (actualColor == undefined) {
+            repositoryPlan.missingLabels.push({ labelName, color });
+          } else if (actualColor.toLowerCase() !== color) {
+            repositoryPlan.wrongLabelColors.push({ labelName, color, actualColor });
+          }
+        }
+      }
+    }
+
+    if (config.sprintMilestones && config.sprintMilestones.length > 0) {
+      const sprintMilestones: GitHubSprintMilestone[] = await github.getSprintMilestones(repository);
+      for (const expectedSprintMilestone of config.sprintMilestones) {
+        const sprint: number = expectedSprintMilestone.sprint;
+        const endDate: string = getDate(expectedSprintMilestone.endDate);
+        const sprintMilestone: GitHubSprintMilestone | undefined = first(sprintMilestones, (milestone: GitHubSprintMilestone) => milestone.sprint === sprint);
+        if (!sprintMilestone) {
+          repositoryPlan.missingMilestones.push({ sprint, endDate });
+        } else if (sprintMilestone.endDate !== endDate) {
+          repositoryPlan.wrongMilestoneEndDates.push({ sprint, milestoneNumber: sprintMilestone.milestoneNumber, endDate, actualEndDate: sprintMilestone.endDate });
+        }
+
+        if ((!sprintMilestone || sprintMilestone.open) && endDate < today) {
+          if (sprintMilestone && sprintMilestone.openIssueCount > 0) {
+            repositoryPlan.problems.push(`Milestone ${getSprintMilestoneName(sprint)} is past its end date and it has open issues.`);
+          } else {
+            repositoryPlan.milestonesToClose.push({ sprint, milestoneNumber: sprintMilestone && sprintMilestone.milestoneNumber });
+          }
+        }
+      }
+    }
+
+    repositories.push(repositoryPlan);
+  }
+  return { repositories };
+}
+
+/**
+ * Get human-readable descriptions of the changes in the provided repository plan, in the order
+ * that applySprintPlan() makes them.
+ * @param repositoryPlan The repository plan to describe.
+ */
+export function describeSprintRepositoryPlan(repositoryPlan: SprintRepositoryPlan): string[] {
+  return [
+    ...repositoryPlan.missingLabels.map((label: SprintPlanLabel) => `Create label "${label.labelName}" with color "${label.color}".`),
+    ...repositoryPlan.wrongLabelColors.map((label: SprintPlanLabel) => `Change the color of label "${label.labelName}" from "${label.actualColor}" to "${label.color}".`),
+    ...repositoryPlan.missingMilestones.map((milestone: SprintPlanMilestone) => `Create milestone "${getSprintMilestoneName(milestone.sprint)}" with end date ${milestone.endDate}.`),
+    ...repositoryPlan.wrongMilestoneEndDates.map((milestone: SprintPlanMilestone) => `Change the end date of milestone "${getSprintMilestoneName(milestone.sprint)}" from ${milestone.actualEndDate} to ${milestone.endDate}.`),
+    ...repositoryPlan.milestonesToClose.map((milestone: SprintPlanMilestoneClosure) => `Close milestone "${getSprintMilestoneName(milestone.sprint)}".`),
+  ];
+}
+
+/**
+ * Make the changes in the provided plan. A change that fails is logged as an error and doesn't
+ * stop the rest of the changes from being made. The plan's problems are logged as warnings.
+ * @param github The GitHub to make the changes with.
+ * @param plan The plan that was returned from planSprints().
+ * @param options The optional parameters that determine whether the changes will be made.
+ * @returns The number of changes that failed.
+ */
+export async function applySprintPlan(github: GitHub, plan: SprintPlan, options: ApplySprintPlanOptions = {}): Promise<number> {
+  const logger: Logger = options.logger || getDefaultLogger();
+  let failureCount = 0;
+  for (const repositoryPlan of plan.repositories) {
+    const repository: string = repositoryPlan.repository;
+    logger.logSection(`Planning sprints in "${repository}"${options.dryRun ? " (dry run)" : ""}...`);
+
+    const descriptions: string[] = describeSprintRepositoryPlan(repositoryPlan);
+    if (descriptions.length === 0 && repositoryPlan.problems.length === 0) {
+      logger.logInfo(`The sprint labels and milestones in "${repository}" already match the config.`);
+    }
+
+    const createdMilestoneNumbers: { [sprint: number]: number | undefined } = {};
+    const changes: (() => Promise<unknown>)[] = [
+      ...repositoryPlan.missingLabels.map((label: SprintPlanLabel) => () => github.createLabel(repository, label.labelName, label.color)),
+      ...repositoryPlan.wrongLabelColors.map((label: SprintPlanLabel) => () => github.updateLabelColor(repository, label.labelName, label.color)),
+      ...repositoryPlan.missingMilestones.map((milestone: SprintPlanMilestone) => async () => {
+        const createdMilestone: GitHubSprintMilestone | undefined = await github.createSprintMilestone(repository, milestone.sprint, milestone.endDate);
+        createdMilestoneNumbers[milestone.sprint] = createdMilestone && createdMilestone.milestoneNumber;
+      }),
+      ...repositoryPlan.wrongMilestoneEndDates.map((milestone: SprintPlanMilestone) => () => github.updateMilestoneEndDate(repository, milestone.milestoneNumber!, milestone.endDate)),
+      ...repositoryPlan.milestonesToClose.map((milestone: SprintPlanMilestoneClosure) => () => {
+        const milestoneNumber: number | undefined = milestone.milestoneNumber != undefined ? milestone.milestoneNumber : createdMilestoneNumbers[milestone.sprint];
+        if (milestoneNumber == undefined) {
+          throw new Error(`The milestone for sprint ${milestone.sprint} wasn't created.`);
+        }
+        return github.closeMilestone(repository, milestoneNumber);
+      }),
+    ];
+    for (let i = 0; i < changes.length; ++i) {
+      logger.logInfo(`${options.dryRun ? "[dry run] " : ""}${descriptions[i]}`);
+      if (!options.dryRun) {
+        try {
+          await changes[i]();
+        } catch (error) {
+          logger.logError(`Failed to ${descriptions[i].charAt(0).toLowerCase()}${descriptions[i].substring(1, descriptions[i].length - 1)}: ${error.message}`);
+          ++failureCount;
+        }
+      }
+    }
+
+    for (const problem of repositoryPlan.problems) {
+      logger.logWarning(problem);
+    }
+  }
+  return failureCount;
+}
+
+/**
+ * Plan and apply the sprints in the sprint planning config file. This is meant to be run from the
+ * command line with a --config argument and an optional --dry-run argument.
+ * @param options The optional parameters that override the command line arguments.
+ * @returns The exit code for this function. Zero will be returned if every change was made and no
+ * problems were found.
+ */
+export async function planSprintsCommand(options: PlanSprintsCommandOptions = {}): Promise<number> {
+  const logger: Logger = options.logger || getDefaultLogger();
+  const dryRun: boolean = options.dryRun != undefined ? options.dryRun : !!getBooleanArgument("dry-run");
+
+  let exitCode = 0;
+  const configFilePath: string | undefined = options.configFilePath || getArgument("config");
+  if (!configFilePath) {
+    logger.logError(`No sprint planning config file was provided. Provide one with the --config argument.`);
+    exitCode = 1;
+  } else {
+    try {
+      const config: SprintPlanningConfig = await readSprintPlanningConfig(configFilePath);
+      const github: GitHub = options.github || RealGitHub.fromArguments();
+      for (const repository of config.repositories) {
+        try {
+          const plan: SprintPlan = await planSprints(github, { ...config, repositories: [repository] }, options);
+          const failureCount: number = await applySprintPlan(github, plan, { dryRun, logger });
+          if (failureCount > 0 || plan.repositories[0].problems.length > 0) {
+            exitCode = 1;
+          }
+        } catch (error) {
+          logger.logError(`Failed to plan the sprints in "${repository}": ${error.message}`);
+          exitCode = 1;
+        }
+      }
+    } catch (error) {
+      logger.logError(error.message);
+      exitCode = 1;
+    }
+  }
+
+  process.exitCode = exitCode;
+
+  return exitCode;
+}
+
+function getSprintLabelColorPropertyName(sprintLabelType: "Unplanned" | "Planned" | "Started"): "unplannedColor" | "plannedColor" | "startedColor" {
+  return `${sprintLabelType.toLowerCase()}Color` as "unplannedColor" | "plannedColor" | "startedColor";
+}
+
+/**
+ * Get the date portion ("2019-02-04") of the provided date string.
+ */
+function getDate(date: string): string {
+  return date.includes("T") ? date.substring(0, date.indexOf("T")) : date;
+}
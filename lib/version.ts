@@ -39,8 +39,46 @@ export class Version {
       this.patch = this.patch + 1;
   }
 
+  compareTo(other: Version): number {
+      let result: number = this.major - other.major || this.minor - other.minor || this.patch - other.patch;
+      if (result === 0 && this.suffix !== other.suffix) {
+          if (!this.suffix) {
+              result = 1;
+          } else if (!other.suffix) {
+              result = -1;
+          } else {
+              result = compareSuffixes(this.suffix, other.suffix);
+          }
+      }
+      return result;
+  }
+
   toString(): string {
       const suffix = this.suffix ? `-${this.suffix}` : "";
       return `${this.major}.${this.minor}.${this.patch}${suffix}`;
   }
 }
+
+/**
+ * Compare the provided prerelease suffixes (such as "beta.2") by their dot-separated identifiers.
+ * Numeric identifiers are compared as numbers and have lower precedence than other identifiers.
+ */
+function compareSuffixes(lhs: string, rhs: string): number {
+  const lhsIdentifiers: string[] = lhs.split(".");
+  const rhsIdentifiers: string[] = rhs.split(".");
+  let result = 0;
+  for (let i = 0; result === 0 && i < Math.min(lhsIdentifiers.length, rhsIdentifiers.length); ++i) {
+    const lhsIdentifier: string = lhsIdentifiers[i];
+    const rhsIdentifier: string = rhsIdentifiers[i];
+    const lhsIsNumeric: boolean = /^\d+$/.test(lhsIdentifier);
+    const rhsIsNumeric: boolean = /^\d+$/.test(rhsIdentifier);
+    if (lhsIsNumeric && rhsIsNumeric) {
+      result = Number.parseInt(lhsIdentifier) - Number.parseInt(rhsIdentifier);
+    } else if (lhsIsNumeric !== rhsIsNumeric) {
+      result = lhsIsNumeric ? -1 : 1;
+    } else if (lhsIdentifier !== rhsIdentifier) {
+      result = lhsIdentifier < rhsIdentifier ? -1 : 1;
+    }
+  }
+  return result || lhsIdentifiers.length - rhsIdentifiers.length;
+}
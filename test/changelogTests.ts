@@ -0,0 +1,246 @@
+import { assert } from "chai";
+import { ConventionalCommit, getChangelog, getNextVersion, getVersionBump, parseConventionalCommit, prependChangelogSection, renderChangelogSection } from "../lib/changelog";
+import { createTemporaryFolder, deleteFolder, readFileContents, writeFileContents } from "../lib/fileSystem2";
+import { ExecutableGit, FakeGit, Git } from "../lib/git";
+import { joinPath } from "../lib/path";
+import { FakeRunner } from "../lib/run";
+
+function createCommit(sha: string, subject: string, body = ""): Git.Commit {
+  return {
+    sha,
+    parents: [],
+    author: { name: "Berry", email: "berry@example.com" },
+    authorDate: new Date("2019-07-01T00:00:00Z"),
+    committer: { name: "Berry", email: "berry@example.com" },
+    committerDate: new Date("2019-07-01T00:00:00Z"),
+    subject,
+    body,
+    trailers: [],
+    filesChanged: [],
+  };
+}
+
+function createConventionalCommit(sha: string, subject: string, body = ""): ConventionalCommit {
+  return parseConventionalCommit(createCommit(sha, subject, body))!;
+}
+
+describe("changelog.ts", function () {
+  describe("parseConventionalCommit()", function () {
+    it("with non-conventional subject", function () {
+      assert.strictEqual(parseConventionalCommit(createCommit("1", "Fix the thing")), undefined);
+    });
+
+    it("with type", function () {
+      const commit: Git.Commit = createCommit("1", "fix: Handle empty output");
+      assert.deepEqual(parseConventionalCommit(commit), {
+        sha: "1",
+        type: "fix",
+        scope: undefined,
+        description: "Handle empty output",
+        breaking: false,
+        breakingChanges: [],
+        commit,
+      });
+    });
+
+    it("with type, scope and breaking change marker", function () {
+      const commit: Git.Commit = createCommit("1", "Feat(git)!: Return typed results");
+      assert.deepEqual(parseConventionalCommit(commit), {
+        sha: "1",
+        type: "feat",
+        scope: "git",
+        description: "Return typed results",
+        breaking: true,
+        breakingChanges: ["Return typed results"],
+        commit,
+      });
+    });
+
+    it("with breaking change footers", function () {
+      const commit: Git.Commit = createCommit("1", "refactor(github): Rename methods", "Some details.\n\nBREAKING CHANGE: getPR() was renamed.\nBREAKING-CHANGE: getPRs() was renamed.");
+      assert.deepEqual(parseConventionalCommit(commit)!.breakingChanges, ["getPR() was renamed.", "getPRs() was renamed."]);
+      assert.strictEqual(parseConventionalCommit(commit)!.breaking, true);
+    });
+  });
+
+  describe("getVersionBump()", function () {
+    it("with no commits", function () {
+      assert.strictEqual(getVersionBump([]), "none");
+    });
+
+    it("with chores", function () {
+      assert.strictEqual(getVersionBump([createConventionalCommit("1", "chore: Update dependencies")]), "none");
+    });
+
+    it("with fix", function () {
+      assert.strictEqual(getVersionBump([createConventionalCommit("1", "chore: a"), createConventionalCommit("2", "fix: b")]), "patch");
+    });
+
+    it("with feat", function () {
+      assert.strictEqual(getVersionBump([createConventionalCommit("1", "fix: a"), createConventionalCommit("2", "feat: b"), createConventionalCommit("3", "perf: c")]), "minor");
+    });
+
+    it("with breaking change", function () {
+      assert.strictEqual(getVersionBump([createConventionalCommit("1", "feat: a"), createConventionalCommit("2", "fix!: b")]), "major");
+    });
+  });
+
+  describe("getNextVersion()", function () {
+    it("with none", function () {
+      assert.strictEqual(getNextVersion("1.2.3", "none").toString(), "1.2.3");
+    });
+
+    it("with patch", function () {
+      assert.strictEqual(getNextVersion("1.2.3", "patch").toString(), "1.2.4");
+    });
+
+    it("with minor", function () {
+      assert.strictEqual(getNextVersion("1.2.3", "minor").toString(), "1.3.0");
+    });
+
+    it("with major and suffix", function () {
+      assert.strictEqual(getNextVersion("1.2.3-preview.1", "major").toString(), "2.0.0");
+    });
+
+    it("with patch and prerelease version", function () {
+      assert.strictEqual(getNextVersion("1.0.0-beta.1", "patch").toString(), "1.0.0");
+      assert.strictEqual(getNextVersion("1.0.1-beta.1", "patch").toString(), "1.0.1");
+    });
+
+    it("with minor and prerelease version", function () {
+      assert.strictEqual(getNextVersion("1.1.0-beta.1", "minor").toString(), "1.1.0");
+      assert.strictEqual(getNextVersion("1.1.1-beta.1", "minor").toString(), "1.2.0");
+    });
+
+    it("with major and prerelease version", function () {
+      assert.strictEqual(getNextVersion("2.0.0-beta.1", "major").toString(), "2.0.0");
+      assert.strictEqual(getNextVersion("2.1.0-beta.1", "major").toString(), "3.0.0");
+    });
+
+    it("with none and prerelease version", function () {
+      assert.strictEqual(getNextVersion("2.0.0-beta.1", "none").toString(), "2.0.0-beta.1");
+    });
+  });
+
+  describe("getChangelog()", function () {
+    const logFormat = "--format=%x1e%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%cn%x1f%ce%x1f%cI%x1f%s%x1f%b%x1f";
+
+    function getLogOutput(sha: string, subject: string): string {
+      return `\x1e${sha}\x1f\x1fBerry\x1fberry@example.com\x1f2019-07-01T00:00:00Z\x1fBerry\x1fberry@example.com\x1f2019-07-01T00:00:00Z\x1f${subject}\x1f\x1f\n`;
+    }
+
+    it("with fromRef and currentVersion", async function () {
+      const runner = new FakeRunner();
+      runner.set({
+        executable: "git",
+        args: ["log", logFormat, "--name-only", "v1.0.0..HEAD"],
+        result: {
+          exitCode: 0,
+          stdout: getLogOutput("3333333333", "feat(git): Add blame()") + getLogOutput("2222222222", "Merge branch 'a'") + getLogOutput("1111111111", "fix: Handle empty output"),
+        },
+      });
+      const git = new ExecutableGit({ runner });
+      const changelog = await getChangelog(git, { fromRef: "v1.0.0", currentVersion: "1.0.0" });
+      assert.deepEqual(changelog.commits.map((commit: ConventionalCommit) => commit.sha), ["1111111111", "3333333333"]);
+      assert.strictEqual(changelog.versionBump, "minor");
+      assert.strictEqual(changelog.nextVersion!.toString(), "1.1.0");
+    });
+
+    it("with FakeGit", async function () {
+      const git = new FakeGit({ folderPath: "/fake/repository" });
+      git.writeFile("README.md", "hello");
+      await git.addAll();
+      await git.commit("fix: Handle empty output");
+      await git.createTag("v1.0.0");
+      git.writeFile("lib/a.ts", "a");
+      await git.addAll();
+      await git.commit("feat: Add a");
+      const changelog = await getChangelog(git, { fromRef: "v1.0.0", currentVersion: "1.0.0" });
+      assert.deepEqual(changelog.commits.map((commit: ConventionalCommit) => commit.description), ["Add a"]);
+      assert.strictEqual(changelog.versionBump, "minor");
+      assert.strictEqual(changelog.nextVersion!.toString(), "1.1.0");
+    });
+
+    it("when git log fails", async function () {
+      const runner = new FakeRunner();
+      runner.set({
+        executable: "git",
+        args: ["log", logFormat, "--name-only", "v9.9.9..HEAD"],
+        result: { exitCode: 128, stdout: "", stderr: "fatal: bad revision" },
+      });
+      const git = new ExecutableGit({ runner });
+      try {
+        await getChangelog(git, { fromRef: "v9.9.9" });
+        assert.fail("Expected an error to be thrown.");
+      } catch (error) {
+        assert.strictEqual(error.message, `Failed to read the commits between "v9.9.9" and "HEAD": fatal: bad revision`);
+      }
+    });
+  });
+
+  describe("renderChangelogSection()", function () {
+    it("with no commits", function () {
+      assert.strictEqual(renderChangelogSection("1.0.1", []), "## 1.0.1\n");
+    });
+
+    it("with commits", function () {
+      const commits: ConventionalCommit[] = [
+        createConventionalCommit("1111111111", "fix: Handle empty output"),
+        createConventionalCommit("2222222222", "chore: Update dependencies"),
+        createConventionalCommit("3333333333", "feat(git)!: Return typed results"),
+        createConventionalCommit("4444444444", "feat(github): Add getIssues()"),
+      ];
+      assert.strictEqual(
+        renderChangelogSection("2.0.0", commits, { date: new Date("2019-07-02T12:00:00Z") }),
+        [
+          "## 2.0.0 (2019-07-02)",
+          "",
+          "### BREAKING CHANGES",
+          "",
+          "- **git:** Return typed results (3333333)",
+          "",
+          "### Features",
+          "",
+          "- **git:** Return typed results (3333333)",
+          "- **github:** Add getIssues() (4444444)",
+          "",
+          "### Bug Fixes",
+          "",
+          "- Handle empty output (1111111)",
+          "",
+        ].join("\n"));
+    });
+  });
+
+  describe("prependChangelogSection()", function () {
+    let folderPath: string;
+
+    beforeEach(async function () {
+      folderPath = await createTemporaryFolder();
+    });
+
+    afterEach(async function () {
+      await deleteFolder(folderPath);
+    });
+
+    it("when changelog file doesn't exist", async function () {
+      const changelogFilePath: string = joinPath(folderPath, "CHANGELOG.md");
+      await prependChangelogSection(changelogFilePath, "## 1.0.0\n");
+      assert.strictEqual(await readFileContents(changelogFilePath), "## 1.0.0\n");
+    });
+
+    it("when changelog file has a title", async function () {
+      const changelogFilePath: string = joinPath(folderPath, "CHANGELOG.md");
+      await writeFileContents(changelogFilePath, "# Changelog\n\n## 1.0.0\n\n- Initial release\n");
+      await prependChangelogSection(changelogFilePath, "## 1.1.0\n\n### Features\n\n- Add things (1111111)\n");
+      assert.strictEqual(await readFileContents(changelogFilePath), "# Changelog\n\n## 1.1.0\n\n### Features\n\n- Add things (1111111)\n\n## 1.0.0\n\n- Initial release\n");
+    });
+
+    it("when changelog file doesn't have a title", async function () {
+      const changelogFilePath: string = joinPath(folderPath, "CHANGELOG.md");
+      await writeFileContents(changelogFilePath, "## 1.0.0\n\n- Initial release\n");
+      await prependChangelogSection(changelogFilePath, "## 1.0.1\n");
+      assert.strictEqual(await readFileContents(changelogFilePath), "## 1.0.1\n\n## 1.0.0\n\n- Initial release\n");
+    });
+  });
+});
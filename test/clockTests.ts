@@ -0,0 +1,86 @@
+import { assert } from "chai";
+import { delay, FakeClock, RealClock } from "../lib/clock";
+import { Duration } from "../lib/duration";
+
+describe("clock.ts", function () {
+  describe("RealClock", function () {
+    it("now()", function () {
+      const before: number = Date.now();
+      const now: number = new RealClock().now().valueOf();
+      assert(before <= now && now <= Date.now());
+    });
+
+    it("setTimeout()", async function () {
+      const clock = new RealClock();
+      let ran = false;
+      clock.setTimeout(() => ran = true, Duration.milliseconds(1));
+      await delay(Duration.milliseconds(20), clock);
+      assert.strictEqual(ran, true);
+    });
+
+    it("clearTimeout()", async function () {
+      const clock = new RealClock();
+      let ran = false;
+      clock.clearTimeout(clock.setTimeout(() => ran = true, Duration.milliseconds(1)));
+      await delay(Duration.milliseconds(20), clock);
+      assert.strictEqual(ran, false);
+    });
+  });
+
+  describe("FakeClock", function () {
+    const startTime = new Date("2019-07-01T00:00:00Z");
+
+    it("now()", function () {
+      assert.deepEqual(new FakeClock(startTime).now(), startTime);
+    });
+
+    it("advance() with no timeouts", async function () {
+      const clock = new FakeClock(startTime);
+      await clock.advance(Duration.minutes(2));
+      assert.deepEqual(clock.now(), new Date("2019-07-01T00:02:00Z"));
+    });
+
+    it("advance() runs due timeouts in order", async function () {
+      const clock = new FakeClock(startTime);
+      const calls: string[] = [];
+      clock.setTimeout(() => calls.push(`b ${clock.now().toISOString()}`), Duration.seconds(2));
+      clock.setTimeout(() => calls.push(`a ${clock.now().toISOString()}`), Duration.seconds(1));
+      clock.setTimeout(() => calls.push("c"), Duration.seconds(10));
+      await clock.advance(Duration.seconds(5));
+      assert.deepEqual(calls, ["a 2019-07-01T00:00:01.000Z", "b 2019-07-01T00:00:02.000Z"]);
+      assert.strictEqual(clock.pendingTimeoutCount, 1);
+    });
+
+    it("advance() runs timeouts that are scheduled by due timeouts", async function () {
+      const clock = new FakeClock(startTime);
+      let count = 0;
+      const tick = async () => {
+        ++count;
+        clock.setTimeout(tick, Duration.seconds(1));
+      };
+      clock.setTimeout(tick, Duration.seconds(1));
+      await clock.advance(Duration.seconds(3));
+      assert.strictEqual(count, 3);
+    });
+
+    it("clearTimeout()", async function () {
+      const clock = new FakeClock(startTime);
+      let ran = false;
+      clock.clearTimeout(clock.setTimeout(() => ran = true, Duration.seconds(1)));
+      await clock.advance(Duration.seconds(1));
+      assert.strictEqual(ran, false);
+      assert.strictEqual(clock.pendingTimeoutCount, 0);
+    });
+
+    it("delay()", async function () {
+      const clock = new FakeClock(startTime);
+      let resolved = false;
+      const promise: Promise<void> = delay(Duration.seconds(30), clock).then(() => { resolved = true; });
+      await clock.advance(Duration.seconds(29));
+      assert.strictEqual(resolved, false);
+      await clock.advance(Duration.seconds(1));
+      await promise;
+      assert.strictEqual(resolved, true);
+    });
+  });
+});
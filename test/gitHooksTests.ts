@@ -0,0 +1,177 @@
+import { assert } from "chai";
+import { createTemporaryFolder, deleteFolder, readFileContents, writeFileContents } from "../lib/fileSystem2";
+import { ExecutableGit } from "../lib/git";
+import { getGitHookRefUpdates, getGitHookScript, getGitHooksFolderPath, GitHookContext, installGitHook, listGitHooks, removeGitHook, runGitHook, setGitHooksPath } from "../lib/gitHooks";
+import { joinPath } from "../lib/path";
+import { FakeRunner } from "../lib/run";
+
+describe("gitHooks.ts", function () {
+  let hooksFolderPath: string;
+  let git: ExecutableGit;
+
+  beforeEach(async function () {
+    hooksFolderPath = joinPath(await createTemporaryFolder(), "hooks");
+    const runner = new FakeRunner();
+    runner.set({ executable: "git", args: ["rev-parse", "--path-format=absolute", "--git-path", "hooks"], result: { exitCode: 0, stdout: `${hooksFolderPath}\n` } });
+    git = new ExecutableGit({ runner });
+  });
+
+  afterEach(async function () {
+    await deleteFolder(joinPath(hooksFolderPath, ".."));
+  });
+
+  describe("getGitHooksFolderPath()", function () {
+    it("with successful command", async function () {
+      assert.strictEqual(await getGitHooksFolderPath(git), hooksFolderPath);
+    });
+
+    it("with failed command", async function () {
+      const runner = new FakeRunner();
+      runner.set({ executable: "git", args: ["rev-parse", "--path-format=absolute", "--git-path", "hooks"], result: { exitCode: 128, stdout: "", stderr: "fatal: not a git repository" } });
+      try {
+        await getGitHooksFolderPath(new ExecutableGit({ runner }));
+        assert.fail("Expected an error to be thrown.");
+      } catch (error) {
+        assert.strictEqual(error.message, "Failed to get the hooks folder: fatal: not a git repository");
+      }
+    });
+  });
+
+  it("setGitHooksPath()", async function () {
+    const runner = new FakeRunner();
+    runner.set({ executable: "git", args: ["config", "core.hooksPath", ".githooks"], result: { exitCode: 0 } });
+    await setGitHooksPath(new ExecutableGit({ runner }), ".githooks");
+  });
+
+  it("getGitHookScript()", function () {
+    assert.strictEqual(getGitHookScript("npx check-everything"), `#!/bin/sh\n# Generated by @ts-common/azure-js-dev-tools\nnpx check-everything "$@"\n`);
+  });
+
+  describe("installGitHook()", function () {
+    it("when hooks folder doesn't exist", async function () {
+      const hookFilePath: string = await installGitHook(git, "pre-push", "npx check-everything");
+      assert.strictEqual(hookFilePath, joinPath(hooksFolderPath, "pre-push"));
+      assert.strictEqual(await readFileContents(hookFilePath), getGitHookScript("npx check-everything"));
+    });
+
+    it("when generated hook already exists", async function () {
+      await installGitHook(git, "pre-push", "a");
+      const hookFilePath: string = await installGitHook(git, "pre-push", "b");
+      assert.strictEqual(await readFileContents(hookFilePath), getGitHookScript("b"));
+    });
+
+    it("when hand-written hook already exists", async function () {
+      await installGitHook(git, "pre-commit", "a");
+      const hookFilePath: string = joinPath(hooksFolderPath, "pre-push");
+      await writeFileContents(hookFilePath, "#!/bin/sh\nexit 1\n");
+      try {
+        await installGitHook(git, "pre-push", "b");
+        assert.fail("Expected an error to be thrown.");
+      } catch (error) {
+        assert.strictEqual(error.message, `A pre-push hook that wasn't generated already exists at "${hookFilePath}".`);
+      }
+      await installGitHook(git, "pre-push", "b", { force: true });
+      assert.strictEqual(await readFileContents(hookFilePath), getGitHookScript("b"));
+    });
+  });
+
+  describe("listGitHooks()", function () {
+    it("when hooks folder doesn't exist", async function () {
+      assert.deepEqual(await listGitHooks(git), []);
+    });
+
+    it("with generated, hand-written and sample hooks", async function () {
+      await installGitHook(git, "pre-push", "npx check-everything");
+      await writeFileContents(joinPath(hooksFolderPath, "commit-msg"), "#!/bin/sh\nexit 0\n");
+      await writeFileContents(joinPath(hooksFolderPath, "pre-commit.sample"), "#!/bin/sh\nexit 0\n");
+      assert.deepEqual(await listGitHooks(git), [
+        {
+          name: "commit-msg",
+          filePath: joinPath(hooksFolderPath, "commit-msg"),
+          generated: false,
+          command: undefined,
+        },
+        {
+          name: "pre-push",
+          filePath: joinPath(hooksFolderPath, "pre-push"),
+          generated: true,
+          command: "npx check-everything",
+        },
+      ]);
+    });
+  });
+
+  describe("removeGitHook()", function () {
+    it("when hook doesn't exist", async function () {
+      assert.strictEqual(await removeGitHook(git, "pre-push"), false);
+    });
+
+    it("when generated hook exists", async function () {
+      await installGitHook(git, "pre-push", "a");
+      assert.strictEqual(await removeGitHook(git, "pre-push"), true);
+      assert.deepEqual(await listGitHooks(git), []);
+    });
+
+    it("when hand-written hook exists", async function () {
+      await installGitHook(git, "pre-commit", "a");
+      const hookFilePath: string = joinPath(hooksFolderPath, "pre-push");
+      await writeFileContents(hookFilePath, "#!/bin/sh\nexit 1\n");
+      try {
+        await removeGitHook(git, "pre-push");
+        assert.fail("Expected an error to be thrown.");
+      } catch (error) {
+        assert.strictEqual(error.message, `The pre-push hook at "${hookFilePath}" wasn't generated and won't be removed.`);
+      }
+      assert.strictEqual(await removeGitHook(git, "pre-push", { force: true }), true);
+    });
+  });
+
+  describe("getGitHookRefUpdates()", function () {
+    it("with pre-push", function () {
+      assert.deepEqual(getGitHookRefUpdates("pre-push", "refs/heads/a 1111111 refs/heads/b 2222222\n"), [
+        { refName: "refs/heads/b", oldSha: "2222222", newSha: "1111111", localRef: "refs/heads/a" },
+      ]);
+    });
+
+    it("with post-receive", function () {
+      assert.deepEqual(getGitHookRefUpdates("post-receive", "1111111 2222222 refs/heads/master\n3333333 4444444 refs/tags/v1\n"), [
+        { refName: "refs/heads/master", oldSha: "1111111", newSha: "2222222" },
+        { refName: "refs/tags/v1", oldSha: "3333333", newSha: "4444444" },
+      ]);
+    });
+  });
+
+  describe("runGitHook()", function () {
+    it("with no matching callback", async function () {
+      assert.strictEqual(await runGitHook("pre-push", { "pre-commit": () => 1 }, { args: [] }), 0);
+    });
+
+    it("with matching callback", async function () {
+      let hookContext: GitHookContext | undefined;
+      const exitCode: number = await runGitHook("pre-push", {
+        "pre-push": (context: GitHookContext) => {
+          hookContext = context;
+          return 2;
+        },
+      }, {
+        args: ["origin", "https://github.com/a/b.git"],
+        stdin: "refs/heads/a 1111111 refs/heads/a 0000000\n",
+      });
+      assert.strictEqual(exitCode, 2);
+      assert.deepEqual(hookContext, {
+        hookName: "pre-push",
+        args: ["origin", "https://github.com/a/b.git"],
+        refUpdates: [
+          { refName: "refs/heads/a", oldSha: "0000000", newSha: "1111111", localRef: "refs/heads/a" },
+        ],
+      });
+    });
+
+    it("with hook that doesn't receive ref updates", async function () {
+      const exitCode: number = await runGitHook("commit-msg", async (context: GitHookContext) => {
+        assert.deepEqual(context, { hookName: "commit-msg", args: [".git/COMMIT_EDITMSG"], refUpdates: [] });
+      }, { args: [".git/COMMIT_EDITMSG"] });
+      assert.strictEqual(exitCode, 0);
+    });
+  });
+});
@@ -2,9 +2,11 @@ import { getInMemoryLogger, InMemoryLogger } from "@azure/logger-js";
 import { assert } from "chai";
 import { joinPath } from "../lib";
 import { assertEx } from "../lib/assertEx";
-import { deleteFolder, findFileInPath, findFileInPathSync, folderExists } from "../lib/fileSystem2";
-import { ExecutableGit, getGitRemoteBranch, getRemoteBranchFullName, GitRemoteBranch } from "../lib/git";
+import { createFolder, createTemporaryFolder, deleteFolder, findFileInPath, findFileInPathSync, folderExists, writeFileContents } from "../lib/fileSystem2";
+import { map } from "../lib/arrays";
+import { ExecutableGit, FakeGit, getCommitTrailers, getConflictRegions, getGitRemoteBranch, getRemoteBranchFullName, getTagVersion, Git, GitRemoteBranch, parseDiff } from "../lib/git";
 import { FakeRunner, RunResult } from "../lib/run";
+import { tmpdir } from "os";
 
 let folderCount = 1;
 function getFolderName(): string {
@@ -15,6 +17,23 @@ function getFolderPath(): string {
   return joinPath(process.cwd(), getFolderName());
 }
 
+/**
+ * Create a real repository in a temporary folder with a single commit that adds "sub/f.txt".
+ * @returns The path to the repository's root folder.
+ */
+async function createTemporaryRepository(): Promise<string> {
+  const folderPath: string = await createTemporaryFolder(tmpdir());
+  const git = new ExecutableGit({ executionFolderPath: folderPath });
+  await git.init();
+  await git.setConfigurationValue("user.name", "Fake Author");
+  await git.setConfigurationValue("user.email", "fake.author@example.com");
+  await createFolder(joinPath(folderPath, "sub"));
+  await writeFileContents(joinPath(folderPath, "sub/f.txt"), "a\n");
+  await git.addAll();
+  await git.commit("Add f.txt");
+  return folderPath;
+}
+
 const runPushRemoteBranchTests: boolean = !!findFileInPathSync("github.auth");
 
 describe("git.ts", function () {
@@ -89,6 +108,263 @@ describe("git.ts", function () {
     });
   });
 
+  describe("getCommitTrailers(string)", function () {
+    it("with empty string", function () {
+      assert.deepEqual(getCommitTrailers(""), []);
+    });
+
+    it("with body that has no trailers", function () {
+      assert.deepEqual(getCommitTrailers("Fix the thing.\n\nIt was broken."), []);
+    });
+
+    it("with last paragraph that isn't all trailers", function () {
+      assert.deepEqual(getCommitTrailers("Fix the thing.\n\nFixes: #5\nand some more text"), []);
+    });
+
+    it("with trailers", function () {
+      assert.deepEqual(getCommitTrailers("Fix the thing.\n\nFixes: #5\nBREAKING-CHANGE: a b c"), [
+        { token: "Fixes", value: "#5" },
+        { token: "BREAKING-CHANGE", value: "a b c" },
+      ]);
+    });
+  });
+
+  describe("getTagVersion(string)", function () {
+    it("with tag name that doesn't end with a version", function () {
+      assert.strictEqual(getTagVersion("latest"), undefined);
+    });
+
+    it("with version tag name", function () {
+      assert.strictEqual(getTagVersion("1.2.3")!.toString(), "1.2.3");
+    });
+
+    it("with prefixed version tag name", function () {
+      assert.strictEqual(getTagVersion("@azure/ms-rest-js_2.0.0-preview.1")!.toString(), "2.0.0-preview.1");
+    });
+  });
+
+  describe("getConflictRegions(string)", function () {
+    it("with no conflict markers", function () {
+      assert.deepEqual(getConflictRegions("a\nb\n"), []);
+    });
+
+    it("with multiple regions", function () {
+      const fileContents = [
+        "first",
+        "<<<<<<< HEAD",
+        "ours 1",
+        "ours 2",
+        "=======",
+        ">>>>>>> feature",
+        "middle",
+        "<<<<<<< HEAD",
+        "ours",
+        "||||||| merged common ancestors",
+        "base",
+        "=======",
+        "theirs",
+        ">>>>>>> feature",
+        "last",
+      ].join("\n");
+      assert.deepEqual(getConflictRegions(fileContents), [
+        { startLine: 2, endLine: 6, oursLabel: "HEAD", ours: ["ours 1", "ours 2"], theirsLabel: "feature", theirs: [] },
+        { startLine: 8, endLine: 14, oursLabel: "HEAD", ours: ["ours"], base: ["base"], theirsLabel: "feature", theirs: ["theirs"] },
+      ]);
+    });
+  });
+
+  describe("parseDiff(string | string[])", function () {
+    it("with empty string", function () {
+      assert.deepEqual(parseDiff(""), []);
+    });
+
+    it("with modified file", function () {
+      const diff = [
+        "diff --git a/src/a.ts b/src/a.ts",
+        "index 1111111..2222222 100644",
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -1,3 +1,3 @@ function a() {",
+        " one",
+        "-two",
+        "+TWO",
+        " three",
+        "@@ -10 +10,2 @@",
+        " ten",
+        "+eleven",
+        "\\ No newline at end of file",
+      ].join("\n");
+      assert.deepEqual(parseDiff(diff), [
+        {
+          oldPath: "src/a.ts",
+          newPath: "src/a.ts",
+          status: "modified",
+          binary: false,
+          additions: 2,
+          deletions: 1,
+          hunks: [
+            {
+              oldStart: 1,
+              oldLines: 3,
+              newStart: 1,
+              newLines: 3,
+              heading: "function a() {",
+              lines: [
+                { type: "context", content: "one", oldLineNumber: 1, newLineNumber: 1 },
+                { type: "removed", content: "two", oldLineNumber: 2 },
+                { type: "added", content: "TWO", newLineNumber: 2 },
+                { type: "context", content: "three", oldLineNumber: 3, newLineNumber: 3 },
+              ]
+            },
+            {
+              oldStart: 10,
+              oldLines: 1,
+              newStart: 10,
+              newLines: 2,
+              heading: "",
+              lines: [
+                { type: "context", content: "ten", oldLineNumber: 10, newLineNumber: 10 },
+                { type: "added", content: "eleven", newLineNumber: 11, noNewlineAtEndOfFile: true },
+              ]
+            }
+          ]
+        }
+      ]);
+    });
+
+    it("with added, deleted, renamed and binary files", function () {
+      const diff = [
+        "diff --git a/new.txt b/new.txt",
+        "new file mode 100644",
+        "index 0000000..1111111",
+        "--- /dev/null",
+        "+++ b/new.txt",
+        "@@ -0,0 +1 @@",
+        "+hello",
+        "diff --git a/old.txt b/old.txt",
+        "deleted file mode 100755",
+        "index 1111111..0000000",
+        "--- a/old.txt",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-goodbye",
+        "diff --git a/my file.txt b/your file.txt",
+        "old mode 100644",
+        "new mode 100755",
+        "similarity index 90%",
+        "rename from my file.txt",
+        "rename to your file.txt",
+        "diff --git a/image.png b/image.png",
+        "index 1111111..2222222 100644",
+        "Binary files a/image.png and b/image.png differ",
+      ];
+      assert.deepEqual(parseDiff(diff), [
+        {
+          oldPath: undefined,
+          newPath: "new.txt",
+          status: "added",
+          newMode: "100644",
+          binary: false,
+          additions: 1,
+          deletions: 0,
+          hunks: [
+            {
+              oldStart: 0,
+              oldLines: 0,
+              newStart: 1,
+              newLines: 1,
+              heading: "",
+              lines: [
+                { type: "added", content: "hello", newLineNumber: 1 },
+              ]
+            }
+          ]
+        },
+        {
+          oldPath: "old.txt",
+          newPath: undefined,
+          status: "deleted",
+          oldMode: "100755",
+          binary: false,
+          additions: 0,
+          deletions: 1,
+          hunks: [
+            {
+              oldStart: 1,
+              oldLines: 1,
+              newStart: 0,
+              newLines: 0,
+              heading: "",
+              lines: [
+                { type: "removed", content: "goodbye", oldLineNumber: 1 },
+              ]
+            }
+          ]
+        },
+        {
+          oldPath: "my file.txt",
+          newPath: "your file.txt",
+          status: "renamed",
+          oldMode: "100644",
+          newMode: "100755",
+          similarity: 90,
+          binary: false,
+          additions: 0,
+          deletions: 0,
+          hunks: []
+        },
+        {
+          oldPath: "image.png",
+          newPath: "image.png",
+          status: "modified",
+          binary: true,
+          additions: 0,
+          deletions: 0,
+          hunks: []
+        }
+      ]);
+    });
+
+    it("with quoted paths", function () {
+      const diff = [
+        `diff --git "a/tab\\there.txt" "b/tab\\there.txt"`,
+        "index 1111111..2222222 100644",
+      ];
+      assert.deepEqual(parseDiff(diff), [
+        {
+          oldPath: "tab\there.txt",
+          newPath: "tab\there.txt",
+          status: "modified",
+          binary: false,
+          additions: 0,
+          deletions: 0,
+          hunks: []
+        }
+      ]);
+    });
+
+    it("with non-ASCII paths", function () {
+      const diff = [
+        `diff --git "a/caf\\303\\251.txt" "b/na\\303\\257ve \\"\\342\\234\\223\\".txt"`,
+        "similarity index 100%",
+        `rename from "caf\\303\\251.txt"`,
+        `rename to "na\\303\\257ve \\"\\342\\234\\223\\".txt"`,
+      ];
+      assert.deepEqual(parseDiff(diff), [
+        {
+          oldPath: "café.txt",
+          newPath: "naïve \"✓\".txt",
+          status: "renamed",
+          similarity: 100,
+          binary: false,
+          additions: 0,
+          deletions: 0,
+          hunks: []
+        }
+      ]);
+    });
+  });
+
   describe("ExecutableGit", function () {
     it("scope()", async function () {
       const git1 = new ExecutableGit({
@@ -168,6 +444,14 @@ describe("git.ts", function () {
         assert.deepEqual(await git.fetch({ runner, all: true }), expectedResult);
       });
 
+      it("with deepen: 10", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 3, stdout: "e", stderr: "f" };
+        runner.set({ executable: "git", args: ["fetch", "--deepen=10", "origin"], result: () => expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.fetch({ runner, deepen: 10, remoteName: "origin" }), expectedResult);
+      });
+
       it("with all: false", async function () {
         const runner = new FakeRunner();
         const expectedResult: RunResult = { exitCode: 3, stdout: "e", stderr: "f" };
@@ -326,18 +610,662 @@ describe("git.ts", function () {
 
       it("with no options", async function () {
         const runner = new FakeRunner();
-        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
-        runner.set({
-          executable: "git",
-          args: ["rebase"],
-          result: expectedResult
-        });
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({
+          executable: "git",
+          args: ["rebase"],
+          result: expectedResult
+        });
+        const git = new ExecutableGit();
+        assert.deepEqual(
+          await git.rebase({
+            runner,
+          }),
+          expectedResult);
+      });
+
+      it("with conflicts", async function () {
+        const folderPath: string = await createTemporaryFolder();
+        try {
+          await writeFileContents(joinPath(folderPath, "a.txt"), "<<<<<<< HEAD\nmine\n=======\nyours\n>>>>>>> 1234567 (Change a)\n");
+          const runner = new FakeRunner();
+          const runResult: RunResult = {
+            exitCode: 1,
+            stdout: "Auto-merging a.txt\nCONFLICT (content): Merge conflict in a.txt\nCONFLICT (modify/delete): b.txt deleted in HEAD and modified in 1234567 (Change b).\n",
+            stderr: "error: could not apply 1234567... Change a",
+          };
+          runner.set({ executable: "git", args: ["rebase", "master"], result: runResult });
+          runner.set({ executable: "git", args: ["status", "--porcelain"], result: { exitCode: 0, stdout: "UU a.txt\nDU b.txt\nM  c.txt\n" } });
+          runner.set({ executable: "git", args: ["rev-parse", "--show-toplevel"], result: { exitCode: 0, stdout: `${folderPath}\n` } });
+          const git = new ExecutableGit({ executionFolderPath: folderPath });
+          assert.deepEqual(await git.rebase({ runner, upstream: "master" }), {
+            ...runResult,
+            conflicts: [
+              {
+                filePath: joinPath(folderPath, "a.txt"),
+                conflictType: "both-modified",
+                regions: [
+                  { startLine: 1, endLine: 5, oursLabel: "HEAD", ours: ["mine"], theirsLabel: "1234567 (Change a)", theirs: ["yours"] },
+                ]
+              },
+              {
+                filePath: joinPath(folderPath, "b.txt"),
+                conflictType: "deleted-by-us",
+                regions: []
+              },
+            ]
+          });
+        } finally {
+          await deleteFolder(folderPath);
+        }
+      });
+    });
+
+    it("abortMerge()", async function () {
+      const runner = new FakeRunner();
+      const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+      runner.set({ executable: "git", args: ["merge", "--abort"], result: expectedResult });
+      const git = new ExecutableGit();
+      assert.deepEqual(await git.abortMerge({ runner }), expectedResult);
+    });
+
+    it("abortRebase()", async function () {
+      const runner = new FakeRunner();
+      const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+      runner.set({ executable: "git", args: ["rebase", "--abort"], result: expectedResult });
+      const git = new ExecutableGit();
+      assert.deepEqual(await git.abortRebase({ runner }), expectedResult);
+    });
+
+    it("continueRebase()", async function () {
+      const runner = new FakeRunner();
+      const expectedResult: RunResult = { exitCode: 0, stdout: "Successfully rebased and updated refs/heads/my-branch.", stderr: "" };
+      runner.set({ executable: "git", args: ["-c", "core.editor=true", "rebase", "--continue"], result: expectedResult });
+      const git = new ExecutableGit();
+      assert.deepEqual(await git.continueRebase({ runner }), expectedResult);
+    });
+
+    describe("getConflicts()", function () {
+      it("with no conflicts", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: " M a.txt\n?? b.txt\n", stderr: "" };
+        runner.set({ executable: "git", args: ["status", "--porcelain"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.getConflicts({ runner }), { ...runResult, conflicts: [] });
+      });
+
+      it("with each conflict type", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "DD a\nAU b\nUD c\nUA d\nDU e\nAA f\nUU g\n", stderr: "" };
+        runner.set({ executable: "git", args: ["status", "--porcelain"], result: runResult });
+        runner.set({ executable: "git", args: ["rev-parse", "--show-toplevel"], result: { exitCode: 0, stdout: "/not/a/real/folder\n" } });
+        const git = new ExecutableGit({ executionFolderPath: "/not/a/real/folder/sub" });
+        const result: ExecutableGit.GetConflictsResult = await git.getConflicts({ runner });
+        assert.deepEqual(map(result.conflicts, (conflict: ExecutableGit.ConflictedFile) => conflict.conflictType), [
+          "both-deleted",
+          "added-by-us",
+          "deleted-by-them",
+          "added-by-them",
+          "deleted-by-us",
+          "both-added",
+          "both-modified",
+        ]);
+        assert.deepEqual(map(result.conflicts, (conflict: ExecutableGit.ConflictedFile) => conflict.filePath), map(["a", "b", "c", "d", "e", "f", "g"], (fileName: string) => `/not/a/real/folder/${fileName}`));
+      });
+
+      it("with real runner from a subfolder", async function () {
+        const folderPath: string = await createTemporaryRepository();
+        try {
+          const git = new ExecutableGit({ executionFolderPath: joinPath(folderPath, "sub") });
+          const baseBranch: string = await git.currentBranch();
+          await git.createLocalBranch("other");
+          await writeFileContents(joinPath(folderPath, "sub/f.txt"), "b\n");
+          await git.add("f.txt");
+          await git.commit("Change f.txt to b");
+          await git.checkout(baseBranch);
+          await writeFileContents(joinPath(folderPath, "sub/f.txt"), "c\n");
+          await git.add("f.txt");
+          await git.commit("Change f.txt to c");
+
+          const mergeResult: ExecutableGit.MergeResult = await git.merge({ refsToMerge: "other" });
+          assert.strictEqual(mergeResult.exitCode, 1);
+          assert.deepEqual(mergeResult.conflicts, [
+            {
+              filePath: joinPath(folderPath, "sub/f.txt"),
+              conflictType: "both-modified",
+              regions: [
+                { startLine: 1, endLine: 5, oursLabel: "HEAD", ours: ["c"], theirsLabel: "other", theirs: ["b"] },
+              ],
+            },
+          ]);
+        } finally {
+          await deleteFolder(folderPath);
+        }
+      });
+    });
+
+    describe("cherryPick()", function () {
+      it("with one commit", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "[release/1.0 3333333] Fix the thing", stderr: "" };
+        runner.set({ executable: "git", args: ["rev-parse", "HEAD"], result: { exitCode: 0, stdout: "1111111\n" } });
+        runner.set({ executable: "git", args: ["cherry-pick", "-x", "2222222"], result: runResult });
+        runner.set({ executable: "git", args: ["rev-list", "--reverse", "1111111..HEAD"], result: { exitCode: 0, stdout: "3333333\n" } });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.cherryPick("2222222", { runner, recordOrigin: true }), {
+          ...runResult,
+          commitShas: ["3333333"],
+        });
+      });
+
+      it("with conflicts after the first commit", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 1, stdout: "CONFLICT (modify/delete): a.txt deleted in HEAD and modified in 3333333.\n", stderr: "error: could not apply 3333333... Change a" };
+        runner.set({ executable: "git", args: ["rev-parse", "HEAD"], result: { exitCode: 0, stdout: "1111111\n" } });
+        runner.set({ executable: "git", args: ["cherry-pick", "--mainline", "1", "2222222", "3333333"], result: runResult });
+        runner.set({ executable: "git", args: ["status", "--porcelain"], result: { exitCode: 0, stdout: "DU a.txt\n" } });
+        runner.set({ executable: "git", args: ["rev-parse", "--show-toplevel"], result: { exitCode: 128, stdout: "", stderr: "fatal: not a git repository" } });
+        runner.set({ executable: "git", args: ["rev-list", "--reverse", "1111111..HEAD"], result: { exitCode: 0, stdout: "4444444\n" } });
+        const git = new ExecutableGit({ executionFolderPath: "/mock/folder" });
+        assert.deepEqual(await git.cherryPick(["2222222", "3333333"], { runner, mainline: 1 }), {
+          ...runResult,
+          commitShas: ["4444444"],
+          conflicts: [
+            { filePath: "/mock/folder/a.txt", conflictType: "deleted-by-us", regions: [] },
+          ],
+        });
+      });
+
+      it("with noCommit", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["cherry-pick", "--no-commit", "2222222"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.cherryPick("2222222", { runner, noCommit: true }), {
+          ...runResult,
+          commitShas: [],
+        });
+      });
+    });
+
+    describe("revert()", function () {
+      it("with multiple commits", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["rev-parse", "HEAD"], result: { exitCode: 0, stdout: "1111111\n" } });
+        runner.set({ executable: "git", args: ["revert", "--no-edit", "2222222", "3333333"], result: runResult });
+        runner.set({ executable: "git", args: ["rev-list", "--reverse", "1111111..HEAD"], result: { exitCode: 0, stdout: "4444444\n5555555\n" } });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.revert(["2222222", "3333333"], { runner }), {
+          ...runResult,
+          commitShas: ["4444444", "5555555"],
+        });
+      });
+
+      it("with noCommit and mainline", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["revert", "--no-edit", "--no-commit", "--mainline", "2", "2222222"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.revert("2222222", { runner, noCommit: true, mainline: 2 }), {
+          ...runResult,
+          commitShas: [],
+        });
+      });
+    });
+
+    describe("blame()", function () {
+      it("with no options", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 128, stdout: "", stderr: "fatal: no such path 'a.txt' in HEAD" };
+        runner.set({ executable: "git", args: ["blame", "--porcelain", "--", "a.txt"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.blame("a.txt", { runner }), { ...runResult, lines: [] });
+      });
+
+      it("with range and rev", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = {
+          exitCode: 0,
+          stdout: [
+            "1111111111111111111111111111111111111111 3 10 2",
+            "author Berry",
+            "author-mail <berry@example.com>",
+            "author-time 1500000000",
+            "author-tz -0700",
+            "committer Berry",
+            "committer-mail <berry@example.com>",
+            "committer-time 1500000000",
+            "committer-tz -0700",
+            "summary Add greeting",
+            "previous 0000000000000000000000000000000000000000 old.txt",
+            "filename old.txt",
+            "\thello",
+            "1111111111111111111111111111111111111111 4 11",
+            "\tworld",
+            "2222222222222222222222222222222222222222 12 12 1",
+            "author Cherry",
+            "author-mail <cherry@example.com>",
+            "author-time 1600000000",
+            "author-tz +0000",
+            "summary Add exclamation",
+            "boundary",
+            "filename a.txt",
+            "\t!",
+          ].join("\n"),
+          stderr: "",
+        };
+        runner.set({ executable: "git", args: ["blame", "--porcelain", "-L", "10,12", "v1.0.0", "--", "a.txt"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.blame("a.txt", { runner, range: { start: 10, end: 12 }, rev: "v1.0.0" }), {
+          ...runResult,
+          lines: [
+            {
+              sha: "1111111111111111111111111111111111111111",
+              author: { name: "Berry", email: "berry@example.com" },
+              authorTime: new Date(1500000000000),
+              summary: "Add greeting",
+              originalFilePath: "old.txt",
+              originalLineNumber: 3,
+              finalLineNumber: 10,
+              content: "hello",
+            },
+            {
+              sha: "1111111111111111111111111111111111111111",
+              author: { name: "Berry", email: "berry@example.com" },
+              authorTime: new Date(1500000000000),
+              summary: "Add greeting",
+              originalFilePath: "old.txt",
+              originalLineNumber: 4,
+              finalLineNumber: 11,
+              content: "world",
+            },
+            {
+              sha: "2222222222222222222222222222222222222222",
+              author: { name: "Cherry", email: "cherry@example.com" },
+              authorTime: new Date(1600000000000),
+              summary: "Add exclamation",
+              originalFilePath: "a.txt",
+              originalLineNumber: 12,
+              finalLineNumber: 12,
+              content: "!",
+            },
+          ]
+        });
+      });
+
+      it("with range without end", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["blame", "--porcelain", "-L", "5,", "--", "a.txt"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.blame("a.txt", { runner, range: { start: 5 } }), { ...runResult, lines: [] });
+      });
+    });
+
+    describe("sparseCheckoutSet()", function () {
+      it("with cone patterns", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["sparse-checkout", "set", "--cone", "specification/storage"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.sparseCheckoutSet("specification/storage", { runner }), expectedResult);
+      });
+
+      it("with noCone", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["sparse-checkout", "set", "--no-cone", "/*", "!/docs/"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.sparseCheckoutSet(["/*", "!/docs/"], { runner, noCone: true }), expectedResult);
+      });
+    });
+
+    describe("formatPatch()", function () {
+      it("with no options", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "From 1111111 Mon Sep 17 00:00:00 2001\nSubject: [PATCH] Change f\n", stderr: "" };
+        runner.set({ executable: "git", args: ["format-patch", "--stdout", "origin/master..HEAD"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.formatPatch("origin/master..HEAD", { runner }), { ...runResult, patchText: runResult.stdout });
+      });
+
+      it("with outputFolderPath", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "patches/0001-Change-f.patch\npatches/0002-Change-g.patch\n", stderr: "" };
+        runner.set({ executable: "git", args: ["format-patch", "--output-directory", "patches", "HEAD~2..HEAD"], result: runResult });
+        const git = new ExecutableGit({ executionFolderPath: "/mock/folder" });
+        assert.deepEqual(await git.formatPatch("HEAD~2..HEAD", { runner, outputFolderPath: "patches" }), {
+          ...runResult,
+          patchFilePaths: ["/mock/folder/patches/0001-Change-f.patch", "/mock/folder/patches/0002-Change-g.patch"],
+        });
+      });
+    });
+
+    describe("applyPatch()", function () {
+      it("with patch that applies", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["apply", "--check", "--3way", "--index", "-"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.applyPatch("patch", { runner, check: true, threeWay: true, index: true }), { ...runResult, applied: true, rejects: [] });
+      });
+
+      it("with patch that doesn't apply", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = {
+          exitCode: 1,
+          stdout: "",
+          stderr: "error: patch failed: a.txt:12\nerror: a.txt: patch does not apply\nerror: b.txt: does not exist in index\n",
+        };
+        runner.set({ executable: "git", args: ["apply", "-"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.applyPatch("patch", { runner }), {
+          ...runResult,
+          applied: false,
+          rejects: [
+            { filePath: "a.txt", reason: "patch does not apply", line: 12 },
+            { filePath: "b.txt", reason: "does not exist in index" },
+          ],
+        });
+      });
+
+      it("with three-way conflicts", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = {
+          exitCode: 1,
+          stdout: "",
+          stderr: "error: patch failed: a.txt:1\nFalling back to three-way merge...\nApplied patch to 'a.txt' with conflicts.\nU a.txt\n",
+        };
+        runner.set({ executable: "git", args: ["apply", "--3way", "-"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.applyPatch("patch", { runner, threeWay: true }), {
+          ...runResult,
+          applied: false,
+          rejects: [
+            { filePath: "a.txt", reason: "conflicts", line: 1 },
+          ],
+        });
+      });
+    });
+
+    describe("am()", function () {
+      it("with patches that apply", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "Applying: Change f\nApplying: Change g\n", stderr: "" };
+        runner.set({ executable: "git", args: ["am", "--3way"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.am(["patch 1\n", "patch 2\n"], { runner, threeWay: true }), {
+          ...runResult,
+          applied: true,
+          rejects: [],
+          failedPatch: undefined,
+        });
+      });
+
+      it("with patch that doesn't apply", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = {
+          exitCode: 128,
+          stdout: "Applying: Change f\nPatch failed at 0001 Change f\n",
+          stderr: "error: patch failed: f.txt:1\nerror: f.txt: patch does not apply\n",
+        };
+        runner.set({ executable: "git", args: ["am"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.am("patch", { runner }), {
+          ...runResult,
+          applied: false,
+          rejects: [
+            { filePath: "f.txt", reason: "patch does not apply", line: 1 },
+          ],
+          failedPatch: "Change f",
+        });
+      });
+    });
+
+    it("abortAm()", async function () {
+      const runner = new FakeRunner();
+      const expectedResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+      runner.set({ executable: "git", args: ["am", "--abort"], result: expectedResult });
+      const git = new ExecutableGit();
+      assert.deepEqual(await git.abortAm({ runner }), expectedResult);
+    });
+
+    describe("reflog()", function () {
+      const reflogOutput = [
+        "2222222222\x1fHEAD@{2019-07-01T00:02:00+00:00}\x1freset: moving to HEAD~1",
+        "3333333333\x1fHEAD@{2019-07-01T00:01:00+00:00}\x1fcommit: Add blame()",
+        "2222222222\x1fHEAD@{2019-07-01T00:00:00+00:00}\x1fcommit (initial): Initial commit",
+        "",
+      ].join("\n");
+
+      it("with no options", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: reflogOutput, stderr: "" };
+        runner.set({ executable: "git", args: ["reflog", "show", "--date=iso-strict", "--format=%H%x1f%gD%x1f%gs", "HEAD"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.reflog(undefined, { runner }), {
+          ...runResult,
+          entries: [
+            {
+              selector: "HEAD@{0}",
+              oldSha: "3333333333",
+              newSha: "2222222222",
+              action: "reset",
+              message: "moving to HEAD~1",
+              date: new Date("2019-07-01T00:02:00Z"),
+            },
+            {
+              selector: "HEAD@{1}",
+              oldSha: "2222222222",
+              newSha: "3333333333",
+              action: "commit",
+              message: "Add blame()",
+              date: new Date("2019-07-01T00:01:00Z"),
+            },
+            {
+              selector: "HEAD@{2}",
+              newSha: "2222222222",
+              action: "commit (initial)",
+              message: "Initial commit",
+              date: new Date("2019-07-01T00:00:00Z"),
+            },
+          ],
+        });
+      });
+
+      it("with ref and maxCount", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: reflogOutput.replace(/HEAD@/g, "master@"), stderr: "" };
+        runner.set({ executable: "git", args: ["reflog", "show", "--date=iso-strict", "--format=%H%x1f%gD%x1f%gs", "--max-count=2", "master"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.reflog("master", { runner, maxCount: 1 }), {
+          ...runResult,
+          entries: [
+            {
+              selector: "master@{0}",
+              oldSha: "3333333333",
+              newSha: "2222222222",
+              action: "reset",
+              message: "moving to HEAD~1",
+              date: new Date("2019-07-01T00:02:00Z"),
+            },
+          ],
+        });
+      });
+
+      it("with unknown ref", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 128, stdout: "", stderr: "fatal: ambiguous argument 'fake': unknown revision or path not in the working tree." };
+        runner.set({ executable: "git", args: ["reflog", "show", "--date=iso-strict", "--format=%H%x1f%gD%x1f%gs", "fake"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.reflog("fake", { runner }), { ...runResult, entries: [] });
+      });
+    });
+
+    it("findDanglingCommits()", async function () {
+      const runner = new FakeRunner();
+      const runResult: RunResult = {
+        exitCode: 0,
+        stdout: "dangling blob 1111111111\ndangling commit 3333333333\ndangling commit 4444444444\n",
+        stderr: "",
+      };
+      runner.set({ executable: "git", args: ["fsck", "--no-reflogs", "--no-progress"], result: runResult });
+      const git = new ExecutableGit();
+      assert.deepEqual(await git.findDanglingCommits({ runner }), {
+        ...runResult,
+        commitShas: ["3333333333", "4444444444"],
+      });
+    });
+
+    describe("submoduleInit()", function () {
+      it("with no options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({ executable: "git", args: ["submodule", "init"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.submoduleInit({ runner }), expectedResult);
+      });
+
+      it("with paths", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({ executable: "git", args: ["submodule", "init", "--", "specs/a", "specs/b"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.submoduleInit({ runner, paths: ["specs/a", "specs/b"] }), expectedResult);
+      });
+    });
+
+    describe("submoduleUpdate()", function () {
+      it("with no options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({ executable: "git", args: ["submodule", "update"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.submoduleUpdate({ runner }), expectedResult);
+      });
+
+      it("with all options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({ executable: "git", args: ["submodule", "update", "--init", "--recursive", "--depth", "1", "--remote", "--", "specs/a"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.submoduleUpdate({ runner, init: true, recursive: true, depth: 1, remote: true, paths: "specs/a" }), expectedResult);
+      });
+    });
+
+    it("listSubmodules()", async function () {
+      const runner = new FakeRunner();
+      const runResult: RunResult = {
+        exitCode: 0,
+        stdout: [
+          " 1111111111111111111111111111111111111111 specs/a (v1.0.0)",
+          "-2222222222222222222222222222222222222222 specs/b",
+          "+3333333333333333333333333333333333333333 specs/c (heads/master)",
+          "U0000000000000000000000000000000000000000 specs/d",
+        ].join("\n"),
+        stderr: "",
+      };
+      runner.set({ executable: "git", args: ["submodule", "status", "--cached", "--recursive"], result: runResult });
+      const git = new ExecutableGit({ executionFolderPath: "/mock/folder" });
+      assert.deepEqual(await git.listSubmodules({ runner, recursive: true }), {
+        ...runResult,
+        submodules: [
+          { path: "specs/a", folderPath: "/mock/folder/specs/a", pinnedSha: "1111111111111111111111111111111111111111", state: "up-to-date", describe: "v1.0.0" },
+          { path: "specs/b", folderPath: "/mock/folder/specs/b", pinnedSha: "2222222222222222222222222222222222222222", state: "uninitialized", describe: undefined },
+          { path: "specs/c", folderPath: "/mock/folder/specs/c", pinnedSha: "3333333333333333333333333333333333333333", state: "drifted", describe: "heads/master" },
+          { path: "specs/d", folderPath: "/mock/folder/specs/d", pinnedSha: "0000000000000000000000000000000000000000", state: "conflicted", describe: undefined },
+        ]
+      });
+    });
+
+    describe("addWorktree()", function () {
+      it("with relative folder path", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 0, stdout: "", stderr: "Preparing worktree (new branch 'sdk')" };
+        runner.set({ executable: "git", args: ["worktree", "add", "-b", "sdk", "/repo/worktrees/sdk", "origin/master"], result: runResult });
+        const git = new ExecutableGit({ executionFolderPath: "/repo/main" });
+        assert.deepEqual(await git.addWorktree("../worktrees/sdk", { runner, newBranch: "sdk", commitish: "origin/master" }), {
+          ...runResult,
+          folderPath: "/repo/worktrees/sdk",
+          git: git.scope({ executionFolderPath: "/repo/worktrees/sdk" }),
+        });
+      });
+
+      it("with rooted folder path, detach and force", async function () {
+        const runner = new FakeRunner();
+        const runResult: RunResult = { exitCode: 128, stdout: "", stderr: "fatal: '/worktree' already exists" };
+        runner.set({ executable: "git", args: ["worktree", "add", "--force", "--detach", "/worktree"], result: runResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.addWorktree("/worktree", { runner, detach: true, force: true }), {
+          ...runResult,
+          folderPath: "/worktree",
+          git: undefined,
+        });
+      });
+    });
+
+    it("listWorktrees()", async function () {
+      const runner = new FakeRunner();
+      const runResult: RunResult = {
+        exitCode: 0,
+        stdout: [
+          "worktree /repo/main",
+          "HEAD 1111111111111111111111111111111111111111",
+          "branch refs/heads/master",
+          "",
+          "worktree /repo/worktrees/sdk",
+          "HEAD 2222222222222222222222222222222222222222",
+          "detached",
+          "locked being regenerated",
+          "prunable gitdir file points to non-existent location",
+          "",
+        ].join("\n"),
+        stderr: "",
+      };
+      runner.set({ executable: "git", args: ["worktree", "list", "--porcelain"], result: runResult });
+      const git = new ExecutableGit();
+      assert.deepEqual(await git.listWorktrees({ runner }), {
+        ...runResult,
+        worktrees: [
+          {
+            folderPath: "/repo/main",
+            headSha: "1111111111111111111111111111111111111111",
+            branch: "master",
+            bare: false,
+            detached: false,
+            locked: false,
+            prunable: false,
+            git: git.scope({ executionFolderPath: "/repo/main" }),
+          },
+          {
+            folderPath: "/repo/worktrees/sdk",
+            headSha: "2222222222222222222222222222222222222222",
+            bare: false,
+            detached: true,
+            locked: true,
+            prunable: true,
+            git: git.scope({ executionFolderPath: "/repo/worktrees/sdk" }),
+          },
+        ]
+      });
+    });
+
+    describe("removeWorktree()", function () {
+      it("with no options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["worktree", "remove", "/repo/worktrees/sdk"], result: expectedResult });
         const git = new ExecutableGit();
-        assert.deepEqual(
-          await git.rebase({
-            runner,
-          }),
-          expectedResult);
+        assert.deepEqual(await git.removeWorktree("/repo/worktrees/sdk", { runner }), expectedResult);
+      });
+
+      it("with force", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["worktree", "remove", "--force", "/repo/worktrees/sdk"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.removeWorktree("/repo/worktrees/sdk", { runner, force: true }), expectedResult);
       });
     });
 
@@ -353,7 +1281,7 @@ describe("git.ts", function () {
       it("with all options", async function () {
         const runner = new FakeRunner();
         const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
-        runner.set({ executable: "git", args: ["clone", "--quiet", "--verbose", "--origin", "foo", "--branch", "fake-branch", "--depth", "5", "https://my.fake.git/url", "fake-directory"], result: expectedResult });
+        runner.set({ executable: "git", args: ["clone", "--quiet", "--verbose", "--origin", "foo", "--branch", "fake-branch", "--depth", "5", "--recurse-submodules", "https://my.fake.git/url", "fake-directory"], result: expectedResult });
         const git = new ExecutableGit();
         assert.deepEqual(
           await git.clone("https://my.fake.git/url", {
@@ -363,11 +1291,55 @@ describe("git.ts", function () {
             origin: "foo",
             branch: "fake-branch",
             depth: 5,
+            recurseSubmodules: true,
             directory: "fake-directory"
           }),
           expectedResult);
       });
 
+      it("with shallow and partial clone options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({
+          executable: "git",
+          args: ["clone", "--shallow-since=2019-07-01T00:00:00.000Z", "--filter=blob:none", "--single-branch", "https://my.fake.git/url"],
+          result: expectedResult
+        });
+        const git = new ExecutableGit();
+        assert.deepEqual(
+          await git.clone("https://my.fake.git/url", {
+            runner,
+            shallowSince: new Date("2019-07-01T00:00:00Z"),
+            filter: "blob:none",
+            singleBranch: true,
+          }),
+          expectedResult);
+      });
+
+      it("with sparseCheckoutPatterns", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 0, stdout: "", stderr: "" };
+        runner.set({ executable: "git", args: ["clone", "--filter=tree:0", "--sparse", "https://github.com/Azure/azure-rest-api-specs.git"], result: expectedResult });
+        runner.set({ executable: "git", args: ["sparse-checkout", "set", "--cone", "specification/storage", "specification/compute"], result: { exitCode: 0 } });
+        const git = new ExecutableGit({ executionFolderPath: "/mock/folder" });
+        assert.deepEqual(
+          await git.clone("https://github.com/Azure/azure-rest-api-specs.git", {
+            runner,
+            filter: "tree:0",
+            sparseCheckoutPatterns: ["specification/storage", "specification/compute"],
+          }),
+          expectedResult);
+      });
+
+      it("with sparseCheckoutPatterns when sparse-checkout fails", async function () {
+        const runner = new FakeRunner();
+        const sparseCheckoutResult: RunResult = { exitCode: 128, stdout: "", stderr: "fatal: not a git repository" };
+        runner.set({ executable: "git", args: ["clone", "--sparse", "https://my.fake.git/url", "fake-directory"], result: { exitCode: 0 } });
+        runner.set({ executable: "git", args: ["sparse-checkout", "set", "--cone", "a"], result: sparseCheckoutResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.clone("https://my.fake.git/url", { runner, directory: "fake-directory", sparseCheckoutPatterns: ["a"] }), sparseCheckoutResult);
+      });
+
       it("with executionFolderPath that doesn't exist", async function () {
         this.timeout(10000);
 
@@ -773,6 +1745,33 @@ describe("git.ts", function () {
         assert.deepEqual(await git.push({ force: true, runner }), expectedResult);
       });
 
+      it("command line arguments with true tags", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({ executable: "git", args: ["push", "upstream", "myfakebranch", "--tags"], result: expectedResult });
+        runner.set({ executable: "git", args: ["branch"], result: { exitCode: 0, stdout: "* myfakebranch" } });
+        runner.set({ executable: "git", args: ["config", "--get", "branch.myfakebranch.remote"], result: { exitCode: 0, stdout: "upstream\n" } });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.push({ tags: true, runner }), expectedResult);
+      });
+
+      it("command line arguments with true tags and no branch remote", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({ executable: "git", args: ["push", "origin", "release", "--tags"], result: expectedResult });
+        runner.set({ executable: "git", args: ["config", "--get", "branch.release.remote"], result: { exitCode: 1 } });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.push({ branchName: "release", tags: true, runner }), expectedResult);
+      });
+
+      it("command line arguments with true tags and setUpstream", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = { exitCode: 2, stdout: "c", stderr: "d" };
+        runner.set({ executable: "git", args: ["push", "--set-upstream", "origin", "release", "--tags"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.push({ branchName: "release", setUpstream: true, tags: true, runner }), expectedResult);
+      });
+
       it("when branch doesn't exist remotely and set-upstream isn't defined", async function () {
         const git = new ExecutableGit();
         const currentBranch: string = await git.currentBranch();
@@ -1126,7 +2125,8 @@ describe("git.ts", function () {
           exitCode: 2,
           stdout: "c",
           stderr: "d",
-          filesChanged: []
+          filesChanged: [],
+          files: []
         };
         runner.set({ executable: "git", args: ["diff"], result: expectedResult });
         const git = new ExecutableGit();
@@ -1139,7 +2139,8 @@ describe("git.ts", function () {
           exitCode: 2,
           stdout: "c",
           stderr: "d",
-          filesChanged: []
+          filesChanged: [],
+          files: []
         };
         runner.set({ executable: "git", args: ["diff", "fake-commit1"], result: expectedResult });
         const git = new ExecutableGit();
@@ -1152,7 +2153,8 @@ describe("git.ts", function () {
           exitCode: 2,
           stdout: "c",
           stderr: "d",
-          filesChanged: []
+          filesChanged: [],
+          files: []
         };
         runner.set({ executable: "git", args: ["diff", "fake-commit2"], result: expectedResult });
         const git = new ExecutableGit();
@@ -1165,7 +2167,8 @@ describe("git.ts", function () {
           exitCode: 2,
           stdout: "c",
           stderr: "d",
-          filesChanged: []
+          filesChanged: [],
+          files: []
         };
         runner.set({ executable: "git", args: ["diff", "fake-commit1", "fake-commit2"], result: expectedResult });
         const git = new ExecutableGit();
@@ -1193,7 +2196,8 @@ describe("git.ts", function () {
           exitCode: 2,
           stdout: "c",
           stderr: "d",
-          filesChanged: []
+          filesChanged: [],
+          files: []
         };
         runner.set({ executable: "git", args: ["diff", "--staged"], result: expectedResult });
         const git = new ExecutableGit();
@@ -1206,7 +2210,8 @@ describe("git.ts", function () {
           exitCode: 2,
           stdout: "c",
           stderr: "d",
-          filesChanged: []
+          filesChanged: [],
+          files: []
         };
         runner.set({ executable: "git", args: ["diff", "--ignore-all-space"], result: expectedResult });
         const git = new ExecutableGit();
@@ -1219,7 +2224,8 @@ describe("git.ts", function () {
           exitCode: 2,
           stdout: "c",
           stderr: "d",
-          filesChanged: []
+          filesChanged: [],
+          files: []
         };
         runner.set({ executable: "git", args: ["diff", "--ignore-space-change"], result: expectedResult });
         const git = new ExecutableGit();
@@ -1234,6 +2240,17 @@ describe("git.ts", function () {
           stderr: "d",
           filesChanged: [
             joinPath(process.cwd(), "foo.txt")
+          ],
+          files: [
+            {
+              oldPath: "foo.txt",
+              newPath: "foo.txt",
+              status: "modified",
+              binary: false,
+              additions: 0,
+              deletions: 0,
+              hunks: []
+            }
           ]
         };
         runner.set({ executable: "git", args: ["diff", "--ignore-space-at-eol"], result: expectedResult });
@@ -1249,6 +2266,17 @@ describe("git.ts", function () {
           stderr: "d",
           filesChanged: [
             joinPath(process.cwd(), "foo.txt")
+          ],
+          files: [
+            {
+              oldPath: "foo.txt",
+              newPath: "foo.txt",
+              status: "modified",
+              binary: false,
+              additions: 0,
+              deletions: 0,
+              hunks: []
+            }
           ]
         };
         runner.set({ executable: "git", args: ["diff"], result: expectedResult });
@@ -1264,6 +2292,17 @@ describe("git.ts", function () {
           stderr: "d",
           filesChanged: [
             joinPath(process.cwd(), "foo.txt")
+          ],
+          files: [
+            {
+              oldPath: "foo.txt",
+              newPath: "foo.txt",
+              status: "modified",
+              binary: false,
+              additions: 0,
+              deletions: 0,
+              hunks: []
+            }
           ]
         };
         runner.set({ executable: "git", args: ["--no-pager", "diff"], result: expectedResult });
@@ -1279,6 +2318,17 @@ describe("git.ts", function () {
           stderr: "d",
           filesChanged: [
             joinPath(process.cwd(), "foo.txt")
+          ],
+          files: [
+            {
+              oldPath: "foo.txt",
+              newPath: "foo.txt",
+              status: "modified",
+              binary: false,
+              additions: 0,
+              deletions: 0,
+              hunks: []
+            }
           ]
         };
         runner.set({ executable: "git", args: ["--paginate", "diff"], result: expectedResult });
@@ -1438,7 +2488,8 @@ no changes added to commit (use "git add" and/or "git commit -a")`
           ],
           stagedDeletedFiles: [],
           stagedModifiedFiles: [],
-          untrackedFiles: []
+          untrackedFiles: [],
+          driftedSubmodules: []
         });
       });
 
@@ -1467,7 +2518,8 @@ no changes added to commit (use "git add" and/or "git commit -a")`
           notStagedModifiedFiles: [],
           stagedDeletedFiles: [],
           stagedModifiedFiles: [],
-          untrackedFiles: []
+          untrackedFiles: [],
+          driftedSubmodules: []
         });
       });
 
@@ -1522,8 +2574,45 @@ no changes added to commit (use "git add" and/or "git commit -a")`,
           untrackedFiles: [
             "/mock/folder/a.html",
             "/mock/folder/a/b.txt"
-          ]
+          ],
+          driftedSubmodules: []
+        });
+      });
+
+      it("with drifted submodules", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: RunResult = {
+          exitCode: 0,
+          stdout: `On branch master
+Your branch is up to date with 'origin/master'.
+
+Changes not staged for commit:
+  (use "git add <file>..." to update what will be committed)
+  (use "git checkout -- <file>..." to discard changes in working directory)
+  (commit or discard the untracked or modified content in submodules)
+
+  modified:   specs/a (new commits)
+  modified:   specs/b (modified content, untracked content)
+  modified:   README.md
+
+no changes added to commit (use "git add" and/or "git commit -a")`,
+          stderr: ""
+        };
+        runner.set({ executable: "git", args: ["status"], result: expectedResult });
+        const git = new ExecutableGit();
+        const statusResult: ExecutableGit.StatusResult = await git.status({
+          runner,
+          executionFolderPath: "/mock/folder/"
         });
+        assert.deepEqual(statusResult.notStagedModifiedFiles, [
+          "/mock/folder/specs/a",
+          "/mock/folder/specs/b",
+          "/mock/folder/README.md"
+        ]);
+        assert.deepEqual(statusResult.driftedSubmodules, [
+          { folderPath: "/mock/folder/specs/a", newCommits: true, modifiedContent: false, untrackedContent: false },
+          { folderPath: "/mock/folder/specs/b", newCommits: false, modifiedContent: true, untrackedContent: true },
+        ]);
       });
     });
 
@@ -1743,5 +2832,661 @@ no changes added to commit (use "git add" and/or "git commit -a")`,
         ]);
       });
     });
+
+    describe("createTag()", function () {
+      it("command line arguments with no options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.CreateTagResult = { exitCode: 2, stdout: "c", stderr: "d", tagName: "v1.0.0", annotated: false };
+        runner.set({ executable: "git", args: ["tag", "v1.0.0"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.createTag("v1.0.0", { runner }), expectedResult);
+      });
+
+      it("command line arguments with all options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.CreateTagResult = { exitCode: 0, stdout: "", stderr: "", tagName: "v1.0.0", annotated: true };
+        runner.set({ executable: "git", args: ["tag", "--annotate", "-m", "Release", "-m", "1.0.0", "--force", "v1.0.0", "abc"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.createTag("v1.0.0", { runner, messages: ["Release", "1.0.0"], force: true, target: "abc" }), expectedResult);
+      });
+    });
+
+    describe("listTags()", function () {
+      it("command line arguments with pattern", async function () {
+        const runner = new FakeRunner();
+        runner.set({ executable: "git", args: ["tag", "--list", "v1.*"], result: { exitCode: 0, stdout: "v1.0.0\nv1.1.0\n", stderr: "" } });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.listTags({ runner, pattern: "v1.*" }), {
+          exitCode: 0,
+          stdout: "v1.0.0\nv1.1.0\n",
+          stderr: "",
+          tags: ["v1.0.0", "v1.1.0"],
+        });
+      });
+
+      it("with sortByVersion", async function () {
+        const runner = new FakeRunner();
+        runner.set({ executable: "git", args: ["tag", "--list"], result: { exitCode: 0, stdout: "latest\nv1.10.0\nv1.2.0\nv1.2.0-preview\nv0.9.1\n", stderr: "" } });
+        const git = new ExecutableGit();
+        const result: ExecutableGit.ListTagsResult = await git.listTags({ runner, sortByVersion: true });
+        assert.deepEqual(result.tags, ["v0.9.1", "v1.2.0-preview", "v1.2.0", "v1.10.0", "latest"]);
+      });
+    });
+
+    describe("deleteTag()", function () {
+      it("with existing tag", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.DeleteTagResult = { exitCode: 0, stdout: "Deleted tag 'v1.0.0' (was 1a2b3c4)\n", stderr: "", deletedTagSha: "1a2b3c4" };
+        runner.set({ executable: "git", args: ["tag", "--delete", "v1.0.0"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.deleteTag("v1.0.0", { runner }), expectedResult);
+      });
+
+      it("with non-existing tag", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.DeleteTagResult = { exitCode: 1, stdout: "", stderr: "error: tag 'v1.0.0' not found.", deletedTagSha: undefined };
+        runner.set({ executable: "git", args: ["tag", "--delete", "v1.0.0"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.deleteTag("v1.0.0", { runner }), expectedResult);
+      });
+    });
+
+    describe("mergeBase()", function () {
+      it("with refs that share history", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.MergeBaseResult = { exitCode: 0, stdout: "abcdef0123456789\n", stderr: "", mergeBaseSha: "abcdef0123456789" };
+        runner.set({ executable: "git", args: ["merge-base", "master", "origin/master"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.mergeBase("master", getGitRemoteBranch("origin:master"), { runner }), expectedResult);
+      });
+
+      it("with refs that don't share history", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.MergeBaseResult = { exitCode: 1, stdout: "", stderr: "", mergeBaseSha: undefined };
+        runner.set({ executable: "git", args: ["merge-base", "a", "b"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.mergeBase("a", "b", { runner }), expectedResult);
+      });
+    });
+
+    describe("isAncestor()", function () {
+      it("when ref is an ancestor", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.IsAncestorResult = { exitCode: 0, stdout: "", stderr: "", isAncestor: true };
+        runner.set({ executable: "git", args: ["merge-base", "--is-ancestor", "upstream/master", "master"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.isAncestor({ repositoryTrackingName: "upstream", branchName: "master" }, "master", { runner }), expectedResult);
+      });
+
+      it("when ref is not an ancestor", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.IsAncestorResult = { exitCode: 1, stdout: "", stderr: "", isAncestor: false };
+        runner.set({ executable: "git", args: ["merge-base", "--is-ancestor", "a", "b"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.isAncestor("a", "b", { runner }), expectedResult);
+      });
+
+      it("with unknown ref", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.IsAncestorResult = { exitCode: 128, stdout: "", stderr: "fatal: Not a valid object name a", isAncestor: false };
+        runner.set({ executable: "git", args: ["merge-base", "--is-ancestor", "a", "b"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.isAncestor("a", "b", { runner }), expectedResult);
+      });
+    });
+
+    describe("aheadBehind()", function () {
+      it("with diverged refs", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.AheadBehindResult = { exitCode: 0, stdout: "3\t5\n", stderr: "", ahead: 3, behind: 5 };
+        runner.set({ executable: "git", args: ["rev-list", "--left-right", "--count", "my-branch...origin/my-branch"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.aheadBehind("my-branch", getGitRemoteBranch("origin:my-branch"), { runner }), expectedResult);
+      });
+
+      it("with unknown ref", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.AheadBehindResult = { exitCode: 128, stdout: "", stderr: "fatal: ambiguous argument", ahead: 0, behind: 0 };
+        runner.set({ executable: "git", args: ["rev-list", "--left-right", "--count", "a...b"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.aheadBehind("a", "b", { runner }), expectedResult);
+      });
+    });
+
+    describe("log()", function () {
+      const logFormat = "--format=%x1e%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%cn%x1f%ce%x1f%cI%x1f%s%x1f%b%x1f";
+
+      it("command line arguments with no options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.LogResult = { exitCode: 2, stdout: "", stderr: "d", commits: [] };
+        runner.set({ executable: "git", args: ["log", logFormat, "--name-only"], result: expectedResult });
+        const git = new ExecutableGit();
+        assert.deepEqual(await git.log({ runner }), expectedResult);
+      });
+
+      it("command line arguments with all options", async function () {
+        const runner = new FakeRunner();
+        const expectedResult: ExecutableGit.LogResult = { exitCode: 2, stdout: "", stderr: "d", commits: [] };
+        runner.set({
+          executable: "git",
+          args: ["log", logFormat, "--name-only", "--max-count=5", "--author=berry", "v1.0.0..HEAD", "--", "lib", "test"],
+          result: expectedResult
+        });
+        const git = new ExecutableGit();
+        assert.deepEqual(
+          await git.log({
+            runner,
+            maxCount: 5,
+            author: "berry",
+            range: "v1.0.0..HEAD",
+            paths: ["lib", "test"],
+          }),
+          expectedResult);
+      });
+
+      it("with two commits", async function () {
+        const runner = new FakeRunner();
+        const stdout = [
+          "\x1ea2\x1fa1 b1\x1fJane\x1fjane@example.com\x1f2019-08-01T10:00:00-07:00\x1fJohn\x1fjohn@example.com\x1f2019-08-02T10:00:00-07:00\x1fMerge branch 'b1'\x1fMore details.\n\nSigned-off-by: Jane <jane@example.com>\nCo-authored-by: John\n <john@example.com>\n\x1f",
+          "",
+          "lib/git.ts",
+          "test/gitTests.ts",
+          "\x1ea1\x1f\x1fJane\x1fjane@example.com\x1f2019-07-01T10:00:00Z\x1fJane\x1fjane@example.com\x1f2019-07-01T10:00:00Z\x1fInitial commit\x1f\x1f",
+          "",
+          "README.md",
+          "",
+        ].join("\n");
+        runner.set({ executable: "git", args: ["log", logFormat, "--name-only"], result: { exitCode: 0, stdout, stderr: "" } });
+        runner.set({ executable: "git", args: ["rev-parse", "--show-toplevel"], result: { exitCode: 0, stdout: "/fake/repository\n", stderr: "" } });
+        const git = new ExecutableGit({ executionFolderPath: "/fake/repository/lib" });
+        const result: ExecutableGit.LogResult = await git.log({ runner });
+        assert.deepEqual(result.commits, [
+          {
+            sha: "a2",
+            parents: ["a1", "b1"],
+            author: { name: "Jane", email: "jane@example.com" },
+            authorDate: new Date("2019-08-01T17:00:00Z"),
+            committer: { name: "John", email: "john@example.com" },
+            committerDate: new Date("2019-08-02T17:00:00Z"),
+            subject: "Merge branch 'b1'",
+            body: "More details.\n\nSigned-off-by: Jane <jane@example.com>\nCo-authored-by: John\n <john@example.com>",
+            trailers: [
+              { token: "Signed-off-by", value: "Jane <jane@example.com>" },
+              { token: "Co-authored-by", value: "John <john@example.com>" },
+            ],
+            filesChanged: [
+              "/fake/repository/lib/git.ts",
+              "/fake/repository/test/gitTests.ts",
+            ],
+          },
+          {
+            sha: "a1",
+            parents: [],
+            author: { name: "Jane", email: "jane@example.com" },
+            authorDate: new Date("2019-07-01T10:00:00Z"),
+            committer: { name: "Jane", email: "jane@example.com" },
+            committerDate: new Date("2019-07-01T10:00:00Z"),
+            subject: "Initial commit",
+            body: "",
+            trailers: [],
+            filesChanged: [
+              "/fake/repository/README.md",
+            ],
+          },
+        ]);
+      });
+
+      it("with real runner", async function () {
+        const git = new ExecutableGit();
+        const result: ExecutableGit.LogResult = await git.log({ maxCount: 1 });
+        assert.strictEqual(result.exitCode, 0);
+        assert.strictEqual(result.commits.length, 1);
+        assert.strictEqual(result.commits[0].sha, (await git.currentCommitSha()).currentCommitSha!.trim());
+        assertEx.definedAndNotEmpty(result.commits[0].subject, "result.commits[0].subject");
+      });
+
+      it("with real runner from a subfolder", async function () {
+        const folderPath: string = await createTemporaryRepository();
+        try {
+          const git = new ExecutableGit({ executionFolderPath: joinPath(folderPath, "sub") });
+          const result: ExecutableGit.LogResult = await git.log({ maxCount: 1 });
+          assert.strictEqual(result.exitCode, 0);
+          assert.deepEqual(result.commits[0].filesChanged, [joinPath(folderPath, "sub/f.txt")]);
+        } finally {
+          await deleteFolder(folderPath);
+        }
+      });
+    });
+  });
+
+  describe("FakeGit", function () {
+    const folderPath = "/fake/repository";
+
+    function createFakeGit(options: FakeGit.ConstructorOptions = {}): FakeGit {
+      let time: number = Date.parse("2019-08-01T00:00:00Z");
+      return new FakeGit({
+        folderPath,
+        getCurrentDate: () => new Date(time += 1000),
+        ...options,
+      });
+    }
+
+    async function createFakeGitWithCommit(options: FakeGit.ConstructorOptions = {}): Promise<FakeGit> {
+      const git: FakeGit = createFakeGit(options);
+      git.writeFile("README.md", "hello");
+      await git.addAll();
+      await git.commit("Initial commit");
+      return git;
+    }
+
+    it("currentCommitSha() with no commits", async function () {
+      const git: FakeGit = createFakeGit();
+      const result: ExecutableGit.CurrentCommitShaResult = await git.currentCommitSha();
+      assert.strictEqual(result.exitCode, 128);
+      assert.strictEqual(result.currentCommitSha, undefined);
+    });
+
+    it("status() with no commits", async function () {
+      const git: FakeGit = createFakeGit();
+      const result: ExecutableGit.StatusResult = await git.status();
+      assert.strictEqual(result.localBranch, "master");
+      assert.strictEqual(result.hasUncommittedChanges, false);
+      assert.deepEqual(result.modifiedFiles, []);
+    });
+
+    it("status() with staged, not staged and untracked files", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      git.writeFile("a.txt", "a");
+      git.writeFile("b.txt", "b");
+      await git.add(["a.txt", "b.txt"]);
+      await git.commit("Add a and b");
+      git.writeFile("a.txt", "a2");
+      git.deleteFile("b.txt");
+      git.writeFile("c.txt", "c");
+      git.writeFile("README.md", "hello there");
+      await git.add(["README.md", "b.txt"]);
+
+      const result: ExecutableGit.StatusResult = await git.status();
+      assert.strictEqual(result.exitCode, 0);
+      assert.strictEqual(result.hasUncommittedChanges, true);
+      assert.deepEqual(result.stagedModifiedFiles, [`${folderPath}/README.md`]);
+      assert.deepEqual(result.stagedDeletedFiles, [`${folderPath}/b.txt`]);
+      assert.deepEqual(result.notStagedModifiedFiles, [`${folderPath}/a.txt`]);
+      assert.deepEqual(result.notStagedDeletedFiles, []);
+      assert.deepEqual(result.untrackedFiles, [`${folderPath}/c.txt`]);
+      assert.deepEqual(result.modifiedFiles, [
+        `${folderPath}/README.md`,
+        `${folderPath}/b.txt`,
+        `${folderPath}/a.txt`,
+        `${folderPath}/c.txt`,
+      ]);
+    });
+
+    it("add() with pathspec that doesn't match", async function () {
+      const git: FakeGit = createFakeGit();
+      const result: ExecutableGit.Result = await git.add("nope.txt");
+      assert.strictEqual(result.exitCode, 128);
+      assert.strictEqual(result.stderr, "fatal: pathspec 'nope.txt' did not match any files");
+    });
+
+    it("commit() with nothing to commit", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      const result: ExecutableGit.Result = await git.commit("Nothing");
+      assert.strictEqual(result.exitCode, 1);
+      assert.strictEqual(result.stdout, "nothing to commit, working tree clean");
+    });
+
+    it("commit() and log()", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      git.writeFile("lib/a.ts", "a");
+      await git.addAll();
+      await git.commit(["Add a", "Signed-off-by: Jane"], { author: { name: "Jane", email: "jane@example.com" } });
+
+      const currentCommitSha: string = (await git.currentCommitSha()).currentCommitSha!;
+      const logResult: ExecutableGit.LogResult = await git.log();
+      assert.strictEqual(logResult.exitCode, 0);
+      assert.deepEqual(map(logResult.commits, (commit: Git.Commit) => commit.subject), ["Add a", "Initial commit"]);
+      assert.strictEqual(logResult.commits[0].sha, currentCommitSha);
+      assert.deepEqual(logResult.commits[0].parents, [logResult.commits[1].sha]);
+      assert.deepEqual(logResult.commits[0].author, { name: "Jane", email: "jane@example.com" });
+      assert.deepEqual(logResult.commits[0].committer, { name: "Fake Author", email: "fake.author@example.com" });
+      assert.deepEqual(logResult.commits[0].trailers, [{ token: "Signed-off-by", value: "Jane" }]);
+      assert.deepEqual(logResult.commits[0].filesChanged, [`${folderPath}/lib/a.ts`]);
+
+      assert.deepEqual(map((await git.log({ maxCount: 1 })).commits, (commit: Git.Commit) => commit.subject), ["Add a"]);
+      assert.deepEqual(map((await git.log({ paths: "README.md" })).commits, (commit: Git.Commit) => commit.subject), ["Initial commit"]);
+      assert.deepEqual(map((await git.log({ author: "Jane" })).commits, (commit: Git.Commit) => commit.subject), ["Add a"]);
+      assert.deepEqual(map((await git.log({ range: "HEAD~1..HEAD" })).commits, (commit: Git.Commit) => commit.subject), ["Add a"]);
+      assert.strictEqual((await git.log({ range: "nope..HEAD" })).exitCode, 128);
+    });
+
+    it("createLocalBranch(), checkout() and localBranches()", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      assert.strictEqual((await git.createLocalBranch("feature")).exitCode, 0);
+      git.writeFile("feature.txt", "feature");
+      await git.addAll();
+      await git.commit("Add feature");
+
+      assert.deepEqual(await git.localBranches(), { exitCode: 0, stdout: "", stderr: "", localBranches: ["feature", "master"], currentBranch: "feature" });
+      assert.strictEqual((await git.createLocalBranch("feature")).exitCode, 128);
+
+      assert.strictEqual((await git.checkout("master")).exitCode, 0);
+      assert.strictEqual(await git.currentBranch(), "master");
+      assert.strictEqual(git.readFile("feature.txt"), undefined);
+
+      assert.strictEqual((await git.checkout("nope")).exitCode, 1);
+
+      const featureSha: string = git.getCommit("feature")!.sha;
+      assert.strictEqual((await git.checkout(featureSha)).exitCode, 0);
+      assert.strictEqual(await git.currentBranch(), featureSha.substring(0, 7));
+      assert.strictEqual(git.readFile(`${folderPath}/feature.txt`), "feature");
+    });
+
+    it("checkout() with untracked file that would be overwritten", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      await git.createLocalBranch("feature");
+      git.writeFile("feature.txt", "feature");
+      await git.addAll();
+      await git.commit("Add feature");
+      await git.checkout("master");
+      git.writeFile("feature.txt", "untracked");
+
+      const result: ExecutableGit.CheckoutResult = await git.checkout("feature");
+      assert.strictEqual(result.exitCode, 1);
+      assert.deepEqual(result.filesThatWouldBeOverwritten, [`${folderPath}/feature.txt`]);
+      assert.strictEqual(await git.currentBranch(), "master");
+    });
+
+    it("deleteLocalBranch()", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      await git.createLocalBranch("feature");
+      assert.strictEqual((await git.deleteLocalBranch("feature")).exitCode, 1);
+      await git.checkout("master");
+      assert.strictEqual((await git.deleteLocalBranch("feature")).exitCode, 0);
+      assert.strictEqual((await git.deleteLocalBranch("feature")).stderr, "error: branch 'feature' not found.");
+    });
+
+    describe("merge()", function () {
+      it("with fast-forward", async function () {
+        const git: FakeGit = await createFakeGitWithCommit();
+        await git.createLocalBranch("feature");
+        git.writeFile("feature.txt", "feature");
+        await git.addAll();
+        await git.commit("Add feature");
+        await git.checkout("master");
+
+        const result: ExecutableGit.Result = await git.merge({ refsToMerge: "feature" });
+        assert.strictEqual(result.exitCode, 0);
+        assert.strictEqual(result.stdout, "Fast-forward");
+        assert.strictEqual(git.getCommit("master"), git.getCommit("feature"));
+        assert.strictEqual(git.readFile("feature.txt"), "feature");
+        assert.strictEqual((await git.merge({ refsToMerge: "feature" })).stdout, "Already up to date.");
+      });
+
+      it("with diverged branches", async function () {
+        const git: FakeGit = await createFakeGitWithCommit();
+        await git.createLocalBranch("feature");
+        git.writeFile("feature.txt", "feature");
+        await git.addAll();
+        await git.commit("Add feature");
+        await git.checkout("master");
+        git.writeFile("master.txt", "master");
+        await git.addAll();
+        await git.commit("Add master");
+
+        const result: ExecutableGit.Result = await git.merge({ refsToMerge: "feature" });
+        assert.strictEqual(result.exitCode, 0);
+        const mergeCommit: FakeGit.Commit = git.getCommit("HEAD")!;
+        assert.strictEqual(mergeCommit.message, "Merge branch 'feature'");
+        assert.strictEqual(mergeCommit.parents.length, 2);
+        assert.deepEqual(mergeCommit.files, { "README.md": "hello", "feature.txt": "feature", "master.txt": "master" });
+        assert.strictEqual((await git.status()).hasUncommittedChanges, false);
+      });
+
+      it("with conflict", async function () {
+        const git: FakeGit = await createFakeGitWithCommit();
+        await git.createLocalBranch("feature");
+        git.writeFile("README.md", "feature");
+        await git.addAll();
+        await git.commit("Change README in feature");
+        await git.checkout("master");
+        git.writeFile("README.md", "master");
+        await git.addAll();
+        await git.commit("Change README in master");
+
+        const result: ExecutableGit.Result = await git.merge({ refsToMerge: "feature" });
+        assert.strictEqual(result.exitCode, 1);
+        assertEx.contains(result.stdout, "CONFLICT (content): Merge conflict in README.md");
+        assert.strictEqual(git.readFile("README.md"), "<<<<<<< HEAD\nmaster\n=======\nfeature\n>>>>>>> feature\n");
+
+        git.writeFile("README.md", "resolved");
+        await git.addAll();
+        assert.strictEqual((await git.commit("Merge feature")).exitCode, 0);
+        assert.strictEqual(git.getCommit("HEAD")!.parents.length, 2);
+      });
+    });
+
+    it("rebase()", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      await git.createLocalBranch("feature");
+      git.writeFile("feature.txt", "feature");
+      await git.addAll();
+      await git.commit("Add feature");
+      await git.checkout("master");
+      git.writeFile("master.txt", "master");
+      await git.addAll();
+      await git.commit("Add master");
+
+      const result: ExecutableGit.Result = await git.rebase({ branch: "feature", upstream: "master" });
+      assert.strictEqual(result.exitCode, 0);
+      assert.strictEqual(await git.currentBranch(), "feature");
+      const featureCommit: FakeGit.Commit = git.getCommit("feature")!;
+      assert.strictEqual(featureCommit.message, "Add feature");
+      assert.deepEqual(featureCommit.parents, [git.getCommit("master")!.sha]);
+      assert.strictEqual(git.readFile("master.txt"), "master");
+      assert.strictEqual((await git.rebase({ upstream: "master" })).stdout, "Current branch feature is up to date.");
+    });
+
+    describe("remote repositories", function () {
+      const remoteUrl = "https://github.com/fake/repository.git";
+
+      async function createClone(upstream: FakeGit): Promise<FakeGit> {
+        const git: FakeGit = createFakeGit({ folderPath: "/fake/clone" });
+        git.setRemoteRepository(remoteUrl, upstream);
+        assert.strictEqual((await git.clone(remoteUrl)).exitCode, 0);
+        return git;
+      }
+
+      it("clone() with unknown URL", async function () {
+        const git: FakeGit = createFakeGit();
+        const result: ExecutableGit.Result = await git.clone(remoteUrl);
+        assert.strictEqual(result.exitCode, 128);
+        assert.strictEqual(result.stderr, `fatal: repository '${remoteUrl}' not found`);
+      });
+
+      it("clone()", async function () {
+        const upstream: FakeGit = await createFakeGitWithCommit();
+        const git: FakeGit = await createClone(upstream);
+        assert.strictEqual(git.readFile("README.md"), "hello");
+        assert.strictEqual(await git.getRepositoryUrl(), remoteUrl);
+        assert.deepEqual((await git.remoteBranches()).remoteBranches, [{ repositoryTrackingName: "origin", branchName: "master" }]);
+        assert.strictEqual((await git.status()).remoteBranch, "origin/master");
+      });
+
+      it("push() and pull()", async function () {
+        const upstream: FakeGit = await createFakeGitWithCommit();
+        const git1: FakeGit = await createClone(upstream);
+        const git2: FakeGit = await createClone(upstream);
+
+        git1.writeFile("a.txt", "a");
+        await git1.addAll();
+        await git1.commit("Add a");
+        assert.strictEqual((await git1.push()).exitCode, 0);
+        assert.strictEqual(upstream.getCommit("master"), git1.getCommit("master"));
+
+        git2.writeFile("b.txt", "b");
+        await git2.addAll();
+        await git2.commit("Add b");
+        assert.strictEqual((await git2.push()).exitCode, 1);
+        assert.strictEqual((await git2.pull()).exitCode, 0);
+        assert.strictEqual(git2.readFile("a.txt"), "a");
+        assert.strictEqual((await git2.push()).exitCode, 0);
+      });
+
+      it("push() with new branch", async function () {
+        const upstream: FakeGit = await createFakeGitWithCommit();
+        const git: FakeGit = await createClone(upstream);
+        await git.createLocalBranch("feature");
+        assert.strictEqual((await git.push()).stderr, "fatal: The current branch feature has no upstream branch.");
+        assert.strictEqual((await git.push({ setUpstream: true })).exitCode, 0);
+        assert.strictEqual((await git.status()).remoteBranch, "origin/feature");
+
+        assert.strictEqual((await git.deleteRemoteBranch("feature")).exitCode, 0);
+        assert.deepEqual((await git.remoteBranches()).remoteBranches, [{ repositoryTrackingName: "origin", branchName: "master" }]);
+        assert.strictEqual(upstream.getCommit("feature"), undefined);
+      });
+
+      it("push() with tags", async function () {
+        const upstream: FakeGit = await createFakeGitWithCommit();
+        const git: FakeGit = await createClone(upstream);
+        git.writeFile("a.txt", "a");
+        await git.addAll();
+        await git.commit("Add a");
+        assert.strictEqual((await git.createTag("v1.0.0")).exitCode, 0);
+
+        assert.strictEqual((await git.push({ tags: true })).exitCode, 0);
+        assert.strictEqual(upstream.getCommit("master"), git.getCommit("master"));
+        assert.deepEqual((await upstream.listTags()).tags, ["v1.0.0"]);
+        assert.strictEqual(upstream.getCommit("v1.0.0"), git.getCommit("HEAD"));
+      });
+
+      it("push() with tag that already exists remotely", async function () {
+        const upstream: FakeGit = await createFakeGitWithCommit();
+        const git: FakeGit = await createClone(upstream);
+        await upstream.createTag("v1.0.0");
+        git.writeFile("a.txt", "a");
+        await git.addAll();
+        await git.commit("Add a");
+        await git.createTag("v1.0.0");
+
+        const result: ExecutableGit.Result = await git.push({ tags: true });
+        assert.strictEqual(result.exitCode, 1);
+        assert.strictEqual(result.stderr, [
+          ` ! [rejected]        v1.0.0 -> v1.0.0 (already exists)`,
+          `error: failed to push some refs to '${remoteUrl}'`,
+        ].join("\n"));
+        assert.strictEqual(upstream.getCommit("master"), git.getCommit("master"));
+        assert.strictEqual(upstream.getCommit("v1.0.0"), upstream.getCommit("HEAD~1"));
+
+        assert.strictEqual((await git.push({ tags: true, force: true })).exitCode, 0);
+        assert.strictEqual(upstream.getCommit("v1.0.0"), git.getCommit("HEAD"));
+      });
+
+      it("fetch() and checkout() of remote branch", async function () {
+        const upstream: FakeGit = await createFakeGitWithCommit();
+        const git: FakeGit = await createClone(upstream);
+        await upstream.createLocalBranch("feature");
+        upstream.writeFile("feature.txt", "feature");
+        await upstream.addAll();
+        await upstream.commit("Add feature");
+
+        assert.strictEqual((await git.fetch()).exitCode, 0);
+        assert.strictEqual((await git.checkout("feature")).exitCode, 0);
+        assert.strictEqual(git.readFile("feature.txt"), "feature");
+        assert.strictEqual((await git.status()).remoteBranch, "origin/feature");
+      });
+    });
+
+    describe("tags", function () {
+      it("createTag(), listTags() and deleteTag()", async function () {
+        const git: FakeGit = await createFakeGitWithCommit();
+        assert.deepEqual(await git.createTag("v1.10.0"), { exitCode: 0, stdout: "", stderr: "", tagName: "v1.10.0", annotated: false });
+        assert.deepEqual(await git.createTag("v1.9.0", { messages: "Release 1.9.0" }), { exitCode: 0, stdout: "", stderr: "", tagName: "v1.9.0", annotated: true });
+        await git.createTag("other");
+        assert.strictEqual((await git.createTag("other")).stderr, "fatal: tag 'other' already exists");
+        assert.strictEqual((await git.createTag("v2.0.0", { target: "nope" })).stderr, "fatal: Failed to resolve 'nope' as a valid ref.");
+
+        assert.deepEqual((await git.listTags()).tags, ["other", "v1.10.0", "v1.9.0"]);
+        assert.deepEqual((await git.listTags({ pattern: "v1.*", sortByVersion: true })).tags, ["v1.9.0", "v1.10.0"]);
+        await git.createTag("v2.0.0-beta.10");
+        await git.createTag("v2.0.0-beta.2");
+        assert.deepEqual((await git.listTags({ pattern: "v2.*", sortByVersion: true })).tags, ["v2.0.0-beta.2", "v2.0.0-beta.10"]);
+
+        const deleteResult: ExecutableGit.DeleteTagResult = await git.deleteTag("other");
+        assert.strictEqual(deleteResult.deletedTagSha, git.getCommit("HEAD")!.sha.substring(0, 7));
+        assert.strictEqual((await git.deleteTag("other")).stderr, "error: tag 'other' not found.");
+        assert.deepEqual((await git.listTags()).tags, ["v1.10.0", "v1.9.0", "v2.0.0-beta.10", "v2.0.0-beta.2"]);
+      });
+    });
+
+    describe("diff()", function () {
+      it("with unstaged, staged and committed changes", async function () {
+        const git: FakeGit = await createFakeGitWithCommit();
+        git.writeFile("a.txt", "a");
+        await git.addAll();
+        await git.commit("Add a");
+        git.writeFile("a.txt", "a2");
+        git.writeFile("b.txt", "b");
+        await git.add("b.txt");
+
+        assert.deepEqual((await git.diff()).filesChanged, [`${folderPath}/a.txt`]);
+        assert.deepEqual((await git.diff({ staged: true })).filesChanged, [`${folderPath}/b.txt`]);
+        assert.deepEqual((await git.diff({ commit1: "HEAD~1", commit2: "HEAD" })).filesChanged, [`${folderPath}/a.txt`]);
+        assert.strictEqual((await git.diff({ commit1: "HEAD~1", commit2: "HEAD", nameOnly: true })).stdout, "a.txt");
+        assert.strictEqual((await git.diff({ commit1: "nope" })).exitCode, 128);
+      });
+
+      it("with ignoreSpace", async function () {
+        const git: FakeGit = await createFakeGitWithCommit();
+        git.writeFile("README.md", "hello   ");
+        assert.deepEqual((await git.diff()).filesChanged, [`${folderPath}/README.md`]);
+        assert.deepEqual((await git.diff({ ignoreSpace: "at-eol" })).filesChanged, []);
+      });
+    });
+
+    it("stash()", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      assert.strictEqual((await git.stash({})).stdout, "No local changes to save");
+      git.writeFile("README.md", "changed");
+      git.writeFile("new.txt", "new");
+
+      assert.strictEqual((await git.stash({})).exitCode, 0);
+      assert.strictEqual(git.readFile("README.md"), "hello");
+      assert.strictEqual(git.readFile("new.txt"), "new");
+
+      assert.strictEqual((await git.stash({ pop: true })).exitCode, 0);
+      assert.strictEqual(git.readFile("README.md"), "changed");
+      assert.strictEqual((await git.stash({ pop: true })).stderr, "No stash entries found.");
+    });
+
+    it("resetAll()", async function () {
+      const git: FakeGit = await createFakeGitWithCommit();
+      git.writeFile("README.md", "changed");
+      git.writeFile("new.txt", "new");
+      await git.addAll();
+
+      await git.resetAll();
+      assert.deepEqual((await git.status()).stagedModifiedFiles, []);
+      assert.strictEqual(git.readFile("README.md"), "changed");
+
+      await git.resetAll({ hard: true });
+      assert.strictEqual(git.readFile("README.md"), "hello");
+      assert.deepEqual((await git.status()).untrackedFiles, [`${folderPath}/new.txt`]);
+    });
+
+    it("remotes", async function () {
+      const git: FakeGit = createFakeGit();
+      assert.strictEqual((await git.addRemote("origin", "https://a")).exitCode, 0);
+      assert.strictEqual((await git.addRemote("origin", "https://b")).exitCode, 3);
+      assert.strictEqual((await git.setRemoteUrl("upstream", "https://b")).exitCode, 2);
+      assert.strictEqual((await git.setRemoteUrl("origin", "https://c")).exitCode, 0);
+      assert.strictEqual(await git.getRemoteUrl("origin"), "https://c");
+      assert.strictEqual(await git.getRemoteUrl("upstream"), undefined);
+      assert.deepEqual((await git.listRemotes()).remotes, { origin: "https://c" });
+      assert.strictEqual((await git.getConfigurationValue("remote.origin.url")).configurationValue, "https://c");
+      assert.strictEqual((await git.getConfigurationValue("fake.value")).exitCode, 1);
+      git.setConfigurationValue("fake.value", "spam");
+      assert.strictEqual((await git.getConfigurationValue("fake.value")).configurationValue, "spam");
+    });
   });
 });
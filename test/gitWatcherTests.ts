@@ -0,0 +1,217 @@
+import { assert } from "chai";
+import { assertEx } from "../lib/assertEx";
+import { FakeClock } from "../lib/clock";
+import { Duration } from "../lib/duration";
+import { createTemporaryFolder, deleteFolder, writeFileContents } from "../lib/fileSystem2";
+import { ExecutableGit } from "../lib/git";
+import { GitWatcher, GitWatcherEvent } from "../lib/gitWatcher";
+import { joinPath } from "../lib/path";
+import { FakeRunner, RunResult } from "../lib/run";
+
+describe("gitWatcher.ts", function () {
+  let branch: string;
+  let sha: string;
+  let statusExitCode: number;
+  let statusLines: string[];
+  let runner: FakeRunner;
+  let git: ExecutableGit;
+
+  beforeEach(function () {
+    branch = "master";
+    sha = "1111111111";
+    statusExitCode = 0;
+    statusLines = ["nothing to commit, working tree clean"];
+    runner = new FakeRunner();
+    runner.set({
+      executable: "git",
+      args: ["status"],
+      result: (): RunResult => ({ exitCode: statusExitCode, stdout: [`On branch ${branch}`, ...statusLines].join("\n") }),
+    });
+    runner.set({
+      executable: "git",
+      args: ["rev-parse", "HEAD"],
+      result: (): RunResult => ({ exitCode: 0, stdout: `${sha}\n` }),
+    });
+    git = new ExecutableGit({ runner, executionFolderPath: "/repo" });
+  });
+
+  describe("poll()", function () {
+    it("with first poll", async function () {
+      const watcher = new GitWatcher(git);
+      assert.deepEqual(await watcher.poll(), []);
+    });
+
+    it("with no changes", async function () {
+      const watcher = new GitWatcher(git);
+      await watcher.poll();
+      assert.deepEqual(await watcher.poll(), []);
+    });
+
+    it("with new commit", async function () {
+      const watcher = new GitWatcher(git);
+      await watcher.poll();
+      sha = "2222222222";
+      assert.deepEqual(await watcher.poll(), [
+        { type: "head-moved", previousSha: "1111111111", currentSha: "2222222222" },
+      ]);
+    });
+
+    it("with branch switch", async function () {
+      const watcher = new GitWatcher(git);
+      await watcher.poll();
+      branch = "feature";
+      sha = "2222222222";
+      assert.deepEqual(await watcher.poll(), [
+        { type: "branch-switched", previousBranch: "master", currentBranch: "feature" },
+        { type: "head-moved", previousSha: "1111111111", currentSha: "2222222222" },
+      ]);
+    });
+
+    it("with working tree changes", async function () {
+      const watcher = new GitWatcher(git);
+      await watcher.poll();
+      statusLines = [
+        "Untracked files:",
+        `  (use "git add <file>..." to include in what will be committed)`,
+        "",
+        "        b.txt",
+        "        a.txt",
+        "",
+      ];
+      assert.deepEqual(await watcher.poll(), [
+        { type: "working-tree-changed", modifiedFiles: ["/repo/a.txt", "/repo/b.txt"], previousModifiedFiles: [] },
+      ]);
+      assert.deepEqual(await watcher.poll(), []);
+    });
+
+    it("with already modified file edited twice", async function () {
+      const folderPath: string = await createTemporaryFolder();
+      try {
+        const filePath: string = joinPath(folderPath, "spec.yml");
+        await writeFileContents(filePath, "a");
+        statusLines = [
+          "Changes not staged for commit:",
+          `  (use "git add <file>..." to update what will be committed)`,
+          "",
+          "        modified:   spec.yml",
+          "",
+        ];
+        const watcher = new GitWatcher(new ExecutableGit({ runner, executionFolderPath: folderPath }));
+        await watcher.poll();
+        assert.deepEqual(await watcher.poll(), []);
+
+        const expectedEvent: GitWatcherEvent = { type: "working-tree-changed", modifiedFiles: [filePath], previousModifiedFiles: [filePath] };
+        await writeFileContents(filePath, "bb");
+        assert.deepEqual(await watcher.poll(), [expectedEvent]);
+        await writeFileContents(filePath, "ccc");
+        assert.deepEqual(await watcher.poll(), [expectedEvent]);
+        assert.deepEqual(await watcher.poll(), []);
+      } finally {
+        await deleteFolder(folderPath);
+      }
+    });
+
+    it("when git status fails", async function () {
+      const watcher = new GitWatcher(git);
+      await watcher.poll();
+      statusExitCode = 128;
+      sha = "2222222222";
+      assert.deepEqual(await watcher.poll(), []);
+      statusExitCode = 0;
+      assert.deepEqual(await watcher.poll(), [
+        { type: "head-moved", previousSha: "1111111111", currentSha: "2222222222" },
+      ]);
+    });
+  });
+
+  describe("start()", function () {
+    it("polls on the poll interval until stopped", async function () {
+      const clock = new FakeClock();
+      const events: GitWatcherEvent[] = [];
+      const watcher = new GitWatcher(git, {
+        clock,
+        pollInterval: Duration.seconds(5),
+        onEvent: (event: GitWatcherEvent) => events.push(event),
+      });
+      await watcher.start();
+      assert.strictEqual(watcher.isRunning, true);
+
+      sha = "2222222222";
+      await clock.advance(Duration.seconds(4));
+      assert.deepEqual(events, []);
+      await clock.advance(Duration.seconds(1));
+      assert.deepEqual(events, [
+        { type: "head-moved", previousSha: "1111111111", currentSha: "2222222222" },
+      ]);
+
+      watcher.stop();
+      assert.strictEqual(watcher.isRunning, false);
+      assert.strictEqual(clock.pendingTimeoutCount, 0);
+      sha = "3333333333";
+      await clock.advance(Duration.seconds(10));
+      assert.strictEqual(events.length, 1);
+    });
+
+    it("when the first poll throws", async function () {
+      const clock = new FakeClock();
+      const emptyRunner = new FakeRunner();
+      const watcher = new GitWatcher(new ExecutableGit({ runner: emptyRunner, executionFolderPath: "/repo" }), { clock });
+      await assertEx.throwsAsync(watcher.start());
+      assert.strictEqual(watcher.isRunning, false);
+      assert.strictEqual(clock.pendingTimeoutCount, 0);
+
+      emptyRunner.set({ executable: "git", args: ["status"], result: { exitCode: 0, stdout: "On branch master" } });
+      emptyRunner.set({ executable: "git", args: ["rev-parse", "HEAD"], result: { exitCode: 0, stdout: sha } });
+      await watcher.start();
+      assert.strictEqual(watcher.isRunning, true);
+      assert.strictEqual(clock.pendingTimeoutCount, 1);
+      watcher.stop();
+    });
+
+    it("when stopped and started again during a poll", async function () {
+      const clock = new FakeClock();
+      let resolveEventRaised: () => void;
+      const eventRaised = new Promise<void>((resolve: () => void) => resolveEventRaised = resolve);
+      let resolveEventHandled: () => void;
+      const eventHandled = new Promise<void>((resolve: () => void) => resolveEventHandled = resolve);
+      const watcher = new GitWatcher(git, {
+        clock,
+        onEvent: () => {
+          resolveEventRaised();
+          return eventHandled;
+        },
+      });
+      await watcher.start();
+
+      sha = "2222222222";
+      const advancePromise: Promise<void> = clock.advance(Duration.seconds(1));
+      await eventRaised;
+      watcher.stop();
+      await watcher.start();
+      assert.strictEqual(clock.pendingTimeoutCount, 1);
+
+      resolveEventHandled!();
+      await advancePromise;
+      assert.strictEqual(watcher.isRunning, true);
+      assert.strictEqual(clock.pendingTimeoutCount, 1);
+      watcher.stop();
+    });
+
+    it("keeps polling after a poll throws", async function () {
+      const clock = new FakeClock();
+      const errors: any[] = [];
+      const watcher = new GitWatcher(git, {
+        clock,
+        onEvent: () => { throw new Error("Handler failed"); },
+        onError: (error: any) => errors.push(error),
+      });
+      await watcher.start();
+      sha = "2222222222";
+      await clock.advance(Duration.seconds(1));
+      sha = "3333333333";
+      await clock.advance(Duration.seconds(1));
+      watcher.stop();
+      assert.deepEqual(errors.map((error: Error) => error.message), ["Handler failed", "Handler failed"]);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { getInMemoryLogger, InMemoryLogger } from "@azure/logger-js";
+import { assert } from "chai";
+import { createTemporaryFolder, deleteFolder, writeFileContents } from "../lib/fileSystem2";
+import { FakeGitHub, GitHubLabel } from "../lib/github";
+import { describeGitHubLabelChange, getGitHubLabelChanges, GitHubLabelChange, GitHubLabelDefinition, GitHubLabelManifest, parseGitHubLabelManifest, syncGitHubLabels, syncGitHubLabelsCommand } from "../lib/githubLabels";
+import { joinPath } from "../lib/path";
+
+const repository = "ts-common/azure-js-dev-tools";
+
+function createLabel(name: string, color: string, description?: string): GitHubLabel {
+  return { id: 0, node_id: "fake_node_id", url: "fake_url", name, color, description, default: false };
+}
+
+async function createFakeGitHub(...labels: GitHubLabel[]): Promise<FakeGitHub> {
+  const fakeGitHub = new FakeGitHub();
+  fakeGitHub.createRepository(repository);
+  for (const label of labels) {
+    await fakeGitHub.createLabel(repository, label.name, label.color, { description: label.description });
+  }
+  return fakeGitHub;
+}
+
+function getLabelSummaries(labels: GitHubLabel[]): string[] {
+  return labels.map((label: GitHubLabel) => `${label.name} ${label.color} ${label.description}`);
+}
+
+describe("githubLabels.ts", function () {
+  describe("parseGitHubLabelManifest()", function () {
+    it("with YAML", function () {
+      const manifest: GitHubLabelManifest = parseGitHubLabelManifest([
+        "repositories:",
+        "  - ts-common/azure-js-dev-tools",
+        "labels:",
+        "  - name: bug",
+        "    color: '#D73A4A'",
+        "    description: Something isn't working",
+        "    aliases: [defect]",
+        "  - name: question",
+        "    color: d876e3",
+      ].join("\n"));
+      assert.deepEqual(manifest, {
+        repositories: ["ts-common/azure-js-dev-tools"],
+        labels: [
+          { name: "bug", color: "d73a4a", description: "Something isn't working", aliases: ["defect"] },
+          { name: "question", color: "d876e3", description: undefined, aliases: undefined },
+        ],
+        deleteUnlistedLabels: false,
+      });
+    });
+
+    it("with JSON", function () {
+      const manifest: GitHubLabelManifest = parseGitHubLabelManifest(JSON.stringify({
+        labels: [{ name: "bug", color: "d73a4a" }],
+        deleteUnlistedLabels: true,
+      }));
+      assert.deepEqual(manifest, {
+        repositories: undefined,
+        labels: [{ name: "bug", color: "d73a4a", description: undefined, aliases: undefined }],
+        deleteUnlistedLabels: true,
+      });
+    });
+
+    it("with no labels", function () {
+      assert.throws(() => parseGitHubLabelManifest("repositories: []"), `A label manifest must have a "labels" array.`);
+    });
+
+    it("with label without a name", function () {
+      assert.throws(() => parseGitHubLabelManifest(`{ "labels": [{ "color": "d73a4a" }] }`), `Label 0 in the label manifest must have a "name".`);
+    });
+
+    it("with invalid color", function () {
+      assert.throws(() => parseGitHubLabelManifest(`{ "labels": [{ "name": "bug", "color": "red" }] }`), `The color of the label "bug" must be a 6 digit hexadecimal color, but was "red".`);
+    });
+
+    it("with YAML color that is read as a number", function () {
+      const manifest: GitHubLabelManifest = parseGitHubLabelManifest([
+        "labels:",
+        "  - name: bug",
+        "    color: 123456",
+        "  - name: question",
+        `    color: "000000"`,
+      ].join("\n"));
+      assert.deepEqual(manifest.labels.map((label: GitHubLabelDefinition) => label.color), ["123456", "000000"]);
+    });
+
+    it("with YAML color that loses digits when it is read as a number", function () {
+      assert.throws(() => parseGitHubLabelManifest("labels:\n  - name: bug\n    color: 000000"),
+        `The color of the label "bug" must be a 6 digit hexadecimal color, but was the number 0. Put quotes around the color so that it is read as a string.`);
+      assert.throws(() => parseGitHubLabelManifest("labels:\n  - name: bug\n    color: 010101"),
+        `The color of the label "bug" must be a 6 digit hexadecimal color, but was the number 4161. Put quotes around the color so that it is read as a string.`);
+    });
+
+    it("with alias that matches another label's name", function () {
+      assert.throws(() => parseGitHubLabelManifest(`{ "labels": [{ "name": "bug", "color": "d73a4a" }, { "name": "defect", "color": "d73a4a", "aliases": ["Bug"] }] }`),
+        `The label name "Bug" appears more than once in the label manifest.`);
+    });
+  });
+
+  describe("getGitHubLabelChanges()", function () {
+    it("with matching labels", function () {
+      const manifest: GitHubLabelManifest = { labels: [{ name: "bug", color: "D73A4A", description: "Something isn't working" }] };
+      assert.deepEqual(getGitHubLabelChanges(manifest, [createLabel("bug", "d73a4a", "Something isn't working")]), []);
+    });
+
+    it("with missing, changed, and renamed labels", function () {
+      const manifest: GitHubLabelManifest = {
+        labels: [
+          { name: "bug", color: "d73a4a", description: "Something isn't working" },
+          { name: "question", color: "d876e3", aliases: ["help"] },
+          { name: "Docs", color: "0075ca" },
+          { name: "enhancement", color: "a2eeef" },
+        ],
+      };
+      const labels: GitHubLabel[] = [
+        createLabel("bug", "ededed"),
+        createLabel("help", "d876e3"),
+        createLabel("docs", "0075ca"),
+        createLabel("wontfix", "ffffff"),
+      ];
+      assert.deepEqual(getGitHubLabelChanges(manifest, labels), [
+        { type: "update", labelName: "bug", color: "d73a4a", description: "Something isn't working" },
+        { type: "rename", labelName: "help", newName: "question" },
+        { type: "rename", labelName: "docs", newName: "Docs" },
+        { type: "create", labelName: "enhancement", color: "a2eeef", description: undefined },
+      ]);
+    });
+
+    it("with alias and existing label with the same name", function () {
+      const manifest: GitHubLabelManifest = { labels: [{ name: "question", color: "d876e3", aliases: ["help"] }] };
+      assert.deepEqual(getGitHubLabelChanges(manifest, [createLabel("help", "d876e3"), createLabel("question", "d876e3")]), []);
+    });
+
+    it("with deleteUnlistedLabels", function () {
+      const manifest: GitHubLabelManifest = { labels: [{ name: "bug", color: "d73a4a" }], deleteUnlistedLabels: true };
+      assert.deepEqual(getGitHubLabelChanges(manifest, [createLabel("bug", "d73a4a"), createLabel("wontfix", "ffffff")]), [
+        { type: "delete", labelName: "wontfix" },
+      ]);
+    });
+  });
+
+  it("describeGitHubLabelChange()", function () {
+    assert.strictEqual(describeGitHubLabelChange({ type: "create", labelName: "bug", color: "d73a4a" }), `Create label "bug" with color "d73a4a".`);
+    assert.strictEqual(describeGitHubLabelChange({ type: "update", labelName: "bug", color: "d73a4a", description: "Broken" }), `Update label "bug" with color "d73a4a" and description "Broken".`);
+    assert.strictEqual(describeGitHubLabelChange({ type: "rename", labelName: "defect", newName: "bug" }), `Rename label "defect" to "bug".`);
+    assert.strictEqual(describeGitHubLabelChange({ type: "delete", labelName: "wontfix" }), `Delete label "wontfix".`);
+  });
+
+  describe("syncGitHubLabels()", function () {
+    const manifest: GitHubLabelManifest = {
+      labels: [
+        { name: "bug", color: "d73a4a", description: "Something isn't working" },
+        { name: "question", color: "d876e3", aliases: ["help"] },
+        { name: "enhancement", color: "a2eeef" },
+      ],
+      deleteUnlistedLabels: true,
+    };
+
+    it("with changes", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub(createLabel("bug", "ededed"), createLabel("help", "ededed"), createLabel("wontfix", "ffffff"));
+      const logger: InMemoryLogger = getInMemoryLogger();
+      const changes: GitHubLabelChange[] = await syncGitHubLabels(fakeGitHub, repository, manifest, { logger });
+      assert.strictEqual(changes.length, 4);
+      assert.deepEqual(getLabelSummaries(await fakeGitHub.getLabels(repository)), [
+        "bug d73a4a Something isn't working",
+        "question d876e3 undefined",
+        "enhancement a2eeef undefined",
+      ]);
+      assert.deepEqual(logger.allLogs, [
+        `Synchronizing labels in "ts-common/azure-js-dev-tools"...`,
+        `Update label "bug" with color "d73a4a" and description "Something isn't working".`,
+        `Rename label "help" to "question" with color "d876e3".`,
+        `Create label "enhancement" with color "a2eeef".`,
+        `Delete label "wontfix".`,
+      ]);
+    });
+
+    it("with dry run", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub(createLabel("help", "ededed"), createLabel("wontfix", "ffffff"));
+      const logger: InMemoryLogger = getInMemoryLogger();
+      const changes: GitHubLabelChange[] = await syncGitHubLabels(fakeGitHub, repository, manifest, { dryRun: true, logger });
+      assert.strictEqual(changes.length, 4);
+      assert.deepEqual(getLabelSummaries(await fakeGitHub.getLabels(repository)), [
+        "help ededed undefined",
+        "wontfix ffffff undefined",
+      ]);
+      assert.deepEqual(logger.allLogs, [
+        `Synchronizing labels in "ts-common/azure-js-dev-tools" (dry run)...`,
+        `[dry run] Create label "bug" with color "d73a4a" and description "Something isn't working".`,
+        `[dry run] Rename label "help" to "question" with color "d876e3".`,
+        `[dry run] Create label "enhancement" with color "a2eeef".`,
+        `[dry run] Delete label "wontfix".`,
+      ]);
+    });
+
+    it("with no changes", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub(createLabel("bug", "d73a4a", "Something isn't working"), createLabel("question", "d876e3"), createLabel("enhancement", "a2eeef"));
+      const logger: InMemoryLogger = getInMemoryLogger();
+      assert.deepEqual(await syncGitHubLabels(fakeGitHub, repository, manifest, { logger }), []);
+      assert.deepEqual(logger.allLogs, [
+        `Synchronizing labels in "ts-common/azure-js-dev-tools"...`,
+        `The labels in "ts-common/azure-js-dev-tools" already match the manifest.`,
+      ]);
+    });
+  });
+
+  describe("syncGitHubLabelsCommand()", function () {
+    it("with manifest file", async function () {
+      const folderPath: string = await createTemporaryFolder();
+      try {
+        const manifestFilePath: string = joinPath(folderPath, "labels.yml");
+        await writeFileContents(manifestFilePath, [
+          "repositories:",
+          `  - ${repository}`,
+          `  - ts-common/not-a-repository`,
+          "labels:",
+          "  - name: bug",
+          "    color: d73a4a",
+        ].join("\n"));
+        const fakeGitHub: FakeGitHub = await createFakeGitHub();
+        const logger: InMemoryLogger = getInMemoryLogger();
+        const exitCode: number = await syncGitHubLabelsCommand({ manifestFilePath, github: fakeGitHub, dryRun: false, logger });
+        assert.strictEqual(exitCode, 1);
+        assert.deepEqual(getLabelSummaries(await fakeGitHub.getLabels(repository)), ["bug d73a4a undefined"]);
+        assert.deepEqual(logger.errorLogs, [
+          `Failed to synchronize the labels in "ts-common/not-a-repository": No fake repository exists with the name "ts-common/not-a-repository".`,
+        ]);
+      } finally {
+        process.exitCode = 0;
+        await deleteFolder(folderPath);
+      }
+    });
+
+    it("with manifest file that doesn't exist", async function () {
+      const logger: InMemoryLogger = getInMemoryLogger();
+      try {
+        const exitCode: number = await syncGitHubLabelsCommand({ manifestFilePath: "/not/a/labels.yml", github: await createFakeGitHub(), dryRun: false, logger });
+        assert.strictEqual(exitCode, 1);
+        assert.deepEqual(logger.errorLogs, [`No label manifest file exists at "/not/a/labels.yml".`]);
+      } finally {
+        process.exitCode = 0;
+      }
+    });
+  });
+});
@@ -1,9 +1,13 @@
+import { Octokit } from "@octokit/rest";
 import { assert } from "chai";
 import { ExecutableGit } from "../lib";
 import { contains } from "../lib/arrays";
 import { assertEx } from "../lib/assertEx";
+import { FakeClock } from "../lib/clock";
+import { StringMap } from "../lib/common";
+import { Duration } from "../lib/duration";
 import { createTemporaryFolder, deleteFolder, writeFileContents } from "../lib/fileSystem2";
-import { FakeGitHub, FakeRepository, getGitHubRepositoryFromUrl, getRepository, getRepositoryBranch, getRepositoryFullName, GitHub, GitHubBranch, GitHubComment, GitHubCommit, GitHubLabel, GitHubMilestone, GitHubPullRequest, GitHubPullRequestCommit, gitHubPullRequestGetAssignee, gitHubPullRequestGetLabel, gitHubPullRequestGetLabels, GitHubReference, GitHubSprintLabel, GitHubUser, RealGitHub, Repository } from "../lib/github";
+import { FakeGitHub, FakeGitHubCheckRun, FakeGitHubPullRequest, FakeGitHubReleaseAsset, FakeRepository, getGitHubRepositoryFromUrl, getReleaseNotes, getRepository, getRepositoryBranch, getRepositoryFullName, GitHub, GitHubBranch, GitHubCheckRun, GitHubCheckRunAnnotation, GitHubCombinedStatus, GitHubComment, GitHubCommit, GitHubCommitStatus, GitHubContent, GitHubFileCommit, GitHubGetIssuesOptions, GitHubGitCommit, GitHubIssue, GitHubLabel, GitHubListCheckRunsOptions, GitHubMilestone, GitHubPullRequest, GitHubPullRequestCommit, gitHubPullRequestGetAssignee, gitHubPullRequestGetLabel, gitHubPullRequestGetLabels, GitHubReference, GitHubRelease, GitHubReview, GitHubReviewComment, GitHubSprintLabel, GitHubUser, RealGitHub, Repository } from "../lib/github";
 import { findPackageJsonFileSync } from "../lib/packageJson";
 import { getParentFolderPath, joinPath } from "../lib/path";
 
@@ -580,6 +584,33 @@ describe("github.ts", function () {
       });
     });
 
+    describe("updateLabel()", function () {
+      it(`with label name that doesn't exist`, async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.updateLabel("ts-common/azure-js-dev-tools", "labelthatdoesntexist", { color: "123456" }));
+      });
+
+      it(`with label that exists`, async function () {
+        const github: GitHub = githubCreator();
+        const labelName = "fakelabelthatjustgotcreated";
+        const newLabelName = "fakelabelthatjustgotrenamed";
+        await github.createLabel("ts-common/azure-js-dev-tools", labelName, "123456", { description: "Fake description" });
+        try {
+          const updatedLabel: GitHubLabel = await github.updateLabel("ts-common/azure-js-dev-tools", labelName, { name: newLabelName, color: "654321" });
+          assert.strictEqual(updatedLabel.name, newLabelName);
+          assert.strictEqual(updatedLabel.color, "654321");
+          assert.strictEqual(updatedLabel.description, "Fake description");
+
+          const labels: GitHubLabel[] = await github.getLabels("ts-common/azure-js-dev-tools");
+          assert.strictEqual(contains(labels, (label: GitHubLabel) => label.name === labelName), false);
+          assert.strictEqual(contains(labels, (label: GitHubLabel) => label.name === newLabelName && label.color === "654321"), true);
+        } finally {
+          await github.deleteLabel("ts-common/azure-js-dev-tools", newLabelName).catch(() => { });
+          await github.deleteLabel("ts-common/azure-js-dev-tools", labelName).catch(() => { });
+        }
+      });
+    });
+
     describe("createPullRequest()", function () {
       it("with undefined repository", async function () {
         const github: GitHub = githubCreator();
@@ -977,6 +1008,108 @@ describe("github.ts", function () {
       });
     });
 
+    describe("getReviews()", function () {
+      it("with repository that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getReviews("ImARepositoryThatDoesntExist", 50));
+      });
+
+      it("with pull request number that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getReviews("ts-common/azure-js-dev-tools", 1325097123));
+      });
+    });
+
+    describe("getReviewComments()", function () {
+      it("with repository that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getReviewComments("ImARepositoryThatDoesntExist", 50));
+      });
+
+      it("with pull request number that exists", async function () {
+        const github: GitHub = githubCreator();
+        const reviewComments: GitHubReviewComment[] = await github.getReviewComments("ts-common/azure-js-dev-tools", 113);
+        assert.deepEqual(reviewComments, []);
+      });
+    });
+
+    describe("getIssue()", function () {
+      it("with undefined repository", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getIssue(undefined as any, 50));
+      });
+
+      it(`with "" repository`, async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getIssue("", 50));
+      });
+
+      it("with repository that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getIssue("ImARepositoryThatDoesntExist", 50));
+      });
+
+      it("with issue number that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getIssue("ts-common/azure-js-dev-tools", 1325097123));
+      });
+    });
+
+    describe("getIssueComments()", function () {
+      it("with repository that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getIssueComments("ImARepositoryThatDoesntExist", 50));
+      });
+
+      it("with issue number that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getIssueComments("ts-common/azure-js-dev-tools", 1325097123));
+      });
+    });
+
+    describe("getCombinedStatus()", function () {
+      it("with repository that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getCombinedStatus("ImARepositoryThatDoesntExist", "master"));
+      });
+
+      it("with ref that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getCombinedStatus("ts-common/azure-js-dev-tools", "ImABranchThatDoesntExist"));
+      });
+    });
+
+    describe("listCheckRuns()", function () {
+      it("with repository that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.listCheckRuns("ImARepositoryThatDoesntExist", "master"));
+      });
+
+      it("with ref that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.listCheckRuns("ts-common/azure-js-dev-tools", "ImABranchThatDoesntExist"));
+      });
+    });
+
+    describe("getReleaseByTag()", function () {
+      it("with repository that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getReleaseByTag("ImARepositoryThatDoesntExist", "v1.0.0"));
+      });
+
+      it("with tag that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.getReleaseByTag("ts-common/azure-js-dev-tools", "ImATagThatDoesntExist"));
+      });
+    });
+
+    describe("listReleaseAssets()", function () {
+      it("with release that doesn't exist", async function () {
+        const github: GitHub = githubCreator();
+        await assertEx.throwsAsync(github.listReleaseAssets("ts-common/azure-js-dev-tools", 1325097123));
+      });
+    });
+
     describe("getCommit()", function () {
       it("with undefined repository", async function () {
         const github: GitHub = githubCreator();
@@ -1519,6 +1652,530 @@ describe("github.ts", function () {
         assert.strictEqual(error.message, `When creating a pull request, the provided baseBranch (test-repo-billy:master) cannot have an owner.`);
       });
     });
+
+    describe("reviews", function () {
+      const repository = "ts-common/azure-js-dev-tools";
+
+      it("requestReviewers()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        fakeGitHub.createUser("reviewer");
+        await fakeGitHub.requestReviewers(repository, 113, ["reviewer", "fakeUser"]);
+        await fakeGitHub.requestReviewers(repository, 113, "reviewer");
+        const pullRequest: GitHubPullRequest = await fakeGitHub.getPullRequest(repository, 113);
+        assert.deepEqual(pullRequest.requested_reviewers!.map((user: GitHubUser) => user.login), ["reviewer", "fakeUser"]);
+      });
+
+      it("requestReviewers() with user that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await assertEx.throwsAsync(fakeGitHub.requestReviewers(repository, 113, "ImAUserThatDoesntExist"));
+      });
+
+      it("createReview() with approval", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.requestReviewers(repository, 113, "fakeUser");
+        const review: GitHubReview = await fakeGitHub.createReview(repository, 113, "APPROVE");
+        assert.strictEqual(review.state, "APPROVED");
+        assert.strictEqual(review.body, "");
+        assert.strictEqual(review.user.login, "fakeUser");
+        assert.strictEqual(review.commit_id, "bc0488dbe9ba7b2dd32c094c826cf799c55ca67d");
+        assert.deepEqual(await fakeGitHub.getReviews(repository, 113), [review]);
+        assert.deepEqual((await fakeGitHub.getPullRequest(repository, 113)).requested_reviewers, []);
+      });
+
+      it("createReview() with requested changes and inline comments", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const review: GitHubReview = await fakeGitHub.createReview(repository, 113, "REQUEST_CHANGES", {
+          body: "Please fix these.",
+          commitId: "c6f8a6b543ece6447ce1f3f5c33d0672989965c5",
+          comments: [
+            { path: "lib/git.ts", line: 12, body: "Missing doc comment." },
+            { path: "lib/run.ts", line: 3, side: "LEFT", body: "Why was this removed?" },
+          ],
+        });
+        assert.strictEqual(review.state, "CHANGES_REQUESTED");
+        assert.strictEqual(review.body, "Please fix these.");
+
+        const reviewComments: GitHubReviewComment[] = await fakeGitHub.getReviewComments(repository, 113);
+        assert.deepEqual(reviewComments.map((comment: GitHubReviewComment) => [comment.pull_request_review_id, comment.path, comment.line, comment.side, comment.commit_id, comment.body]), [
+          [review.id, "lib/git.ts", 12, "RIGHT", "c6f8a6b543ece6447ce1f3f5c33d0672989965c5", "Missing doc comment."],
+          [review.id, "lib/run.ts", 3, "LEFT", "c6f8a6b543ece6447ce1f3f5c33d0672989965c5", "Why was this removed?"],
+        ]);
+      });
+
+      it("createReview() with requested changes and no body", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createReview(repository, 113, "REQUEST_CHANGES"));
+        assert.strictEqual(error.message, "A review that requests changes must have a body.");
+      });
+
+      it("createReview() with comment and no body or inline comments", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createReview(repository, 113, "COMMENT"));
+        assert.strictEqual(error.message, "A review that comments must have a body or inline comments.");
+      });
+
+      it("createReview() with pull request that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await assertEx.throwsAsync(fakeGitHub.createReview(repository, 1325097123, "APPROVE"));
+      });
+    });
+
+    describe("issues", function () {
+      const repository = "ts-common/azure-js-dev-tools";
+
+      it("createIssue() with title", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const issue: GitHubIssue = await fakeGitHub.createIssue(repository, "Fake Issue Title");
+        assert.strictEqual(issue.number, 114);
+        assert.strictEqual(issue.title, "Fake Issue Title");
+        assert.strictEqual(issue.body, "");
+        assert.strictEqual(issue.state, "open");
+        assert.deepEqual(issue.labels, []);
+        assert.strictEqual(issue.user.login, "fakeUser");
+        assert.strictEqual(issue.html_url, "https://github.com/ts-common/azure-js-dev-tools/issues/114");
+        assert.strictEqual(await fakeGitHub.getIssue(repository, 114), issue);
+      });
+
+      it("createIssue() with options", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.createMilestone(repository, "Sprint-130");
+        const issue: GitHubIssue = await fakeGitHub.createIssue(repository, "Fake Issue Title", {
+          body: "Fake Issue Body",
+          labels: ["Planned-Sprint-130", "bug"],
+          assignees: ["fakeUser"],
+          milestone: "Sprint-130",
+        });
+        assert.strictEqual(issue.body, "Fake Issue Body");
+        assert.deepEqual(issue.labels.map((label: GitHubLabel) => label.name), ["Planned-Sprint-130", "bug"]);
+        assert.deepEqual(issue.assignees!.map((assignee: GitHubUser) => assignee.login), ["fakeUser"]);
+        assert.strictEqual(issue.milestone!.title, "Sprint-130");
+        assertEx.defined(await fakeGitHub.getLabel(repository, "bug"), "bug label");
+      });
+
+      it("createIssue() with milestone that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await assertEx.throwsAsync(fakeGitHub.createIssue(repository, "Fake Issue Title", { milestone: "Sprint-999" }));
+        assert.deepEqual(await fakeGitHub.getIssues(repository), []);
+      });
+
+      it("getIssues() with filters", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const milestone: GitHubMilestone = await fakeGitHub.createMilestone(repository, "Sprint-130");
+        const issue1: GitHubIssue = await fakeGitHub.createIssue(repository, "1", { labels: ["bug"], milestone });
+        const issue2: GitHubIssue = await fakeGitHub.createIssue(repository, "2", { labels: ["bug", "Planned-Sprint-130"], assignees: ["fakeUser"] });
+        const issue3: GitHubIssue = await fakeGitHub.createIssue(repository, "3");
+        await fakeGitHub.closeIssue(repository, issue3);
+
+        const getIssueTitles = async (options: GitHubGetIssuesOptions) => (await fakeGitHub.getIssues(repository, options)).map((issue: GitHubIssue) => issue.title);
+        assert.deepEqual(await getIssueTitles({}), ["1", "2", "3"]);
+        assert.deepEqual(await getIssueTitles({ open: true }), ["1", "2"]);
+        assert.deepEqual(await getIssueTitles({ open: false }), ["3"]);
+        assert.deepEqual(await getIssueTitles({ labels: "bug" }), ["1", "2"]);
+        assert.deepEqual(await getIssueTitles({ labels: ["bug", "Planned-Sprint-130"] }), ["2"]);
+        assert.deepEqual(await getIssueTitles({ milestone: milestone.number }), ["1"]);
+        assert.deepEqual(await getIssueTitles({ milestone: "Sprint-130" }), ["1"]);
+        assert.deepEqual(await getIssueTitles({ milestone: "none" }), ["2", "3"]);
+        assert.deepEqual(await getIssueTitles({ assignee: "fakeUser" }), ["2"]);
+        assert.deepEqual(await getIssueTitles({ assignee: "none" }), ["1", "3"]);
+        assert.deepEqual(await getIssueTitles({ since: new Date(Date.now() + 60000) }), []);
+        assert.deepEqual(await getIssueTitles({ since: issue1.created_at }), ["1", "2", "3"]);
+        assert.deepEqual(await getIssueTitles({ open: true, maxItems: 1 }), ["1"]);
+        assert.deepEqual(await getIssueTitles({ maxItems: 0 }), []);
+        assert.strictEqual(issue2.state, "open");
+      });
+
+      it("updateIssue()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const issue: GitHubIssue = await fakeGitHub.createIssue(repository, "Fake Issue Title", { body: "Fake Issue Body", labels: ["bug"] });
+        const updatedIssue: GitHubIssue = await fakeGitHub.updateIssue(repository, issue.number, { title: "New Title", labels: ["enhancement"] });
+        assert.strictEqual(updatedIssue.title, "New Title");
+        assert.strictEqual(updatedIssue.body, "Fake Issue Body");
+        assert.deepEqual(updatedIssue.labels.map((label: GitHubLabel) => label.name), ["enhancement"]);
+      });
+
+      it("closeIssue()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const issue: GitHubIssue = await fakeGitHub.createIssue(repository, "Fake Issue Title");
+        await fakeGitHub.closeIssue(repository, issue);
+        assert.strictEqual(issue.state, "closed");
+        assertEx.defined(issue.closed_at, "issue.closed_at");
+        await fakeGitHub.updateIssue(repository, issue, { state: "open" });
+        assert.strictEqual(issue.closed_at, undefined);
+      });
+
+      it("issue comments", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const issue: GitHubIssue = await fakeGitHub.createIssue(repository, "Fake Issue Title");
+        const comment: GitHubComment = await fakeGitHub.createIssueComment(repository, issue, "Fake Comment Body");
+        assert.strictEqual(comment.body, "Fake Comment Body");
+        assert.strictEqual(comment.user.login, "fakeUser");
+        assert.deepEqual(await fakeGitHub.getIssueComments(repository, issue), [comment]);
+
+        const updatedComment: GitHubComment = await fakeGitHub.updateIssueComment(repository, issue, comment, "New Fake Comment Body");
+        assert.strictEqual(updatedComment.id, comment.id);
+        assert.strictEqual(updatedComment.body, "New Fake Comment Body");
+        await assertEx.throwsAsync(fakeGitHub.updateIssueComment(repository, issue, 13925876, "New Fake Comment Body"));
+
+        await fakeGitHub.deleteIssueComment(repository, issue, comment);
+        assert.deepEqual(await fakeGitHub.getIssueComments(repository, issue), []);
+        await assertEx.throwsAsync(fakeGitHub.deleteIssueComment(repository, issue, comment));
+      });
+
+      it("issue labels", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const issue: GitHubIssue = await fakeGitHub.createIssue(repository, "Fake Issue Title", { labels: ["bug"] });
+        assert.deepEqual(await fakeGitHub.addIssueLabels(repository, issue, ["bug", "Planned-Sprint-130"]), ["Planned-Sprint-130"]);
+        assert.deepEqual(issue.labels.map((label: GitHubLabel) => label.name), ["bug", "Planned-Sprint-130"]);
+        assert.deepEqual(await fakeGitHub.removeIssueLabels(repository, issue, ["bug", "enhancement"]), ["bug"]);
+        assert.deepEqual(issue.labels.map((label: GitHubLabel) => label.name), ["Planned-Sprint-130"]);
+      });
+    });
+
+    describe("statuses and checks", function () {
+      const repository = "ts-common/azure-js-dev-tools";
+      const sha = "c6f8a6b543ece6447ce1f3f5c33d0672989965c5";
+
+      it("createCommitStatus()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const status: GitHubCommitStatus = await fakeGitHub.createCommitStatus(repository, sha, "pending", { description: "Building", targetUrl: "https://ci.example.com/1" });
+        assert.strictEqual(status.state, "pending");
+        assert.strictEqual(status.context, "default");
+        assert.strictEqual(status.description, "Building");
+        assert.strictEqual(status.target_url, "https://ci.example.com/1");
+        assert.strictEqual(status.creator.login, "fakeUser");
+      });
+
+      it("createCommitStatus() with commit that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createCommitStatus(repository, "1234567", "success"));
+        assert.strictEqual(error.message, `No commit found in fake repository "ts-common/azure-js-dev-tools" with the SHA "1234567".`);
+      });
+
+      it("getCombinedStatus()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const getState = async () => (await fakeGitHub.getCombinedStatus(repository, "master")).state;
+        assert.strictEqual(await getState(), "pending");
+        await fakeGitHub.createCommitStatus(repository, sha, "pending", { context: "build" });
+        await fakeGitHub.createCommitStatus(repository, sha, "success", { context: "build" });
+        assert.strictEqual(await getState(), "success");
+        await fakeGitHub.createCommitStatus(repository, sha, "pending", { context: "test" });
+        assert.strictEqual(await getState(), "pending");
+        await fakeGitHub.createCommitStatus(repository, sha, "error", { context: "test" });
+        assert.strictEqual(await getState(), "failure");
+
+        const combinedStatus: GitHubCombinedStatus = await fakeGitHub.getCombinedStatus(repository, sha);
+        assert.strictEqual(combinedStatus.sha, sha);
+        assert.strictEqual(combinedStatus.total_count, 2);
+        assert.deepEqual(combinedStatus.statuses.map((status: GitHubCommitStatus) => [status.context, status.state]), [
+          ["test", "error"],
+          ["build", "success"],
+        ]);
+      });
+
+      it("createCheckRun() with no options", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const checkRun: GitHubCheckRun = await fakeGitHub.createCheckRun(repository, "check-everything", sha);
+        assert.strictEqual(checkRun.name, "check-everything");
+        assert.strictEqual(checkRun.head_sha, sha);
+        assert.strictEqual(checkRun.status, "queued");
+        assert.strictEqual(checkRun.conclusion, undefined);
+        assert.strictEqual(checkRun.completed_at, undefined);
+        assert.strictEqual(checkRun.output.annotations_count, 0);
+      });
+
+      it("createCheckRun() with conclusion and annotations", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const checkRun: FakeGitHubCheckRun = await fakeGitHub.createCheckRun(repository, "check-everything", sha, {
+          conclusion: "failure",
+          completedAt: new Date("2019-07-01T00:00:00Z"),
+          output: {
+            title: "1 check failed",
+            summary: "Found an only() call.",
+            annotations: [
+              { path: "test/gitTests.ts", startLine: 12, level: "failure", message: "Remove the only() call." },
+            ],
+          },
+        });
+        assert.strictEqual(checkRun.status, "completed");
+        assert.strictEqual(checkRun.conclusion, "failure");
+        assert.strictEqual(checkRun.completed_at, "2019-07-01T00:00:00.000Z");
+        assert.strictEqual(checkRun.output.title, "1 check failed");
+        assert.strictEqual(checkRun.output.summary, "Found an only() call.");
+        assert.strictEqual(checkRun.output.annotations_count, 1);
+        assert.deepEqual(checkRun.annotations, [
+          { path: "test/gitTests.ts", startLine: 12, level: "failure", message: "Remove the only() call." },
+        ]);
+      });
+
+      it("createCheckRun() with completed status and no conclusion", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createCheckRun(repository, "check-everything", sha, { status: "completed" }));
+        assert.strictEqual(error.message, "A completed check run must have a conclusion.");
+        assert.deepEqual(await fakeGitHub.listCheckRuns(repository, sha), []);
+      });
+
+      it("updateCheckRun()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const checkRun: GitHubCheckRun = await fakeGitHub.createCheckRun(repository, "check-everything", sha, {
+          status: "in_progress",
+          output: {
+            title: "Running",
+            summary: "",
+            annotations: [{ path: "a.ts", startLine: 1, level: "warning", message: "a" }],
+          },
+        });
+        const updatedCheckRun: FakeGitHubCheckRun = await fakeGitHub.updateCheckRun(repository, checkRun.id, {
+          conclusion: "success",
+          output: {
+            title: "Done",
+            summary: "All checks passed.",
+            annotations: [{ path: "b.ts", startLine: 2, endLine: 3, level: "notice", message: "b" }],
+          },
+        });
+        assert.strictEqual(updatedCheckRun, checkRun);
+        assert.strictEqual(updatedCheckRun.status, "completed");
+        assert.strictEqual(updatedCheckRun.conclusion, "success");
+        assertEx.defined(updatedCheckRun.completed_at, "updatedCheckRun.completed_at");
+        assert.strictEqual(updatedCheckRun.output.title, "Done");
+        assert.strictEqual(updatedCheckRun.output.annotations_count, 2);
+        assert.deepEqual(updatedCheckRun.annotations.map((annotation: GitHubCheckRunAnnotation) => annotation.path), ["a.ts", "b.ts"]);
+      });
+
+      it("updateCheckRun() with check run that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.updateCheckRun(repository, 1325097123, { status: "in_progress" }));
+        assert.strictEqual(error.message, `No check run found in fake repository "ts-common/azure-js-dev-tools" with id 1325097123.`);
+      });
+
+      it("listCheckRuns()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.createCheckRun(repository, "build", sha, { conclusion: "success" });
+        await fakeGitHub.createCheckRun(repository, "test", sha, { status: "in_progress" });
+        await fakeGitHub.createCheckRun(repository, "build", "bc0488dbe9ba7b2dd32c094c826cf799c55ca67d");
+
+        const getCheckRunNames = async (ref: string, options?: GitHubListCheckRunsOptions) => (await fakeGitHub.listCheckRuns(repository, ref, options)).map((checkRun: GitHubCheckRun) => checkRun.name);
+        assert.deepEqual(await getCheckRunNames("master"), ["build", "test"]);
+        assert.deepEqual(await getCheckRunNames(sha, { checkName: "test" }), ["test"]);
+        assert.deepEqual(await getCheckRunNames(sha, { status: "completed" }), ["build"]);
+        assert.deepEqual(await getCheckRunNames("bc0488dbe9ba7b2dd32c094c826cf799c55ca67d"), ["build"]);
+      });
+    });
+
+    describe("releases", function () {
+      const repository = "ts-common/azure-js-dev-tools";
+
+      async function createMergedPullRequest(fakeGitHub: FakeGitHub, title: string, mergedAt: string): Promise<GitHubPullRequest> {
+        const pullRequest: FakeGitHubPullRequest = await fakeGitHub.getPullRequest(repository, (await fakeGitHub.createPullRequest(repository, "master", "fake-head-branch", { title })).number);
+        await fakeGitHub.mergePullRequest(repository, pullRequest, "squash");
+        pullRequest.merged_at = mergedAt;
+        return pullRequest;
+      }
+
+      it("createRelease()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const release: GitHubRelease = await fakeGitHub.createRelease(repository, "v1.0.0", { body: "First release", prerelease: true });
+        assert.strictEqual(release.tag_name, "v1.0.0");
+        assert.strictEqual(release.name, "v1.0.0");
+        assert.strictEqual(release.body, "First release");
+        assert.strictEqual(release.target_commitish, "master");
+        assert.strictEqual(release.draft, false);
+        assert.strictEqual(release.prerelease, true);
+        assert.strictEqual(release.author.login, "fakeUser");
+        assertEx.defined(release.published_at, "release.published_at");
+        assert.strictEqual(await fakeGitHub.getReleaseByTag(repository, "v1.0.0"), release);
+        assert.deepEqual(await fakeGitHub.getReleases(repository), [release]);
+      });
+
+      it("createRelease() with tag that already has a release", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.createRelease(repository, "v1.0.0");
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createRelease(repository, "v1.0.0"));
+        assert.strictEqual(error.message, `A release with the tag "v1.0.0" already exists in fake repository "ts-common/azure-js-dev-tools".`);
+      });
+
+      it("updateRelease()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const release: GitHubRelease = await fakeGitHub.createRelease(repository, "v1.0.0", { draft: true });
+        assert.strictEqual(release.published_at, undefined);
+        const updatedRelease: GitHubRelease = await fakeGitHub.updateRelease(repository, release.id, { tagName: "v1.0.1", name: "Patch", draft: false });
+        assert.strictEqual(updatedRelease, release);
+        assert.strictEqual(updatedRelease.tag_name, "v1.0.1");
+        assert.strictEqual(updatedRelease.name, "Patch");
+        assert.strictEqual(updatedRelease.draft, false);
+        assertEx.defined(updatedRelease.published_at, "updatedRelease.published_at");
+        await assertEx.throwsAsync(fakeGitHub.getReleaseByTag(repository, "v1.0.0"));
+      });
+
+      it("deleteRelease()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const release: GitHubRelease = await fakeGitHub.createRelease(repository, "v1.0.0");
+        await fakeGitHub.deleteRelease(repository, release);
+        assert.deepEqual(await fakeGitHub.getReleases(repository), []);
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.deleteRelease(repository, release));
+        assert.strictEqual(error.message, `No release found in fake repository "ts-common/azure-js-dev-tools" with id ${release.id}.`);
+      });
+
+      it("uploadReleaseAsset()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const release: GitHubRelease = await fakeGitHub.createRelease(repository, "v1.0.0");
+        const asset: FakeGitHubReleaseAsset = await fakeGitHub.uploadReleaseAsset(repository, release, "package-1.0.0.tgz", "fake contents", { contentType: "application/gzip" });
+        assert.strictEqual(asset.name, "package-1.0.0.tgz");
+        assert.strictEqual(asset.content_type, "application/gzip");
+        assert.strictEqual(asset.size, 13);
+        assert.strictEqual(asset.contents.toString(), "fake contents");
+        assert.strictEqual(asset.browser_download_url, "https://github.com/ts-common/azure-js-dev-tools/releases/download/v1.0.0/package-1.0.0.tgz");
+        assert.deepEqual(await fakeGitHub.listReleaseAssets(repository, release.id), [asset]);
+
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.uploadReleaseAsset(repository, release, "package-1.0.0.tgz", Buffer.from([1, 2, 3])));
+        assert.strictEqual(error.message, `An asset named "package-1.0.0.tgz" already exists in the release "v1.0.0".`);
+      });
+
+      it("getReleaseNotes() with no previous release", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await createMergedPullRequest(fakeGitHub, "Add releases", "2019-07-01T00:00:00.000Z");
+        assert.strictEqual(await getReleaseNotes(fakeGitHub, repository, "v1.0.0"), "## What's Changed\n\n- Add releases (#2)\n");
+      });
+
+      it("getReleaseNotes() with previous release", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await createMergedPullRequest(fakeGitHub, "Add releases", "2019-07-01T00:00:00.000Z");
+        const previousRelease: GitHubRelease = await fakeGitHub.createRelease(repository, "v1.0.0");
+        previousRelease.published_at = "2019-07-02T00:00:00.000Z";
+        await createMergedPullRequest(fakeGitHub, "Fix release notes", "2019-07-04T00:00:00.000Z");
+        await createMergedPullRequest(fakeGitHub, "Add release assets", "2019-07-03T00:00:00.000Z");
+        await fakeGitHub.createPullRequest(repository, "master", "fake-head-branch", { title: "Not merged yet" });
+
+        const release: GitHubRelease = await fakeGitHub.createRelease(repository, "v1.1.0", { generateReleaseNotes: true });
+        assert.strictEqual(release.body, [
+          "## What's Changed",
+          "",
+          "- Add release assets (#4)",
+          "- Fix release notes (#3)",
+          "",
+          "**Full Changelog**: https://github.com/ts-common/azure-js-dev-tools/compare/v1.0.0...v1.1.0",
+          "",
+        ].join("\n"));
+        assert.strictEqual(await getReleaseNotes(fakeGitHub, repository, "v1.1.0"), release.body);
+        assert.strictEqual(await getReleaseNotes(fakeGitHub, repository, "v1.0.0"), "## What's Changed\n\n- Add releases (#2)\n");
+      });
+    });
+
+    describe("files", function () {
+      const repository = "ts-common/azure-js-dev-tools";
+
+      async function getFileContents(fakeGitHub: FakeGitHub, path: string, ref?: string): Promise<string | undefined> {
+        const content = await fakeGitHub.getContents(repository, path, { ref }) as GitHubContent | undefined;
+        return content && Buffer.from(content.content!, "base64").toString();
+      }
+
+      it("createOrUpdateFile() with new file", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const result: GitHubFileCommit = await fakeGitHub.createOrUpdateFile(repository, "docs/README.md", "# Hello", "Add README");
+        assert.strictEqual(result.content!.name, "README.md");
+        assert.strictEqual(result.content!.path, "docs/README.md");
+        assert.strictEqual(result.content!.size, 7);
+        assert.strictEqual(result.commit.message, "Add README");
+        assert.deepEqual(result.commit.parents.map((parent: { sha: string }) => parent.sha), ["c6f8a6b543ece6447ce1f3f5c33d0672989965c5"]);
+        assert.strictEqual((await fakeGitHub.getBranch(repository, "master")).object.sha, result.commit.sha);
+        assert.strictEqual((await fakeGitHub.getCommit(repository, result.commit.sha))!.commit.message, "Add README");
+        assert.strictEqual(await getFileContents(fakeGitHub, "docs/README.md"), "# Hello");
+        assert.strictEqual(await getFileContents(fakeGitHub, "docs/README.md", "fake-head-branch"), undefined);
+        assert.strictEqual(await getFileContents(fakeGitHub, "docs/README.md", "c6f8a6b543ece6447ce1f3f5c33d0672989965c5"), undefined);
+      });
+
+      it("createOrUpdateFile() with branch", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.createOrUpdateFile(repository, "package.json", `{ "version": "1.0.0" }`, "Add package.json", { branch: "fake-head-branch" });
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json", "fake-head-branch"), `{ "version": "1.0.0" }`);
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json"), undefined);
+        assert.strictEqual((await fakeGitHub.getBranch(repository, "master")).object.sha, "c6f8a6b543ece6447ce1f3f5c33d0672989965c5");
+      });
+
+      it("getContents() with ref that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.createOrUpdateFile(repository, "package.json", "{}", "Add package.json");
+        assert.strictEqual(await fakeGitHub.getContents(repository, "package.json", { ref: "not-a-branch" }), undefined);
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json"), "{}");
+      });
+
+      it("createOrUpdateFile() with branch that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createOrUpdateFile(repository, "package.json", "{}", "Add package.json", { branch: "not-a-branch" }));
+        assert.strictEqual(error.message, `No branch named "not-a-branch" found in fake repository "ts-common/azure-js-dev-tools".`);
+      });
+
+      it("createOrUpdateFile() with existing file and SHA", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const created: GitHubFileCommit = await fakeGitHub.createOrUpdateFile(repository, "package.json", `{ "version": "1.0.0" }`, "Add package.json");
+        const updated: GitHubFileCommit = await fakeGitHub.createOrUpdateFile(repository, "package.json", `{ "version": "1.0.1" }`, "Bump version", { sha: created.content!.sha });
+        assert.notStrictEqual(updated.content!.sha, created.content!.sha);
+        assert.deepEqual(updated.commit.parents.map((parent: { sha: string }) => parent.sha), [created.commit.sha]);
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json"), `{ "version": "1.0.1" }`);
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json", created.commit.sha), `{ "version": "1.0.0" }`);
+      });
+
+      it("createOrUpdateFile() with existing file and no SHA", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.createOrUpdateFile(repository, "package.json", "{}", "Add package.json");
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createOrUpdateFile(repository, "package.json", "[]", "Replace package.json"));
+        assert.strictEqual(error.message, `Could not update the file "package.json" in fake repository "ts-common/azure-js-dev-tools" because the SHA of the file being replaced wasn't provided.`);
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json"), "{}");
+      });
+
+      it("createOrUpdateFile() with existing file and wrong SHA", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const created: GitHubFileCommit = await fakeGitHub.createOrUpdateFile(repository, "package.json", "{}", "Add package.json");
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.createOrUpdateFile(repository, "package.json", "[]", "Replace package.json", { sha: "abc" }));
+        assert.strictEqual(error.message, `Could not change the file "package.json" in fake repository "ts-common/azure-js-dev-tools" because the provided SHA "abc" doesn't match the file's SHA "${created.content!.sha}".`);
+      });
+
+      it("deleteFile()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const created: GitHubFileCommit = await fakeGitHub.createOrUpdateFile(repository, "package.json", "{}", "Add package.json");
+        const deleted: GitHubFileCommit = await fakeGitHub.deleteFile(repository, "package.json", "Remove package.json", { sha: created.content!.sha });
+        assert.strictEqual(deleted.content, undefined);
+        assert.strictEqual(deleted.commit.message, "Remove package.json");
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json"), undefined);
+        assert.strictEqual(await getFileContents(fakeGitHub, "package.json", created.commit.sha), "{}");
+      });
+
+      it("deleteFile() with file that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.deleteFile(repository, "package.json", "Remove package.json", { sha: "abc" }));
+        assert.strictEqual(error.message, `No file found in fake repository "ts-common/azure-js-dev-tools" at the path "package.json" in the branch "master".`);
+        assert.strictEqual((await fakeGitHub.getBranch(repository, "master")).object.sha, "c6f8a6b543ece6447ce1f3f5c33d0672989965c5");
+      });
+
+      it("commitFiles()", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        await fakeGitHub.createOrUpdateFile(repository, "a.txt", "a", "Add a.txt");
+        await fakeGitHub.createOrUpdateFile(repository, "b.txt", "b", "Add b.txt");
+        const commit: GitHubGitCommit = await fakeGitHub.commitFiles(repository, "master", [
+          { path: "a.txt", content: "A" },
+          { path: "b.txt" },
+          { path: "c/d.txt", content: Buffer.from("d") },
+        ], "Change several files");
+        assert.strictEqual(commit.message, "Change several files");
+        assert.strictEqual((await fakeGitHub.getBranch(repository, "master")).object.sha, commit.sha);
+        assert.strictEqual(await getFileContents(fakeGitHub, "a.txt"), "A");
+        assert.strictEqual(await getFileContents(fakeGitHub, "b.txt"), undefined);
+        assert.strictEqual(await getFileContents(fakeGitHub, "c/d.txt"), "d");
+      });
+
+      it("commitFiles() with deleted file that doesn't exist", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const error: Error = await assertEx.throwsAsync(fakeGitHub.commitFiles(repository, "master", [{ path: "a.txt", content: "a" }, { path: "b.txt" }], "Change several files"));
+        assert.strictEqual(error.message, `No file found in fake repository "ts-common/azure-js-dev-tools" at the path "b.txt" in the branch "master".`);
+        assert.strictEqual(await getFileContents(fakeGitHub, "a.txt"), undefined);
+      });
+
+      it("createBranch() from a commit with files", async function () {
+        const fakeGitHub: FakeGitHub = createFakeGitHub();
+        const created: GitHubFileCommit = await fakeGitHub.createOrUpdateFile(repository, "a.txt", "a", "Add a.txt");
+        await fakeGitHub.createBranch(repository, "new-branch", created.commit.sha);
+        assert.strictEqual(await getFileContents(fakeGitHub, "a.txt", "new-branch"), "a");
+      });
+    });
   });
 
   const realGitHub: RealGitHub = createRealGitHub()!;
@@ -2042,8 +2699,285 @@ describe("github.ts", function () {
       });
     });
   });
+
+  describe("RealGitHub with fake responses", function () {
+    const repository = "ts-common/azure-js-dev-tools";
+    const labelsUrl = "https://api.github.com/repos/ts-common/azure-js-dev-tools/labels";
+
+    function createLabelsPage(names: string[], nextPage?: number): FakeResponse {
+      return {
+        headers: nextPage ? { link: `<${labelsUrl}?per_page=100&page=${nextPage}>; rel="next"` } : {},
+        body: names.map((name: string, index: number) => ({ id: index, node_id: "fake_node_id", url: "fake_url", name, color: "ededed", default: false })),
+      };
+    }
+
+    function getLabelNames(labels: GitHubLabel[]): string[] {
+      return labels.map((label: GitHubLabel) => label.name);
+    }
+
+    it("getLabels() with multiple pages", async function () {
+      const fakeOctokit = new FakeOctokit([createLabelsPage(["a", "b"], 2), createLabelsPage(["c"])]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      assert.deepEqual(getLabelNames(await github.getLabels(repository)), ["a", "b", "c"]);
+      assert.deepEqual(fakeOctokit.requestUrls, [`${labelsUrl}?per_page=100`, `${labelsUrl}?per_page=100&page=2`]);
+    });
+
+    it("getLabels() with maxItems in the middle of a page", async function () {
+      const fakeOctokit = new FakeOctokit([createLabelsPage(["a", "b"], 2), createLabelsPage(["c", "d"], 3), createLabelsPage(["e"])]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      assert.deepEqual(getLabelNames(await github.getLabels(repository, { maxItems: 3 })), ["a", "b", "c"]);
+      assert.strictEqual(fakeOctokit.requestUrls.length, 2);
+    });
+
+    it("getLabels() with maxItems at the end of a page", async function () {
+      const fakeOctokit = new FakeOctokit([createLabelsPage(["a", "b"], 2), createLabelsPage(["c"])]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      assert.deepEqual(getLabelNames(await github.getLabels(repository, { maxItems: 2 })), ["a", "b"]);
+      assert.strictEqual(fakeOctokit.requestUrls.length, 1);
+    });
+
+    it("getLabels() with maxItems only limits that call", async function () {
+      const fakeOctokit = new FakeOctokit([createLabelsPage(["a", "b"]), createLabelsPage(["a", "b"])]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      assert.deepEqual(getLabelNames(await github.getLabels(repository, { maxItems: 1 })), ["a"]);
+      assert.deepEqual(getLabelNames(await github.getLabels(repository)), ["a", "b"]);
+    });
+
+    it("getIssues() with maxItems doesn't count pull requests", async function () {
+      const issuesUrl = "https://api.github.com/repos/ts-common/azure-js-dev-tools/issues";
+      const fakeOctokit = new FakeOctokit([
+        {
+          headers: { link: `<${issuesUrl}?state=all&per_page=100&page=2>; rel="next"` },
+          body: [{ number: 1, pull_request: {} }, { number: 2 }],
+        },
+        {
+          headers: { link: `<${issuesUrl}?state=all&per_page=100&page=3>; rel="next"` },
+          body: [{ number: 3, pull_request: {} }, { number: 4 }],
+        },
+        { body: [{ number: 5 }] },
+      ]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      const issues: GitHubIssue[] = await github.getIssues(repository, { maxItems: 2 });
+      assert.deepEqual(issues.map((issue: GitHubIssue) => issue.number), [2, 4]);
+      assert.strictEqual(fakeOctokit.requestUrls.length, 2);
+    });
+
+    it("getPullRequests() with maxItems", async function () {
+      const fakeOctokit = new FakeOctokit([{ body: [{ number: 1 }, { number: 2 }] }]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      const pullRequests: GitHubPullRequest[] = await github.getPullRequests(repository, { maxItems: 1 });
+      assert.deepEqual(pullRequests.map((pullRequest: GitHubPullRequest) => pullRequest.number), [1]);
+      assert.deepEqual(fakeOctokit.requestUrls, ["https://api.github.com/repos/ts-common/azure-js-dev-tools/pulls?per_page=100&state=all"]);
+    });
+
+    it("rateLimit", async function () {
+      const fakeOctokit = new FakeOctokit([{
+        headers: { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "4999", "x-ratelimit-reset": "1561939200" },
+        body: [],
+      }]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      assert.strictEqual(github.rateLimit, undefined);
+      await github.getLabels(repository);
+      assert.deepEqual(github.rateLimit, { limit: 5000, remaining: 4999, reset: new Date("2019-07-01T00:00:00Z") });
+    });
+
+    it("getRateLimit()", async function () {
+      const fakeOctokit = new FakeOctokit([{
+        body: { resources: { core: { limit: 5000, remaining: 4321, reset: 1561939200 } } },
+      }]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      assert.deepEqual(await github.getRateLimit(), { limit: 5000, remaining: 4321, reset: new Date("2019-07-01T00:00:00Z") });
+      assert.deepEqual(fakeOctokit.requestUrls, ["https://api.github.com/rate_limit"]);
+    });
+
+    it("with used up rate limit and fail policy", async function () {
+      const clock = new FakeClock(new Date("2019-07-01T00:00:00Z"));
+      const fakeOctokit = new FakeOctokit([{
+        headers: { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1561939260" },
+        body: [],
+      }]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit, { clock });
+      await github.getLabels(repository);
+      const error: Error = await assertEx.throwsAsync(github.getLabels(repository));
+      assert.strictEqual(error.message, "The GitHub API rate limit of 5000 requests has been used up. It will reset at 2019-07-01T00:01:00.000Z.");
+      assert.strictEqual(fakeOctokit.requestUrls.length, 1);
+    });
+
+    it("getRateLimit() with used up rate limit and fail policy", async function () {
+      const clock = new FakeClock(new Date("2019-07-01T00:00:00Z"));
+      const fakeOctokit = new FakeOctokit([
+        {
+          headers: { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1561939260" },
+          body: [],
+        },
+        {
+          body: { resources: { core: { limit: 5000, remaining: 0, reset: 1561939260 } } },
+        },
+      ]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit, { clock });
+      await github.getLabels(repository);
+      assert.deepEqual(await github.getRateLimit(), { limit: 5000, remaining: 0, reset: new Date("2019-07-01T00:01:00Z") });
+      assert.strictEqual(fakeOctokit.requestUrls.length, 2);
+    });
+
+    it("with rate limit error and wait policy", async function () {
+      const clock = new FakeClock(new Date("2019-07-01T00:00:00Z"));
+      const fakeOctokit = new FakeOctokit([
+        {
+          status: 403,
+          headers: { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1561939260" },
+          body: { message: "API rate limit exceeded" },
+        },
+        {
+          ...createLabelsPage(["a"]),
+          headers: { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "4999", "x-ratelimit-reset": "1561942800" },
+        },
+      ]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit, { clock, rateLimitPolicy: "wait" });
+      const labelsPromise: Promise<GitHubLabel[]> = github.getLabels(repository);
+      while (clock.pendingTimeoutCount === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      assert.strictEqual(fakeOctokit.requestUrls.length, 1);
+      await clock.advance(Duration.minutes(1));
+      assert.deepEqual(getLabelNames(await labelsPromise), ["a"]);
+      assert.strictEqual(fakeOctokit.requestUrls.length, 2);
+      assert.strictEqual(github.rateLimit!.remaining, 4999);
+    });
+
+    it("commitFiles()", async function () {
+      const repositoryUrl = "https://api.github.com/repos/ts-common/azure-js-dev-tools";
+      const fakeOctokit = new FakeOctokit([
+        { body: { ref: "refs/heads/master", object: { type: "commit", sha: "parent-sha" } } },
+        { body: { sha: "parent-sha", tree: { sha: "base-tree-sha" } } },
+        {
+          body: {
+            sha: "base-tree-sha",
+            tree: [
+              { path: "a.sh", mode: "100755", type: "blob", sha: "a-sha" },
+              { path: "b.txt", mode: "100644", type: "blob", sha: "b-sha" },
+              { path: "link", mode: "120000", type: "blob", sha: "link-sha" },
+            ],
+            truncated: false,
+          },
+        },
+        { status: 201, body: { sha: "blob-sha" } },
+        { status: 201, body: { sha: "new-blob-sha" } },
+        { status: 201, body: { sha: "link-blob-sha" } },
+        { status: 201, body: { sha: "tree-sha" } },
+        { status: 201, body: { sha: "commit-sha", message: "Change several files" } },
+        { body: { ref: "refs/heads/master", object: { type: "commit", sha: "commit-sha" } } },
+      ]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      const commit: GitHubGitCommit = await github.commitFiles(repository, "master", [
+        { path: "a.sh", content: "A" },
+        { path: "b.txt" },
+        { path: "c.sh", content: "C", mode: "100755" },
+        { path: "link", content: "a.sh" },
+      ], "Change several files");
+      assert.strictEqual(commit.sha, "commit-sha");
+      assert.deepEqual(fakeOctokit.requestUrls, [
+        `${repositoryUrl}/git/ref/heads%2Fmaster`,
+        `${repositoryUrl}/git/commits/parent-sha`,
+        `${repositoryUrl}/git/trees/base-tree-sha?recursive=1`,
+        `${repositoryUrl}/git/blobs`,
+        `${repositoryUrl}/git/blobs`,
+        `${repositoryUrl}/git/blobs`,
+        `${repositoryUrl}/git/trees`,
+        `${repositoryUrl}/git/commits`,
+        `${repositoryUrl}/git/refs/heads%2Fmaster`,
+      ]);
+      assert.deepEqual(fakeOctokit.requestBodies.slice(3), [
+        { content: "QQ==", encoding: "base64" },
+        { content: "Qw==", encoding: "base64" },
+        { content: "YS5zaA==", encoding: "base64" },
+        {
+          base_tree: "base-tree-sha",
+          tree: [
+            { path: "a.sh", mode: "100755", type: "blob", sha: "blob-sha" },
+            // tslint:disable-next-line:no-null-keyword
+            { path: "b.txt", mode: "100644", type: "blob", sha: null },
+            { path: "c.sh", mode: "100755", type: "blob", sha: "new-blob-sha" },
+            { path: "link", mode: "120000", type: "blob", sha: "link-blob-sha" },
+          ],
+        },
+        { message: "Change several files", tree: "tree-sha", parents: ["parent-sha"] },
+        { sha: "commit-sha" },
+      ]);
+    });
+
+    it("commitFiles() with modes", async function () {
+      const fakeOctokit = new FakeOctokit([
+        { body: { ref: "refs/heads/master", object: { type: "commit", sha: "parent-sha" } } },
+        { body: { sha: "parent-sha", tree: { sha: "base-tree-sha" } } },
+        { status: 201, body: { sha: "blob-sha" } },
+        { status: 201, body: { sha: "tree-sha" } },
+        { status: 201, body: { sha: "commit-sha", message: "Add a script" } },
+        { body: { ref: "refs/heads/master", object: { type: "commit", sha: "commit-sha" } } },
+      ]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit);
+      await github.commitFiles(repository, "master", [{ path: "a.sh", content: "A", mode: "100755" }], "Add a script");
+      assert.strictEqual(fakeOctokit.requestUrls.length, 6);
+      assert.deepEqual(fakeOctokit.requestBodies[3], {
+        base_tree: "base-tree-sha",
+        tree: [{ path: "a.sh", mode: "100755", type: "blob", sha: "blob-sha" }],
+      });
+    });
+
+    it("with rate limit error and wait policy that would wait too long", async function () {
+      const clock = new FakeClock(new Date("2019-07-01T00:00:00Z"));
+      const fakeOctokit = new FakeOctokit([{
+        status: 403,
+        headers: { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1561939260" },
+        body: { message: "API rate limit exceeded" },
+      }]);
+      const github: RealGitHub = RealGitHub.fromOctokit(fakeOctokit.octokit, { clock, rateLimitPolicy: "wait", maxRateLimitWait: Duration.seconds(30) });
+      const error: Error = await assertEx.throwsAsync(github.getLabels(repository));
+      assert.strictEqual(error.message, "The GitHub API rate limit of 5000 requests has been used up. It will reset at 2019-07-01T00:01:00.000Z.");
+      assert.strictEqual(fakeOctokit.requestUrls.length, 1);
+    });
+  });
 });
 
+interface FakeResponse {
+  status?: number;
+  headers?: StringMap<string>;
+  body: any;
+}
+
+/**
+ * An Octokit client that responds to its requests with the provided responses in order.
+ */
+class FakeOctokit {
+  public readonly requestUrls: string[] = [];
+  public readonly requestBodies: any[] = [];
+  public readonly octokit: Octokit;
+
+  constructor(private readonly responses: FakeResponse[]) {
+    // The Octokit options type doesn't declare the fetch option even though it is supported.
+    const options: any = {
+      request: {
+        fetch: async (url: string, init: { body?: string }) => {
+          this.requestUrls.push(url);
+          this.requestBodies.push(init.body && JSON.parse(init.body));
+          const response: FakeResponse | undefined = this.responses.shift();
+          if (!response) {
+            throw new Error(`No fake response for "${url}".`);
+          }
+          return {
+            url,
+            status: response.status || 200,
+            headers: new Map<string, string>([["content-type", "application/json; charset=utf-8"], ...Object.entries(response.headers || {})]),
+            json: async () => response.body,
+            text: async () => JSON.stringify(response.body),
+          };
+        }
+      }
+    };
+    this.octokit = new Octokit(options);
+  }
+}
+
 function createFakeGitHub(): FakeGitHub {
   const fakeGitHub = new FakeGitHub();
 
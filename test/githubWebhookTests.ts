@@ -0,0 +1,169 @@
+import { assert } from "chai";
+import { assertEx } from "../lib/assertEx";
+import { FakeGitHub, GitHub, GitHubComment, GitHubIssue } from "../lib/github";
+import { getGitHubWebhookSignature, GitHubWebhookEvent, GitHubWebhookRouter, parseGitHubWebhookEvent, verifyGitHubWebhookSignature } from "../lib/githubWebhook";
+
+const repositoryPayload = {
+  id: 160226018,
+  node_id: "MDEwOlJlcG9zaXRvcnkxNjAyMjYwMTg=",
+  name: "azure-js-dev-tools",
+  full_name: "ts-common/azure-js-dev-tools",
+  owner: { id: 30236418, login: "ts-common", name: "ts-common", url: "https://api.github.com/users/ts-common" },
+  private: false,
+  html_url: "https://github.com/ts-common/azure-js-dev-tools",
+  default_branch: "master",
+};
+
+const senderPayload = { id: 1, login: "fakeUser", name: "fakeUser", url: "https://api.github.com/users/fakeUser" };
+
+function createIssuesBody(issueNumber: number): string {
+  return JSON.stringify({
+    action: "opened",
+    issue: {
+      id: 2,
+      node_id: "fake_node_id",
+      number: issueNumber,
+      title: "Fake Issue Title",
+      body: "Fake Issue Body",
+      state: "open",
+      labels: [],
+      user: senderPayload,
+      url: `https://api.github.com/repos/ts-common/azure-js-dev-tools/issues/${issueNumber}`,
+      html_url: `https://github.com/ts-common/azure-js-dev-tools/issues/${issueNumber}`,
+      created_at: "2019-07-01T00:00:00Z",
+      updated_at: "2019-07-01T00:00:00Z",
+    },
+    repository: repositoryPayload,
+    sender: senderPayload,
+  });
+}
+
+describe("githubWebhook.ts", function () {
+  const secret = "fake webhook secret";
+
+  it("getGitHubWebhookSignature()", function () {
+    assert.strictEqual(getGitHubWebhookSignature("Hello, World!", "It's a Secret to Everybody"), "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17");
+  });
+
+  describe("verifyGitHubWebhookSignature()", function () {
+    it("with matching signature", function () {
+      assert.strictEqual(verifyGitHubWebhookSignature("{}", getGitHubWebhookSignature("{}", secret), secret), true);
+    });
+
+    it("with matching signature and Buffer body", function () {
+      assert.strictEqual(verifyGitHubWebhookSignature(Buffer.from("{}"), getGitHubWebhookSignature("{}", secret), secret), true);
+    });
+
+    it("with signature from different secret", function () {
+      assert.strictEqual(verifyGitHubWebhookSignature("{}", getGitHubWebhookSignature("{}", "other secret"), secret), false);
+    });
+
+    it("with truncated signature", function () {
+      assert.strictEqual(verifyGitHubWebhookSignature("{}", getGitHubWebhookSignature("{}", secret).substring(0, 20), secret), false);
+    });
+
+    it("with undefined signature", function () {
+      assert.strictEqual(verifyGitHubWebhookSignature("{}", undefined, secret), false);
+    });
+  });
+
+  describe("parseGitHubWebhookEvent()", function () {
+    it("with issues event", function () {
+      const body: string = createIssuesBody(114);
+      const event: GitHubWebhookEvent | undefined = parseGitHubWebhookEvent({ "X-GitHub-Event": "issues", "X-GitHub-Delivery": "fake-delivery-id" }, body);
+      assertEx.defined(event, "event");
+      assert.strictEqual(event!.name, "issues");
+      assert.strictEqual(event!.deliveryId, "fake-delivery-id");
+      assert.deepEqual(event!.payload, JSON.parse(body));
+    });
+
+    it("with lowercase headers and valid signature", function () {
+      const body: string = JSON.stringify({ ref: "refs/heads/master", before: "0000000", after: "1111111", commits: [], repository: repositoryPayload, sender: senderPayload });
+      const event: GitHubWebhookEvent | undefined = parseGitHubWebhookEvent({ "x-github-event": "push", "x-hub-signature-256": getGitHubWebhookSignature(body, secret) }, body, { secret });
+      assertEx.defined(event, "event");
+      assert.strictEqual(event!.name, "push");
+      assert.strictEqual(event!.deliveryId, undefined);
+    });
+
+    it("with invalid signature", function () {
+      const body: string = createIssuesBody(114);
+      assert.throws(() => parseGitHubWebhookEvent({ "X-GitHub-Event": "issues", "X-Hub-Signature-256": getGitHubWebhookSignature(body, "other secret") }, body, { secret }),
+        "The webhook request's X-Hub-Signature-256 header doesn't match its body.");
+    });
+
+    it("with missing signature", function () {
+      assert.throws(() => parseGitHubWebhookEvent({ "X-GitHub-Event": "issues" }, createIssuesBody(114), { secret }),
+        "The webhook request's X-Hub-Signature-256 header doesn't match its body.");
+    });
+
+    it("with missing event header", function () {
+      assert.throws(() => parseGitHubWebhookEvent({}, createIssuesBody(114)), "The webhook request doesn't have an X-GitHub-Event header.");
+    });
+
+    it("with unsupported event", function () {
+      assert.strictEqual(parseGitHubWebhookEvent({ "X-GitHub-Event": "ping" }, `{"zen":"Keep it logically awesome."}`), undefined);
+    });
+
+    it("with invalid JSON body", function () {
+      assert.throws(() => parseGitHubWebhookEvent({ "X-GitHub-Event": "issues" }, "not json"), /^The body of the issues webhook request isn't valid JSON: /);
+    });
+  });
+
+  describe("GitHubWebhookRouter", function () {
+    it("dispatch() with no handlers", async function () {
+      const router = new GitHubWebhookRouter(new FakeGitHub());
+      const event: GitHubWebhookEvent = parseGitHubWebhookEvent({ "X-GitHub-Event": "issues" }, createIssuesBody(114))!;
+      assert.strictEqual(await router.dispatch(event), 0);
+    });
+
+    it("dispatch() runs only the handlers for the event in order", async function () {
+      const fakeGitHub = new FakeGitHub();
+      const calls: string[] = [];
+      const router = new GitHubWebhookRouter(fakeGitHub)
+        .on("issues", async (event: GitHubWebhookEvent<"issues">, github: GitHub) => {
+          assert.strictEqual(github, fakeGitHub);
+          calls.push(`first ${event.payload.action} ${event.payload.issue.number}`);
+        })
+        .on("push", () => calls.push("push"))
+        .on("issues", () => calls.push("second"));
+      const event: GitHubWebhookEvent = parseGitHubWebhookEvent({ "X-GitHub-Event": "issues" }, createIssuesBody(114))!;
+      assert.strictEqual(await router.dispatch(event), 2);
+      assert.deepEqual(calls, ["first opened 114", "second"]);
+    });
+
+    it("handle() with a bot that comments on opened issues", async function () {
+      const repository = "ts-common/azure-js-dev-tools";
+      const fakeGitHub = new FakeGitHub();
+      fakeGitHub.createUser("fakeUser");
+      fakeGitHub.setCurrentUser("fakeUser");
+      fakeGitHub.createRepository(repository);
+      const issue: GitHubIssue = await fakeGitHub.createIssue(repository, "Fake Issue Title");
+
+      const router = new GitHubWebhookRouter(fakeGitHub, { secret })
+        .on("issues", async (event: GitHubWebhookEvent<"issues">, github: GitHub) => {
+          if (event.payload.action === "opened") {
+            await github.createIssueComment(event.payload.repository.full_name, event.payload.issue.number, "Thanks for opening this issue!");
+          }
+        });
+      const body: string = createIssuesBody(issue.number);
+      const event: GitHubWebhookEvent | undefined = await router.handle({ "X-GitHub-Event": "issues", "X-Hub-Signature-256": getGitHubWebhookSignature(body, secret) }, body);
+      assertEx.defined(event, "event");
+      assert.deepEqual((await fakeGitHub.getIssueComments(repository, issue)).map((comment: GitHubComment) => comment.body), ["Thanks for opening this issue!"]);
+    });
+
+    it("handle() with unsupported event", async function () {
+      let called = false;
+      const router = new GitHubWebhookRouter(new FakeGitHub()).on("issues", () => called = true);
+      assert.strictEqual(await router.handle({ "X-GitHub-Event": "ping" }, "{}"), undefined);
+      assert.strictEqual(called, false);
+    });
+
+    it("handle() with invalid signature", async function () {
+      let called = false;
+      const router = new GitHubWebhookRouter(new FakeGitHub(), { secret }).on("issues", () => called = true);
+      const error: Error = await assertEx.throwsAsync(router.handle({ "X-GitHub-Event": "issues", "X-Hub-Signature-256": "sha256=0" }, createIssuesBody(114)));
+      assert.strictEqual(error.message, "The webhook request's X-Hub-Signature-256 header doesn't match its body.");
+      assert.strictEqual(called, false);
+    });
+  });
+});
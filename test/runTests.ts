@@ -693,6 +693,13 @@ describe("run.ts", function () {
       assertEx.contains(capturedOutput, "README.md");
     });
 
+    it("with node and input", async function () {
+      const result: RunResult = await run("node", ["-e", "process.stdin.pipe(process.stdout)"], { input: "hello\nworld\n" });
+      assert.strictEqual(result.exitCode, 0);
+      assert.strictEqual(result.stdout, "hello\nworld\n");
+      assert.strictEqual(result.stderr, "");
+    });
+
     it("with non-existing executionFolderPath", async function () {
       const result: RunResult = await run("dir", [], { executionFolderPath: "/i/dont/exist" });
       assertEx.defined(result);
@@ -0,0 +1,266 @@
+import { getInMemoryLogger, InMemoryLogger } from "@azure/logger-js";
+import { assert } from "chai";
+import { FakeClock } from "../lib/clock";
+import { createTemporaryFolder, deleteFolder, writeFileContents } from "../lib/fileSystem2";
+import { FakeGitHub, GitHubSprintMilestone } from "../lib/github";
+import { joinPath } from "../lib/path";
+import { applySprintPlan, parseSprintPlanningConfig, planSprints, planSprintsCommand, SprintPlan, SprintPlanningConfig } from "../lib/sprintPlanning";
+
+const repository = "ts-common/azure-js-dev-tools";
+const clock = new FakeClock(new Date("2019-03-01T12:00:00Z"));
+
+const config: SprintPlanningConfig = {
+  repositories: [repository],
+  sprintLabels: [
+    { sprint: 131, unplannedColor: "fcf76c", plannedColor: "ea7e56", startedColor: "5e6fd1" },
+    { sprint: 132, unplannedColor: "fcf76c", plannedColor: "ea7e56", startedColor: "5e6fd1" },
+  ],
+  sprintMilestones: [
+    { sprint: 130, endDate: "2019-02-04" },
+    { sprint: 131, endDate: "2019-02-25" },
+    { sprint: 132, endDate: "2019-03-18" },
+    { sprint: 133, endDate: "2019-04-08" },
+  ],
+};
+
+async function createFakeGitHub(): Promise<FakeGitHub> {
+  const fakeGitHub = new FakeGitHub();
+  fakeGitHub.createRepository(repository);
+  await fakeGitHub.createLabel(repository, "Unplanned-Sprint-131", "fcf76c");
+  await fakeGitHub.createLabel(repository, "Planned-Sprint-131", "ededed");
+  await fakeGitHub.createSprintMilestone(repository, 130, "2019-02-04");
+  await fakeGitHub.createSprintMilestone(repository, 131, "2019-02-25");
+  await fakeGitHub.createSprintMilestone(repository, 132, "2019-03-11");
+  return fakeGitHub;
+}
+
+function getMilestoneSummaries(milestones: GitHubSprintMilestone[]): string[] {
+  return milestones.map((milestone: GitHubSprintMilestone) => `${milestone.sprint} ${milestone.endDate} ${milestone.open ? "open" : "closed"}`);
+}
+
+describe("sprintPlanning.ts", function () {
+  describe("parseSprintPlanningConfig()", function () {
+    it("with YAML", function () {
+      assert.deepEqual(parseSprintPlanningConfig([
+        "repositories:",
+        "  - ts-common/azure-js-dev-tools",
+        "sprintLabels:",
+        "  - sprint: 131",
+        "    plannedColor: '#EA7E56'",
+        "sprintMilestones:",
+        "  - sprint: 131",
+        "    endDate: 2019-02-25T00:00:00Z",
+      ].join("\n")), {
+        repositories: ["ts-common/azure-js-dev-tools"],
+        sprintLabels: [{ sprint: 131, plannedColor: "ea7e56" }],
+        sprintMilestones: [{ sprint: 131, endDate: "2019-02-25" }],
+      });
+    });
+
+    it("with JSON", function () {
+      assert.deepEqual(parseSprintPlanningConfig(JSON.stringify({ repositories: [repository], sprintMilestones: [{ sprint: 131, endDate: "2019-02-25" }] })), {
+        repositories: [repository],
+        sprintLabels: undefined,
+        sprintMilestones: [{ sprint: 131, endDate: "2019-02-25" }],
+      });
+    });
+
+    it("with no repositories", function () {
+      assert.throws(() => parseSprintPlanningConfig("sprintLabels: []"), `A sprint planning config must have a "repositories" array of strings.`);
+    });
+
+    it("with sprint label without a sprint", function () {
+      assert.throws(() => parseSprintPlanningConfig(`{ "repositories": [], "sprintLabels": [{ "plannedColor": "ea7e56" }] }`),
+        `The "sprintLabels" property of a sprint planning config must be an array of objects that each have a "sprint" number.`);
+    });
+
+    it("with sprint milestone without an end date", function () {
+      assert.throws(() => parseSprintPlanningConfig(`{ "repositories": [], "sprintMilestones": [{ "sprint": 131 }] }`),
+        `The milestone for sprint 131 in the sprint planning config must have an "endDate".`);
+    });
+  });
+
+  describe("planSprints()", function () {
+    it("with changes", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub();
+      const plan: SprintPlan = await planSprints(fakeGitHub, config, { clock });
+      assert.deepEqual(plan, {
+        repositories: [
+          {
+            repository,
+            missingLabels: [
+              { labelName: "Started-Sprint-131", color: "5e6fd1" },
+              { labelName: "Unplanned-Sprint-132", color: "fcf76c" },
+              { labelName: "Planned-Sprint-132", color: "ea7e56" },
+              { labelName: "Started-Sprint-132", color: "5e6fd1" },
+            ],
+            wrongLabelColors: [
+              { labelName: "Planned-Sprint-131", color: "ea7e56", actualColor: "ededed" },
+            ],
+            missingMilestones: [
+              { sprint: 133, endDate: "2019-04-08" },
+            ],
+            wrongMilestoneEndDates: [
+              { sprint: 132, milestoneNumber: 3, endDate: "2019-03-18", actualEndDate: "2019-03-11" },
+            ],
+            milestonesToClose: [
+              { sprint: 130, milestoneNumber: 1 },
+              { sprint: 131, milestoneNumber: 2 },
+            ],
+            problems: [],
+          },
+        ],
+      });
+    });
+
+    it("with past milestone that has open issues", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub();
+      (await fakeGitHub.getMilestone(repository, 2)).open_issues = 1;
+      const plan: SprintPlan = await planSprints(fakeGitHub, config, { clock });
+      assert.deepEqual(plan.repositories[0].milestonesToClose, [{ sprint: 130, milestoneNumber: 1 }]);
+      assert.deepEqual(plan.repositories[0].problems, ["Milestone Sprint-131 is past its end date and it has open issues."]);
+    });
+
+    it("with missing milestone that is past its end date", async function () {
+      const fakeGitHub = new FakeGitHub();
+      fakeGitHub.createRepository(repository);
+      const plan: SprintPlan = await planSprints(fakeGitHub, { repositories: [repository], sprintMilestones: [{ sprint: 130, endDate: "2019-02-04" }] }, { clock });
+      assert.deepEqual(plan.repositories[0].missingMilestones, [{ sprint: 130, endDate: "2019-02-04" }]);
+      assert.deepEqual(plan.repositories[0].milestonesToClose, [{ sprint: 130, milestoneNumber: undefined }]);
+    });
+  });
+
+  describe("applySprintPlan()", function () {
+    it("with changes", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub();
+      const logger: InMemoryLogger = getInMemoryLogger();
+      const plan: SprintPlan = await planSprints(fakeGitHub, config, { clock });
+      assert.strictEqual(await applySprintPlan(fakeGitHub, plan, { logger }), 0);
+      assert.deepEqual(await fakeGitHub.getSprintLabels(repository), [
+        { sprint: 131, unplannedColor: "fcf76c", plannedColor: "ea7e56", startedColor: "5e6fd1" },
+        { sprint: 132, unplannedColor: "fcf76c", plannedColor: "ea7e56", startedColor: "5e6fd1" },
+      ]);
+      assert.deepEqual(getMilestoneSummaries(await fakeGitHub.getSprintMilestones(repository)), [
+        "130 2019-02-04 closed",
+        "131 2019-02-25 closed",
+        "132 2019-03-18 open",
+        "133 2019-04-08 open",
+      ]);
+      assert.deepEqual(logger.allLogs, [
+        `Planning sprints in "ts-common/azure-js-dev-tools"...`,
+        `Create label "Started-Sprint-131" with color "5e6fd1".`,
+        `Create label "Unplanned-Sprint-132" with color "fcf76c".`,
+        `Create label "Planned-Sprint-132" with color "ea7e56".`,
+        `Create label "Started-Sprint-132" with color "5e6fd1".`,
+        `Change the color of label "Planned-Sprint-131" from "ededed" to "ea7e56".`,
+        `Create milestone "Sprint-133" with end date 2019-04-08.`,
+        `Change the end date of milestone "Sprint-132" from 2019-03-11 to 2019-03-18.`,
+        `Close milestone "Sprint-130".`,
+        `Close milestone "Sprint-131".`,
+      ]);
+      assert.deepEqual(await planSprints(fakeGitHub, config, { clock }), {
+        repositories: [{ repository, missingLabels: [], wrongLabelColors: [], missingMilestones: [], wrongMilestoneEndDates: [], milestonesToClose: [], problems: [] }],
+      });
+    });
+
+    it("with dry run", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub();
+      const logger: InMemoryLogger = getInMemoryLogger();
+      const plan: SprintPlan = await planSprints(fakeGitHub, { repositories: [repository], sprintMilestones: [{ sprint: 132, endDate: "2019-03-18" }] }, { clock });
+      assert.strictEqual(await applySprintPlan(fakeGitHub, plan, { dryRun: true, logger }), 0);
+      assert.deepEqual(getMilestoneSummaries(await fakeGitHub.getSprintMilestones(repository)), [
+        "130 2019-02-04 open",
+        "131 2019-02-25 open",
+        "132 2019-03-11 open",
+      ]);
+      assert.deepEqual(logger.allLogs, [
+        `Planning sprints in "ts-common/azure-js-dev-tools" (dry run)...`,
+        `[dry run] Change the end date of milestone "Sprint-132" from 2019-03-11 to 2019-03-18.`,
+      ]);
+    });
+
+    it("with missing milestone that is past its end date", async function () {
+      const fakeGitHub = new FakeGitHub();
+      fakeGitHub.createRepository(repository);
+      const plan: SprintPlan = await planSprints(fakeGitHub, { repositories: [repository], sprintMilestones: [{ sprint: 130, endDate: "2019-02-04" }] }, { clock });
+      assert.strictEqual(await applySprintPlan(fakeGitHub, plan, { logger: getInMemoryLogger() }), 0);
+      assert.deepEqual(getMilestoneSummaries(await fakeGitHub.getSprintMilestones(repository)), ["130 2019-02-04 closed"]);
+    });
+
+    it("with failed change and problem", async function () {
+      const fakeGitHub: FakeGitHub = await createFakeGitHub();
+      const logger: InMemoryLogger = getInMemoryLogger();
+      const plan: SprintPlan = {
+        repositories: [{
+          repository,
+          missingLabels: [],
+          wrongLabelColors: [],
+          missingMilestones: [],
+          wrongMilestoneEndDates: [],
+          milestonesToClose: [{ sprint: 140, milestoneNumber: 40 }, { sprint: 130, milestoneNumber: 1 }],
+          problems: ["Milestone Sprint-131 is past its end date and it has open issues."],
+        }],
+      };
+      assert.strictEqual(await applySprintPlan(fakeGitHub, plan, { logger }), 1);
+      assert.deepEqual(getMilestoneSummaries(await fakeGitHub.getSprintMilestones(repository, { open: false })), ["130 2019-02-04 closed"]);
+      assert.deepEqual(logger.errorLogs, [`Failed to close milestone "Sprint-140": No milestone found with the id number 40 in the fake repository "${repository}".`]);
+      assert.deepEqual(logger.warningLogs, ["Milestone Sprint-131 is past its end date and it has open issues."]);
+    });
+  });
+
+  describe("planSprintsCommand()", function () {
+    it("with config file", async function () {
+      const folderPath: string = await createTemporaryFolder();
+      try {
+        const configFilePath: string = joinPath(folderPath, "planning.json");
+        await writeFileContents(configFilePath, JSON.stringify({ repositories: [repository, "ts-common/not-a-repository"], sprintMilestones: [{ sprint: 133, endDate: "2019-04-08" }] }));
+        const fakeGitHub: FakeGitHub = await createFakeGitHub();
+        const logger: InMemoryLogger = getInMemoryLogger();
+        const exitCode: number = await planSprintsCommand({ configFilePath, github: fakeGitHub, dryRun: false, logger, clock });
+        assert.strictEqual(exitCode, 1);
+        assert.deepEqual(logger.errorLogs, [`Failed to plan the sprints in "ts-common/not-a-repository": No fake repository exists with the name "ts-common/not-a-repository".`]);
+        assert.strictEqual((await fakeGitHub.getSprintMilestones(repository)).length, 4);
+      } finally {
+        process.exitCode = 0;
+        await deleteFolder(folderPath);
+      }
+    });
+
+    it("with config file and dry run", async function () {
+      const folderPath: string = await createTemporaryFolder();
+      try {
+        const configFilePath: string = joinPath(folderPath, "planning.yml");
+        await writeFileContents(configFilePath, [
+          "repositories:",
+          `  - ${repository}`,
+          "sprintMilestones:",
+          "  - sprint: 133",
+          "    endDate: 2019-04-08",
+        ].join("\n"));
+        const fakeGitHub: FakeGitHub = await createFakeGitHub();
+        const logger: InMemoryLogger = getInMemoryLogger();
+        const exitCode: number = await planSprintsCommand({ configFilePath, github: fakeGitHub, dryRun: true, logger, clock });
+        assert.strictEqual(exitCode, 0);
+        assert.deepEqual(logger.allLogs, [
+          `Planning sprints in "ts-common/azure-js-dev-tools" (dry run)...`,
+          `[dry run] Create milestone "Sprint-133" with end date 2019-04-08.`,
+        ]);
+        assert.strictEqual((await fakeGitHub.getSprintMilestones(repository)).length, 3);
+      } finally {
+        process.exitCode = 0;
+        await deleteFolder(folderPath);
+      }
+    });
+
+    it("with config file that doesn't exist", async function () {
+      const logger: InMemoryLogger = getInMemoryLogger();
+      try {
+        const exitCode: number = await planSprintsCommand({ configFilePath: "/not/a/planning.json", github: await createFakeGitHub(), dryRun: false, logger, clock });
+        assert.strictEqual(exitCode, 1);
+        assert.deepEqual(logger.errorLogs, [`No sprint planning config file exists at "/not/a/planning.json".`]);
+      } finally {
+        process.exitCode = 0;
+      }
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { assert } from "chai";
+import { Version } from "../lib/version";
+
+function compare(lhs: string, rhs: string): number {
+  return Math.sign(new Version(lhs).compareTo(new Version(rhs)));
+}
+
+describe("version.ts", function () {
+  describe("Version", function () {
+    describe("compareTo()", function () {
+      it("with equal versions", function () {
+        assert.strictEqual(compare("1.2.3", "1.2.3"), 0);
+        assert.strictEqual(compare("1.2.3-beta.1", "1.2.3-beta.1"), 0);
+      });
+
+      it("with different major, minor, and patch numbers", function () {
+        assert.strictEqual(compare("2.0.0", "1.9.9"), 1);
+        assert.strictEqual(compare("1.10.0", "1.9.0"), 1);
+        assert.strictEqual(compare("1.0.9", "1.0.10"), -1);
+      });
+
+      it("with and without a prerelease suffix", function () {
+        assert.strictEqual(compare("1.0.0-beta.1", "1.0.0"), -1);
+        assert.strictEqual(compare("1.0.0", "1.0.0-beta.1"), 1);
+        assert.strictEqual(compare("1.0.1-beta.1", "1.0.0"), 1);
+      });
+
+      it("with numeric prerelease identifiers", function () {
+        assert.strictEqual(compare("1.0.0-beta.10", "1.0.0-beta.2"), 1);
+        assert.strictEqual(compare("1.0.0-beta.2", "1.0.0-beta.10"), -1);
+        assert.strictEqual(compare("1.0.0-2", "1.0.0-10"), -1);
+      });
+
+      it("with alphanumeric prerelease identifiers", function () {
+        assert.strictEqual(compare("1.0.0-alpha", "1.0.0-beta"), -1);
+        assert.strictEqual(compare("1.0.0-beta.2", "1.0.0-rc.1"), -1);
+        assert.strictEqual(compare("1.0.0-alpha.1", "1.0.0-alpha.beta"), -1);
+      });
+
+      it("with prerelease suffixes that have different numbers of identifiers", function () {
+        assert.strictEqual(compare("1.0.0-alpha", "1.0.0-alpha.1"), -1);
+        assert.strictEqual(compare("1.0.0-alpha.1", "1.0.0-alpha"), 1);
+      });
+    });
+  });
+});